@@ -5,17 +5,26 @@
  * They are marked as integration tests and can be skipped in CI if needed
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import {
   fetchProducts,
   fetchProductsByCategory,
   fetchProductsWithCache,
   clearProductCache,
 } from '../../lib/productUtils';
+import { setCatalogProvider } from '../../lib/catalogProvider';
+import { createFakeStoreProvider } from '../../lib/catalogAdapters';
 
 describe('productUtils integration', () => {
   // These tests make real API calls, so they may be slower
   // and could fail if the API is down
+  beforeAll(() => {
+    setCatalogProvider(createFakeStoreProvider());
+  });
+
+  afterAll(() => {
+    setCatalogProvider(null);
+  });
   
   it('should fetch real products from Fake Store API', async () => {
     const products = await fetchProducts();
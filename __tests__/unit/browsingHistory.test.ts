@@ -0,0 +1,169 @@
+/**
+ * Unit tests for browsing history
+ *
+ * Tests recording locations, back/forward moves, search refinement,
+ * the entry limit, URL state, and mirroring into the browser history
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  BrowsingLocation,
+  canGoBack,
+  canGoForward,
+  createBrowsingHistory,
+  describeLocation,
+  getCurrentLocation,
+  getHistoryPosition,
+  goToHistoryIndex,
+  goToHistoryPosition,
+  MAX_HISTORY_ENTRIES,
+  recordLocation,
+} from '@/lib/browsingHistory';
+import { useBrowsingHistory } from '@/lib/useBrowsingHistory';
+import { locationToSearch, parseLocationFromSearch } from '@/lib/urlState';
+
+const home: BrowsingLocation = { category: 'all', searchQuery: '', productId: null, cartOpen: false, watchlistOpen: false };
+const electronics: BrowsingLocation = { ...home, category: 'electronics' };
+const monitor: BrowsingLocation = { ...electronics, productId: 9 };
+
+describe('recordLocation', () => {
+  it('should add new locations and ignore repeats', () => {
+    let history = createBrowsingHistory(home);
+    history = recordLocation(history, electronics).history;
+    history = recordLocation(history, monitor).history;
+
+    expect(recordLocation(history, monitor)).toEqual({ history, replaced: true });
+    expect(history.entries).toEqual([home, electronics, monitor]);
+    expect(canGoBack(history)).toBe(true);
+    expect(canGoForward(history)).toBe(false);
+  });
+
+  it('should drop forward entries after going back and visiting somewhere new', () => {
+    let history = createBrowsingHistory(home);
+    history = recordLocation(history, electronics).history;
+    history = recordLocation(history, monitor).history;
+    history = goToHistoryIndex(history, 1);
+
+    expect(canGoForward(history)).toBe(true);
+
+    const cart = { ...electronics, cartOpen: true };
+    history = recordLocation(history, cart).history;
+
+    expect(history.entries).toEqual([home, electronics, cart]);
+    expect(canGoForward(history)).toBe(false);
+  });
+
+  it('should replace the entry while a search query is being typed', () => {
+    let history = createBrowsingHistory(home);
+    history = recordLocation(history, { ...home, searchQuery: 'b' }).history;
+    const refined = recordLocation(history, { ...home, searchQuery: 'bag' });
+
+    expect(refined.replaced).toBe(true);
+    expect(refined.history.entries).toEqual([home, { ...home, searchQuery: 'bag' }]);
+  });
+
+  it('should keep positions stable when old entries are dropped', () => {
+    let history = createBrowsingHistory(home);
+    for (let id = 1; id <= MAX_HISTORY_ENTRIES + 5; id++) {
+      history = recordLocation(history, { ...home, productId: id }).history;
+    }
+
+    expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(getHistoryPosition(history)).toBe(MAX_HISTORY_ENTRIES + 5);
+    expect(getCurrentLocation(goToHistoryPosition(history, 50)).productId).toBe(50);
+    expect(goToHistoryPosition(history, 2)).toBe(history);
+  });
+});
+
+describe('describeLocation', () => {
+  it('should name the cart, product, search or category', () => {
+    const products = [{ id: 9, title: 'Gaming Monitor' }] as Parameters<typeof describeLocation>[1];
+
+    expect(describeLocation({ ...monitor, cartOpen: true }, products)).toBe('the cart');
+    expect(describeLocation({ ...electronics, watchlistOpen: true }, products)).toBe('the watchlist');
+    expect(describeLocation(monitor, products)).toBe('Gaming Monitor');
+    expect(describeLocation({ ...home, searchQuery: 'ring' }, products)).toBe('search results for "ring"');
+    expect(describeLocation(electronics, products)).toBe('electronics');
+  });
+});
+
+describe('URL state', () => {
+  it('should round-trip a location through the query string', () => {
+    const location = { category: "men's clothing", searchQuery: 'cotton jacket', productId: 3, cartOpen: true, watchlistOpen: false };
+
+    expect(locationToSearch(location)).toBe("?category=men%27s+clothing&q=cotton+jacket&product=3&cart=open");
+    expect(parseLocationFromSearch(locationToSearch(location))).toEqual(location);
+    expect(parseLocationFromSearch('?watchlist=open')).toEqual({ ...home, watchlistOpen: true });
+  });
+
+  it('should give the home view a clean URL', () => {
+    expect(locationToSearch(home)).toBe('');
+    expect(parseLocationFromSearch('')).toBeNull();
+    expect(parseLocationFromSearch('?utm_source=mail')).toBeNull();
+  });
+
+  it('should fall back to defaults for malformed values', () => {
+    expect(parseLocationFromSearch('?product=abc&cart=yes&category=')).toEqual(home);
+    expect(parseLocationFromSearch('?product=0')).toEqual(home);
+  });
+});
+
+describe('useBrowsingHistory', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should push browser entries and restore the location on popstate', () => {
+    const restore = vi.fn();
+    const pushState = vi.spyOn(window.history, 'pushState');
+    const { result, rerender } = renderHook(
+      ({ location }) => useBrowsingHistory(location, restore),
+      { initialProps: { location: home } }
+    );
+
+    rerender({ location: electronics });
+
+    expect(pushState).toHaveBeenCalledWith(
+      expect.objectContaining({ kaldiHistoryPosition: 1 }),
+      '',
+      '/?category=electronics'
+    );
+    expect(result.current.canGoBack).toBe(true);
+
+    act(() => {
+      window.dispatchEvent(new PopStateEvent('popstate', { state: { kaldiHistoryPosition: 0 } }));
+    });
+
+    expect(restore).toHaveBeenCalledWith(home);
+    expect(result.current.canGoForward).toBe(true);
+
+    // Showing the restored location is not recorded as a new visit
+    rerender({ location: home });
+
+    expect(result.current.canGoForward).toBe(true);
+    pushState.mockRestore();
+  });
+
+  it('should show the location from the URL once ready, correcting what could not be shown', () => {
+    window.history.replaceState(null, '', '/?category=electronics&product=99');
+    const restore = vi.fn(() => electronics);
+    const { rerender } = renderHook(
+      ({ location, ready }) => useBrowsingHistory(location, restore, { ready }),
+      { initialProps: { location: home, ready: false } }
+    );
+
+    expect(restore).not.toHaveBeenCalled();
+
+    rerender({ location: home, ready: true });
+
+    expect(restore).toHaveBeenCalledWith({ ...electronics, productId: 99 });
+    expect(window.location.search).toBe('?category=electronics');
+  });
+
+  it('should report nothing to go back to at the start', () => {
+    const { result } = renderHook(() => useBrowsingHistory(home, vi.fn()));
+
+    expect(result.current.goBack()).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for cart undo and redo
+ *
+ * Tests logging changes, undoing and redoing them in order, and the bound on
+ * how many changes are kept.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CartHistory,
+  createCartHistory,
+  isDestructiveCartAction,
+  recordCartChange,
+  redoCartChange,
+  undoCartChange,
+} from '@/lib/cartHistory';
+import { addToCart, clearCart } from '@/lib/cartUtils';
+import { CartState, Product } from '@/lib/types';
+
+const backpack: Product = {
+  id: 1,
+  title: 'Test Backpack',
+  price: 29.99,
+  description: 'Test description',
+  category: 'electronics',
+  image: 'https://example.com/image1.jpg',
+  rating: { rate: 4.6, count: 250 },
+};
+
+const oneBackpack = addToCart(clearCart(), backpack, 1);
+const threeBackpacks = addToCart(oneBackpack, backpack, 2);
+
+function record(history: CartHistory, before: CartState, after: CartState): CartHistory {
+  return recordCartChange(history, { action: 'add', description: 'added a backpack', before, after });
+}
+
+describe('cart history', () => {
+  it('should undo changes newest first, then redo them', () => {
+    const history = record(record(createCartHistory(), clearCart(), oneBackpack), oneBackpack, threeBackpacks);
+
+    const firstUndo = undoCartChange(history)!;
+    expect(firstUndo.entry.before).toBe(oneBackpack);
+    const secondUndo = undoCartChange(firstUndo.history)!;
+    expect(secondUndo.entry.before).toEqual(clearCart());
+    expect(undoCartChange(secondUndo.history)).toBeNull();
+
+    const redo = redoCartChange(secondUndo.history)!;
+    expect(redo.entry.after).toBe(oneBackpack);
+    expect(redo.entry.id).toBe(1);
+  });
+
+  it('should drop undone changes once a new change is made', () => {
+    const history = record(createCartHistory(), clearCart(), oneBackpack);
+    const { history: undone } = undoCartChange(history)!;
+
+    const changed = record(undone, clearCart(), threeBackpacks);
+
+    expect(changed.redo).toEqual([]);
+    expect(redoCartChange(changed)).toBeNull();
+  });
+
+  it('should keep only the latest changes', () => {
+    let history = createCartHistory();
+    for (let i = 0; i < 5; i++) {
+      history = recordCartChange(
+        history,
+        { action: 'updateQuantity', description: `change ${i}`, before: oneBackpack, after: threeBackpacks },
+        3
+      );
+    }
+
+    expect(history.undo.map((entry) => entry.description)).toEqual(['change 2', 'change 3', 'change 4']);
+  });
+
+  it('should treat removing and clearing as destructive', () => {
+    expect(isDestructiveCartAction('clear')).toBe(true);
+    expect(isDestructiveCartAction('remove')).toBe(true);
+    expect(isDestructiveCartAction('add')).toBe(false);
+  });
+});
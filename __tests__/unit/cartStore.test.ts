@@ -0,0 +1,110 @@
+/**
+ * Unit tests for cart storage
+ *
+ * Tests migrating saved carts between schema versions, rejecting carts from
+ * newer builds, and the memory store used for tests and cross-tab sync.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  CART_SCHEMA_VERSION,
+  createMemoryCartStore,
+  getPersistedCartSignature,
+  migratePersistedCart,
+  parsePersistedCart,
+} from '@/lib/cartStore';
+
+describe('migratePersistedCart', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should upgrade an unversioned cart to the current version', () => {
+    const migrated = migratePersistedCart({
+      items: [{ productId: 1, quantity: 2 }],
+      couponCode: 'FLAT200',
+      lastUpdated: '2026-03-01T00:00:00.000Z',
+    });
+
+    expect(migrated).toEqual({
+      version: CART_SCHEMA_VERSION,
+      items: [{ productId: 1, quantity: 2 }],
+      couponCode: 'FLAT200',
+      lastUpdated: '2026-03-01T00:00:00.000Z',
+    });
+  });
+
+  it('should keep a current cart as it is', () => {
+    const saved = {
+      version: CART_SCHEMA_VERSION,
+      items: [{ productId: 3, quantity: 1, title: 'Test Jacket' }],
+      lastUpdated: '2026-03-01T00:00:00.000Z',
+    };
+
+    expect(migratePersistedCart(saved)).toEqual(saved);
+  });
+
+  it('should drop malformed items but keep the rest', () => {
+    const migrated = migratePersistedCart({
+      version: CART_SCHEMA_VERSION,
+      items: [{ productId: 1, quantity: 2 }, { productId: '2', quantity: 1 }, { productId: 3, quantity: 0 }, null],
+      lastUpdated: '2026-03-01T00:00:00.000Z',
+    });
+
+    expect(migrated?.items).toEqual([{ productId: 1, quantity: 2 }]);
+  });
+
+  it('should not read a cart saved by a newer build', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(migratePersistedCart({ version: CART_SCHEMA_VERSION + 1, items: [] })).toBeNull();
+  });
+
+  it('should reject data that is not a cart', () => {
+    expect(migratePersistedCart(null)).toBeNull();
+    expect(migratePersistedCart({ items: 'none' })).toBeNull();
+  });
+});
+
+describe('parsePersistedCart', () => {
+  it('should return null for nothing saved or corrupt JSON', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(parsePersistedCart(null)).toBeNull();
+    expect(parsePersistedCart('{not json')).toBeNull();
+
+    vi.restoreAllMocks();
+  });
+});
+
+describe('getPersistedCartSignature', () => {
+  it('should ignore titles and when the cart was saved', () => {
+    const first = { version: 2, items: [{ productId: 1, quantity: 2 }], lastUpdated: '2026-03-01T00:00:00.000Z' };
+    const second = { version: 2, items: [{ productId: 1, quantity: 2, title: 'Test' }], lastUpdated: '2026-03-02T00:00:00.000Z' };
+
+    expect(getPersistedCartSignature(first)).toBe(getPersistedCartSignature(second));
+    expect(getPersistedCartSignature(first)).not.toBe(getPersistedCartSignature({ ...first, couponCode: 'FLAT200' }));
+  });
+
+  it('should treat no cart like an empty one', () => {
+    expect(getPersistedCartSignature(null)).toBe(
+      getPersistedCartSignature({ version: 2, items: [], lastUpdated: '' })
+    );
+  });
+});
+
+describe('createMemoryCartStore', () => {
+  it('should notify subscribers of writes and clears until they unsubscribe', () => {
+    const store = createMemoryCartStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.write('{"items":[]}');
+    store.clear();
+    unsubscribe();
+    store.write('{"items":[]}');
+
+    expect(listener.mock.calls).toEqual([['{"items":[]}'], [null]]);
+    expect(store.read()).toBe('{"items":[]}');
+  });
+});
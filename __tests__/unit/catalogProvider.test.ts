@@ -0,0 +1,272 @@
+/**
+ * Unit tests for catalog providers
+ *
+ * Tests the provider registry, the JSON-file adapter, the generic REST adapter
+ * with field mapping, the catalog API adapter, and the Fake Store single-product lookup
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createCatalogProvider,
+  getCatalogProvider,
+  setCatalogProvider,
+  CatalogProvider,
+} from '@/lib/catalogProvider';
+import {
+  createFakeStoreProvider,
+  createJsonFileProvider,
+  createRestProvider,
+  createApiProvider,
+  mapRestRecord,
+  DEFAULT_FIELD_MAPPING,
+} from '@/lib/catalogAdapters';
+import { fetchProducts } from '@/lib/productUtils';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+// Every request carries an AbortSignal for timeouts and cancellation
+const withSignal = expect.objectContaining({ signal: expect.any(AbortSignal) });
+
+const rawProducts = [
+  {
+    id: 1,
+    title: 'Wireless Headphones',
+    price: 59.99,
+    description: 'Noise-cancelling over-ear headphones',
+    category: 'electronics',
+    image: 'https://example.com/1.jpg',
+    rating: { rate: 4.6, count: 320 },
+  },
+  {
+    id: 2,
+    title: 'Silver Bracelet',
+    price: 24.5,
+    description: 'Sterling silver chain bracelet',
+    category: 'jewelery',
+    image: 'https://example.com/2.jpg',
+    rating: { rate: 3.9, count: 70 },
+  },
+];
+
+const sellerRecords = {
+  data: {
+    items: [
+      {
+        sku: '101',
+        name: 'Cotton Kurta',
+        pricing: { amount: '12.75' },
+        summary: 'Hand-block printed cotton kurta',
+        section: "men's clothing",
+        media: [{ url: 'https://seller.example.com/101.jpg' }],
+      },
+    ],
+  },
+};
+
+describe('catalogProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setCatalogProvider(null);
+  });
+
+  afterEach(() => {
+    setCatalogProvider(null);
+  });
+
+  describe('registry', () => {
+    it('should default to the catalog API in the browser', () => {
+      expect(getCatalogProvider().name).toBe('api');
+    });
+
+    it('should route product fetching through the active provider', async () => {
+      const provider: CatalogProvider = {
+        name: 'test',
+        listProducts: vi.fn().mockResolvedValue([]),
+        getProductById: vi.fn(),
+        getProductsByCategory: vi.fn(),
+        searchProducts: vi.fn(),
+      };
+      setCatalogProvider(provider);
+
+      await fetchProducts();
+
+      expect(provider.listProducts).toHaveBeenCalledTimes(1);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should create providers from a declarative config', () => {
+      expect(createCatalogProvider({ type: 'json', data: [] }).name).toBe('json');
+      expect(createCatalogProvider({ type: 'rest', baseUrl: 'https://x.test' }).name).toBe('rest');
+    });
+  });
+
+  describe('JSON file provider', () => {
+    it('should serve inline data', async () => {
+      const provider = createJsonFileProvider({ data: rawProducts });
+
+      const products = await provider.listProducts();
+
+      expect(products).toHaveLength(2);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should load the file once and answer queries in memory', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ catalog: rawProducts }),
+      });
+      const provider = createJsonFileProvider({ url: '/catalog.json', itemsPath: 'catalog' });
+
+      expect(await provider.getProductById(2)).toMatchObject({ title: 'Silver Bracelet' });
+      expect(await provider.getProductById(99)).toBeNull();
+      expect(await provider.getProductsByCategory('electronics')).toHaveLength(1);
+      expect(await provider.searchProducts('silver chain')).toHaveLength(1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledWith('/catalog.json', withSignal);
+    });
+
+    it('should retry after a failed load', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Server Error' })
+        .mockResolvedValueOnce({ ok: true, json: async () => rawProducts });
+      // Disable request-level retries so the failure reaches the provider
+      const provider = createJsonFileProvider({ url: '/catalog.json', retry: { retries: 0 } });
+
+      await expect(provider.listProducts()).rejects.toThrow('Failed to load catalog file');
+      expect(await provider.listProducts()).toHaveLength(2);
+    });
+
+    it('should require a source', () => {
+      expect(() => createJsonFileProvider({})).toThrow('requires a url, data or load option');
+    });
+  });
+
+  describe('REST provider', () => {
+    const fieldMap = {
+      id: 'sku',
+      title: 'name',
+      price: 'pricing.amount',
+      description: 'summary',
+      category: 'section',
+      image: 'media.0.url',
+    };
+
+    it('should map seller records into products', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => sellerRecords,
+      });
+      const provider = createRestProvider({
+        baseUrl: 'https://seller.example.com/api/',
+        endpoints: { list: '/items' },
+        itemsPath: 'data.items',
+        fieldMap,
+        headers: { 'X-API-Key': 'secret' },
+      });
+
+      const products = await provider.listProducts();
+
+      expect(products).toEqual([
+        {
+          id: 101,
+          title: 'Cotton Kurta',
+          price: 12.75,
+          description: 'Hand-block printed cotton kurta',
+          category: "men's clothing",
+          image: 'https://seller.example.com/101.jpg',
+          rating: { rate: 0, count: 0 },
+        },
+      ]);
+      expect(global.fetch).toHaveBeenCalledWith('https://seller.example.com/api/items', {
+        headers: { 'X-API-Key': 'secret' },
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it('should fill endpoint templates', async () => {
+      (global.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => [] });
+      const provider = createRestProvider({
+        baseUrl: 'https://seller.example.com/api',
+        endpoints: { search: '/items?q={query}' },
+      });
+
+      await provider.searchProducts('gold ring');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://seller.example.com/api/items?q=gold%20ring',
+        withSignal
+      );
+    });
+
+    it('should return null for a missing product', async () => {
+      (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+      const provider = createRestProvider({ baseUrl: 'https://seller.example.com/api' });
+
+      expect(await provider.getProductById(7)).toBeNull();
+    });
+
+    it('should use the identity mapping by default', () => {
+      expect(mapRestRecord(rawProducts[0], DEFAULT_FIELD_MAPPING)).toEqual(rawProducts[0]);
+    });
+  });
+
+  describe('Fake Store provider', () => {
+    it('should fetch a single product by ID', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify(rawProducts[0]),
+      });
+
+      const product = await createFakeStoreProvider().getProductById(1);
+
+      expect(product?.title).toBe('Wireless Headphones');
+      expect(global.fetch).toHaveBeenCalledWith('https://fakestoreapi.com/products/1', withSignal);
+    });
+
+    it('should treat an empty body as a missing product', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => '',
+      });
+
+      expect(await createFakeStoreProvider().getProductById(999)).toBeNull();
+    });
+  });
+
+  describe('catalog API provider', () => {
+    it('should read products from the list response', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ products: rawProducts, total: 2, page: 1, pageSize: 2, totalPages: 1 }),
+      });
+
+      const products = await createApiProvider().getProductsByCategory("men's clothing");
+
+      expect(products).toHaveLength(2);
+      expect(global.fetch).toHaveBeenCalledWith('/api/products?category=men%27s+clothing', withSignal);
+    });
+
+    it('should unwrap single product responses', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ product: rawProducts[1] }),
+      });
+
+      const product = await createApiProvider().getProductById(2);
+
+      expect(product?.title).toBe('Silver Bracelet');
+      expect(global.fetch).toHaveBeenCalledWith('/api/products/2', withSignal);
+    });
+
+    it('should leave retrying the upstream catalog to the server', async () => {
+      (global.fetch as any).mockResolvedValue({ ok: false, status: 502, statusText: 'Bad Gateway' });
+
+      await expect(createApiProvider().listProducts()).rejects.toThrow('Failed to fetch products');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for category metadata
+ *
+ * Tests category discovery, fallback display names and localized labels
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  discoverCategories,
+  getCategoryInfo,
+  getCategoryLabel,
+  DEFAULT_CATEGORY_EMOJI,
+} from '@/lib/categories';
+import { getClientTools } from '@/lib/clientTools';
+import { Product } from '@/lib/types';
+
+const makeProduct = (id: number, category: string): Product => ({
+  id,
+  title: `Product ${id}`,
+  price: 10,
+  description: 'Description',
+  category,
+  image: `https://example.com/${id}.jpg`,
+  rating: { rate: 4, count: 10 },
+});
+
+describe('categories', () => {
+  describe('getCategoryInfo', () => {
+    it('should return curated metadata for known categories', () => {
+      expect(getCategoryInfo('jewelery')).toMatchObject({
+        id: 'jewelery',
+        label: 'Jewelry',
+        emoji: '💎',
+        translations: { hi: 'ज्वेलरी' },
+      });
+    });
+
+    it('should generate a display name for unknown categories', () => {
+      expect(getCategoryInfo('home_and-kitchen')).toMatchObject({
+        label: 'Home And Kitchen',
+        emoji: DEFAULT_CATEGORY_EMOJI,
+        translations: {},
+      });
+    });
+  });
+
+  describe('discoverCategories', () => {
+    it('should list categories in first-seen order with counts', () => {
+      const categories = discoverCategories([
+        makeProduct(1, 'sports'),
+        makeProduct(2, 'electronics'),
+        makeProduct(3, 'sports'),
+      ]);
+
+      expect(categories.map((c) => [c.id, c.count])).toEqual([
+        ['sports', 2],
+        ['electronics', 1],
+      ]);
+    });
+
+    it('should return an empty list for no products', () => {
+      expect(discoverCategories([])).toEqual([]);
+    });
+  });
+
+  describe('getCategoryLabel', () => {
+    it('should prefer the translation and fall back to the label', () => {
+      expect(getCategoryLabel(getCategoryInfo('electronics'), 'hi')).toBe('इलेक्ट्रॉनिक्स');
+      expect(getCategoryLabel(getCategoryInfo('sports'), 'hi')).toBe('Sports');
+    });
+  });
+
+  describe('filterCategory tool schema', () => {
+    it('should be generated from the catalog categories', () => {
+      const tool = getClientTools(['sports', 'books']).find(
+        (t) => t.temporaryTool.modelToolName === 'filterCategory'
+      );
+
+      expect(tool?.temporaryTool.dynamicParameters[0].schema.enum).toEqual(['sports', 'books', 'all']);
+      expect(tool?.temporaryTool.description).toContain('sports, books');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the checkout state machine and the mock payment provider
+ *
+ * Tests that steps can only be entered in order, that editing the address
+ * sends checkout back to the form, and that payments are approved or declined.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canEnterStep,
+  checkoutReducer,
+  CheckoutState,
+  getFirstIncompleteStep,
+  INITIAL_CHECKOUT_STATE,
+} from '@/lib/checkoutState';
+import { createMockPaymentProvider } from '@/lib/paymentProvider';
+import { Order, ShippingAddress } from '@/lib/types';
+
+const address: ShippingAddress = {
+  fullName: 'Asha Rao',
+  phone: '9876543210',
+  line1: '12 MG Road',
+  line2: '',
+  city: 'Bengaluru',
+  state: 'Karnataka',
+  pinCode: '560001',
+};
+
+function reduce(state: CheckoutState, ...actions: Parameters<typeof checkoutReducer>[1][]): CheckoutState {
+  return actions.reduce(checkoutReducer, state);
+}
+
+describe('checkoutReducer', () => {
+  it('should not skip ahead of a missing address or delivery option', () => {
+    expect(canEnterStep(INITIAL_CHECKOUT_STATE, 'delivery')).toBe(false);
+    expect(reduce(INITIAL_CHECKOUT_STATE, { type: 'goToStep', step: 'payment' })).toBe(INITIAL_CHECKOUT_STATE);
+    expect(reduce(INITIAL_CHECKOUT_STATE, { type: 'selectDelivery', delivery: 'express' })).toBe(INITIAL_CHECKOUT_STATE);
+    expect(getFirstIncompleteStep(INITIAL_CHECKOUT_STATE)).toBe('address');
+  });
+
+  it('should move to payment once the address and delivery option are set', () => {
+    const state = reduce(
+      INITIAL_CHECKOUT_STATE,
+      { type: 'updateAddress', address },
+      { type: 'goToStep', step: 'delivery' },
+      { type: 'selectDelivery', delivery: 'express' }
+    );
+
+    expect(state).toMatchObject({ step: 'payment', delivery: 'express' });
+    expect(getFirstIncompleteStep(state)).toBe('payment');
+  });
+
+  it('should go back to the address form when the address becomes invalid', () => {
+    const atPayment = reduce(
+      INITIAL_CHECKOUT_STATE,
+      { type: 'updateAddress', address },
+      { type: 'selectDelivery', delivery: 'standard' }
+    );
+
+    const edited = checkoutReducer(atPayment, { type: 'updateAddress', address: { pinCode: '0123' } });
+
+    expect(edited.step).toBe('address');
+    expect(canEnterStep(edited, 'payment')).toBe(false);
+  });
+
+  it('should lock the order once placed and keep the address for the next checkout', () => {
+    const order = { id: 'KLD-1' } as Order;
+    const placed = reduce(
+      INITIAL_CHECKOUT_STATE,
+      { type: 'updateAddress', address },
+      { type: 'selectDelivery', delivery: 'standard' },
+      { type: 'paymentStarted' },
+      { type: 'orderPlaced', order }
+    );
+
+    expect(placed).toMatchObject({ step: 'confirmation', isPaying: false, order });
+    expect(checkoutReducer(placed, { type: 'goToStep', step: 'address' })).toBe(placed);
+
+    const next = checkoutReducer(placed, { type: 'start' });
+    expect(next).toMatchObject({ step: 'review', order: null, address, delivery: 'standard' });
+  });
+});
+
+describe('createMockPaymentProvider', () => {
+  it('should approve charges unless told to decline them', async () => {
+    const provider = createMockPaymentProvider({
+      latencyMs: 0,
+      decline: ({ method }) => (method === 'card' ? 'Card declined' : null),
+    });
+
+    await expect(provider.charge({ orderId: 'KLD-1', amount: 500, method: 'upi' })).resolves.toEqual({
+      status: 'approved',
+      transactionId: 'MOCK-KLD-1-1',
+    });
+    await expect(provider.charge({ orderId: 'KLD-2', amount: 500, method: 'card' })).resolves.toEqual({
+      status: 'declined',
+      reason: 'Card declined',
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for confirming voice actions
+ *
+ * Tests holding calls the policy flags, confirming and cancelling them, their
+ * expiry, and the rules of the updateCart and placeOrder tools.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_CONFIRMATION_POLICY,
+  PENDING_ACTION_TTL_MS,
+  cancelPendingAction,
+  confirmPendingAction,
+  getPendingAction,
+  setConfirmationPolicy,
+  subscribePendingAction,
+} from '@/lib/confirmation';
+import { defineClientTool, invokeClientTool } from '@/lib/toolRegistry';
+import { placeOrderTool, updateCartTool } from '@/lib/clientTools';
+import { toolSuccess } from '@/lib/toolOutcome';
+
+const handler = vi.fn((count: number) => toolSuccess(`Did it ${count} times.`));
+
+defineClientTool({
+  name: 'testConfirmationTool',
+  description: 'Do something a number of times',
+  params: {
+    count: { type: 'number', integer: true, minimum: 1, description: 'Count', required: true },
+  },
+  handler: ({ count }) => handler(count),
+  confirmation: ({ count }, policy) =>
+    policy.largeQuantity !== null && count >= policy.largeQuantity
+      ? { reason: 'largeQuantity', summary: `do it ${count} times`, quantity: count }
+      : null,
+});
+
+async function invoke(count: number) {
+  return JSON.parse(await invokeClientTool('testConfirmationTool', { count }));
+}
+
+describe('confirmation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setConfirmationPolicy({ ...DEFAULT_CONFIRMATION_POLICY, largeQuantity: 5 });
+  });
+
+  afterEach(() => {
+    cancelPendingAction();
+    setConfirmationPolicy(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should run calls the policy does not flag right away', async () => {
+    expect(await invoke(2)).toMatchObject({ ok: true, message: 'Did it 2 times.' });
+    expect(getPendingAction()).toBeNull();
+  });
+
+  it('should hold a flagged call until it is confirmed', async () => {
+    const listener = vi.fn();
+    subscribePendingAction(listener);
+
+    const held = await invoke(8);
+
+    expect(held).toMatchObject({ ok: false, code: 'needsConfirmation' });
+    expect(held.error).toContain('do it 8 times');
+    expect(handler).not.toHaveBeenCalled();
+    expect(getPendingAction()).toMatchObject({ toolName: 'testConfirmationTool', reason: 'largeQuantity', quantity: 8 });
+
+    expect(await confirmPendingAction()).toMatchObject({ ok: true, message: 'Did it 8 times.' });
+    expect(handler).toHaveBeenCalledWith(8);
+    expect(getPendingAction()).toBeNull();
+    expect(listener.mock.calls.map(([action]) => action?.quantity ?? null)).toEqual([8, null]);
+  });
+
+  it('should drop a cancelled call', async () => {
+    await invoke(8);
+
+    expect(cancelPendingAction()).toMatchObject({ summary: 'do it 8 times' });
+    expect(await confirmPendingAction()).toMatchObject({ ok: false, code: 'notFound' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should keep only the latest held call', async () => {
+    await invoke(8);
+    await invoke(9);
+
+    await confirmPendingAction();
+
+    expect(handler.mock.calls).toEqual([[9]]);
+  });
+
+  it('should not run a call confirmed after it expired', async () => {
+    vi.useFakeTimers();
+    await invoke(8);
+
+    vi.advanceTimersByTime(PENDING_ACTION_TTL_MS + 1);
+
+    expect(await confirmPendingAction()).toMatchObject({ ok: false, code: 'unavailable' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should follow the active policy', async () => {
+    setConfirmationPolicy({ ...DEFAULT_CONFIRMATION_POLICY, largeQuantity: null });
+
+    expect(await invoke(50)).toMatchObject({ ok: true });
+  });
+});
+
+describe('tool confirmation rules', () => {
+  const policy = { clearCart: true, largeQuantity: 5, placeOrder: true };
+
+  it('should ask before clearing the cart or adding many units', () => {
+    expect(updateCartTool.confirmation!({ action: 'clear' }, policy)).toMatchObject({ reason: 'clearCart' });
+    expect(updateCartTool.confirmation!({ action: 'add', productId: 3, quantity: 6 }, policy)).toMatchObject({
+      reason: 'largeQuantity',
+      summary: 'add 6 of product 3 to the cart',
+    });
+    expect(updateCartTool.confirmation!({ action: 'add', productId: 3 }, policy)).toBeNull();
+    expect(updateCartTool.confirmation!({ action: 'remove', productId: 3 }, policy)).toBeNull();
+  });
+
+  it('should not ask when the persona does not want to', () => {
+    const relaxed = { clearCart: false, largeQuantity: null, placeOrder: false };
+
+    expect(updateCartTool.confirmation!({ action: 'clear' }, relaxed)).toBeNull();
+    expect(updateCartTool.confirmation!({ action: 'update', productId: 3, quantity: 20 }, relaxed)).toBeNull();
+    expect(placeOrderTool.confirmation!({}, relaxed)).toBeNull();
+    expect(placeOrderTool.confirmation!({}, policy)).toMatchObject({ reason: 'placeOrder' });
+  });
+});
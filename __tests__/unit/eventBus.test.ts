@@ -0,0 +1,248 @@
+/**
+ * Unit tests for the typed event bus
+ *
+ * Tests subscription, delivery, listener error isolation, request/response,
+ * the event recorder, client tool dispatchers and tool results, and the
+ * useJarvisEvent hook
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  APP_EVENTS,
+  CLIENT_TOOL_EVENTS,
+  createEventBus,
+  createEventRecorder,
+  EventBus,
+  eventBus,
+} from '@/lib/eventBus';
+import { useJarvisEvent } from '@/lib/useJarvisEvent';
+import {
+  dispatchProductNavigate,
+  dispatchSortAndFilter,
+  invokeClientTool,
+} from '@/lib/clientTools';
+import { toolFailure, toolSuccess } from '@/lib/toolOutcome';
+import { handleError } from '@/lib/errorHandler';
+
+describe('createEventBus', () => {
+  let bus: EventBus;
+
+  beforeEach(() => {
+    bus = createEventBus();
+  });
+
+  it('should deliver the detail to listeners of that event only', () => {
+    const onNavigate = vi.fn();
+    const onSearch = vi.fn();
+    bus.on(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE, onNavigate);
+    bus.on(CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS, onSearch);
+
+    bus.emit(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE, { direction: 'next' });
+
+    expect(onNavigate).toHaveBeenCalledWith({ direction: 'next' });
+    expect(onSearch).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering after off or the returned unsubscribe', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribe = bus.on(CLIENT_TOOL_EVENTS.OPEN_CART, first);
+    bus.on(CLIENT_TOOL_EVENTS.OPEN_CART, second);
+
+    unsubscribe();
+    bus.off(CLIENT_TOOL_EVENTS.OPEN_CART, second);
+    bus.emit(CLIENT_TOOL_EVENTS.OPEN_CART, {});
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should keep delivering when a listener throws', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const after = vi.fn();
+    bus.on(CLIENT_TOOL_EVENTS.READ_CART, () => {
+      throw new Error('listener failed');
+    });
+    bus.on(CLIENT_TOOL_EVENTS.READ_CART, after);
+
+    bus.emit(CLIENT_TOOL_EVENTS.READ_CART, {});
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(consoleSpy).toHaveBeenCalledWith(
+      '[eventBus]',
+      expect.stringContaining(CLIENT_TOOL_EVENTS.READ_CART),
+      expect.any(Error)
+    );
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('request', () => {
+  let bus: EventBus;
+
+  beforeEach(() => {
+    bus = createEventBus();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should resolve with the responder outcome and still notify listeners', async () => {
+    const listener = vi.fn();
+    bus.on(CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS, listener);
+    bus.respond(CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS, async ({ query }) =>
+      toolSuccess(`Showing products matching "${query}".`, { resultCount: 2 })
+    );
+
+    const outcome = await bus.request(CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS, { query: 'ring' });
+
+    expect(outcome).toEqual({ ok: true, message: 'Showing products matching "ring".', resultCount: 2 });
+    expect(listener).toHaveBeenCalledWith({ query: 'ring' });
+  });
+
+  it('should report unavailable when nothing responds', async () => {
+    const outcome = await bus.request(CLIENT_TOOL_EVENTS.OPEN_CART, {});
+
+    expect(outcome).toMatchObject({ ok: false, code: 'unavailable' });
+  });
+
+  it('should report a failure when the responder throws', async () => {
+    bus.respond(CLIENT_TOOL_EVENTS.OPEN_CART, () => {
+      throw new Error('render failed');
+    });
+
+    await expect(bus.request(CLIENT_TOOL_EVENTS.OPEN_CART, {})).resolves.toMatchObject({
+      ok: false,
+      code: 'failed',
+    });
+  });
+
+  it('should time out when the responder never answers', async () => {
+    bus.respond(CLIENT_TOOL_EVENTS.OPEN_CART, () => new Promise(() => {}));
+
+    await expect(bus.request(CLIENT_TOOL_EVENTS.OPEN_CART, {}, { timeoutMs: 5 })).resolves.toMatchObject({
+      ok: false,
+      code: 'timeout',
+    });
+  });
+
+  it('should only remove the responder that is still active', async () => {
+    const removeFirst = bus.respond(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, () => toolSuccess('first'));
+    bus.respond(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, () => toolSuccess('second'));
+
+    removeFirst();
+
+    await expect(bus.request(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, {})).resolves.toMatchObject({
+      message: 'second',
+    });
+  });
+});
+
+describe('tool implementations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should return the UI outcome as the tool result', async () => {
+    const stop = eventBus.respond(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE, ({ direction }) =>
+      direction === 'next' ? toolSuccess('Showing Backpack.') : toolFailure('notFound', 'This is already the first product.')
+    );
+
+    expect(JSON.parse(await invokeClientTool('navigateProduct', { direction: 'next' }))).toEqual({
+      ok: true,
+      message: 'Showing Backpack.',
+    });
+    expect(JSON.parse(await invokeClientTool('navigateProduct', { direction: 'previous' }))).toMatchObject({
+      ok: false,
+      code: 'notFound',
+    });
+    stop();
+  });
+
+  it('should reject invalid parameters without contacting the UI', async () => {
+    const responder = vi.fn(() => toolSuccess('Added'));
+    const stop = eventBus.respond(CLIENT_TOOL_EVENTS.CART_UPDATE, responder);
+
+    const result = JSON.parse(await invokeClientTool('updateCart', { action: 'add', quantity: 0 }));
+
+    expect(result).toMatchObject({ ok: false, code: 'invalid' });
+    expect(responder).not.toHaveBeenCalled();
+    stop();
+  });
+
+  it('should send goToProduct exactly one target', async () => {
+    const responder = vi.fn(() => toolSuccess('Showing Backpack.'));
+    const stop = eventBus.respond(CLIENT_TOOL_EVENTS.GO_TO_PRODUCT, responder);
+
+    await invokeClientTool('goToProduct', { position: 3 });
+    await invokeClientTool('goToProduct', { title: '  backpack ' });
+    const ambiguous = JSON.parse(await invokeClientTool('goToProduct', { position: 1, title: 'ring' }));
+    const empty = JSON.parse(await invokeClientTool('goToProduct', { title: ' ' }));
+
+    expect(responder.mock.calls).toEqual([[{ position: 3 }], [{ title: 'backpack' }]]);
+    expect(ambiguous).toMatchObject({ ok: false, code: 'invalid' });
+    expect(empty).toMatchObject({ ok: false, code: 'invalid' });
+    stop();
+  });
+});
+
+describe('createEventRecorder', () => {
+  it('should record emitted events until stopped', () => {
+    const bus = createEventBus();
+    const recorder = createEventRecorder(bus);
+
+    bus.emit(CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS, { query: 'backpack' });
+    bus.emit(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, {});
+
+    expect(recorder.events.map((event) => event.type)).toEqual([
+      CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS,
+      CLIENT_TOOL_EVENTS.CLOSE_PRODUCT,
+    ]);
+    expect(recorder.ofType(CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS)).toEqual([{ query: 'backpack' }]);
+
+    recorder.clear();
+    recorder.stop();
+    bus.emit(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, {});
+
+    expect(recorder.events).toHaveLength(0);
+  });
+
+  it('should capture events from client tool dispatchers and the error handler', () => {
+    const recorder = createEventRecorder();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    dispatchProductNavigate('previous');
+    dispatchSortAndFilter({ sort: 'price-asc', facets: { maxPrice: 1000 } });
+    handleError(new Error('boom'), 'fetchTimeout');
+
+    expect(recorder.ofType(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE)).toEqual([{ direction: 'previous' }]);
+    expect(recorder.ofType(CLIENT_TOOL_EVENTS.SORT_FILTER)).toEqual([
+      { sort: 'price-asc', facets: { maxPrice: 1000 } },
+    ]);
+    expect(recorder.ofType(APP_EVENTS.APP_ERROR)[0]).toMatchObject({ context: 'fetchTimeout' });
+    recorder.stop();
+  });
+});
+
+describe('useJarvisEvent', () => {
+  it('should call the latest handler and unsubscribe on unmount', () => {
+    const bus = createEventBus();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const { rerender, unmount } = renderHook(
+      ({ handler }) => useJarvisEvent(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, handler, bus),
+      { initialProps: { handler: first } }
+    );
+
+    rerender({ handler: second });
+    act(() => bus.emit(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, { category: 'electronics' }));
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith({ category: 'electronics' });
+
+    unmount();
+    bus.emit(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, { category: 'all' });
+
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
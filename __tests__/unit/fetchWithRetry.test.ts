@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the resilient catalog fetch
+ *
+ * Tests timeouts, retry with backoff, cancellation, and error classification
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  fetchWithRetry,
+  getBackoffDelay,
+  getMaxFetchDuration,
+  withAbortSignal,
+  FetchError,
+} from '@/lib/fetchWithRetry';
+import { classifyFetchError } from '@/lib/errorHandler';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+// Keep retry delays short so tests run on real timers
+const fastRetry = { baseDelayMs: 1, maxDelayMs: 2 };
+
+/**
+ * fetch implementation that never settles until its signal is aborted
+ */
+function hangingFetch(_url: string, init?: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init?.signal?.addEventListener('abort', () => {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    });
+  });
+}
+
+describe('fetchWithRetry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should retry 5xx responses and return the first success', async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+
+    const response = await fetchWithRetry('/products', {}, fastRetry);
+
+    expect(response.ok).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return the last 5xx response once retries are exhausted', async () => {
+    (global.fetch as any).mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' });
+
+    const response = await fetchWithRetry('/products', {}, { ...fastRetry, retries: 2 });
+
+    expect(response.status).toBe(500);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry 4xx responses', async () => {
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+    const response = await fetchWithRetry('/products/999', {}, fastRetry);
+
+    expect(response.status).toBe(404);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry network errors and then throw a network FetchError', async () => {
+    (global.fetch as any).mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const error = await fetchWithRetry('/products', {}, { ...fastRetry, retries: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error).toMatchObject({ kind: 'network', attempts: 2 });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should time out slow requests', async () => {
+    (global.fetch as any).mockImplementation(hangingFetch);
+
+    const error = await fetchWithRetry('/products', {}, { ...fastRetry, timeoutMs: 5, retries: 0 })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ kind: 'timeout' });
+    expect(error.message).toContain('timed out after 5ms');
+  });
+
+  it('should stop immediately when the caller aborts', async () => {
+    (global.fetch as any).mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const pending = fetchWithRetry('/products', { signal: controller.signal }, fastRetry);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ kind: 'aborted' });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call fetch when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(fetchWithRetry('/products', { signal: controller.signal })).rejects.toMatchObject({
+      kind: 'aborted',
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('should grow exponentially with jitter in the upper half', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 10_000 };
+
+    expect(getBackoffDelay(0, options, () => 0)).toBe(50);
+    expect(getBackoffDelay(0, options, () => 0.999)).toBeCloseTo(100, 0);
+    expect(getBackoffDelay(3, options, () => 0)).toBe(400);
+  });
+
+  it('should cap the delay', () => {
+    expect(getBackoffDelay(10, { baseDelayMs: 100, maxDelayMs: 1000 }, () => 1)).toBe(1000);
+  });
+});
+
+describe('getMaxFetchDuration', () => {
+  it('should add up every timeout and the longest backoff delays', () => {
+    expect(getMaxFetchDuration({ timeoutMs: 1000, retries: 2, baseDelayMs: 100, maxDelayMs: 150 })).toBe(3250);
+    expect(getMaxFetchDuration({ timeoutMs: 1000, retries: 0 })).toBe(1000);
+  });
+});
+
+describe('withAbortSignal', () => {
+  it('should reject when the signal fires before the work settles', async () => {
+    const controller = new AbortController();
+    const pending = withAbortSignal(new Promise(() => {}), controller.signal);
+
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ kind: 'aborted' });
+  });
+});
+
+describe('classifyFetchError', () => {
+  it.each([
+    [new FetchError('timed out', 'timeout'), 'fetchTimeout'],
+    [new FetchError('offline', 'network'), 'fetchOffline'],
+    [new FetchError('HTTP 503', 'http', { status: 503 }), 'catalogUnavailable'],
+    [new FetchError('HTTP 404', 'http', { status: 404 }), 'fetchProducts'],
+    [new FetchError('bad body', 'invalidResponse'), 'catalogInvalidData'],
+    [new Error('Failed to parse any products'), 'fetchProducts'],
+  ])('should classify %s', (error, context) => {
+    expect(classifyFetchError(error)).toBe(context);
+  });
+});
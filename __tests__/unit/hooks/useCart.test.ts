@@ -1,12 +1,15 @@
 /**
  * Unit tests for useCart custom hook
  * 
- * Tests cart state management, operations, and localStorage persistence
+ * Tests cart state management, operations, coupons, and localStorage persistence
  */
 
 import { renderHook, act } from '@testing-library/react';
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { useCart } from '@/lib/useCart';
+import { createMemoryCartStore, setCartStore } from '@/lib/cartStore';
+import { addToCart as addToCartUtil, clearCart as clearCartUtil } from '@/lib/cartUtils';
+import { createOrder, EMPTY_SHIPPING_ADDRESS } from '@/lib/checkoutUtils';
 import { Product } from '@/lib/types';
 
 // Mock localStorage
@@ -162,6 +165,40 @@ describe('useCart', () => {
 
       consoleErrorSpy.mockRestore();
     });
+
+    it('should refuse adding past the order limit without throwing', () => {
+      const limited = { ...mockProduct1, maxPerOrder: 3 };
+      const { result } = renderHook(() => useCart([limited]));
+      let changes: ReturnType<typeof result.current.addToCart>[] = [];
+
+      // Both adds run before a render, so the second must see the first
+      expect(() => {
+        act(() => {
+          changes = [result.current.addToCart(limited, 2), result.current.addToCart(limited, 2)];
+        });
+      }).not.toThrow();
+
+      expect(changes[0]).toMatchObject({ ok: true });
+      expect(changes[1]).toEqual({ ok: false, error: 'At most 3 of Test Product 1 can be ordered at once' });
+      expect(result.current.cart.items[0].quantity).toBe(2);
+      expect(result.current.lastAction?.description).toBe('added 2 × Test Product 1');
+    });
+
+    it('should refuse setting a quantity past the stock', () => {
+      const stocked = { ...mockProduct1, stock: 4 };
+      const { result } = renderHook(() => useCart([stocked]));
+
+      act(() => {
+        result.current.addToCart(stocked, 1);
+      });
+      let change: ReturnType<typeof result.current.updateQuantity> | undefined;
+      act(() => {
+        change = result.current.updateQuantity(stocked.id, 5);
+      });
+
+      expect(change).toEqual({ ok: false, error: 'Only 4 of Test Product 1 in stock' });
+      expect(result.current.cart.items[0].quantity).toBe(1);
+    });
   });
 
   describe('removeFromCart', () => {
@@ -183,6 +220,20 @@ describe('useCart', () => {
       expect(result.current.itemCount).toBe(1);
     });
 
+    it('should return the cart left after removing, ahead of the next render', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+
+      let change: ReturnType<typeof result.current.removeFromCart> | undefined;
+      act(() => {
+        result.current.addToCart(mockProduct1, 2);
+        result.current.addToCart(mockProduct2, 1);
+        change = result.current.removeFromCart(1);
+      });
+
+      expect(change).toMatchObject({ ok: true, cart: { items: [{ product: { id: 2 }, quantity: 1 }] } });
+      expect(result.current.cart.items).toHaveLength(1);
+    });
+
     it('should handle removing non-existent product gracefully', () => {
       const { result } = renderHook(() => useCart(mockProducts));
 
@@ -342,6 +393,77 @@ describe('useCart', () => {
     });
   });
 
+  describe('coupons', () => {
+    it('should apply a qualifying coupon and price the cart with it', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+
+      act(() => {
+        result.current.addToCart(mockProduct1, 1);
+      });
+
+      let check: ReturnType<typeof result.current.applyCoupon> | undefined;
+      act(() => {
+        check = result.current.applyCoupon('flat 200');
+      });
+
+      expect(check?.ok).toBe(true);
+      expect(result.current.cart.couponCode).toBe('FLAT200');
+      expect(result.current.pricing.discount).toBe(200);
+    });
+
+    it('should check a coupon against items added in the same tick', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+
+      let check: ReturnType<typeof result.current.applyCoupon> | undefined;
+      act(() => {
+        result.current.addToCart(mockProduct1, 1);
+        check = result.current.applyCoupon('FLAT200');
+      });
+
+      expect(check?.ok).toBe(true);
+      expect(result.current.pricing.discount).toBe(200);
+    });
+
+    it('should leave the cart unchanged when a coupon does not apply', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+
+      act(() => {
+        result.current.addToCart(mockProduct2, 1);
+      });
+
+      let check: ReturnType<typeof result.current.applyCoupon> | undefined;
+      act(() => {
+        check = result.current.applyCoupon('TECH500');
+      });
+
+      expect(check).toMatchObject({ ok: false, reason: 'notApplicable' });
+      expect(result.current.cart.couponCode).toBeUndefined();
+    });
+
+    it('should keep the coupon through cart changes until removed', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+
+      act(() => {
+        result.current.addToCart(mockProduct1, 1);
+      });
+      act(() => {
+        result.current.applyCoupon('DIWALI10');
+      });
+      act(() => {
+        result.current.addToCart(mockProduct2, 1);
+      });
+
+      expect(result.current.cart.couponCode).toBe('DIWALI10');
+
+      act(() => {
+        result.current.removeCoupon();
+      });
+
+      expect(result.current.cart.couponCode).toBeUndefined();
+      expect(result.current.pricing.discount).toBe(0);
+    });
+  });
+
   describe('localStorage Persistence', () => {
     it('should save cart to localStorage when items are added', () => {
       const { result } = renderHook(() => useCart(mockProducts));
@@ -414,6 +536,157 @@ describe('useCart', () => {
     });
   });
 
+  describe('undo and redo', () => {
+    it('should bring back a cleared cart', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+
+      act(() => {
+        result.current.addToCart(mockProduct1, 2);
+        result.current.addToCart(mockProduct2, 1);
+      });
+      act(() => {
+        result.current.clearCart();
+      });
+
+      expect(result.current.lastAction?.action).toBe('clear');
+
+      let undone: ReturnType<typeof result.current.undo> = null;
+      act(() => {
+        undone = result.current.undo();
+      });
+
+      expect(undone!.description).toBe('cleared the cart');
+      expect(result.current.cart.items).toHaveLength(2);
+      expect(result.current.canRedo).toBe(true);
+    });
+
+    it('should take back a whole reorder with one undo', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+      const order = createOrder(
+        addToCartUtil(addToCartUtil(clearCartUtil(), mockProduct1, 2), mockProduct2, 1),
+        {
+          id: 'KLD-20260301-4F7Q2A',
+          address: EMPTY_SHIPPING_ADDRESS,
+          delivery: 'standard',
+          payment: { method: 'upi', provider: 'mock', transactionId: 'MOCK-1' },
+        }
+      );
+
+      act(() => {
+        result.current.addToCart(mockProduct1, 1);
+      });
+      act(() => {
+        result.current.reorder(order);
+      });
+
+      expect(result.current.getProductQuantity(1)).toBe(3);
+      expect(result.current.lastAction?.description).toBe('reordered KLD-20260301-4F7Q2A');
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.cart.items.map((item) => [item.product.id, item.quantity])).toEqual([[1, 1]]);
+    });
+
+    it('should redo an undone change', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+
+      act(() => {
+        result.current.addToCart(mockProduct1, 2);
+      });
+      act(() => {
+        result.current.removeFromCart(1);
+      });
+      act(() => {
+        result.current.undo();
+      });
+      act(() => {
+        result.current.redo();
+      });
+
+      expect(result.current.cart.items).toHaveLength(0);
+      expect(result.current.lastAction?.description).toBe('removed Test Product 1');
+    });
+
+    it('should not log changes that leave the cart as it was', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+
+      act(() => {
+        result.current.clearCart();
+        result.current.removeFromCart(1);
+      });
+
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.undo()).toBeNull();
+    });
+
+    it('should forget changes when the history is cleared', () => {
+      const { result } = renderHook(() => useCart(mockProducts));
+
+      act(() => {
+        result.current.addToCart(mockProduct1);
+      });
+      act(() => {
+        result.current.clearHistory();
+      });
+
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.cart.items).toHaveLength(1);
+    });
+  });
+
+  describe('Storage sync', () => {
+    beforeEach(() => {
+      setCartStore(createMemoryCartStore());
+    });
+
+    afterEach(() => {
+      setCartStore(null);
+    });
+
+    it('should share one cart between tabs', () => {
+      const firstTab = renderHook(() => useCart(mockProducts));
+      const secondTab = renderHook(() => useCart(mockProducts));
+
+      act(() => {
+        firstTab.result.current.addToCart(mockProduct1, 2);
+      });
+
+      expect(secondTab.result.current.cart.items).toEqual([{ product: mockProduct1, quantity: 2 }]);
+
+      act(() => {
+        secondTab.result.current.clearCart();
+      });
+
+      expect(firstTab.result.current.cart.items).toHaveLength(0);
+    });
+
+    it('should keep saved items until a complete catalog confirms they are gone', () => {
+      const seeded = renderHook(() => useCart(mockProducts));
+      act(() => {
+        seeded.result.current.addToCart(mockProduct1, 1);
+        seeded.result.current.addToCart(mockProduct2, 3);
+      });
+      seeded.unmount();
+
+      const { result, rerender } = renderHook(
+        ({ products, catalogComplete }) => useCart(products, { catalogComplete }),
+        { initialProps: { products: [mockProduct1], catalogComplete: false } }
+      );
+
+      expect(result.current.cart.items).toHaveLength(1);
+      expect(result.current.cart.unresolvedItems).toEqual([
+        { productId: 2, quantity: 3, title: 'Test Product 2' },
+      ]);
+
+      rerender({ products: mockProducts, catalogComplete: false });
+
+      expect(result.current.cart.items.map((item) => item.quantity)).toEqual([1, 3]);
+      expect(result.current.cart.unresolvedItems).toBeUndefined();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle cart operations without products array', () => {
       const { result } = renderHook(() => useCart());
@@ -8,6 +8,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor, act } from '@testing-library/react';
 import { useProducts } from '@/lib/useProducts';
 import * as productUtils from '@/lib/productUtils';
+import { ProductCacheStatus } from '@/lib/productUtils';
+import { FetchError } from '@/lib/fetchWithRetry';
 import { Product, ProductCategory } from '@/lib/types';
 
 // Mock the productUtils module
@@ -62,6 +64,17 @@ const mockProducts: Product[] = [
   },
 ];
 
+// Cache status after a successful network fetch
+const freshCacheStatus: ProductCacheStatus = {
+  isCached: true,
+  cacheAge: 0,
+  isExpired: false,
+  source: 'network',
+  lastSyncAt: Date.now(),
+  isRevalidating: false,
+  lastError: null,
+};
+
 describe('useProducts', () => {
   beforeEach(() => {
     // Reset mocks before each test
@@ -69,6 +82,7 @@ describe('useProducts', () => {
     
     // Default mock implementation
     vi.mocked(productUtils.fetchProductsWithCache).mockResolvedValue(mockProducts);
+    vi.mocked(productUtils.getCacheStatus).mockReturnValue(freshCacheStatus);
   });
 
   afterEach(() => {
@@ -128,6 +142,53 @@ describe('useProducts', () => {
       expect(result.current.filteredProducts).toEqual([]);
     });
 
+    it('should classify fetch errors for user-friendly messages', async () => {
+      vi.mocked(productUtils.fetchProductsWithCache).mockRejectedValue(
+        new FetchError('Request timed out after 10000ms', 'timeout')
+      );
+      
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      expect(result.current.errorContext).toBe('fetchTimeout');
+    });
+
+    it('should abort the load in flight on unmount', async () => {
+      let signal: AbortSignal | undefined;
+      vi.mocked(productUtils.fetchProductsWithCache).mockImplementation((_force, options) => {
+        signal = options?.signal;
+        return new Promise(() => {});
+      });
+      
+      const { unmount } = renderHook(() => useProducts());
+      unmount();
+      
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should ignore results from a superseded load', async () => {
+      let resolveFirst: (products: Product[]) => void = () => {};
+      vi.mocked(productUtils.fetchProductsWithCache)
+        .mockImplementationOnce(() => new Promise((resolve) => { resolveFirst = resolve; }))
+        .mockResolvedValueOnce([mockProducts[1]]);
+      
+      const { result } = renderHook(() => useProducts());
+      
+      await act(async () => {
+        await result.current.refreshProducts();
+      });
+      
+      // The first (stale) request finishes last
+      await act(async () => {
+        resolveFirst(mockProducts);
+      });
+      
+      expect(result.current.products).toEqual([mockProducts[1]]);
+    });
+
     it('should handle non-Error exceptions', async () => {
       vi.mocked(productUtils.fetchProductsWithCache).mockRejectedValue('String error');
       
@@ -141,7 +202,75 @@ describe('useProducts', () => {
     });
   });
 
+  describe('Cached Data', () => {
+    it('should not flag fresh network data as cached', async () => {
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      expect(result.current.cacheStatus).toEqual(freshCacheStatus);
+      expect(result.current.isShowingCachedData).toBe(false);
+    });
+
+    it('should flag cached data served while the catalog is unreachable', async () => {
+      vi.mocked(productUtils.getCacheStatus).mockReturnValue({
+        ...freshCacheStatus,
+        source: 'disk',
+        isExpired: true,
+        lastError: 'HTTP 503 Service Unavailable',
+      });
+      
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      expect(result.current.products).toEqual(mockProducts);
+      expect(result.current.error).toBeNull();
+      expect(result.current.isShowingCachedData).toBe(true);
+    });
+
+    it('should pick up products from a background refresh', async () => {
+      let notify: productUtils.ProductCacheListener = () => {};
+      vi.mocked(productUtils.subscribeToProductCache).mockImplementation((listener) => {
+        notify = listener;
+        return () => {};
+      });
+      
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      act(() => {
+        notify({ ...freshCacheStatus, lastSyncAt: Date.now() }, [mockProducts[0]]);
+      });
+      
+      expect(result.current.products).toEqual([mockProducts[0]]);
+    });
+  });
+
   describe('Category Filtering', () => {
+    it('should discover categories from loaded products', async () => {
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      expect(result.current.categories.map(c => c.id)).toEqual([
+        'electronics',
+        'jewelery',
+        "men's clothing",
+        "women's clothing",
+      ]);
+      expect(result.current.categories[0]).toMatchObject({ label: 'Electronics', count: 2 });
+    });
+
     it('should filter products by electronics category', async () => {
       const { result } = renderHook(() => useProducts());
       
@@ -258,6 +387,132 @@ describe('useProducts', () => {
     });
   });
 
+  describe('Search', () => {
+    it('should filter products by search query', async () => {
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      act(() => {
+        result.current.setSearchQuery('find me headphones');
+      });
+      
+      expect(result.current.searchQuery).toBe('find me headphones');
+      expect(result.current.filteredProducts.map(p => p.id)).toEqual([5]);
+      expect(result.current.currentProduct?.id).toBe(5);
+    });
+
+    it('should combine search with the active category', async () => {
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      act(() => {
+        result.current.setCategory('jewelery');
+        result.current.setSearchQuery('laptop');
+      });
+      
+      expect(result.current.filteredProducts).toEqual([]);
+      expect(result.current.currentProduct).toBeNull();
+    });
+
+    it('should show all products again when the query is cleared', async () => {
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      act(() => {
+        result.current.setSearchQuery('ring');
+      });
+      
+      expect(result.current.filteredProducts.map(p => p.id)).toEqual([2]);
+      
+      act(() => {
+        result.current.setSearchQuery('');
+      });
+      
+      expect(result.current.filteredProducts).toEqual(mockProducts);
+    });
+  });
+
+  describe('Sorting and Facets', () => {
+    it('should sort and filter products with a product query', async () => {
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      act(() => {
+        result.current.updateProductQuery({ sort: 'price-asc', facets: { minRating: 4.5 } });
+      });
+      
+      // Everything but the T-shirt is rated 4.5+, shown cheapest first
+      expect(result.current.filteredProducts.map(p => p.id)).toEqual([4, 5, 2, 1]);
+      expect(result.current.productQuery.sort).toBe('price-asc');
+    });
+
+    it('should report facet counts before facets are applied', async () => {
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      act(() => {
+        result.current.setCategory('electronics');
+        result.current.updateProductQuery({ facets: { tag: 'BESTSELLER' } });
+      });
+      
+      expect(result.current.filteredProducts.map(p => p.id)).toEqual([5]);
+      expect(result.current.facetCounts.total).toBe(2);
+      expect(result.current.facetCounts.tags).toEqual({ BESTSELLER: 1, HOT: 0 });
+    });
+
+    it('should clear sort and facets on reset', async () => {
+      const { result } = renderHook(() => useProducts());
+      
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+      
+      act(() => {
+        result.current.updateProductQuery({ sort: 'price-desc', facets: { maxPrice: 1000 } });
+      });
+      
+      expect(result.current.filteredProducts).toEqual([]);
+      
+      act(() => {
+        result.current.resetProductQuery();
+      });
+      
+      expect(result.current.filteredProducts).toEqual(mockProducts);
+    });
+
+    it('should preview other settings without changing state', async () => {
+      const { result } = renderHook(() => useProducts());
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const preview = result.current.previewProducts({
+        category: 'electronics',
+        productQuery: { sort: null, facets: { minPrice: null, maxPrice: null, minRating: null, tag: 'BESTSELLER' } },
+      });
+
+      expect(preview.map(p => p.id)).toEqual([5]);
+      expect(result.current.activeCategory).toBe('all');
+      expect(result.current.filteredProducts).toEqual(mockProducts);
+    });
+  });
+
   describe('Product Navigation', () => {
     it('should navigate to next product', async () => {
       const { result } = renderHook(() => useProducts());
@@ -360,6 +615,34 @@ describe('useProducts', () => {
       expect(result.current.currentProductIndex).toBe(0);
       expect(result.current.currentProduct).toBeNull();
     });
+
+    it('should move the open detail card with next and close it on a new list', async () => {
+      const { result } = renderHook(() => useProducts());
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.openProduct(mockProducts[1].id);
+      });
+
+      let shown: ReturnType<typeof result.current.nextProduct> = null;
+      act(() => {
+        shown = result.current.nextProduct();
+      });
+
+      expect(result.current.view).toBe('detail');
+      expect(result.current.currentProduct).toEqual(mockProducts[2]);
+      expect(shown).toEqual(mockProducts[2]);
+
+      act(() => {
+        result.current.setCategory('jewelery');
+      });
+
+      expect(result.current.isDetailOpen).toBe(false);
+      expect(result.current.currentProductIndex).toBe(0);
+    });
   });
 
   describe('Index Management', () => {
@@ -426,7 +709,9 @@ describe('useProducts', () => {
       
       // Should call fetch again with forceRefresh=true
       expect(productUtils.fetchProductsWithCache).toHaveBeenCalledTimes(2);
-      expect(productUtils.fetchProductsWithCache).toHaveBeenLastCalledWith(true);
+      expect(productUtils.fetchProductsWithCache).toHaveBeenLastCalledWith(true, {
+        signal: expect.any(AbortSignal),
+      });
     });
 
     it('should update loading state during refresh', async () => {
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for keyboard shortcuts
+ *
+ * Tests matching keys to actions, keys left to text fields and buttons,
+ * key labels, and the shortcut hook
+ */
+
+import { renderHook } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { formatKeyCombo, matchShortcut, ShortcutKeyEvent } from '@/lib/keyboardShortcuts';
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts';
+
+function keyEvent(key: string, overrides: Partial<ShortcutKeyEvent> = {}): ShortcutKeyEvent {
+  return { key, shiftKey: false, altKey: false, ctrlKey: false, metaKey: false, target: document.body, ...overrides };
+}
+
+function press(key: string, target: HTMLElement = document.body, init: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+  target.dispatchEvent(event);
+  return event;
+}
+
+describe('matchShortcut', () => {
+  it('should map keys to actions', () => {
+    expect(matchShortcut(keyEvent('ArrowRight'))).toBe('next');
+    expect(matchShortcut(keyEvent('ArrowUp'))).toBe('previous');
+    expect(matchShortcut(keyEvent('Enter'))).toBe('open');
+    expect(matchShortcut(keyEvent('Escape'))).toBe('close');
+    expect(matchShortcut(keyEvent('C', { shiftKey: true }))).toBe('toggleCart');
+    expect(matchShortcut(keyEvent('/'))).toBe('focusSearch');
+    expect(matchShortcut(keyEvent(' '))).toBe('toggleVoice');
+    expect(matchShortcut(keyEvent('m'))).toBe('toggleMute');
+    expect(matchShortcut(keyEvent('?', { shiftKey: true }))).toBe('showHelp');
+    expect(matchShortcut(keyEvent('x'))).toBeNull();
+  });
+
+  it('should tell back from forward by Shift', () => {
+    expect(matchShortcut(keyEvent('Backspace'))).toBe('back');
+    expect(matchShortcut(keyEvent('Backspace', { shiftKey: true }))).toBe('forward');
+  });
+
+  it('should leave browser shortcuts alone', () => {
+    expect(matchShortcut(keyEvent('c', { ctrlKey: true }))).toBeNull();
+    expect(matchShortcut(keyEvent('ArrowLeft', { altKey: true }))).toBeNull();
+    expect(matchShortcut(keyEvent('m', { metaKey: true }))).toBeNull();
+  });
+
+  it('should only take Escape from text fields', () => {
+    const input = document.createElement('input');
+    expect(matchShortcut(keyEvent('c', { target: input }))).toBeNull();
+    expect(matchShortcut(keyEvent('Backspace', { target: input }))).toBeNull();
+    expect(matchShortcut(keyEvent('Escape', { target: input }))).toBe('close');
+  });
+
+  it('should leave Enter and Space to focused buttons', () => {
+    const button = document.createElement('button');
+    expect(matchShortcut(keyEvent('Enter', { target: button }))).toBeNull();
+    expect(matchShortcut(keyEvent(' ', { target: button }))).toBeNull();
+    expect(matchShortcut(keyEvent('ArrowRight', { target: button }))).toBe('next');
+  });
+});
+
+describe('formatKeyCombo', () => {
+  it('should name keys for the help overlay', () => {
+    expect(formatKeyCombo({ key: ' ' })).toBe('Space');
+    expect(formatKeyCombo({ key: 'c' })).toBe('C');
+    expect(formatKeyCombo({ key: 'Backspace', shift: true })).toBe('Shift + Backspace');
+  });
+});
+
+describe('useKeyboardShortcuts', () => {
+  it('should run the handler and keep the key from the browser', () => {
+    const next = vi.fn();
+    renderHook(() => useKeyboardShortcuts({ next }));
+
+    const event = press('ArrowRight');
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it('should leave the key to the browser when the handler returns false', () => {
+    renderHook(() => useKeyboardShortcuts({ back: () => false }));
+
+    expect(press('Backspace').defaultPrevented).toBe(false);
+  });
+
+  it('should blur a text field on Escape instead of closing', () => {
+    const close = vi.fn();
+    renderHook(() => useKeyboardShortcuts({ close }));
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    input.focus();
+
+    press('Escape', input);
+
+    expect(close).not.toHaveBeenCalled();
+    expect(document.activeElement).not.toBe(input);
+    input.remove();
+  });
+
+  it('should do nothing while disabled', () => {
+    const toggleCart = vi.fn();
+    renderHook(() => useKeyboardShortcuts({ toggleCart }, { enabled: false }));
+
+    press('c');
+
+    expect(toggleCart).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the navigation state machine
+ *
+ * Tests focus moves with both boundary behaviors, the overlay stack for the
+ * detail card and cart, and resetting when the product list changes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canMove,
+  getFocusedIndex,
+  getFrontView,
+  INITIAL_NAVIGATION_STATE,
+  isWrappingMove,
+  NavigationAction,
+  navigationReducer,
+  NavigationState,
+} from '@/lib/navigationState';
+
+const productIds = [10, 20, 30];
+
+function reduce(actions: NavigationAction[], state: NavigationState = INITIAL_NAVIGATION_STATE): NavigationState {
+  return actions.reduce(navigationReducer, state);
+}
+
+describe('navigationReducer', () => {
+  it('should start focused on the first product with no overlays', () => {
+    expect(getFocusedIndex(INITIAL_NAVIGATION_STATE, productIds)).toBe(0);
+    expect(getFrontView(INITIAL_NAVIGATION_STATE)).toBe('grid');
+  });
+
+  it('should move the focus and wrap at either end by default', () => {
+    const last = reduce([{ type: 'focusIndex', index: 2, productIds }]);
+
+    expect(isWrappingMove(last, productIds, 'next')).toBe(true);
+    expect(reduce([{ type: 'move', direction: 'next', productIds }], last).focusedProductId).toBe(10);
+    expect(reduce([{ type: 'move', direction: 'previous', productIds }]).focusedProductId).toBe(30);
+  });
+
+  it('should stay at the ends with the clamp boundary', () => {
+    const state = reduce([
+      { type: 'setBoundary', boundary: 'clamp' },
+      { type: 'move', direction: 'previous', productIds },
+    ]);
+
+    expect(state.focusedProductId).toBe(10);
+    expect(canMove(state, productIds, 'previous')).toBe(false);
+    expect(canMove(state, productIds, 'next')).toBe(true);
+  });
+
+  it('should follow the focused product when the list is re-ordered', () => {
+    const state = reduce([{ type: 'focus', productId: 20 }]);
+
+    expect(getFocusedIndex(state, [20, 30, 10])).toBe(0);
+    expect(getFocusedIndex(state, [30, 10])).toBe(0);
+    expect(reduce([{ type: 'move', direction: 'next', productIds: [30, 20, 10] }], state).focusedProductId).toBe(10);
+  });
+
+  it('should stack overlays and close back to the previous view', () => {
+    const state = reduce([
+      { type: 'openProduct', productId: 20 },
+      { type: 'openCart' },
+    ]);
+
+    expect(getFrontView(state)).toBe('cart');
+    expect(getFrontView(reduce([{ type: 'close' }], state))).toBe('detail');
+    expect(getFrontView(reduce([{ type: 'toggleCart' }], state))).toBe('detail');
+    expect(getFrontView(reduce([{ type: 'close', overlay: 'detail' }], state))).toBe('cart');
+    expect(getFrontView(reduce([{ type: 'toggleWatchlist' }], state))).toBe('watchlist');
+    expect(getFrontView(reduce([{ type: 'openWatchlist' }, { type: 'toggleWatchlist' }], state))).toBe('cart');
+  });
+
+  it('should return the same state when there is nothing to close', () => {
+    expect(navigationReducer(INITIAL_NAVIGATION_STATE, { type: 'close' })).toBe(INITIAL_NAVIGATION_STATE);
+  });
+
+  it('should close the detail card and refocus the first product when the list resets', () => {
+    const state = reduce([
+      { type: 'openCart' },
+      { type: 'openProduct', productId: 30 },
+      { type: 'resetList' },
+    ]);
+
+    expect(state.focusedProductId).toBeNull();
+    expect(state.overlays).toEqual(['cart']);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for personas
+ *
+ * Tests each persona's tool set, the prompt and voice it gives the call
+ * config, and its UI wording
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createKaldiConfig, DEFAULT_PERSONA_ID, KALDI_PERSONAS } from '@/app/jarvis-config';
+import { getClientTools } from '@/lib/clientTools';
+import { getPersonaVocabulary, isPersonaId, PERSONA_IDS } from '@/lib/personas';
+
+function toolNames(personaId: (typeof PERSONA_IDS)[number]): string[] {
+  return (createKaldiConfig({}, personaId).selectedTools ?? []).map((tool) => tool.temporaryTool.modelToolName);
+}
+
+describe('personas', () => {
+  it('should define every persona', () => {
+    expect(Object.keys(KALDI_PERSONAS).sort()).toEqual([...PERSONA_IDS].sort());
+    expect(isPersonaId('buyer')).toBe(true);
+    expect(isPersonaId('admin')).toBe(false);
+    expect(isPersonaId(null)).toBe(false);
+  });
+
+  it('should name only tools that exist', () => {
+    const allNames = getClientTools().map((tool) => tool.temporaryTool.modelToolName);
+    for (const persona of Object.values(KALDI_PERSONAS)) {
+      expect(allNames).toEqual(expect.arrayContaining([...persona.tools]));
+    }
+  });
+
+  it('should give the seller every tool and keep the watchlist from the others', () => {
+    expect(DEFAULT_PERSONA_ID).toBe('seller');
+    expect(toolNames('seller')).toContain('updateWatchlist');
+    expect(toolNames('buyer')).toContain('updateCart');
+    expect(toolNames('buyer')).not.toContain('updateWatchlist');
+    expect(toolNames('support')).toContain('readCartSummary');
+    expect(toolNames('support')).not.toContain('updateCart');
+  });
+});
+
+describe('createKaldiConfig', () => {
+  it("should use the persona's prompt and voice unless overridden", () => {
+    const buyer = createKaldiConfig({}, 'buyer');
+    expect(buyer.systemPrompt).toBe(KALDI_PERSONAS.buyer.systemPrompt);
+    expect(buyer.voice).toBe(KALDI_PERSONAS.buyer.voice);
+
+    const custom = createKaldiConfig({ systemPrompt: 'custom', selectedTools: getClientTools(['electronics']) }, 'support');
+    expect(custom.systemPrompt).toBe('custom');
+    expect(custom.voice).toBe(KALDI_PERSONAS.support.voice);
+    expect(custom.selectedTools?.length).toBe(KALDI_PERSONAS.support.tools.length);
+  });
+});
+
+describe('getPersonaVocabulary', () => {
+  it('should reword labels for the persona and language', () => {
+    expect(getPersonaVocabulary(KALDI_PERSONAS.seller, 'cart.title', 'en')).toBe('Stock Order');
+    expect(getPersonaVocabulary(KALDI_PERSONAS.buyer, 'cart.title', 'en')).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for cart pricing
+ *
+ * Tests line totals, coupon rules (percentage, flat, category-scoped, minimum
+ * order), GST by category, shipping thresholds and paise rounding.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkCoupon, findCoupon, getGstRate, priceCart, ShippingRate } from '@/lib/pricing';
+import { addToCart, applyCoupon, clearCart } from '@/lib/cartUtils';
+import { CartState, Product } from '@/lib/types';
+
+function product(id: number, price: number, category: string): Product {
+  return {
+    id,
+    title: `Product ${id}`,
+    price,
+    description: 'Test description',
+    category,
+    image: `https://example.com/image${id}.jpg`,
+    rating: { rate: 4.2, count: 120 },
+  };
+}
+
+// ₹2,489, ₹1,851 and ₹829 at the app's conversion rate
+const backpack = product(1, 29.99, 'electronics');
+const shirt = product(2, 22.3, "men's clothing");
+const ring = product(3, 9.99, 'jewelery');
+
+function cartOf(...lines: Array<[Product, number]>): CartState {
+  return lines.reduce((cart, [item, quantity]) => addToCart(cart, item, quantity), clearCart());
+}
+
+function withCoupon(cart: CartState, code: string): CartState {
+  const coupon = findCoupon(code);
+  if (!coupon) {
+    throw new Error(`Unknown test coupon ${code}`);
+  }
+  return applyCoupon(cart, coupon);
+}
+
+const standard: ShippingRate = { fee: 49, freeAbove: 999 };
+
+describe('priceCart', () => {
+  it('should total the lines and charge GST at each category\'s rate', () => {
+    const pricing = priceCart(cartOf([backpack, 1], [shirt, 2], [ring, 1]));
+
+    expect(pricing.lines.map((line) => [line.lineTotal, line.gstRate, line.gst])).toEqual([
+      [2489, 18, 448.02],
+      [3702, 12, 444.24],
+      [829, 3, 24.87],
+    ]);
+    expect(pricing.subtotal).toBe(7020);
+    expect(pricing.gstLines).toEqual([
+      { rate: 3, taxable: 829, amount: 24.87 },
+      { rate: 12, taxable: 3702, amount: 444.24 },
+      { rate: 18, taxable: 2489, amount: 448.02 },
+    ]);
+    expect(pricing.gst).toBe(917.13);
+    expect(pricing.shipping).toBe(0);
+    expect(pricing.total).toBe(7937.13);
+  });
+
+  it('should fall back to the default GST rate for other categories', () => {
+    expect(getGstRate('home decor')).toBe(18);
+  });
+
+  it('should price an empty cart at zero', () => {
+    expect(priceCart(clearCart(), standard)).toMatchObject({ subtotal: 0, discount: 0, gst: 0, shipping: 0, total: 0 });
+  });
+
+  it('should take a percentage off and charge GST on what is left, to the paisa', () => {
+    const pricing = priceCart(withCoupon(cartOf([backpack, 1]), 'DIWALI10'));
+
+    expect(pricing.discounts).toEqual([
+      { code: 'DIWALI10', description: findCoupon('DIWALI10')?.description, amount: 248.9 },
+    ]);
+    expect(pricing.gst).toBe(403.22);
+    expect(pricing.total).toBe(2643.32);
+    expect(pricing.coupon).toEqual({ code: 'DIWALI10', applied: true });
+  });
+
+  it('should cap a percentage discount at its maximum', () => {
+    expect(priceCart(withCoupon(cartOf([backpack, 5]), 'DIWALI10')).discount).toBe(1000);
+  });
+
+  it('should only discount lines in a coupon\'s categories', () => {
+    const pricing = priceCart(withCoupon(cartOf([backpack, 1], [shirt, 2]), 'STYLE15'));
+
+    expect(pricing.lines.map((line) => line.discount)).toEqual([0, 555.3]);
+    expect(pricing.discount).toBe(555.3);
+  });
+
+  it('should split a flat discount across lines so the shares add up exactly', () => {
+    const rings = [ring, product(4, 9.99, 'jewelery'), product(5, 9.99, 'jewelery')];
+    const pricing = priceCart(withCoupon(cartOf(...rings.map((item): [Product, number] => [item, 1])), 'FLAT200'));
+
+    const shares = pricing.lines.map((line) => line.discount);
+    expect(shares).toEqual([66.67, 66.67, 66.66]);
+    expect(pricing.discount).toBe(200);
+  });
+
+  it('should keep a coupon that stopped applying and say why', () => {
+    const pricing = priceCart(withCoupon(cartOf([ring, 1]), 'FLAT200'));
+
+    expect(pricing.discount).toBe(0);
+    expect(pricing.coupon).toMatchObject({ code: 'FLAT200', applied: false, reason: 'minOrder' });
+  });
+
+  it('should charge shipping below the free threshold, after discounts', () => {
+    expect(priceCart(cartOf([ring, 1]), standard)).toMatchObject({ shipping: 49, total: 829 + 24.87 + 49 });
+    expect(priceCart(cartOf([backpack, 1]), standard).shipping).toBe(0);
+
+    const threshold: ShippingRate = { fee: 49, freeAbove: 2400 };
+    expect(priceCart(cartOf([backpack, 1]), threshold).shipping).toBe(0);
+    expect(priceCart(withCoupon(cartOf([backpack, 1]), 'FLAT200'), threshold).shipping).toBe(49);
+  });
+
+  it('should price variants at their own price', () => {
+    const shirtInSizes: Product = {
+      ...shirt,
+      variants: [
+        { id: 'm', options: { size: 'M' } },
+        { id: 'xxl', options: { size: 'XXL' }, price: 25.3 },
+      ],
+    };
+    const cart = addToCart(addToCart(clearCart(), shirtInSizes, 1, 'm'), shirtInSizes, 1, 'xxl');
+
+    expect(priceCart(cart).lines.map((line) => [line.title, line.unitPrice])).toEqual([
+      ['Product 2 (M)', 1851],
+      ['Product 2 (XXL)', 2100],
+    ]);
+  });
+
+  it('should always charge shipping without a threshold', () => {
+    expect(priceCart(cartOf([backpack, 5]), { fee: 149, freeAbove: null }).shipping).toBe(149);
+  });
+});
+
+describe('checkCoupon', () => {
+  it('should find a coupon however it was spoken', () => {
+    expect(checkCoupon(cartOf([backpack, 1]), ' diwali 10 ')).toMatchObject({ ok: true, coupon: { code: 'DIWALI10' } });
+  });
+
+  it('should reject unknown codes', () => {
+    expect(checkCoupon(cartOf([backpack, 1]), 'FREESTUFF')).toMatchObject({ ok: false, reason: 'unknown' });
+  });
+
+  it('should reject a category coupon with nothing in its categories', () => {
+    expect(checkCoupon(cartOf([backpack, 1]), 'STYLE15')).toMatchObject({ ok: false, reason: 'notApplicable' });
+    expect(checkCoupon(clearCart(), 'DIWALI10')).toMatchObject({ ok: false, reason: 'notApplicable' });
+  });
+
+  it('should say how far the cart is from the minimum order', () => {
+    const check = checkCoupon(cartOf([ring, 1]), 'FLAT200');
+
+    expect(check).toMatchObject({ ok: false, reason: 'minOrder' });
+    expect(!check.ok && check.message).toContain('add ₹1,170 more');
+  });
+});
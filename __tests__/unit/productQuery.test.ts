@@ -0,0 +1,199 @@
+/**
+ * Unit tests for product query helpers
+ *
+ * Tests query parameter validation, sorting and pagination used by the
+ * /api/products route handlers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseProductListQuery,
+  applyProductListQuery,
+  applyProductQuery,
+  getFacetCounts,
+  getPriceRangeFacets,
+  mergeProductQuery,
+  sortProducts,
+  DEFAULT_PRODUCT_QUERY,
+  PRICE_RANGES_INR,
+  ProductListQuery,
+} from '@/lib/productQuery';
+import { Product } from '@/lib/types';
+
+const mockProducts: Product[] = [
+  {
+    id: 1,
+    title: 'Laptop',
+    price: 999.99,
+    description: 'A powerful laptop',
+    category: 'electronics',
+    image: 'https://example.com/laptop.jpg',
+    rating: { rate: 4.5, count: 100 },
+  },
+  {
+    id: 2,
+    title: 'Gold Ring',
+    price: 299.99,
+    description: 'A beautiful gold ring',
+    category: 'jewelery',
+    image: 'https://example.com/ring.jpg',
+    rating: { rate: 4.8, count: 50 },
+  },
+  {
+    id: 3,
+    title: 'Headphones',
+    price: 79.99,
+    description: 'Noise-cancelling headphones',
+    category: 'electronics',
+    image: 'https://example.com/headphones.jpg',
+    rating: { rate: 4.7, count: 300 },
+  },
+];
+
+const baseQuery: ProductListQuery = {
+  category: 'all',
+  q: '',
+  sort: null,
+  page: null,
+  pageSize: 20,
+};
+
+describe('productQuery', () => {
+  describe('parseProductListQuery', () => {
+    it('should apply defaults for an empty query string', () => {
+      const result = parseProductListQuery(new URLSearchParams(''));
+
+      expect(result).toEqual({ ok: true, query: baseQuery });
+    });
+
+    it('should parse all supported parameters', () => {
+      const result = parseProductListQuery(
+        new URLSearchParams('category=electronics&q=%20head%20&sort=price-asc&page=2&pageSize=5')
+      );
+
+      expect(result).toEqual({
+        ok: true,
+        query: { category: 'electronics', q: 'head', sort: 'price-asc', page: 2, pageSize: 5 },
+      });
+    });
+
+    it.each([
+      ['sort=cheapest', 'sort must be one of'],
+      ['page=0', 'page must be a positive integer'],
+      ['page=abc', 'page must be a positive integer'],
+      ['pageSize=500', 'pageSize must be an integer between 1 and 100'],
+      [`q=${'x'.repeat(101)}`, 'q must be at most 100 characters'],
+    ])('should reject %s', (search, message) => {
+      const result = parseProductListQuery(new URLSearchParams(search));
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toContain(message);
+    });
+  });
+
+  describe('sortProducts', () => {
+    it('should sort by price without mutating the input', () => {
+      const sorted = sortProducts(mockProducts, 'price-asc');
+
+      expect(sorted.map((p) => p.id)).toEqual([3, 2, 1]);
+      expect(mockProducts.map((p) => p.id)).toEqual([1, 2, 3]);
+    });
+
+    it('should sort by review count', () => {
+      expect(sortProducts(mockProducts, 'reviews-desc').map((p) => p.id)).toEqual([3, 1, 2]);
+    });
+
+    it('should sort BESTSELLER before untagged products', () => {
+      // Only the headphones (4.7 stars, 300 reviews) qualify as a BESTSELLER
+      expect(sortProducts(mockProducts, 'tag-desc').map((p) => p.id)).toEqual([3, 1, 2]);
+    });
+  });
+
+  describe('applyProductQuery', () => {
+    it('should filter by price range in INR', () => {
+      // Prices in INR: laptop ₹82,999, ring ₹24,899, headphones ₹6,639
+      const query = mergeProductQuery(DEFAULT_PRODUCT_QUERY, { facets: { maxPrice: 25000 } });
+
+      expect(applyProductQuery(mockProducts, query).map((p) => p.id)).toEqual([2, 3]);
+    });
+
+    it('should combine facets with a sort order', () => {
+      const query = mergeProductQuery(DEFAULT_PRODUCT_QUERY, {
+        sort: 'rating-desc',
+        facets: { minPrice: 5000, minRating: 4.5 },
+      });
+
+      expect(applyProductQuery(mockProducts, query).map((p) => p.id)).toEqual([2, 3, 1]);
+    });
+
+    it('should filter by demand tag', () => {
+      const query = mergeProductQuery(DEFAULT_PRODUCT_QUERY, { facets: { tag: 'BESTSELLER' } });
+
+      expect(applyProductQuery(mockProducts, query).map((p) => p.id)).toEqual([3]);
+    });
+
+    it('should keep unchanged fields when merging an update', () => {
+      const first = mergeProductQuery(DEFAULT_PRODUCT_QUERY, { sort: 'price-asc', facets: { tag: 'HOT' } });
+      const second = mergeProductQuery(first, { facets: { minRating: 4 } });
+
+      expect(second).toEqual({
+        sort: 'price-asc',
+        facets: { minPrice: null, maxPrice: null, minRating: 4, tag: 'HOT' },
+      });
+    });
+  });
+
+  describe('getFacetCounts', () => {
+    it('should count products per facet value', () => {
+      expect(getFacetCounts(mockProducts)).toEqual({
+        total: 3,
+        tags: { BESTSELLER: 1, HOT: 0 },
+        priceRanges: [0, 0, 1, 2],
+        ratings: [3, 3, 3],
+        priceBounds: { min: 6639, max: 82999 },
+      });
+    });
+
+    it('should count a product priced at a boundary in one bucket only', () => {
+      // ₹1,000 exactly
+      const boundary = { ...mockProducts[0], id: 9, price: 1000 / 83 };
+
+      expect(getFacetCounts([boundary]).priceRanges).toEqual([0, 1, 0, 0]);
+      PRICE_RANGES_INR.forEach((range, i) => {
+        const query = mergeProductQuery(DEFAULT_PRODUCT_QUERY, { facets: getPriceRangeFacets(range) });
+        expect(applyProductQuery([boundary], query)).toHaveLength(i === 1 ? 1 : 0);
+      });
+    });
+
+    it('should have no price bounds for an empty list', () => {
+      expect(getFacetCounts([]).priceBounds).toBeNull();
+    });
+  });
+
+  describe('applyProductListQuery', () => {
+    it('should filter by category and search text', () => {
+      const result = applyProductListQuery(mockProducts, {
+        ...baseQuery,
+        category: 'electronics',
+        q: 'noise',
+      });
+
+      expect(result.products.map((p) => p.id)).toEqual([3]);
+      expect(result.total).toBe(1);
+    });
+
+    it('should paginate when a page is requested', () => {
+      const result = applyProductListQuery(mockProducts, { ...baseQuery, page: 2, pageSize: 2 });
+
+      expect(result.products.map((p) => p.id)).toEqual([3]);
+      expect(result).toMatchObject({ total: 3, page: 2, pageSize: 2, totalPages: 2 });
+    });
+
+    it('should return every match when no page is requested', () => {
+      const result = applyProductListQuery(mockProducts, baseQuery);
+
+      expect(result.products).toHaveLength(3);
+      expect(result).toMatchObject({ total: 3, page: 1, pageSize: 3, totalPages: 1 });
+    });
+  });
+});
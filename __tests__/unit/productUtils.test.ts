@@ -13,20 +13,35 @@ import {
   clearProductCache,
   getCacheStatus,
 } from '../../lib/productUtils';
+import { setCatalogProvider } from '../../lib/catalogProvider';
+import {
+  createMemoryCacheStore,
+  setProductCacheStore,
+  PRODUCT_CACHE_VERSION,
+  ProductCacheStore,
+} from '../../lib/productCacheStore';
+import { createFakeStoreProvider } from '../../lib/catalogAdapters';
 import { Product } from '../../lib/types';
 
 // Mock fetch globally
 global.fetch = vi.fn();
 
+// Every request carries an AbortSignal for timeouts and cancellation
+const withSignal = expect.objectContaining({ signal: expect.any(AbortSignal) });
+
 describe('productUtils', () => {
   beforeEach(() => {
     // Clear all mocks before each test
     vi.clearAllMocks();
     clearProductCache();
+    // These tests exercise the Fake Store adapter directly
+    setCatalogProvider(createFakeStoreProvider());
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
+    setCatalogProvider(null);
+    setProductCacheStore(null);
   });
 
   describe('parseProduct', () => {
@@ -60,13 +75,30 @@ describe('productUtils', () => {
       });
     });
 
-    it('should throw error for invalid category', () => {
+    it('should accept categories outside the Fake Store set', () => {
       const rawProduct = {
         id: 1,
         title: 'Test Product',
         price: 29.99,
         description: 'A test product',
-        category: 'invalid-category',
+        category: 'home & kitchen',
+        image: 'https://example.com/image.jpg',
+        rating: {
+          rate: 4.5,
+          count: 100,
+        },
+      };
+
+      expect(parseProduct(rawProduct).category).toBe('home & kitchen');
+    });
+
+    it('should throw error for blank category', () => {
+      const rawProduct = {
+        id: 1,
+        title: 'Test Product',
+        price: 29.99,
+        description: 'A test product',
+        category: '   ',
         image: 'https://example.com/image.jpg',
         rating: {
           rate: 4.5,
@@ -132,6 +164,51 @@ describe('productUtils', () => {
         expect(result.category).toBe(category);
       });
     });
+
+    it('should keep stock, order limit and variants', () => {
+      const rawProduct = {
+        id: 1,
+        title: 'Test Shirt',
+        price: 20,
+        description: 'A test product',
+        category: "men's clothing",
+        image: 'https://example.com/image.jpg',
+        rating: { rate: 4.5, count: 100 },
+        maxPerOrder: 4,
+        variants: [
+          { id: 'm-black', options: { size: ' M ', color: 'Black', fit: 'slim' }, stock: 3 },
+          { id: 'l-black', options: { size: 'L', color: 'Black' }, price: 22 },
+        ],
+      };
+
+      expect(parseProduct(rawProduct)).toMatchObject({
+        maxPerOrder: 4,
+        variants: [
+          { id: 'm-black', options: { size: 'M', color: 'Black' }, stock: 3 },
+          { id: 'l-black', options: { size: 'L', color: 'Black' }, price: 22 },
+        ],
+      });
+      expect(parseProduct(rawProduct).variants![0].options).toEqual({ size: 'M', color: 'Black' });
+    });
+
+    it('should reject invalid stock and variants', () => {
+      const rawProduct = {
+        id: 1,
+        title: 'Test Product',
+        price: 29.99,
+        description: 'A test product',
+        category: 'electronics',
+        image: 'https://example.com/image.jpg',
+        rating: { rate: 4.5, count: 100 },
+      };
+
+      expect(() => parseProduct({ ...rawProduct, stock: -1 })).toThrow('Invalid product stock');
+      expect(() => parseProduct({ ...rawProduct, maxPerOrder: 0 })).toThrow('Invalid product order limit');
+      expect(() => parseProduct({ ...rawProduct, variants: [{ id: 'a', options: {} }] })).toThrow('no size or color');
+      expect(() =>
+        parseProduct({ ...rawProduct, variants: [{ id: 'a', options: { size: 'M' } }, { id: 'a', options: { size: 'L' } }] })
+      ).toThrow('duplicate ids');
+    });
   });
 
   describe('fetchProducts', () => {
@@ -167,7 +244,7 @@ describe('productUtils', () => {
       expect(result).toHaveLength(2);
       expect(result[0].id).toBe(1);
       expect(result[1].id).toBe(2);
-      expect(global.fetch).toHaveBeenCalledWith('https://fakestoreapi.com/products');
+      expect(global.fetch).toHaveBeenCalledWith('https://fakestoreapi.com/products', withSignal);
     });
 
     it('should throw error on HTTP failure', async () => {
@@ -253,7 +330,8 @@ describe('productUtils', () => {
       expect(result).toHaveLength(1);
       expect(result[0].category).toBe('electronics');
       expect(global.fetch).toHaveBeenCalledWith(
-        'https://fakestoreapi.com/products/category/electronics'
+        'https://fakestoreapi.com/products/category/electronics',
+        withSignal
       );
     });
 
@@ -266,7 +344,8 @@ describe('productUtils', () => {
       await fetchProductsByCategory("men's clothing");
 
       expect(global.fetch).toHaveBeenCalledWith(
-        "https://fakestoreapi.com/products/category/men's%20clothing"
+        "https://fakestoreapi.com/products/category/men's%20clothing",
+        withSignal
       );
     });
 
@@ -386,6 +465,130 @@ describe('productUtils', () => {
     });
   });
 
+  describe('persistent cache', () => {
+    const cachedProduct: Product = {
+      id: 7,
+      title: 'Cached Product',
+      price: 9.99,
+      description: 'Description',
+      category: 'electronics',
+      image: 'https://example.com/7.jpg',
+      rating: { rate: 4.1, count: 20 },
+    };
+
+    const freshProduct = { ...cachedProduct, id: 8, title: 'Fresh Product' };
+
+    let store: ProductCacheStore;
+
+    beforeEach(() => {
+      store = createMemoryCacheStore();
+      setProductCacheStore(store);
+    });
+
+    it('should persist fetched products', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [freshProduct],
+      });
+
+      await fetchProductsWithCache();
+
+      expect(await store.read()).toMatchObject({
+        version: PRODUCT_CACHE_VERSION,
+        provider: 'fakestore',
+        products: [freshProduct],
+      });
+      expect(getCacheStatus().source).toBe('network');
+    });
+
+    it('should serve fresh persisted products without fetching', async () => {
+      await store.write({
+        version: PRODUCT_CACHE_VERSION,
+        provider: 'fakestore',
+        products: [cachedProduct],
+        savedAt: Date.now() - 1000,
+      });
+
+      const result = await fetchProductsWithCache();
+
+      expect(result).toEqual([cachedProduct]);
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(getCacheStatus()).toMatchObject({ source: 'disk', isExpired: false });
+    });
+
+    it('should serve stale products immediately and refresh in the background', async () => {
+      const savedAt = Date.now() - 10 * 60 * 1000;
+      await store.write({
+        version: PRODUCT_CACHE_VERSION,
+        provider: 'fakestore',
+        products: [cachedProduct],
+        savedAt,
+      });
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [freshProduct],
+      });
+
+      const result = await fetchProductsWithCache();
+      expect(result).toEqual([cachedProduct]);
+      expect(getCacheStatus().isRevalidating).toBe(true);
+
+      await vi.waitFor(() => {
+        expect(getCacheStatus().isRevalidating).toBe(false);
+      });
+
+      expect(await fetchProductsWithCache()).toEqual([freshProduct]);
+      expect(getCacheStatus().lastSyncAt).toBeGreaterThan(savedAt);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to persisted products when the catalog is unreachable', async () => {
+      setCatalogProvider(createFakeStoreProvider({ retry: { retries: 0 } }));
+      await store.write({
+        version: PRODUCT_CACHE_VERSION,
+        provider: 'fakestore',
+        products: [cachedProduct],
+        savedAt: Date.now() - 60 * 60 * 1000,
+      });
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+      });
+
+      const result = await fetchProductsWithCache(true);
+
+      expect(result).toEqual([cachedProduct]);
+      expect(getCacheStatus()).toMatchObject({
+        source: 'disk',
+        isExpired: true,
+        lastError: expect.stringContaining('503'),
+      });
+    });
+
+    it('should ignore entries from an older cache version', async () => {
+      await store.write({
+        version: PRODUCT_CACHE_VERSION - 1,
+        provider: 'fakestore',
+        products: [cachedProduct],
+        savedAt: Date.now(),
+      });
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => [freshProduct],
+      });
+
+      expect(await fetchProductsWithCache()).toEqual([freshProduct]);
+    });
+
+    it('should throw when the fetch fails and nothing is cached', async () => {
+      (global.fetch as any).mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(fetchProductsWithCache()).rejects.toThrow('Network error');
+      expect(getCacheStatus().lastError).toBe('Network error');
+    });
+  });
+
   describe('clearProductCache', () => {
     it('should clear the cache', async () => {
       const mockProducts = [
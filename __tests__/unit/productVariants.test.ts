@@ -0,0 +1,87 @@
+/**
+ * Unit tests for product variants
+ *
+ * Tests matching a spoken size and color to a variant, explaining choices
+ * that match none, and the price and stock of what was picked.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeVariantMismatch,
+  getStock,
+  getUnitPrice,
+  getVariantAxes,
+  getVariantTitle,
+  isInStock,
+  matchVariant,
+} from '@/lib/productVariants';
+import { Product } from '@/lib/types';
+
+const tee: Product = {
+  id: 7,
+  title: 'Cotton Tee',
+  price: 12.5,
+  description: 'Test description',
+  category: "men's clothing",
+  image: 'https://example.com/tee.jpg',
+  rating: { rate: 4.1, count: 180 },
+  variants: [
+    { id: 's-white', options: { size: 'S', color: 'White' }, stock: 0 },
+    { id: 'm-white', options: { size: 'M', color: 'White' }, stock: 4 },
+    { id: 'm-black', options: { size: 'M', color: 'Black' } },
+    { id: 'xl-black', options: { size: 'XL', color: 'Black' }, price: 14.5, stock: 2 },
+  ],
+};
+
+const mug: Product = {
+  id: 8,
+  title: 'Mug',
+  price: 6,
+  description: 'Test description',
+  category: 'home',
+  image: 'https://example.com/mug.jpg',
+  rating: { rate: 4.4, count: 60 },
+  stock: 0,
+};
+
+describe('productVariants', () => {
+  it('should match spoken sizes and colors ignoring case', () => {
+    expect(matchVariant(tee, { size: 'medium', color: 'BLACK' })).toMatchObject({ ok: true, variant: { id: 'm-black' } });
+    expect(matchVariant(tee, { size: 'extra large' })).toMatchObject({ ok: true, variant: { id: 'xl-black' } });
+    expect(matchVariant(tee, { size: 's' })).toMatchObject({ ok: true, variant: { id: 's-white' } });
+  });
+
+  it('should ask for the axes that still tell variants apart', () => {
+    expect(matchVariant(tee)).toEqual({ ok: false, reason: 'missing', axes: ['size', 'color'] });
+    expect(matchVariant(tee, { size: 'M' })).toEqual({ ok: false, reason: 'missing', axes: ['color'] });
+  });
+
+  it('should reject values and combinations the product does not come in', () => {
+    const unknown = matchVariant(tee, { size: 'XXL' });
+    expect(unknown).toEqual({ ok: false, reason: 'unknownValue', axis: 'size', value: 'XXL' });
+    expect(describeVariantMismatch(tee, unknown as Exclude<typeof unknown, { ok: true }>)).toBe(
+      'Cotton Tee does not come in size XXL. It comes in size S, M, XL.'
+    );
+
+    expect(matchVariant(tee, { size: 'S', color: 'black' })).toEqual({ ok: false, reason: 'noMatch' });
+  });
+
+  it('should need no choice for products without variants', () => {
+    expect(matchVariant(mug, { size: 'M' })).toEqual({ ok: true, variant: undefined });
+    expect(getVariantAxes(mug)).toEqual([]);
+  });
+
+  it('should price and stock the variant picked', () => {
+    expect(getUnitPrice(tee, 'xl-black')).toBe(14.5);
+    expect(getUnitPrice(tee, 'm-black')).toBe(12.5);
+    expect(getStock(tee, 'm-white')).toBe(4);
+    expect(getStock(tee, 'm-black')).toBeNull();
+    expect(getVariantTitle(tee, 'xl-black')).toBe('Cotton Tee (XL / Black)');
+  });
+
+  it('should tell whether anything can be bought', () => {
+    expect(isInStock(tee)).toBe(true);
+    expect(isInStock(mug)).toBe(false);
+    expect(isInStock({ ...mug, stock: undefined })).toBe(true);
+  });
+});
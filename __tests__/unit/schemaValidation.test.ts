@@ -0,0 +1,44 @@
+/**
+ * Unit tests for JSON schema validation of tool parameters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateJsonSchema } from '@/lib/schemaValidation';
+import { JsonSchema } from '@/lib/ultravox-types';
+
+describe('validateJsonSchema', () => {
+  it('should accept values that match the schema', () => {
+    expect(validateJsonSchema({ type: 'string', enum: ['a', 'b'] }, 'a', 'mode')).toBeNull();
+    expect(validateJsonSchema({ type: 'number', minimum: 0, maximum: 5 }, 4.5, 'rating')).toBeNull();
+    expect(validateJsonSchema({ type: 'integer', minimum: 1 }, 3, 'quantity')).toBeNull();
+    expect(validateJsonSchema({ type: 'boolean' }, false, 'reset')).toBeNull();
+  });
+
+  it.each<[JsonSchema, unknown, string]>([
+    [{ type: 'string' }, 5, 'value must be a string (received 5)'],
+    [{ type: 'number' }, Number.NaN, 'value must be a number (received NaN)'],
+    [{ type: 'integer' }, 1.5, 'value must be a whole number (received 1.5)'],
+    [{ type: 'number', minimum: 1 }, 0, 'value must be at least 1 (received 0)'],
+    [{ type: 'number', maximum: 5 }, 6, 'value must be at most 5 (received 6)'],
+    [{ type: 'string', maxLength: 3 }, 'long', 'value must be at most 3 characters'],
+    [{ type: 'string', enum: ['next', 'previous'] }, 'back', 'value must be one of: next, previous (received "back")'],
+  ])('should describe the problem with %j', (schema, value, error) => {
+    expect(validateJsonSchema(schema, value, 'value')).toBe(error);
+  });
+
+  it('should validate nested objects and arrays', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { type: 'integer', minimum: 1 } },
+      },
+      required: ['items'],
+    };
+
+    expect(validateJsonSchema(schema, { items: [1, 2] }, 'order')).toBeNull();
+    expect(validateJsonSchema(schema, {}, 'order')).toBe('order.items is required');
+    expect(validateJsonSchema(schema, { items: [1, 0] }, 'order')).toBe(
+      'order.items[1] must be at least 1 (received 0)'
+    );
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the product search index
+ *
+ * Tests tokenization, fuzzy matching and relevance ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  tokenize,
+  buildSearchIndex,
+  querySearchIndex,
+  searchProducts,
+} from '@/lib/searchIndex';
+import { Product } from '@/lib/types';
+
+const mockProducts: Product[] = [
+  {
+    id: 1,
+    title: 'Fjallraven - Foldsack No. 1 Backpack, Fits 15 Laptops',
+    price: 109.95,
+    description: 'Your perfect pack for everyday use and walks in the forest.',
+    category: "men's clothing",
+    image: 'https://example.com/backpack.jpg',
+    rating: { rate: 3.9, count: 120 },
+  },
+  {
+    id: 2,
+    title: 'Mens Cotton Jacket',
+    price: 55.99,
+    description: 'Great outerwear jacket for spring, autumn and winter.',
+    category: "men's clothing",
+    image: 'https://example.com/jacket.jpg',
+    rating: { rate: 4.7, count: 500 },
+  },
+  {
+    id: 3,
+    title: 'Silver Dragon Station Chain Bracelet',
+    price: 695,
+    description: 'From our legends collection, inspired by the mythical water dragon.',
+    category: 'jewelery',
+    image: 'https://example.com/bracelet.jpg',
+    rating: { rate: 4.6, count: 400 },
+  },
+  {
+    id: 4,
+    title: 'SanDisk SSD PLUS 1TB Internal SSD',
+    price: 109,
+    description: 'Easy upgrade for faster boot up, shutdown and application load. Fits most laptops.',
+    category: 'electronics',
+    image: 'https://example.com/ssd.jpg',
+    rating: { rate: 2.9, count: 470 },
+  },
+];
+
+describe('searchIndex', () => {
+  describe('tokenize', () => {
+    it('should lowercase, drop apostrophes and split on punctuation', () => {
+      expect(tokenize("Men's Cotton-Jacket, 15\"")).toEqual(['mens', 'cotton', 'jacket', '15']);
+    });
+
+    it('should keep Devanagari text', () => {
+      expect(tokenize('सोने की अंगूठी')).toEqual(['सोने', 'की', 'अंगूठी']);
+    });
+  });
+
+  describe('searchProducts', () => {
+    it('should ignore filler words in spoken queries', () => {
+      expect(searchProducts(mockProducts, 'find me a backpack').map((p) => p.id)).toEqual([1]);
+    });
+
+    it('should tolerate small typos', () => {
+      expect(searchProducts(mockProducts, 'jackit').map((p) => p.id)).toEqual([2]);
+      expect(searchProducts(mockProducts, 'braclet').map((p) => p.id)).toEqual([3]);
+    });
+
+    it('should match word prefixes', () => {
+      expect(searchProducts(mockProducts, 'jewel').map((p) => p.id)).toEqual([3]);
+    });
+
+    it('should require every query term to match', () => {
+      expect(searchProducts(mockProducts, 'silver jacket')).toEqual([]);
+    });
+
+    it('should return the input unchanged for queries without searchable terms', () => {
+      expect(searchProducts(mockProducts, '')).toBe(mockProducts);
+      expect(searchProducts(mockProducts, 'show me something')).toBe(mockProducts);
+    });
+  });
+
+  describe('querySearchIndex', () => {
+    it('should rank title matches above description matches', () => {
+      const index = buildSearchIndex(mockProducts);
+      const results = querySearchIndex(index, 'laptops');
+
+      // Backpack has "laptops" in the title, the SSD only in its description
+      expect(results.map((r) => r.product.id)).toEqual([1, 4]);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    it('should break score ties by review count', () => {
+      const index = buildSearchIndex(mockProducts);
+
+      expect(querySearchIndex(index, 'clothing').map((r) => r.product.id)).toEqual([2, 1]);
+    });
+
+    it('should apply the limit', () => {
+      const index = buildSearchIndex(mockProducts);
+
+      expect(querySearchIndex(index, 'fits', 1)).toHaveLength(1);
+    });
+  });
+});
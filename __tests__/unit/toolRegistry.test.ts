@@ -0,0 +1,198 @@
+/**
+ * Unit tests for the declarative client tool registry
+ *
+ * Tests schema derivation, runtime parameter and catalog validation, and
+ * session registration
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  buildToolSchema,
+  defineClientTool,
+  invokeClientTool,
+  registerClientTools,
+  setToolCatalogState,
+  ToolCatalogState,
+  validateToolParameters,
+} from '@/lib/toolRegistry';
+import { getClientTools } from '@/lib/clientTools';
+import { toolSuccess } from '@/lib/toolOutcome';
+import { ParameterLocation } from '@/lib/ultravox-types';
+import { KALDI_PERSONAS } from '@/app/jarvis-config';
+
+const handler = vi.fn((params: Record<string, unknown>) => toolSuccess('done', { resultCount: Object.keys(params).length }));
+
+const catalog: ToolCatalogState = { categories: ['books'], productIds: new Set([1, 2]) };
+
+const testTool = defineClientTool({
+  name: 'testRegistryTool',
+  description: ({ categories }) => `Pick from ${categories.join(', ')}`,
+  params: {
+    mode: { type: 'string', enum: ['fast', 'slow'], description: 'Mode', required: true },
+    category: { type: 'string', enum: ({ categories }) => categories, description: 'Category' },
+    count: { type: 'number', integer: true, minimum: 1, maximum: 10, description: 'Count' },
+    verbose: { type: 'boolean', description: 'Verbose' },
+  },
+  handler: (params) => handler(params),
+});
+
+describe('toolRegistry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('buildToolSchema', () => {
+    it('should derive dynamic parameters from the parameter spec', () => {
+      const { temporaryTool } = buildToolSchema(testTool, { categories: ['books'] });
+
+      expect(temporaryTool.modelToolName).toBe('testRegistryTool');
+      expect(temporaryTool.description).toBe('Pick from books');
+      expect(temporaryTool.client).toEqual({});
+      expect(temporaryTool.dynamicParameters).toEqual([
+        {
+          name: 'mode',
+          location: ParameterLocation.BODY,
+          schema: { type: 'string', description: 'Mode', enum: ['fast', 'slow'] },
+          required: true,
+        },
+        {
+          name: 'category',
+          location: ParameterLocation.BODY,
+          schema: { type: 'string', description: 'Category', enum: ['books'] },
+          required: false,
+        },
+        {
+          name: 'count',
+          location: ParameterLocation.BODY,
+          schema: { type: 'integer', description: 'Count', minimum: 1, maximum: 10 },
+          required: false,
+        },
+        {
+          name: 'verbose',
+          location: ParameterLocation.BODY,
+          schema: { type: 'boolean', description: 'Verbose' },
+          required: false,
+        },
+      ]);
+    });
+
+    it('should include every client tool in definition order', () => {
+      const names = getClientTools().map((tool) => tool.temporaryTool.modelToolName);
+
+      expect(names.slice(0, 3)).toEqual(['updateCart', 'navigateProduct', 'filterCategory']);
+      expect(names).toContain('sortAndFilterProducts');
+    });
+  });
+
+  describe('validateToolParameters', () => {
+    it('should accept valid parameters and drop unknown ones', () => {
+      const result = validateToolParameters(testTool.params, { mode: 'fast', count: 3, extra: 'x' });
+
+      expect(result).toEqual({ ok: true, value: { mode: 'fast', count: 3 } });
+    });
+
+    it.each([
+      [{}, 'mode is required'],
+      [{ mode: 'medium' }, 'mode must be one of: fast, slow (received "medium")'],
+      [{ mode: 'fast', count: '3' }, 'count must be a whole number (received "3")'],
+      [{ mode: 'fast', count: 2.5 }, 'count must be a whole number (received 2.5)'],
+      [{ mode: 'fast', count: 11 }, 'count must be at most 10 (received 11)'],
+      [{ mode: 'fast', verbose: 'yes' }, 'verbose must be true or false (received "yes")'],
+    ])('should reject %j', (raw, error) => {
+      expect(validateToolParameters(testTool.params, raw)).toEqual({ ok: false, error });
+    });
+
+    it('should check catalog-dependent enums only when the catalog is known', () => {
+      const raw = { mode: 'fast', category: 'toys' };
+
+      expect(validateToolParameters(testTool.params, raw).ok).toBe(true);
+      expect(validateToolParameters(testTool.params, raw, catalog)).toEqual({
+        ok: false,
+        error: 'category must be one of: books (received "toys")',
+      });
+    });
+  });
+
+  describe('catalog checks', () => {
+    afterEach(() => {
+      setToolCatalogState(null);
+    });
+
+    it('should reject product IDs that are not in the catalog and log the rejection', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      setToolCatalogState(catalog);
+
+      const result = JSON.parse(await invokeClientTool('updateCart', { action: 'add', productId: 42 }));
+
+      expect(result).toMatchObject({ ok: false, code: 'invalid' });
+      expect(result.error).toContain('productId 42 is not in the catalog');
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[toolRegistry]',
+        expect.stringContaining('Rejected updateCart call'),
+        { action: 'add', productId: 42 }
+      );
+    });
+
+    it('should reject out-of-range quantities', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = JSON.parse(await invokeClientTool('updateCart', { action: 'add', quantity: 9999 }));
+
+      expect(result.error).toContain('quantity must be at most');
+      expect(result.error).toContain('received 9999');
+    });
+  });
+
+  describe('invokeClientTool', () => {
+    it('should call the handler with validated parameters', async () => {
+      const result = JSON.parse(await invokeClientTool('testRegistryTool', { mode: 'slow', verbose: true }));
+
+      expect(handler).toHaveBeenCalledWith({ mode: 'slow', verbose: true });
+      expect(result).toEqual({ ok: true, message: 'done', resultCount: 2 });
+    });
+
+    it('should not call the handler when validation fails', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const result = JSON.parse(await invokeClientTool('testRegistryTool', { mode: 'slow', count: 0 }));
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ ok: false, code: 'invalid' });
+      expect(result.error).toContain('count must be at least 1 (received 0)');
+    });
+
+    it('should report unknown tools', async () => {
+      expect(JSON.parse(await invokeClientTool('noSuchTool', {}))).toMatchObject({ code: 'unavailable' });
+    });
+  });
+
+  describe('registerClientTools', () => {
+    it('should register an implementation for every tool of the persona', async () => {
+      const session = { registerToolImplementation: vi.fn() };
+
+      registerClientTools(session, { tools: ['testRegistryTool', 'updateCart'] });
+
+      const registered = session.registerToolImplementation.mock.calls.map(([name]) => name);
+      expect(registered).toContain('testRegistryTool');
+      expect(registered).toContain('updateCart');
+
+      const [, implementation] = session.registerToolImplementation.mock.calls.find(
+        ([name]) => name === 'testRegistryTool'
+      )!;
+      await implementation({ mode: 'fast' });
+      expect(handler).toHaveBeenCalledWith({ mode: 'fast' });
+    });
+
+    it('should leave a support session unable to change the cart or order', () => {
+      const session = { registerToolImplementation: vi.fn() };
+
+      registerClientTools(session, KALDI_PERSONAS.support);
+
+      const registered = session.registerToolImplementation.mock.calls.map(([name]) => name);
+      expect(registered).toContain('readCartSummary');
+      expect(registered).not.toContain('updateCart');
+      expect(registered).not.toContain('placeOrder');
+      expect(registered.every((name) => KALDI_PERSONAS.support.tools.includes(name))).toBe(true);
+    });
+  });
+});
@@ -14,9 +14,11 @@ import {
   updateCartItemQuantity,
   saveCart,
   loadCart,
+  resolveCartItems,
   getCartItemCount,
   isProductInCart,
   getProductQuantity,
+  getQuantityLimit,
 } from '@/lib/cartUtils';
 import { CartState, Product, CartItem } from '@/lib/types';
 
@@ -51,6 +53,22 @@ const mockProduct3: Product = {
   rating: { rate: 3.5, count: 25 },
 };
 
+// Comes in sizes, with at most 5 per order
+const mockShirt: Product = {
+  id: 4,
+  title: 'Test Shirt',
+  price: 20,
+  description: 'Test description 4',
+  category: "men's clothing",
+  image: 'https://example.com/image4.jpg',
+  rating: { rate: 4.2, count: 80 },
+  maxPerOrder: 5,
+  variants: [
+    { id: 'm', options: { size: 'M' }, stock: 3 },
+    { id: 'l', options: { size: 'L' }, price: 25 },
+  ],
+};
+
 describe('cartUtils', () => {
   let emptyCart: CartState;
 
@@ -362,6 +380,118 @@ describe('cartUtils', () => {
     });
   });
 
+  describe('unresolved items', () => {
+    const savedCart: CartState = {
+      items: [
+        { product: mockProduct1, quantity: 2 },
+        { product: mockProduct2, quantity: 1 },
+      ],
+      subtotal: 109.97,
+    };
+
+    it('should save the schema version and item titles', () => {
+      saveCart(savedCart);
+
+      const parsed = JSON.parse(localStorage.getItem('jarvis-cart')!);
+      expect(parsed.version).toBe(3);
+      expect(parsed.items[1]).toEqual({ productId: mockProduct2.id, quantity: 1, title: mockProduct2.title });
+    });
+
+    it('should keep items missing from an incomplete catalog', () => {
+      saveCart(savedCart);
+
+      const loadedCart = loadCart([mockProduct1], { catalogComplete: false });
+
+      expect(loadedCart.items).toHaveLength(1);
+      expect(loadedCart.subtotal).toBe(59.98);
+      expect(loadedCart.unresolvedItems).toEqual([
+        { productId: mockProduct2.id, quantity: 1, title: mockProduct2.title },
+      ]);
+    });
+
+    it('should save unresolved items again', () => {
+      saveCart(savedCart);
+      saveCart(loadCart([mockProduct1], { catalogComplete: false }));
+
+      expect(loadCart([mockProduct1, mockProduct2]).items).toHaveLength(2);
+    });
+
+    it('should add unresolved items once their products load', () => {
+      saveCart(savedCart);
+      const loadedCart = loadCart([mockProduct1], { catalogComplete: false });
+
+      const resolvedCart = resolveCartItems(loadedCart, [mockProduct1, mockProduct2], false);
+
+      expect(resolvedCart.items.map((item) => item.product.id)).toEqual([mockProduct1.id, mockProduct2.id]);
+      expect(resolvedCart.subtotal).toBeCloseTo(109.97, 2);
+      expect(resolvedCart.unresolvedItems).toBeUndefined();
+    });
+
+    it('should drop unresolved items once a complete catalog lacks them', () => {
+      saveCart(savedCart);
+      const loadedCart = loadCart([mockProduct1], { catalogComplete: false });
+
+      expect(resolveCartItems(loadedCart, [mockProduct1], false)).toBe(loadedCart);
+      expect(resolveCartItems(loadedCart, [mockProduct1], true).unresolvedItems).toBeUndefined();
+    });
+  });
+
+  describe('variants and limits', () => {
+    it('should keep each variant on a line of its own', () => {
+      let cart = addToCart(emptyCart, mockShirt, 1, 'm');
+      cart = addToCart(cart, mockShirt, 2, 'l');
+      cart = addToCart(cart, mockShirt, 1, 'm');
+
+      expect(cart.items.map((item) => [item.variantId, item.quantity])).toEqual([['m', 2], ['l', 2]]);
+      expect(cart.subtotal).toBe(2 * 20 + 2 * 25);
+      expect(getProductQuantity(cart, mockShirt.id)).toBe(4);
+      expect(getProductQuantity(cart, mockShirt.id, 'l')).toBe(2);
+    });
+
+    it('should require a known variant for products with variants', () => {
+      expect(() => addToCart(emptyCart, mockShirt, 1)).toThrow('Choose a size for Test Shirt');
+      expect(() => addToCart(emptyCart, mockShirt, 1, 'xl')).toThrow('Test Shirt has no variant xl');
+      expect(() => addToCart(emptyCart, mockProduct1, 1, 'm')).toThrow('has no variant m');
+    });
+
+    it('should not add or set more than is in stock', () => {
+      const cart = addToCart(emptyCart, mockShirt, 2, 'm');
+
+      expect(() => addToCart(cart, mockShirt, 2, 'm')).toThrow('Only 3 of Test Shirt (M) in stock');
+      expect(() => updateCartItemQuantity(cart, mockShirt.id, 4, 'm')).toThrow('Only 3');
+      expect(updateCartItemQuantity(cart, mockShirt.id, 3, 'm').items[0].quantity).toBe(3);
+      expect(() => addToCart(emptyCart, { ...mockProduct1, stock: 0 })).toThrow('Test Product 1 is out of stock');
+    });
+
+    it('should apply the order limit across variants', () => {
+      const cart = addToCart(emptyCart, mockShirt, 3, 'm');
+
+      expect(getQuantityLimit(cart, mockShirt, 'l')).toBe(2);
+      expect(() => addToCart(cart, mockShirt, 3, 'l')).toThrow('At most 5 of Test Shirt can be ordered at once');
+      expect(getQuantityLimit(emptyCart, mockProduct1)).toBeNull();
+    });
+
+    it('should remove only the variant named', () => {
+      const cart = addToCart(addToCart(emptyCart, mockShirt, 1, 'm'), mockShirt, 1, 'l');
+
+      const result = removeFromCart(cart, mockShirt.id, 'm');
+
+      expect(result.items.map((item) => item.variantId)).toEqual(['l']);
+      expect(isProductInCart(result, mockShirt.id)).toBe(true);
+      expect(isProductInCart(result, mockShirt.id, 'm')).toBe(false);
+    });
+
+    it('should save and restore the variant, dropping variants no longer sold', () => {
+      saveCart(addToCart(addToCart(emptyCart, mockShirt, 1, 'm'), mockShirt, 2, 'l'));
+
+      const parsed = JSON.parse(localStorage.getItem('jarvis-cart')!);
+      expect(parsed.items[0]).toEqual({ productId: mockShirt.id, quantity: 1, variantId: 'm', title: 'Test Shirt (M)' });
+
+      const withoutL = { ...mockShirt, variants: mockShirt.variants!.slice(0, 1) };
+      expect(loadCart([withoutL]).items).toEqual([{ product: withoutL, quantity: 1, variantId: 'm' }]);
+    });
+  });
+
   describe('getCartItemCount', () => {
     it('should return 0 for empty cart', () => {
       const result = getCartItemCount(emptyCart);
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for checkout utility functions
+ *
+ * Tests Indian PIN code and mobile number validation, address checks, order
+ * totals in Rupees (priced by lib/pricing.ts) and order creation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCheckoutTotals,
+  createOrder,
+  EMPTY_SHIPPING_ADDRESS,
+  formatShippingAddress,
+  generateOrderId,
+  isValidPhone,
+  isValidPinCode,
+  validateShippingAddress,
+} from '@/lib/checkoutUtils';
+import { addToCart, clearCart } from '@/lib/cartUtils';
+import { Product, ShippingAddress } from '@/lib/types';
+
+// ₹2,489 at the app's conversion rate
+const backpack: Product = {
+  id: 1,
+  title: 'Test Backpack',
+  price: 29.99,
+  description: 'Test description',
+  category: 'electronics',
+  image: 'https://example.com/image1.jpg',
+  rating: { rate: 4.6, count: 250 },
+};
+
+const address: ShippingAddress = {
+  fullName: 'Asha Rao',
+  phone: '+91 98765 43210',
+  line1: '12 MG Road',
+  line2: '',
+  city: 'Bengaluru',
+  state: 'Karnataka',
+  pinCode: '560 001',
+};
+
+const payment = { method: 'upi' as const, provider: 'mock', transactionId: 'MOCK-1' };
+
+describe('address validation', () => {
+  it('should accept 6-digit PIN codes that do not start with 0', () => {
+    expect(isValidPinCode('560001')).toBe(true);
+    expect(isValidPinCode('110 001')).toBe(true);
+    expect(isValidPinCode('012345')).toBe(false);
+    expect(isValidPinCode('56001')).toBe(false);
+    expect(isValidPinCode('56000A')).toBe(false);
+  });
+
+  it('should accept 10-digit mobile numbers with or without a country code', () => {
+    expect(isValidPhone('9876543210')).toBe(true);
+    expect(isValidPhone('+91 98765 43210')).toBe(true);
+    expect(isValidPhone('09876543210')).toBe(true);
+    expect(isValidPhone('1234567890')).toBe(false);
+  });
+
+  it('should report missing and invalid fields, treating the second line as optional', () => {
+    expect(validateShippingAddress(address)).toEqual({});
+    expect(validateShippingAddress({ ...EMPTY_SHIPPING_ADDRESS, fullName: 'Asha', pinCode: '000000' })).toEqual({
+      phone: 'missing',
+      line1: 'missing',
+      city: 'missing',
+      state: 'missing',
+      pinCode: 'invalid',
+    });
+  });
+});
+
+describe('calculateCheckoutTotals', () => {
+  it('should total the cart in Rupees with GST and add the delivery fee once chosen', () => {
+    const cart = addToCart(clearCart(), backpack, 2);
+
+    expect(calculateCheckoutTotals(cart, null)).toEqual({
+      subtotal: 4978,
+      discount: 0,
+      gst: 896.04,
+      deliveryFee: 0,
+      total: 5874.04,
+    });
+    expect(calculateCheckoutTotals(cart, 'express')).toMatchObject({ deliveryFee: 149, total: 6023.04 });
+    expect(calculateCheckoutTotals(clearCart(), 'express').total).toBe(0);
+  });
+
+  it('should make standard delivery free from its threshold', () => {
+    expect(calculateCheckoutTotals(addToCart(clearCart(), backpack, 1), 'standard').deliveryFee).toBe(0);
+  });
+});
+
+describe('createOrder', () => {
+  it('should snapshot the cart with a tidied address', () => {
+    const placedAt = new Date('2026-03-01T10:00:00.000Z');
+    const order = createOrder(
+      addToCart(clearCart(), backpack, 2),
+      { id: 'KLD-1', address, delivery: 'standard', payment },
+      placedAt
+    );
+
+    expect(order).toMatchObject({
+      id: 'KLD-1',
+      placedAt: '2026-03-01T10:00:00.000Z',
+      items: [{ productId: 1, title: 'Test Backpack', quantity: 2, unitPrice: 2489 }],
+      address: { phone: '9876543210', pinCode: '560001' },
+      subtotal: 4978,
+      discount: 0,
+      gst: 896.04,
+      deliveryFee: 0,
+      total: 5874.04,
+    });
+    expect(order.couponCode).toBeUndefined();
+    expect(formatShippingAddress(order.address)).toBe('Asha Rao, 12 MG Road, Bengaluru, Karnataka 560001');
+  });
+
+  it('should refuse an empty cart', () => {
+    expect(() => createOrder(clearCart(), { id: 'KLD-1', address, delivery: 'standard', payment })).toThrow(
+      'Cannot place an order for an empty cart'
+    );
+  });
+
+  it('should build the order ID from the date', () => {
+    expect(generateOrderId(new Date('2026-03-01T10:00:00.000Z'), () => 0.5)).toBe('KLD-20260301-IIIIII');
+  });
+});
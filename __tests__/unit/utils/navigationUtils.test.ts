@@ -0,0 +1,67 @@
+/**
+ * Unit tests for product navigation utilities
+ *
+ * Tests resolving a product by ID, 1-based position or title fragment
+ * against the listed products and the whole catalog.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveProductTarget } from '@/lib/navigationUtils';
+import { Product } from '@/lib/types';
+
+function makeProduct(id: number, title: string): Product {
+  return {
+    id,
+    title,
+    price: 1000 * id,
+    description: `${title} description`,
+    category: 'electronics',
+    image: `https://example.com/${id}.jpg`,
+    rating: { rate: 4, count: 100 },
+  };
+}
+
+const backpack = makeProduct(1, 'Fjallraven Backpack');
+const jacket = makeProduct(2, 'Leather Biker Jacket');
+const ring = makeProduct(3, 'Gold Plated Ring');
+const monitor = makeProduct(4, 'Samsung Gaming Monitor');
+
+const catalog = [backpack, jacket, ring, monitor];
+const listed = [jacket, ring, backpack];
+
+describe('resolveProductTarget', () => {
+  it('should resolve a 1-based position in the listed products', () => {
+    expect(resolveProductTarget(listed, catalog, { position: 2 })).toEqual({ ok: true, product: ring, index: 1 });
+  });
+
+  it('should reject positions past the end of the list', () => {
+    expect(resolveProductTarget(listed, catalog, { position: 4 })).toEqual({
+      ok: false,
+      error: 'There are only 3 products listed.',
+    });
+    expect(resolveProductTarget([], catalog, { position: 1 })).toMatchObject({ ok: false });
+  });
+
+  it('should resolve an ID from the list, then from the catalog', () => {
+    expect(resolveProductTarget(listed, catalog, { productId: 1 })).toEqual({ ok: true, product: backpack, index: 2 });
+    expect(resolveProductTarget(listed, catalog, { productId: 4 })).toEqual({ ok: true, product: monitor, index: -1 });
+    expect(resolveProductTarget(listed, catalog, { productId: 99 })).toMatchObject({ ok: false });
+  });
+
+  it('should match a title fragment, preferring listed products', () => {
+    expect(resolveProductTarget(listed, catalog, { title: 'leather jacket' })).toEqual({
+      ok: true,
+      product: jacket,
+      index: 0,
+    });
+    expect(resolveProductTarget(listed, catalog, { title: 'monitor' })).toEqual({
+      ok: true,
+      product: monitor,
+      index: -1,
+    });
+    expect(resolveProductTarget(listed, catalog, { title: 'sofa' })).toEqual({
+      ok: false,
+      error: 'No product title matches "sofa".',
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for order history functions
+ *
+ * Tests recording orders, finding them by a spoken ID, rebuilding a cart from
+ * a past order and localStorage persistence.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addOrder,
+  createOrderHistory,
+  findOrder,
+  getOrderItemCount,
+  loadOrderHistory,
+  ORDER_HISTORY_STORAGE_KEY,
+  reorderToCart,
+  saveOrderHistory,
+} from '@/lib/orderHistory';
+import { addToCart, clearCart } from '@/lib/cartUtils';
+import { createOrder, EMPTY_SHIPPING_ADDRESS } from '@/lib/checkoutUtils';
+import { Order, Product } from '@/lib/types';
+
+const backpack: Product = {
+  id: 1,
+  title: 'Test Backpack',
+  price: 29.99,
+  description: 'Test description',
+  category: 'electronics',
+  image: 'https://example.com/image1.jpg',
+  rating: { rate: 4.6, count: 250 },
+};
+
+const jacket: Product = {
+  id: 2,
+  title: 'Test Jacket',
+  price: 55.99,
+  description: 'Test description',
+  category: "men's clothing",
+  image: 'https://example.com/image2.jpg',
+  rating: { rate: 4.1, count: 80 },
+};
+
+function placeOrder(id: string, cartProducts: Array<[Product, number]>): Order {
+  const cart = cartProducts.reduce((updated, [product, quantity]) => addToCart(updated, product, quantity), clearCart());
+  return createOrder(cart, {
+    id,
+    address: { ...EMPTY_SHIPPING_ADDRESS, fullName: 'Asha Rao', pinCode: '560001' },
+    delivery: 'standard',
+    payment: { method: 'upi', provider: 'mock', transactionId: `MOCK-${id}-1` },
+  });
+}
+
+const firstOrder = placeOrder('KLD-20260301-4F7Q2A', [[backpack, 2]]);
+const secondOrder = placeOrder('KLD-20260302-9ZX1BC', [[backpack, 1], [jacket, 3]]);
+
+describe('addOrder', () => {
+  it('should put the newest order first', () => {
+    const history = addOrder(addOrder(createOrderHistory(), firstOrder), secondOrder);
+
+    expect(history.orders.map((order) => order.id)).toEqual([secondOrder.id, firstOrder.id]);
+  });
+
+  it('should replace an order recorded twice', () => {
+    const history = addOrder(addOrder(addOrder(createOrderHistory(), firstOrder), secondOrder), firstOrder);
+
+    expect(history.orders.map((order) => order.id)).toEqual([firstOrder.id, secondOrder.id]);
+  });
+});
+
+describe('findOrder', () => {
+  const history = addOrder(addOrder(createOrderHistory(), firstOrder), secondOrder);
+
+  it('should find an order by its full ID, ignoring case and spacing', () => {
+    expect(findOrder(history, 'kld 20260301 4f7q2a')).toBe(firstOrder);
+  });
+
+  it('should find an order by the end of its ID', () => {
+    expect(findOrder(history, '9ZX1BC')).toBe(secondOrder);
+  });
+
+  it('should return undefined when nothing matches', () => {
+    expect(findOrder(history, 'ABC123')).toBeUndefined();
+    expect(findOrder(history, ' ')).toBeUndefined();
+  });
+});
+
+describe('getOrderItemCount', () => {
+  it('should count units across the order lines', () => {
+    expect(getOrderItemCount(secondOrder)).toBe(4);
+  });
+});
+
+describe('reorderToCart', () => {
+  it('should add every item at its ordered quantity', () => {
+    const result = reorderToCart(addToCart(clearCart(), backpack, 1), secondOrder, [backpack, jacket]);
+
+    expect(result.unavailable).toEqual([]);
+    expect(result.added).toEqual([
+      { product: backpack, quantity: 1 },
+      { product: jacket, quantity: 3 },
+    ]);
+    expect(result.cart.items).toEqual([
+      { product: backpack, quantity: 2 },
+      { product: jacket, quantity: 3 },
+    ]);
+  });
+
+  it('should leave out and report products no longer in the catalog', () => {
+    const result = reorderToCart(clearCart(), secondOrder, [backpack]);
+
+    expect(result.cart.items).toEqual([{ product: backpack, quantity: 1 }]);
+    expect(result.unavailable.map((item) => item.title)).toEqual(['Test Jacket']);
+  });
+
+  it('should use the product as it is in the catalog now', () => {
+    const repriced = { ...backpack, price: 19.99 };
+
+    const result = reorderToCart(clearCart(), firstOrder, [repriced]);
+
+    expect(result.cart.items[0].product).toBe(repriced);
+  });
+
+  it('should reorder the same variant, and leave out what is out of stock', () => {
+    const sized = { ...jacket, variants: [{ id: 'm', options: { size: 'M' } }, { id: 'l', options: { size: 'L' } }] };
+    const order = createOrder(addToCart(clearCart(), sized, 1, 'l'), {
+      id: 'KLD-20260303-7HD2QK',
+      address: EMPTY_SHIPPING_ADDRESS,
+      delivery: 'standard',
+      payment: { method: 'upi', provider: 'mock', transactionId: 'MOCK-3' },
+    });
+
+    expect(order.items[0]).toMatchObject({ variantId: 'l', title: 'Test Jacket (L)' });
+    expect(reorderToCart(clearCart(), order, [sized]).cart.items).toEqual([{ product: sized, quantity: 1, variantId: 'l' }]);
+
+    const soldOut = reorderToCart(clearCart(), secondOrder, [backpack, { ...jacket, stock: 2 }]);
+    expect(soldOut.added).toEqual([{ product: backpack, quantity: 1 }]);
+    expect(soldOut.unavailable.map((item) => item.title)).toEqual(['Test Jacket']);
+  });
+});
+
+describe('order history persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should restore saved orders in order', () => {
+    const history = addOrder(addOrder(createOrderHistory(), firstOrder), secondOrder);
+    saveOrderHistory(history);
+
+    expect(loadOrderHistory()).toEqual(history);
+  });
+
+  it('should skip saved entries that are not orders', () => {
+    localStorage.setItem(
+      ORDER_HISTORY_STORAGE_KEY,
+      JSON.stringify({ orders: [firstOrder, { id: 7 }, null], lastUpdated: '2026-03-01T00:00:00.000Z' })
+    );
+
+    expect(loadOrderHistory()).toEqual({ orders: [firstOrder] });
+  });
+
+  it('should start empty when the saved data is corrupt', () => {
+    localStorage.setItem(ORDER_HISTORY_STORAGE_KEY, '{not json');
+
+    expect(loadOrderHistory()).toEqual(createOrderHistory());
+  });
+});
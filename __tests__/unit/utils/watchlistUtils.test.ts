@@ -0,0 +1,147 @@
+/**
+ * Unit tests for watchlist utility functions
+ *
+ * Tests tracking products, notes and target prices, the tag recorded when a
+ * product is added, and localStorage persistence.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addToWatchlist,
+  removeFromWatchlist,
+  updateWatchlistItem,
+  clearWatchlist,
+  isProductWatched,
+  getWatchlistItem,
+  isAtTargetPrice,
+  saveWatchlist,
+  loadWatchlist,
+  WATCHLIST_STORAGE_KEY,
+} from '@/lib/watchlistUtils';
+import { summarizeWatchlist } from '@/lib/toolOutcome';
+import { Product } from '@/lib/types';
+
+// ₹2,489 at the app's conversion rate; BESTSELLER by rating and reviews
+const bestseller: Product = {
+  id: 1,
+  title: 'Test Backpack',
+  price: 29.99,
+  description: 'Test description 1',
+  category: 'electronics',
+  image: 'https://example.com/image1.jpg',
+  rating: { rate: 4.6, count: 250 },
+};
+
+const untagged: Product = {
+  id: 2,
+  title: 'Test Ring',
+  price: 49.99,
+  description: 'Test description 2',
+  category: 'jewelery',
+  image: 'https://example.com/image2.jpg',
+  rating: { rate: 3.2, count: 40 },
+};
+
+const addedAt = new Date('2026-03-01T10:00:00.000Z');
+
+describe('addToWatchlist', () => {
+  it('should track a product with its tag and the date added', () => {
+    const watchlist = addToWatchlist(clearWatchlist(), bestseller, { note: '  check supplier  ' }, addedAt);
+
+    expect(watchlist.items).toEqual([
+      {
+        product: bestseller,
+        addedAt: '2026-03-01T10:00:00.000Z',
+        note: 'check supplier',
+        targetPrice: null,
+        tagWhenAdded: 'BESTSELLER',
+      },
+    ]);
+  });
+
+  it('should keep the added date and tag when a tracked product is added again', () => {
+    const first = addToWatchlist(clearWatchlist(), bestseller, {}, addedAt);
+    const again = addToWatchlist(first, bestseller, { targetPrice: 2000 }, new Date('2026-04-01T00:00:00.000Z'));
+
+    expect(again.items).toHaveLength(1);
+    expect(again.items[0].addedAt).toBe('2026-03-01T10:00:00.000Z');
+    expect(again.items[0].targetPrice).toBe(2000);
+  });
+
+  it('should reject a target price that is not positive', () => {
+    expect(() => addToWatchlist(clearWatchlist(), bestseller, { targetPrice: -5 })).toThrow(
+      'Target price must be greater than 0'
+    );
+  });
+});
+
+describe('watchlist updates', () => {
+  it('should change or clear only the given details', () => {
+    const watchlist = addToWatchlist(clearWatchlist(), bestseller, { note: 'strong reviews', targetPrice: 2000 });
+
+    const cleared = updateWatchlistItem(watchlist, bestseller.id, { targetPrice: null });
+
+    expect(getWatchlistItem(cleared, bestseller.id)).toMatchObject({ note: 'strong reviews', targetPrice: null });
+  });
+
+  it('should stop tracking a product', () => {
+    const watchlist = addToWatchlist(addToWatchlist(clearWatchlist(), bestseller), untagged);
+
+    const updated = removeFromWatchlist(watchlist, bestseller.id);
+
+    expect(isProductWatched(updated, bestseller.id)).toBe(false);
+    expect(isProductWatched(updated, untagged.id)).toBe(true);
+  });
+
+  it('should compare the target price in Rupees', () => {
+    const [item] = addToWatchlist(clearWatchlist(), bestseller, { targetPrice: 2500 }).items;
+
+    expect(isAtTargetPrice(item)).toBe(true);
+    expect(isAtTargetPrice({ ...item, targetPrice: 2000 })).toBe(false);
+    expect(isAtTargetPrice({ ...item, targetPrice: null })).toBe(false);
+  });
+});
+
+describe('summarizeWatchlist', () => {
+  it('should describe tracked products for the assistant', () => {
+    const watchlist = addToWatchlist(clearWatchlist(), bestseller, { note: 'bulk order', targetPrice: 2000 }, addedAt);
+
+    expect(summarizeWatchlist(watchlist)).toEqual({
+      itemCount: 1,
+      items: [
+        {
+          id: 1,
+          title: 'Test Backpack',
+          price: '₹2,489',
+          targetPrice: '₹2,000',
+          atTarget: false,
+          note: 'bulk order',
+          addedOn: '2026-03-01',
+          tag: 'BESTSELLER',
+          tagWhenAdded: 'BESTSELLER',
+        },
+      ],
+    });
+  });
+});
+
+describe('watchlist persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should restore saved items, dropping products no longer in the catalog', () => {
+    const watchlist = addToWatchlist(addToWatchlist(clearWatchlist(), bestseller, { note: 'n' }, addedAt), untagged);
+    saveWatchlist(watchlist);
+
+    const loaded = loadWatchlist([bestseller]);
+
+    expect(loaded.items).toEqual([watchlist.items[0]]);
+  });
+
+  it('should start empty when the saved data is corrupt', () => {
+    localStorage.setItem(WATCHLIST_STORAGE_KEY, '{not json');
+
+    expect(loadWatchlist([bestseller])).toEqual(clearWatchlist());
+  });
+});
@@ -0,0 +1,49 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { getCatalogProvider } from '@/lib/catalogProvider';
+import { isFetchError } from '@/lib/fetchWithRetry';
+import { ApiErrorResponse, ProductResponse } from '@/lib/types';
+
+/**
+ * GET /api/products/[id]
+ *
+ * Fetches a single product from the server-side catalog provider.
+ *
+ * @param request - NextRequest (unused)
+ * @param context - Route context with the product ID
+ * @returns NextResponse with a ProductResponse, 400 for a malformed ID or 404 if not found
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!/^\d+$/.test(params.id) || Number(params.id) < 1) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error: 'Invalid product ID', details: 'id must be a positive integer' },
+      { status: 400 }
+    );
+  }
+
+  const id = Number(params.id);
+
+  try {
+    const product = await getCatalogProvider().getProductById(id);
+
+    if (!product) {
+      return NextResponse.json<ApiErrorResponse>(
+        { error: 'Product not found', details: `No product with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ProductResponse>({ product });
+  } catch (error) {
+    console.error(`[API] Error fetching product ${id}:`, error);
+    return NextResponse.json<ApiErrorResponse>(
+      {
+        error: 'Error fetching product from catalog',
+        details: error instanceof Error ? error.message : undefined,
+      },
+      { status: isFetchError(error) && error.kind === 'timeout' ? 504 : 502 }
+    );
+  }
+}
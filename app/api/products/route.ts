@@ -0,0 +1,54 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { fetchProductsWithCache } from '@/lib/productUtils';
+import { parseProductListQuery, applyProductListQuery } from '@/lib/productQuery';
+import { isFetchError } from '@/lib/fetchWithRetry';
+import { ApiErrorResponse, ProductListResponse } from '@/lib/types';
+
+/**
+ * GET /api/products
+ *
+ * Lists products from the server-side catalog provider.
+ *
+ * Query parameters (all optional):
+ * - category: category to filter by ('all' or omitted for every category)
+ * - q: free-text search over title, description and category
+ * - sort: price-asc | price-desc | rating-desc | reviews-desc | tag-desc
+ * - page: 1-based page number (omit to return every match)
+ * - pageSize: items per page when paginating (default 20, max 100)
+ *
+ * @param request - NextRequest with query parameters
+ * @returns NextResponse with a ProductListResponse, or 400 for invalid parameters
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseProductListQuery(request.nextUrl.searchParams);
+
+  if (!parsed.ok) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error: 'Invalid query parameter', details: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const products = await fetchProductsWithCache();
+    const { category } = parsed.query;
+
+    if (category !== 'all' && !products.some((product) => product.category === category)) {
+      return NextResponse.json<ApiErrorResponse>(
+        { error: 'Invalid query parameter', details: `Unknown category: ${category}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json<ProductListResponse>(applyProductListQuery(products, parsed.query));
+  } catch (error) {
+    console.error('[API] Error listing products:', error);
+    return NextResponse.json<ApiErrorResponse>(
+      {
+        error: 'Error fetching products from catalog',
+        details: error instanceof Error ? error.message : undefined,
+      },
+      { status: isFetchError(error) && error.kind === 'timeout' ? 504 : 502 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * CachedDataBanner Component
+ * Tells the user the product list is cached (expired or offline) and offers a retry
+ */
+
+'use client';
+
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useLanguage } from '@/lib/languageContext';
+import { ProductCacheStatus } from '@/lib/productUtils';
+
+interface CachedDataBannerProps {
+  status: ProductCacheStatus;
+  onRetry: () => void;
+}
+
+export default function CachedDataBanner({ status, onRetry }: CachedDataBannerProps) {
+  const { t, language } = useLanguage();
+
+  const syncedAt = status.lastSyncAt !== null
+    ? new Date(status.lastSyncAt).toLocaleString(language === 'hi' ? 'hi-IN' : 'en-IN', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      })
+    : null;
+
+  return (
+    <div
+      role="status"
+      className="relative z-10 flex items-center justify-between gap-3 px-6 py-2 text-xs text-amber-300 bg-amber-500/10 border-b border-amber-500/30"
+    >
+      <div className="flex items-center gap-2">
+        <CloudOff size={14} className="shrink-0" />
+        <span>
+          {status.lastError && `${t('cache.offline')} `}
+          {t('cache.showing')} {syncedAt}
+        </span>
+      </div>
+      <button
+        type="button"
+        onClick={onRetry}
+        disabled={status.isRevalidating}
+        className="flex items-center gap-1 text-amber-200 hover:text-white transition-colors disabled:opacity-50"
+      >
+        <RefreshCw size={12} className={status.isRevalidating ? 'animate-spin' : ''} />
+        {t('cache.retry')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+/**
+ * CartOverlay Component
+ * Cart contents with quantity controls, coupon code, price breakdown and the way into checkout
+ * Requirement 6.1, 6.2: Display cart items and subtotal
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { CartState, Product } from '@/lib/types';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { convertToINR, formatINR } from '@/lib/currency';
+import { CartPricing, CouponCheck, CouponRejection } from '@/lib/pricing';
+import { getCartLineKey, getItemUnitPrice, getQuantityLimit } from '@/lib/cartUtils';
+import { findVariant, getVariantLabel } from '@/lib/productVariants';
+import { useLanguage } from '@/lib/languageContext';
+import { Minus, Plus, Redo2, Tag, Trash2, Undo2, X } from 'lucide-react';
+
+interface CartOverlayProps {
+  cart: CartState;
+  itemCount: number;
+  pricing: CartPricing;
+  onClose: () => void;
+  onProductClick: (product: Product) => void;
+  onQuantityChange: (productId: number, quantity: number, variantId?: string) => void;
+  onRemove: (productId: number, variantId?: string) => void;
+  onClear: () => void;
+  onCheckout: () => void;
+  onApplyCoupon: (code: string) => CouponCheck;
+  onRemoveCoupon: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export default function CartOverlay({
+  cart,
+  itemCount,
+  pricing,
+  onClose,
+  onProductClick,
+  onQuantityChange,
+  onRemove,
+  onClear,
+  onCheckout,
+  onApplyCoupon,
+  onRemoveCoupon,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+}: CartOverlayProps) {
+  const { t } = useLanguage();
+  const [couponInput, setCouponInput] = useState('');
+  const [couponRejection, setCouponRejection] = useState<CouponRejection | null>(null);
+
+  const handleApplyCoupon = () => {
+    if (!couponInput.trim()) {
+      return;
+    }
+    const check = onApplyCoupon(couponInput);
+    if (check.ok) {
+      setCouponInput('');
+      setCouponRejection(null);
+    } else {
+      setCouponRejection(check.reason);
+    }
+  };
+
+  // A coupon can stop applying after the cart changes, e.g. dropping below its minimum
+  const { coupon } = pricing;
+  const couponProblem = coupon && !coupon.applied ? coupon.reason : null;
+
+  const unresolvedCount = cart.unresolvedItems?.length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-end p-4" onClick={onClose}>
+      <Card
+        className="w-full max-w-md h-full flex flex-col bg-gradient-to-br from-gray-900 to-black border-cyan-500/30 relative overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">{t('cart.title')}</h2>
+            <p className="text-xs text-gray-400">
+              {itemCount} {t('cart.items')}
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-gray-400 hover:text-white hover:bg-cyan-500/20"
+              disabled={!canUndo}
+              onClick={onUndo}
+              aria-label={t('undo.button')}
+              title={t('undo.button')}
+            >
+              <Undo2 size={18} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-gray-400 hover:text-white hover:bg-cyan-500/20"
+              disabled={!canRedo}
+              onClick={onRedo}
+              aria-label={t('undo.redo')}
+              title={t('undo.redo')}
+            >
+              <Redo2 size={18} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-gray-400 hover:text-white hover:bg-cyan-500/20"
+              onClick={onClose}
+            >
+              <X size={20} />
+            </Button>
+          </div>
+        </div>
+
+        <Separator className="bg-cyan-500/20" />
+
+        {/* Saved items whose products have not loaded */}
+        {unresolvedCount > 0 && (
+          <p className="px-6 pt-3 text-xs text-amber-300">
+            {unresolvedCount} {t('cart.unresolved')}
+          </p>
+        )}
+
+        {/* Items */}
+        {cart.items.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-400">
+            <p>{t('cart.empty')}</p>
+          </div>
+        ) : (
+          <ul className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+            {cart.items.map((item) => {
+              const { product, quantity, variantId } = item;
+              const variant = findVariant(product, variantId);
+              const limit = getQuantityLimit(cart, product, variantId);
+              const atLimit = limit !== null && quantity >= limit;
+              // Stock can drop below what is in the cart; stepping down then goes to what is left
+              const lower = limit !== null ? Math.min(quantity - 1, limit) : quantity - 1;
+              return (
+                <li
+                  key={getCartLineKey(item)}
+                  className="flex items-center gap-3 rounded-lg border border-cyan-500/20 bg-white/5 p-3"
+                >
+                  <button
+                    type="button"
+                    className="w-14 h-14 shrink-0 bg-white/5 rounded p-1"
+                    onClick={() => onProductClick(product)}
+                  >
+                    <img src={product.image} alt={product.title} className="w-full h-full object-contain" />
+                  </button>
+
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-sm text-white line-clamp-1">{product.title}</p>
+                    {variant && <p className="text-xs text-gray-400">{getVariantLabel(variant)}</p>}
+                    <p className="text-sm font-semibold text-cyan-400">{formatINR(convertToINR(getItemUnitPrice(item)) * quantity)}</p>
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-gray-400 hover:text-cyan-400 hover:bg-cyan-500/10"
+                      aria-label="Decrease quantity"
+                      onClick={() =>
+                        lower > 0 ? onQuantityChange(product.id, lower, variantId) : onRemove(product.id, variantId)
+                      }
+                    >
+                      <Minus size={14} />
+                    </Button>
+                    <span className="w-6 text-center text-sm text-white">{quantity}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-gray-400 hover:text-cyan-400 hover:bg-cyan-500/10"
+                      aria-label="Increase quantity"
+                      disabled={atLimit}
+                      title={atLimit ? t('cart.limitReached') : undefined}
+                      onClick={() => onQuantityChange(product.id, quantity + 1, variantId)}
+                    >
+                      <Plus size={14} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-gray-500 hover:text-red-400 hover:bg-red-500/10"
+                      aria-label="Remove"
+                      onClick={() => onRemove(product.id, variantId)}
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {/* Footer */}
+        <div className="p-6 space-y-4 border-t border-cyan-500/20">
+          {cart.items.length > 0 && (
+            coupon ? (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between gap-2 rounded-md border border-cyan-500/30 bg-cyan-500/5 px-3 py-2">
+                  <span className="flex items-center gap-2 font-mono text-sm text-cyan-400">
+                    <Tag size={14} />
+                    {coupon.code}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-gray-400 hover:text-red-400 hover:bg-red-500/10"
+                    onClick={onRemoveCoupon}
+                  >
+                    {t('cart.coupon.remove')}
+                  </Button>
+                </div>
+                {couponProblem && <p className="text-xs text-yellow-400">{t(`cart.coupon.${couponProblem}`)}</p>}
+              </div>
+            ) : (
+              <form
+                className="space-y-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleApplyCoupon();
+                }}
+              >
+                <div className="flex gap-2">
+                  <input
+                    value={couponInput}
+                    onChange={(e) => {
+                      setCouponInput(e.target.value);
+                      setCouponRejection(null);
+                    }}
+                    placeholder={t('cart.coupon.placeholder')}
+                    aria-label={t('cart.coupon.placeholder')}
+                    aria-invalid={couponRejection ? true : undefined}
+                    className="flex-1 min-w-0 rounded-md border border-cyan-500/30 bg-gray-900/50 px-3 py-2 text-sm uppercase text-white placeholder:normal-case placeholder:text-gray-500 focus:outline-none focus:border-cyan-400"
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    className="bg-gray-900/50 text-gray-300 border-cyan-500/30 hover:bg-cyan-500/10 hover:text-cyan-400"
+                  >
+                    {t('cart.coupon.apply')}
+                  </Button>
+                </div>
+                {couponRejection && <p className="text-xs text-red-400">{t(`cart.coupon.${couponRejection}`)}</p>}
+              </form>
+            )
+          )}
+
+          {cart.items.length > 0 && (
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between text-gray-400">
+                <span>{t('cart.subtotal')}</span>
+                <span>{formatINR(pricing.subtotal)}</span>
+              </div>
+              {pricing.discounts.map((discount) => (
+                <div key={discount.code} className="flex justify-between text-green-400">
+                  <span>{t('cart.discount')} ({discount.code})</span>
+                  <span>−{formatINR(discount.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-gray-400">
+                <span>{t('cart.gst')}</span>
+                <span>{formatINR(pricing.gst)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-400">{t('cart.total')}</span>
+            <span className="text-2xl font-bold bg-gradient-to-r from-cyan-400 to-blue-400 bg-clip-text text-transparent">
+              {formatINR(pricing.total)}
+            </span>
+          </div>
+          {cart.items.length > 0 && <p className="text-xs text-gray-500">{t('cart.deliveryAtCheckout')}</p>}
+          {cart.items.length > 0 && (
+            <Button className="w-full bg-cyan-500 text-black hover:bg-cyan-400" onClick={onCheckout}>
+              {t('cart.checkout')}
+            </Button>
+          )}
+          {cart.items.length > 0 && (
+            <Button
+              variant="outline"
+              className="w-full bg-gray-900/50 text-gray-300 border-cyan-500/30 hover:bg-red-500/10 hover:text-red-400"
+              onClick={onClear}
+            >
+              {t('cart.clear')}
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
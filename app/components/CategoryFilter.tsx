@@ -5,7 +5,7 @@
  * Shows active category state and dispatches filter events.
  * 
  * Requirements:
- * - 9.1: Support filtering by electronics, jewelery, men's clothing, women's clothing
+ * - 9.1: Support filtering by every category in the catalog
  * - 9.3: Display category buttons for touch-based category selection
  * - 9.4: Visually indicate the current category
  */
@@ -13,12 +13,15 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ProductCategory } from '@/lib/types';
+import { CategoryInfo, ProductCategory } from '@/lib/types';
 import { dispatchCategoryFilter, CLIENT_TOOL_EVENTS } from '@/lib/clientTools';
+import { useJarvisEvent } from '@/lib/useJarvisEvent';
 
 interface CategoryFilterProps {
   /** Current active category */
   activeCategory?: ProductCategory | 'all';
+  /** Categories discovered from the catalog */
+  categories?: CategoryInfo[];
   /** Callback when category changes */
   onCategoryChange?: (category: ProductCategory | 'all') => void;
   /** Custom class name for styling */
@@ -26,15 +29,9 @@ interface CategoryFilterProps {
 }
 
 /**
- * Category configuration with display names and icons
+ * Button configuration for the "all" option
  */
-const CATEGORIES = [
-  { value: 'all' as const, label: 'All Products', emoji: '🛍️' },
-  { value: 'electronics' as const, label: 'Electronics', emoji: '💻' },
-  { value: 'jewelery' as const, label: 'Jewelry', emoji: '💎' },
-  { value: "men's clothing" as const, label: "Men's Clothing", emoji: '👔' },
-  { value: "women's clothing" as const, label: "Women's Clothing", emoji: '👗' },
-] as const;
+const ALL_CATEGORIES_OPTION = { value: 'all' as const, label: 'All Products', emoji: '🛍️' };
 
 /**
  * CategoryFilter Component
@@ -45,11 +42,24 @@ const CATEGORIES = [
  */
 export default function CategoryFilter({
   activeCategory = 'all',
+  categories = [],
   onCategoryChange,
   className = '',
 }: CategoryFilterProps) {
   const [localActiveCategory, setLocalActiveCategory] = useState<ProductCategory | 'all'>(activeCategory);
 
+  // Category buttons with display names and icons
+  const options = [
+    ALL_CATEGORIES_OPTION,
+    ...categories.map((category) => ({
+      value: category.id,
+      label: category.label,
+      emoji: category.emoji,
+    })),
+  ];
+  const activeLabel = options.find((option) => option.value === localActiveCategory)?.label
+    ?? localActiveCategory;
+
   // Sync local state with prop
   useEffect(() => {
     setLocalActiveCategory(activeCategory);
@@ -74,23 +84,12 @@ export default function CategoryFilter({
   /**
    * Listen for category filter events from voice commands
    */
-  useEffect(() => {
-    const handleCategoryFilterEvent = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      const { category } = customEvent.detail;
-      
-      if (category) {
-        setLocalActiveCategory(category);
-        onCategoryChange?.(category);
-      }
-    };
-
-    window.addEventListener(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, handleCategoryFilterEvent);
-
-    return () => {
-      window.removeEventListener(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, handleCategoryFilterEvent);
-    };
-  }, [onCategoryChange]);
+  useJarvisEvent(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, ({ category }) => {
+    if (category) {
+      setLocalActiveCategory(category);
+      onCategoryChange?.(category);
+    }
+  });
 
   /**
    * Get button styles based on active state
@@ -112,7 +111,7 @@ export default function CategoryFilter({
     <div className={`w-full ${className}`}>
       {/* Category buttons container */}
       <div className="flex flex-wrap gap-3 justify-center items-center">
-        {CATEGORIES.map((category) => (
+        {options.map((category) => (
           <button
             key={category.value}
             onClick={() => handleCategoryClick(category.value)}
@@ -136,8 +135,8 @@ export default function CategoryFilter({
           ) : (
             <>
               Filtered by:{' '}
-              <span className="text-[var(--primary)] font-semibold capitalize">
-                {localActiveCategory}
+              <span className="text-[var(--primary)] font-semibold">
+                {activeLabel}
               </span>
             </>
           )}
@@ -5,29 +5,31 @@
 
 'use client';
 
-import { ProductCategory } from '@/lib/types';
+import { CategoryInfo, ProductCategory } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/lib/languageContext';
+import { getCategoryLabel } from '@/lib/categories';
 
 interface CategoryTabsProps {
   activeCategory: ProductCategory | 'all';
+  categories: CategoryInfo[];
   onCategoryChange: (category: ProductCategory | 'all') => void;
 }
 
-export default function CategoryTabs({ activeCategory, onCategoryChange }: CategoryTabsProps) {
-  const { t } = useLanguage();
+export default function CategoryTabs({ activeCategory, categories, onCategoryChange }: CategoryTabsProps) {
+  const { t, language } = useLanguage();
 
-  const categories: Array<{ value: ProductCategory | 'all'; label: string }> = [
+  const tabs: Array<{ value: ProductCategory | 'all'; label: string }> = [
     { value: 'all', label: t('categories.all') },
-    { value: 'electronics', label: t('categories.electronics') },
-    { value: 'jewelery', label: t('categories.jewelery') },
-    { value: "men's clothing", label: t('categories.mens') },
-    { value: "women's clothing", label: t('categories.womens') },
+    ...categories.map((category) => ({
+      value: category.id,
+      label: getCategoryLabel(category, language),
+    })),
   ];
 
   return (
     <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-      {categories.map((category) => (
+      {tabs.map((category) => (
         <Button
           key={category.value}
           variant={activeCategory === category.value ? 'default' : 'outline'}
@@ -0,0 +1,310 @@
+/**
+ * CheckoutOverlay Component
+ * Multi-step checkout: order review, shipping address, delivery option,
+ * payment and confirmation. The steps are driven by useCheckout, so voice
+ * tools and these controls move through the same flow.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { CartState, CheckoutStep, DeliveryOptionId, PaymentMethod, ShippingAddressField } from '@/lib/types';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { convertToINR, formatINR } from '@/lib/currency';
+import { CHECKOUT_STEPS, CheckoutState, canEnterStep } from '@/lib/checkoutState';
+import { getCartLineKey, getItemUnitPrice } from '@/lib/cartUtils';
+import { getVariantTitle } from '@/lib/productVariants';
+import {
+  AddressErrors,
+  CheckoutTotals,
+  DELIVERY_OPTIONS,
+  DELIVERY_OPTION_IDS,
+  PAYMENT_METHODS,
+  SHIPPING_ADDRESS_FIELDS,
+  calculateCheckoutTotals,
+  formatShippingAddress,
+} from '@/lib/checkoutUtils';
+import { useLanguage } from '@/lib/languageContext';
+import { Check, X } from 'lucide-react';
+
+interface CheckoutOverlayProps {
+  cart: CartState;
+  checkout: CheckoutState;
+  totals: CheckoutTotals;
+  addressErrors: AddressErrors;
+  onClose: () => void;
+  onStepChange: (step: CheckoutStep) => void;
+  onAddressChange: (field: ShippingAddressField, value: string) => void;
+  onDeliveryChange: (delivery: DeliveryOptionId) => void;
+  onPaymentMethodChange: (method: PaymentMethod) => void;
+  onPlaceOrder: () => void;
+}
+
+const ADDRESS_FORM_ID = 'checkout-address';
+
+const INPUT_CLASS_NAME =
+  'w-full rounded-md border bg-gray-900/50 px-3 py-2 text-sm text-white placeholder:text-gray-500 focus:outline-none focus:ring-1 focus:ring-cyan-400/50';
+
+export default function CheckoutOverlay({
+  cart,
+  checkout,
+  totals,
+  addressErrors,
+  onClose,
+  onStepChange,
+  onAddressChange,
+  onDeliveryChange,
+  onPaymentMethodChange,
+  onPlaceOrder,
+}: CheckoutOverlayProps) {
+  const { t } = useLanguage();
+  // Errors show once the user tries to continue, not while the form is still empty
+  const [showAddressErrors, setShowAddressErrors] = useState(false);
+
+  const { step, address, delivery, paymentMethod, isPaying, paymentError, order } = checkout;
+  const stepIndex = CHECKOUT_STEPS.indexOf(step);
+  const previousStep = stepIndex > 0 && step !== 'confirmation' ? CHECKOUT_STEPS[stepIndex - 1] : null;
+
+  const handleAddressContinue = () => {
+    if (canEnterStep(checkout, 'delivery')) {
+      onStepChange('delivery');
+    } else {
+      setShowAddressErrors(true);
+    }
+  };
+
+  const totalRows = (amounts: CheckoutTotals) => (
+    <div className="space-y-1 text-sm">
+      <div className="flex justify-between text-gray-400">
+        <span>{t('checkout.subtotal')}</span>
+        <span>{formatINR(amounts.subtotal)}</span>
+      </div>
+      {amounts.discount > 0 && (
+        <div className="flex justify-between text-green-400">
+          <span>{t('checkout.discount')}</span>
+          <span>−{formatINR(amounts.discount)}</span>
+        </div>
+      )}
+      <div className="flex justify-between text-gray-400">
+        <span>{t('checkout.gst')}</span>
+        <span>{formatINR(amounts.gst)}</span>
+      </div>
+      <div className="flex justify-between text-gray-400">
+        <span>{t('checkout.deliveryFee')}</span>
+        <span>{formatINR(amounts.deliveryFee)}</span>
+      </div>
+      <div className="flex justify-between text-white font-semibold">
+        <span>{t('checkout.total')}</span>
+        <span className="text-cyan-400">{formatINR(amounts.total)}</span>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-end p-4" onClick={onClose}>
+      <Card
+        role="dialog"
+        aria-label={t('checkout.title')}
+        className="w-full max-w-md h-full flex flex-col bg-gradient-to-br from-gray-900 to-black border-cyan-500/30 relative overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">{t('checkout.title')}</h2>
+            <p className="text-xs text-gray-400">{t(`checkout.step.${step}`)}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-gray-400 hover:text-white hover:bg-cyan-500/20"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </Button>
+        </div>
+
+        {/* Steps */}
+        <ol className="flex gap-1 px-6 pb-4">
+          {CHECKOUT_STEPS.map((name, index) => (
+            <li
+              key={name}
+              aria-current={name === step ? 'step' : undefined}
+              className={`h-1 flex-1 rounded-full ${index <= stepIndex ? 'bg-cyan-400' : 'bg-gray-700'}`}
+            />
+          ))}
+        </ol>
+
+        <Separator className="bg-cyan-500/20" />
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-4">
+          {step === 'review' && (
+            cart.items.length === 0 ? (
+              <p className="text-gray-400 text-center">{t('checkout.emptyCart')}</p>
+            ) : (
+              <ul className="space-y-2">
+                {cart.items.map((item) => (
+                  <li key={getCartLineKey(item)} className="flex justify-between gap-3 text-sm">
+                    <span className="text-white line-clamp-1">
+                      {getVariantTitle(item.product, item.variantId)} × {item.quantity}
+                    </span>
+                    <span className="text-gray-300 shrink-0">
+                      {formatINR(convertToINR(getItemUnitPrice(item)) * item.quantity)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+
+          {step === 'address' && (
+            <form
+              id={ADDRESS_FORM_ID}
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleAddressContinue();
+              }}
+            >
+              {SHIPPING_ADDRESS_FIELDS.map((field) => {
+                const error = showAddressErrors ? addressErrors[field] : undefined;
+                return (
+                  <label key={field} className="block space-y-1">
+                    <span className="text-xs text-gray-400">{t(`checkout.${field}`)}</span>
+                    <input
+                      value={address[field]}
+                      onChange={(e) => onAddressChange(field, e.target.value)}
+                      inputMode={field === 'phone' || field === 'pinCode' ? 'numeric' : undefined}
+                      aria-invalid={error ? true : undefined}
+                      className={`${INPUT_CLASS_NAME} ${error ? 'border-red-500/70' : 'border-cyan-500/30 focus:border-cyan-400'}`}
+                    />
+                    {error && <span className="text-xs text-red-400">{t(`checkout.error.${error}`)}</span>}
+                  </label>
+                );
+              })}
+            </form>
+          )}
+
+          {step === 'delivery' && (
+            <div className="space-y-3">
+              <p className="text-xs text-gray-400">
+                {t('checkout.shipTo')} {formatShippingAddress(address)}
+              </p>
+              {DELIVERY_OPTION_IDS.map((id) => {
+                const option = DELIVERY_OPTIONS[id];
+                const fee = calculateCheckoutTotals(cart, id).deliveryFee;
+                return (
+                  <button
+                    key={id}
+                    type="button"
+                    aria-pressed={delivery === id}
+                    onClick={() => onDeliveryChange(id)}
+                    className={`w-full flex items-center justify-between rounded-lg border p-4 text-left transition-colors ${
+                      delivery === id ? 'border-cyan-400 bg-cyan-500/10' : 'border-cyan-500/20 bg-white/5 hover:bg-cyan-500/5'
+                    }`}
+                  >
+                    <span>
+                      <span className="block text-sm text-white">{t(option.labelKey)}</span>
+                      <span className="block text-xs text-gray-400">
+                        {option.minDays}-{option.maxDays} {t('checkout.days')}
+                        {option.freeAbove !== null && fee > 0 && ` · ${t('checkout.freeAbove')} ${formatINR(option.freeAbove)}`}
+                      </span>
+                    </span>
+                    <span className="text-sm text-cyan-400">{fee > 0 ? formatINR(fee) : t('checkout.free')}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {step === 'payment' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-2">
+                {PAYMENT_METHODS.map((method) => (
+                  <Button
+                    key={method}
+                    variant="outline"
+                    aria-pressed={paymentMethod === method}
+                    disabled={isPaying}
+                    onClick={() => onPaymentMethodChange(method)}
+                    className={paymentMethod === method
+                      ? 'border-cyan-400 bg-cyan-500/10 text-cyan-400'
+                      : 'border-cyan-500/30 bg-gray-900/50 text-gray-300 hover:bg-cyan-500/10'}
+                  >
+                    {t(`checkout.method.${method}`)}
+                  </Button>
+                ))}
+              </div>
+              {totalRows(totals)}
+              <p className="text-xs text-gray-500">{t('checkout.mockNotice')}</p>
+              {paymentError && <p className="text-sm text-red-400">{paymentError}</p>}
+            </div>
+          )}
+
+          {step === 'confirmation' && order && (
+            <div className="space-y-4 text-center">
+              <div className="mx-auto w-12 h-12 rounded-full bg-green-500/20 flex items-center justify-center">
+                <Check size={24} className="text-green-400" />
+              </div>
+              <p className="text-white font-semibold">{t('checkout.placed')}</p>
+              <p className="text-sm text-gray-400">
+                {t('checkout.orderId')} <span className="font-mono text-cyan-400">{order.id}</span>
+              </p>
+              <div className="text-left">{totalRows(order)}</div>
+              <p className="text-xs text-gray-400">
+                {t('checkout.shipTo')} {formatShippingAddress(order.address)}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 space-y-3 border-t border-cyan-500/20">
+          {step === 'review' && (
+            <>
+              {totalRows(totals)}
+              <Button
+                className="w-full bg-cyan-500 text-black hover:bg-cyan-400"
+                disabled={cart.items.length === 0}
+                onClick={() => onStepChange('address')}
+              >
+                {t('checkout.continue')}
+              </Button>
+            </>
+          )}
+          {step === 'address' && (
+            <Button type="submit" form={ADDRESS_FORM_ID} className="w-full bg-cyan-500 text-black hover:bg-cyan-400">
+              {t('checkout.continue')}
+            </Button>
+          )}
+          {step === 'payment' && (
+            <Button
+              className="w-full bg-cyan-500 text-black hover:bg-cyan-400"
+              disabled={isPaying || cart.items.length === 0}
+              onClick={onPlaceOrder}
+            >
+              {isPaying ? t('checkout.paying') : `${t('checkout.pay')} ${formatINR(totals.total)}`}
+            </Button>
+          )}
+          {step === 'confirmation' && (
+            <Button className="w-full bg-cyan-500 text-black hover:bg-cyan-400" onClick={onClose}>
+              {t('checkout.done')}
+            </Button>
+          )}
+          {previousStep && (
+            <Button
+              variant="outline"
+              className="w-full bg-gray-900/50 text-gray-300 border-cyan-500/30 hover:bg-cyan-500/10"
+              disabled={isPaying}
+              onClick={() => onStepChange(previousStep)}
+            >
+              {t('checkout.back')}
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
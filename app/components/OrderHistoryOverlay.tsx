@@ -0,0 +1,120 @@
+/**
+ * OrderHistoryOverlay Component
+ * Past orders, newest first, each with its items, total and a reorder button.
+ * Items whose products have left the catalog are marked and skipped on reorder.
+ */
+
+'use client';
+
+import { Order, OrderHistory } from '@/lib/types';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { formatINR } from '@/lib/currency';
+import { DELIVERY_OPTIONS } from '@/lib/checkoutUtils';
+import { useLanguage } from '@/lib/languageContext';
+import { RotateCcw, X } from 'lucide-react';
+
+interface OrderHistoryOverlayProps {
+  orderHistory: OrderHistory;
+  /** IDs of the products still in the catalog */
+  availableProductIds: ReadonlySet<number>;
+  onClose: () => void;
+  /** Omitted for personas without a cart */
+  onReorder?: (order: Order) => void;
+}
+
+export default function OrderHistoryOverlay({
+  orderHistory,
+  availableProductIds,
+  onClose,
+  onReorder,
+}: OrderHistoryOverlayProps) {
+  const { t, language } = useLanguage();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-end p-4" onClick={onClose}>
+      <Card
+        className="w-full max-w-md h-full flex flex-col bg-gradient-to-br from-gray-900 to-black border-cyan-500/30 relative overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">{t('orders.title')}</h2>
+            <p className="text-xs text-gray-400">
+              {orderHistory.orders.length} {t('orders.count')}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-gray-400 hover:text-white hover:bg-cyan-500/20"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </Button>
+        </div>
+
+        <Separator className="bg-cyan-500/20" />
+
+        {/* Orders */}
+        {orderHistory.orders.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-400">
+            <p>{t('orders.empty')}</p>
+          </div>
+        ) : (
+          <ul className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+            {orderHistory.orders.map((order) => {
+              const canReorder = order.items.some((item) => availableProductIds.has(item.productId));
+              return (
+                <li key={order.id} className="rounded-lg border border-cyan-500/20 bg-white/5 p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="font-mono text-sm text-cyan-400">{order.id}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(order.placedAt).toLocaleDateString(language === 'hi' ? 'hi-IN' : 'en-IN')}
+                        {' · '}
+                        {t(DELIVERY_OPTIONS[order.delivery].labelKey)}
+                      </p>
+                    </div>
+                    <span className="text-sm font-semibold text-white">{formatINR(order.total)}</span>
+                  </div>
+
+                  <ul className="space-y-1">
+                    {order.items.map((item) => (
+                      <li key={`${item.productId}:${item.variantId ?? ''}`} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="text-gray-300 line-clamp-1">
+                          {item.title} × {item.quantity}
+                        </span>
+                        {!availableProductIds.has(item.productId) && (
+                          <Badge className="shrink-0 bg-gray-800 text-gray-400 border-gray-700">
+                            {t('orders.unavailable')}
+                          </Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+
+                  {onReorder && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!canReorder}
+                      className="w-full bg-gray-900/50 text-gray-300 border-cyan-500/30 hover:bg-cyan-500/10 hover:text-cyan-400"
+                      onClick={() => onReorder(order)}
+                    >
+                      <RotateCcw size={14} className="mr-2" />
+                      {t('orders.reorder')}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+}
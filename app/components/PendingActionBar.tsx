@@ -0,0 +1,58 @@
+/**
+ * PendingActionBar Component
+ * Shows the voice action waiting for confirmation, e.g. "Clear the cart?",
+ * with buttons to confirm or cancel it; the user can also answer by voice.
+ */
+
+'use client';
+
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { usePendingAction } from '@/lib/usePendingAction';
+import { useLanguage } from '@/lib/languageContext';
+
+export default function PendingActionBar() {
+  const { t } = useLanguage();
+  const { pendingAction, confirm, cancel } = usePendingAction();
+
+  if (!pendingAction) {
+    return null;
+  }
+
+  const handleConfirm = () => {
+    confirm().then((outcome) => {
+      if (!outcome.ok) {
+        console.error('[PendingActionBar] Confirmed action failed:', outcome.error);
+      }
+    });
+  };
+
+  return (
+    <div
+      role="alertdialog"
+      aria-live="assertive"
+      className="fixed top-24 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 rounded-lg border border-amber-500/40 bg-gray-900/95 px-4 py-3 text-sm text-amber-200 shadow-lg"
+    >
+      <ShieldAlert size={16} className="shrink-0 text-amber-400" />
+      <span>
+        {t(`confirm.${pendingAction.reason}`)}
+        {pendingAction.quantity !== undefined && ` (${pendingAction.quantity})`}
+      </span>
+      <Button
+        size="sm"
+        className="bg-amber-500 text-black hover:bg-amber-400"
+        onClick={handleConfirm}
+      >
+        {t('confirm.yes')}
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="text-gray-400 hover:text-white hover:bg-white/10"
+        onClick={cancel}
+      >
+        {t('confirm.no')}
+      </Button>
+    </div>
+  );
+}
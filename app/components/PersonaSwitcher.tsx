@@ -0,0 +1,45 @@
+/**
+ * PersonaSwitcher Component
+ * Allows users to switch between the buyer, seller and support personas
+ */
+
+'use client';
+
+import { usePersona } from '@/lib/personaContext';
+import { useLanguage } from '@/lib/languageContext';
+import { PERSONA_IDS, isPersonaId } from '@/lib/personas';
+import { KALDI_PERSONAS } from '@/app/jarvis-config';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { UserCog } from 'lucide-react';
+
+export default function PersonaSwitcher() {
+  const { persona, setPersona } = usePersona();
+  const { t } = useLanguage();
+
+  return (
+    <div className="flex items-center gap-2">
+      <UserCog size={20} className="text-cyan-400" />
+      <Select value={persona.id} onValueChange={(value) => isPersonaId(value) && setPersona(value)}>
+        <SelectTrigger
+          className="w-[120px] bg-gray-900/50 border-cyan-500/30 text-gray-300 hover:bg-cyan-500/10 hover:border-cyan-500/50"
+          aria-label={t('persona.label')}
+        >
+          <SelectValue placeholder={t('persona.label')} />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-900 border-cyan-500/30">
+          {PERSONA_IDS.map((id) => (
+            <SelectItem key={id} value={id} className="text-gray-300 hover:bg-cyan-500/10 hover:text-cyan-400">
+              {t(KALDI_PERSONAS[id].labelKey)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -1,26 +1,48 @@
 /**
  * ProductDetail Component
- * Expandable product view with swipe navigation
+ * Expandable product view with swipe and keyboard navigation
+ * (arrow keys and Esc come from the page's keyboard shortcuts)
  */
 
 'use client';
 
-import { Product } from '@/lib/types';
+import { CartState, Product, VariantOptions } from '@/lib/types';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { formatPrice } from '@/lib/currency';
 import { useLanguage } from '@/lib/languageContext';
-import { Star, ChevronLeft, ChevronRight, X } from 'lucide-react';
-import { useState } from 'react';
+import { getCategoryInfo, getCategoryLabel } from '@/lib/categories';
+import { getProductQuantity, getQuantityLimit } from '@/lib/cartUtils';
+import {
+  getStock,
+  getUnitPrice,
+  getVariantAxes,
+  getVariantValues,
+  hasVariants,
+  matchVariant,
+} from '@/lib/productVariants';
+import { Star, ChevronLeft, ChevronRight, X, Eye, EyeOff } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Stock at or below which the units left are shown
+ */
+const LOW_STOCK = 5;
 
 interface ProductDetailProps {
   product: Product;
   onClose: () => void;
   onNext: () => void;
   onPrevious: () => void;
-  onAddToCart: () => void;
+  /** Add one unit, of the variant picked for products with variants */
+  onAddToCart: (variantId?: string) => void;
+  /** Cart, to stop adding past the stock and order limits */
+  cart: CartState;
+  /** Track or stop tracking the product on the seller watchlist */
+  onToggleWatch?: () => void;
+  isWatched?: boolean;
   hasNext: boolean;
   hasPrevious: boolean;
 }
@@ -31,12 +53,35 @@ export default function ProductDetail({
   onNext,
   onPrevious,
   onAddToCart,
+  cart,
+  onToggleWatch,
+  isWatched = false,
   hasNext,
   hasPrevious,
 }: ProductDetailProps) {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const [touchStart, setTouchStart] = useState(0);
   const [touchEnd, setTouchEnd] = useState(0);
+  const [selection, setSelection] = useState<VariantOptions>({});
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Move keyboard focus into the card when it opens
+  useEffect(() => {
+    cardRef.current?.focus();
+  }, []);
+
+  // Each product starts with nothing picked
+  useEffect(() => {
+    setSelection({});
+  }, [product.id]);
+
+  // What can be added: the variant picked (if the product has variants) and how many more fit
+  const match = matchVariant(product, selection);
+  const variantId = match.ok ? match.variant?.id : undefined;
+  const needsVariant = hasVariants(product) && variantId === undefined;
+  const stock = needsVariant ? null : getStock(product, variantId);
+  const limit = needsVariant ? null : getQuantityLimit(cart, product, variantId);
+  const canAdd = !needsVariant && (limit === null || getProductQuantity(cart, product.id, variantId) < limit);
 
   // Swipe detection
   const minSwipeDistance = 50;
@@ -68,7 +113,12 @@ export default function ProductDetail({
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
       <Card 
-        className="w-full max-w-4xl h-[85vh] flex flex-col bg-gradient-to-br from-gray-900 to-black border-cyan-500/30 relative overflow-hidden"
+        ref={cardRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={product.title}
+        tabIndex={-1}
+        className="w-full max-w-4xl h-[85vh] flex flex-col bg-gradient-to-br from-gray-900 to-black border-cyan-500/30 relative overflow-hidden focus:outline-none"
         onTouchStart={onTouchStart}
         onTouchMove={onTouchMove}
         onTouchEnd={onTouchEnd}
@@ -126,7 +176,7 @@ export default function ProductDetail({
             <div className="space-y-3">
               {/* Category Badge */}
               <Badge variant="secondary" className="text-xs bg-cyan-500/20 text-cyan-400 border-cyan-500/50">
-                {product.category}
+                {getCategoryLabel(getCategoryInfo(product.category), language)}
               </Badge>
 
               {/* Title */}
@@ -170,22 +220,70 @@ export default function ProductDetail({
                 <div className="relative">
                   <div className="absolute inset-0 bg-cyan-500/20 blur-lg" />
                   <span className="relative text-3xl font-bold bg-gradient-to-r from-cyan-400 to-blue-400 bg-clip-text text-transparent">
-                    {formatPrice(product.price)}
+                    {formatPrice(getUnitPrice(product, variantId))}
                   </span>
                 </div>
               </div>
 
+              {/* Variant Picker */}
+              {getVariantAxes(product).map((axis) => (
+                <div key={axis} className="flex items-center gap-2 flex-wrap">
+                  <span className="w-12 text-sm text-gray-400">{t(`product.${axis}`)}</span>
+                  {getVariantValues(product, axis).map((value) => (
+                    <Button
+                      key={value}
+                      variant="outline"
+                      size="sm"
+                      aria-pressed={selection[axis] === value}
+                      className={
+                        selection[axis] === value
+                          ? 'bg-cyan-500/20 text-cyan-300 border-cyan-400'
+                          : 'bg-gray-900/50 text-gray-300 border-cyan-500/30 hover:bg-cyan-500/10 hover:text-cyan-400'
+                      }
+                      onClick={() => setSelection((prev) => ({ ...prev, [axis]: value }))}
+                    >
+                      {value}
+                    </Button>
+                  ))}
+                </div>
+              ))}
+
+              {/* Stock */}
+              {stock === 0 ? (
+                <p className="text-sm text-red-400">{t('product.outOfStock')}</p>
+              ) : stock !== null && stock <= LOW_STOCK ? (
+                <p className="text-sm text-amber-300">{stock} {t('product.left')}</p>
+              ) : null}
+
               {/* Add to Cart Button */}
               <Button
                 className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 hover:from-cyan-600 hover:to-blue-600 text-white py-5 text-base font-semibold"
-                onClick={onAddToCart}
+                disabled={!canAdd}
+                onClick={() => onAddToCart(variantId)}
               >
-                {t('product.addToCart')}
+                {needsVariant
+                  ? t('product.chooseVariant')
+                  : stock === 0
+                    ? t('product.outOfStock')
+                    : canAdd ? t('product.addToCart') : t('cart.limitReached')}
               </Button>
 
+              {/* Watchlist Button */}
+              {onToggleWatch && (
+                <Button
+                  variant="outline"
+                  className="w-full bg-gray-900/50 text-gray-300 border-cyan-500/30 hover:bg-cyan-500/10 hover:text-cyan-400"
+                  aria-pressed={isWatched}
+                  onClick={onToggleWatch}
+                >
+                  {isWatched ? <EyeOff size={16} className="mr-2" /> : <Eye size={16} className="mr-2" />}
+                  {isWatched ? t('product.watching') : t('product.watch')}
+                </Button>
+              )}
+
               {/* Swipe Hint */}
               <p className="text-xs text-center text-gray-500">
-                Swipe left/right to see more products
+                {t('product.browseHint')}
               </p>
             </div>
           </div>
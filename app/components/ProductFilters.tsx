@@ -0,0 +1,157 @@
+/**
+ * ProductFilters Component
+ * Sort selector and facet chips (demand tag, rating, price range) with counts
+ */
+
+'use client';
+
+import { SlidersHorizontal, X } from 'lucide-react';
+import { useLanguage } from '@/lib/languageContext';
+import { formatINR } from '@/lib/currency';
+import {
+  FacetCounts,
+  getPriceRangeFacets,
+  isProductQueryActive,
+  PRICE_RANGES_INR,
+  PRODUCT_SORT_OPTIONS,
+  PRODUCT_TAG_FILTERS,
+  ProductQuery,
+  ProductQueryUpdate,
+  ProductSort,
+  RATING_THRESHOLDS,
+} from '@/lib/productQuery';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface ProductFiltersProps {
+  query: ProductQuery;
+  facetCounts: FacetCounts;
+  onChange: (update: ProductQueryUpdate) => void;
+  onReset: () => void;
+}
+
+/**
+ * Select value used for "no sort order"
+ */
+const DEFAULT_SORT_VALUE = 'default';
+
+interface FacetChipProps {
+  label: string;
+  count: number;
+  active: boolean;
+  onClick: () => void;
+}
+
+function FacetChip({ label, count, active, onClick }: FacetChipProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!active && count === 0}
+      className={`whitespace-nowrap rounded-full border px-3 py-1 text-xs transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+        active
+          ? 'bg-gradient-to-r from-cyan-500 to-blue-500 text-white border-cyan-400'
+          : 'bg-gray-900/50 text-gray-400 border-cyan-500/30 hover:bg-cyan-500/10 hover:text-cyan-400'
+      }`}
+    >
+      {label} <span className="opacity-70">({count})</span>
+    </button>
+  );
+}
+
+export default function ProductFilters({ query, facetCounts, onChange, onReset }: ProductFiltersProps) {
+  const { t } = useLanguage();
+  const { facets } = query;
+
+  const getPriceRangeLabel = (min: number | null, max: number | null) => {
+    if (min === null && max !== null) return `${t('filters.under')} ${formatINR(max)}`;
+    if (max === null && min !== null) return `${t('filters.above')} ${formatINR(min)}`;
+    return `${formatINR(min ?? 0)} – ${formatINR(max ?? 0)}`;
+  };
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-1 scrollbar-hide">
+      <SlidersHorizontal size={16} className="shrink-0 text-cyan-400" />
+
+      <Select
+        value={query.sort ?? DEFAULT_SORT_VALUE}
+        onValueChange={(value) =>
+          onChange({ sort: value === DEFAULT_SORT_VALUE ? null : (value as ProductSort) })
+        }
+      >
+        <SelectTrigger
+          aria-label={t('sort.label')}
+          className="h-8 w-[170px] shrink-0 bg-gray-900/50 border-cyan-500/30 text-xs text-gray-300 hover:bg-cyan-500/10 hover:border-cyan-500/50"
+        >
+          <SelectValue placeholder={t('sort.label')} />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-900 border-cyan-500/30">
+          <SelectItem value={DEFAULT_SORT_VALUE} className="text-gray-300 hover:bg-cyan-500/10 hover:text-cyan-400">
+            {t('sort.default')}
+          </SelectItem>
+          {PRODUCT_SORT_OPTIONS.map((sort) => (
+            <SelectItem key={sort} value={sort} className="text-gray-300 hover:bg-cyan-500/10 hover:text-cyan-400">
+              {t(`sort.${sort}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {PRODUCT_TAG_FILTERS.map((tag) => (
+        <FacetChip
+          key={tag}
+          label={tag === 'BESTSELLER' ? '⭐ BESTSELLER' : '🔥 HOT'}
+          count={facetCounts.tags[tag]}
+          active={facets.tag === tag}
+          onClick={() => onChange({ facets: { tag: facets.tag === tag ? null : tag } })}
+        />
+      ))}
+
+      {RATING_THRESHOLDS.map((threshold, i) => (
+        <FacetChip
+          key={threshold}
+          label={`${threshold}★+`}
+          count={facetCounts.ratings[i]}
+          active={facets.minRating === threshold}
+          onClick={() =>
+            onChange({ facets: { minRating: facets.minRating === threshold ? null : threshold } })
+          }
+        />
+      ))}
+
+      {PRICE_RANGES_INR.map((range, i) => {
+        const rangeFacets = getPriceRangeFacets(range);
+        const active = facets.minPrice === rangeFacets.minPrice && facets.maxPrice === rangeFacets.maxPrice;
+        return (
+          <FacetChip
+            key={`${range.min}-${range.max}`}
+            label={getPriceRangeLabel(range.min, range.max)}
+            count={facetCounts.priceRanges[i]}
+            active={active}
+            onClick={() =>
+              onChange({
+                facets: active ? { minPrice: null, maxPrice: null } : rangeFacets,
+              })
+            }
+          />
+        );
+      })}
+
+      {isProductQueryActive(query) && (
+        <button
+          type="button"
+          onClick={onReset}
+          className="flex shrink-0 items-center gap-1 text-xs text-gray-400 hover:text-cyan-400 transition-colors"
+        >
+          <X size={14} />
+          {t('filters.clear')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -5,18 +5,54 @@
 
 'use client';
 
+import { useEffect, useRef } from 'react';
 import { Product } from '@/lib/types';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { formatPrice } from '@/lib/currency';
+import { isTypingTarget } from '@/lib/keyboardShortcuts';
 import { Star } from 'lucide-react';
 
 interface ProductGridProps {
   products: Product[];
+  /** Product to highlight, e.g. after "next" by voice */
+  focusedProductId?: number | null;
+  /** Move keyboard focus to the highlighted product when it changes, e.g. while no overlay is open */
+  followFocus?: boolean;
   onProductClick: (product: Product) => void;
+  /** Called when a product gets keyboard focus, e.g. by Tab */
+  onProductFocus?: (product: Product) => void;
 }
 
-export default function ProductGrid({ products, onProductClick }: ProductGridProps) {
+export default function ProductGrid({
+  products,
+  focusedProductId = null,
+  followFocus = false,
+  onProductClick,
+  onProductFocus,
+}: ProductGridProps) {
+  const cardRefs = useRef(new Map<number, HTMLDivElement>());
+  const hasMountedRef = useRef(false);
+
+  /**
+   * Keep keyboard focus on the highlighted product, so selection changes made
+   * by voice or shortcuts are where Tab and screen readers continue from.
+   * Skipped on first render and while the user is typing.
+   */
+  useEffect(() => {
+    if (!hasMountedRef.current) {
+      hasMountedRef.current = true;
+      return;
+    }
+    if (!followFocus || focusedProductId === null || isTypingTarget(document.activeElement)) {
+      return;
+    }
+    const card = cardRefs.current.get(focusedProductId);
+    if (card && card !== document.activeElement) {
+      card.focus({ preventScroll: true });
+      card.scrollIntoView?.({ block: 'nearest' });
+    }
+  }, [focusedProductId, followFocus]);
 
   if (products.length === 0) {
     return (
@@ -31,8 +67,21 @@ export default function ProductGrid({ products, onProductClick }: ProductGridPro
       {products.map((product) => (
         <Card
           key={product.id}
-          className="cursor-pointer hover:shadow-xl hover:shadow-cyan-500/20 transition-all duration-300 overflow-hidden group bg-gradient-to-br from-gray-900 to-black border-cyan-500/30"
+          ref={(card) => {
+            if (card) {
+              cardRefs.current.set(product.id, card);
+            } else {
+              cardRefs.current.delete(product.id);
+            }
+          }}
+          role="button"
+          tabIndex={product.id === focusedProductId ? 0 : -1}
+          className={`cursor-pointer focus:outline-none hover:shadow-xl hover:shadow-cyan-500/20 transition-all duration-300 overflow-hidden group bg-gradient-to-br from-gray-900 to-black ${
+            product.id === focusedProductId ? 'border-cyan-400 ring-2 ring-cyan-400/60' : 'border-cyan-500/30'
+          }`}
+          aria-current={product.id === focusedProductId ? 'true' : undefined}
           onClick={() => onProductClick(product)}
+          onFocus={() => onProductFocus?.(product)}
         >
           {/* Product Image */}
           <div className="relative aspect-square bg-white/5 backdrop-blur-sm p-4">
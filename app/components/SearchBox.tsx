@@ -0,0 +1,50 @@
+/**
+ * SearchBox Component
+ * Free-text product search input
+ * The ref points at the input, so the "/" shortcut can focus it.
+ */
+
+'use client';
+
+import { forwardRef } from 'react';
+import { Search, X } from 'lucide-react';
+import { useLanguage } from '@/lib/languageContext';
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const SearchBox = forwardRef<HTMLInputElement, SearchBoxProps>(function SearchBox({ value, onChange }, ref) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="relative flex-1 max-w-xs">
+      <Search
+        size={16}
+        className="absolute left-3 top-1/2 -translate-y-1/2 text-cyan-400/70 pointer-events-none"
+      />
+      <input
+        ref={ref}
+        type="search"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={t('search.placeholder')}
+        aria-label={t('search.placeholder')}
+        className="w-full rounded-md border border-cyan-500/30 bg-gray-900/50 py-2 pl-9 pr-8 text-sm text-white placeholder:text-gray-500 focus:border-cyan-400 focus:outline-none focus:ring-1 focus:ring-cyan-400/50 [&::-webkit-search-cancel-button]:hidden"
+      />
+      {value && (
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          aria-label={t('search.clear')}
+          className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-cyan-400 transition-colors"
+        >
+          <X size={16} />
+        </button>
+      )}
+    </div>
+  );
+});
+
+export default SearchBox;
@@ -0,0 +1,76 @@
+/**
+ * ShortcutHelp Component
+ * Lists the keyboard shortcuts; opened with "?" or the keyboard button in the header
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { KEYBOARD_SHORTCUTS, formatKeyCombo } from '@/lib/keyboardShortcuts';
+import { useLanguage } from '@/lib/languageContext';
+import { X } from 'lucide-react';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+export default function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const { t } = useLanguage();
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Move keyboard focus into the help when it opens
+  useEffect(() => {
+    cardRef.current?.focus();
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <Card
+        ref={cardRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('shortcuts.title')}
+        tabIndex={-1}
+        className="w-full max-w-md flex flex-col bg-gradient-to-br from-gray-900 to-black border-cyan-500/30 relative overflow-hidden focus:outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6">
+          <h2 className="text-xl font-bold text-white">{t('shortcuts.title')}</h2>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-gray-400 hover:text-white hover:bg-cyan-500/20"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </Button>
+        </div>
+
+        <Separator className="bg-cyan-500/20" />
+
+        {/* Shortcuts */}
+        <dl className="p-6 space-y-3">
+          {KEYBOARD_SHORTCUTS.map(({ action, keys, labelKey }) => (
+            <div key={action} className="flex items-center justify-between gap-4">
+              <dt className="text-sm text-gray-300">{t(labelKey)}</dt>
+              <dd className="flex items-center gap-1">
+                {keys.map((combo) => (
+                  <kbd
+                    key={formatKeyCombo(combo)}
+                    className="min-w-[1.75rem] rounded border border-cyan-500/30 bg-white/5 px-2 py-0.5 text-center text-xs text-cyan-400"
+                  >
+                    {formatKeyCombo(combo)}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * UndoToast Component
+ * Offers to undo a cart change that lost something, e.g. "Cart cleared · Undo".
+ * Shown for each new destructive change and hidden after a few seconds or once
+ * the change is no longer the latest one.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { CartAction, CartHistoryEntry, isDestructiveCartAction } from '@/lib/cartHistory';
+import { useLanguage } from '@/lib/languageContext';
+
+/**
+ * How long the toast stays up, in milliseconds
+ */
+const UNDO_TOAST_DURATION_MS = 8000;
+
+const MESSAGE_KEYS: Partial<Record<CartAction, string>> = {
+  remove: 'undo.removed',
+  clear: 'undo.cleared',
+};
+
+interface UndoToastProps {
+  /** Latest cart change that can be undone, or null */
+  lastAction: CartHistoryEntry | null;
+  onUndo: () => void;
+}
+
+export default function UndoToast({ lastAction, onUndo }: UndoToastProps) {
+  const { t } = useLanguage();
+  const [shown, setShown] = useState<CartHistoryEntry | null>(null);
+
+  // Highest change ID seen, so changes brought back by undo or redo do not show the toast again
+  const latestIdRef = useRef(0);
+
+  useEffect(() => {
+    if (lastAction && lastAction.id > latestIdRef.current) {
+      latestIdRef.current = lastAction.id;
+      setShown(isDestructiveCartAction(lastAction.action) ? lastAction : null);
+      return;
+    }
+    // Undone, or followed by another change: undo would no longer take back this one
+    setShown((current) => (current && current.id === lastAction?.id ? current : null));
+  }, [lastAction]);
+
+  useEffect(() => {
+    if (!shown) {
+      return;
+    }
+    const timer = setTimeout(() => setShown(null), UNDO_TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [shown]);
+
+  if (!shown) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 rounded-lg border border-cyan-500/30 bg-gray-900/95 px-4 py-3 text-sm text-gray-200 shadow-lg"
+    >
+      <span>{t(MESSAGE_KEYS[shown.action] ?? 'undo.changed')}</span>
+      <button
+        type="button"
+        onClick={() => {
+          setShown(null);
+          onUndo();
+        }}
+        className="flex items-center gap-1 font-semibold text-cyan-400 hover:text-cyan-300 transition-colors"
+      >
+        <Undo2 size={14} />
+        {t('undo.button')}
+      </button>
+      <button
+        type="button"
+        onClick={() => setShown(null)}
+        aria-label={t('undo.dismiss')}
+        className="text-gray-500 hover:text-white transition-colors"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
@@ -11,7 +11,9 @@ import VoiceIndicator from './VoiceIndicator';
 import VoiceButton from './VoiceButton';
 import VoiceWaveform from './VoiceWaveform';
 import JarvisBackground from './JarvisBackground';
-import { VoiceStatus, Product, ProductCategory, CartItem } from '@/lib/types';
+import { VoiceStatus, Product, ProductCategory, CategoryInfo, WatchlistItem } from '@/lib/types';
+import { usePersona } from '@/lib/personaContext';
+import { CartPricing } from '@/lib/pricing';
 
 interface VoiceAssistantProps {
   className?: string;
@@ -19,8 +21,9 @@ interface VoiceAssistantProps {
   currentProducts?: Product[];
   selectedProduct?: Product | null;
   activeCategory?: ProductCategory | 'all';
-  cartItems?: CartItem[];
-  cartSubtotal?: number;
+  categories?: CategoryInfo[];
+  cartPricing?: CartPricing;
+  watchlistItems?: WatchlistItem[];
 }
 
 export default function VoiceAssistant({
@@ -29,10 +32,12 @@ export default function VoiceAssistant({
   currentProducts = [],
   selectedProduct = null,
   activeCategory = 'all',
-  cartItems = [],
-  cartSubtotal = 0,
+  categories = [],
+  cartPricing,
+  watchlistItems,
 }: VoiceAssistantProps) {
   const [voiceStatus, setVoiceStatus] = useState<VoiceStatus>('idle');
+  const { persona } = usePersona();
 
   const handleStatusChange = useCallback((newStatus: VoiceStatus) => {
     setVoiceStatus(newStatus);
@@ -80,8 +85,9 @@ export default function VoiceAssistant({
           currentProducts={currentProducts}
           selectedProduct={selectedProduct}
           activeCategory={activeCategory}
-          cartItems={cartItems}
-          cartSubtotal={cartSubtotal}
+          categories={categories}
+          cartPricing={cartPricing}
+          watchlistItems={watchlistItems}
         />
 
         {/* Status Text */}
@@ -114,10 +120,9 @@ export default function VoiceAssistant({
           <div className="mt-8 p-6 bg-gray-900/80 backdrop-blur-sm rounded-2xl border border-cyan-500/30 max-w-sm">
             <h3 className="text-cyan-400 text-sm font-semibold mb-3">Voice Commands:</h3>
             <ul className="text-gray-400 text-xs space-y-2">
-              <li>• &quot;Show trending items&quot;</li>
-              <li>• &quot;Next product&quot;</li>
-              <li>• &quot;Is this a bestseller?&quot;</li>
-              <li>• &quot;Add to watchlist&quot;</li>
+              {persona.sampleCommands.map((command) => (
+                <li key={command}>• &quot;{command}&quot;</li>
+              ))}
             </ul>
           </div>
         )}
@@ -8,16 +8,32 @@
  * - 1.1: Start voice session and establish connection to Ultravox API
  * - 1.3: Terminate voice session and stop listening
  * - 10.3: Handle microphone permission requests
+ *
+ * Space starts or stops the session and M mutes the microphone (see
+ * keyboardShortcuts.ts).
  */
 
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
 import { Mic, MicOff, Loader2 } from 'lucide-react';
-import { startCall, endCall, addStatusListener, getSessionStatus, isSessionActive } from '@/lib/voiceFunctions';
-import { KALDI_CONFIG } from '@/app/jarvis-config';
-import { VoiceStatus, Product, ProductCategory, CartItem } from '@/lib/types';
+import { Role } from 'ultravox-client';
+import {
+  startCall,
+  endCall,
+  toggleMute,
+  addStatusListener,
+  getSessionStatus,
+  isMicMuted,
+  isSessionActive,
+} from '@/lib/voiceFunctions';
+import { createKaldiConfig } from '@/app/jarvis-config';
+import { usePersona } from '@/lib/personaContext';
+import { CartPricing } from '@/lib/pricing';
+import { VoiceStatus, Product, ProductCategory, CategoryInfo, WatchlistItem } from '@/lib/types';
+import { getClientTools } from '@/lib/clientTools';
 import { useProductContext } from '@/lib/useProductContext';
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts';
 
 interface VoiceButtonProps {
   /** Current voice session status */
@@ -34,10 +50,12 @@ interface VoiceButtonProps {
   selectedProduct?: Product | null;
   /** Active category filter */
   activeCategory?: ProductCategory | 'all';
-  /** Cart items */
-  cartItems?: CartItem[];
-  /** Cart subtotal */
-  cartSubtotal?: number;
+  /** Categories discovered from the catalog */
+  categories?: CategoryInfo[];
+  /** Cart lines and totals after discounts and GST */
+  cartPricing?: CartPricing;
+  /** Products on the seller watchlist */
+  watchlistItems?: WatchlistItem[];
 }
 
 /**
@@ -54,20 +72,25 @@ export default function VoiceButton({
   currentProducts = [],
   selectedProduct = null,
   activeCategory = 'all',
-  cartItems = [],
-  cartSubtotal = 0,
+  categories = [],
+  cartPricing,
+  watchlistItems,
 }: VoiceButtonProps) {
   const [localStatus, setLocalStatus] = useState<VoiceStatus>(status);
   const [permissionError, setPermissionError] = useState<string | null>(null);
   const [isActivating, setIsActivating] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const { persona } = usePersona();
 
   // Get dynamic system prompt with product context
   const { systemPrompt } = useProductContext({
     currentProducts,
     selectedProduct,
     activeCategory,
-    cartItems,
-    cartSubtotal,
+    categories,
+    cartPricing,
+    watchlistItems,
+    persona,
   });
 
   // Sync local status with prop
@@ -201,21 +224,26 @@ export default function VoiceButton({
       console.log('[VoiceButton] Starting voice activation...');
       updateStatus('connecting');
       setPermissionError(null);
+      setIsMuted(false);
+
+      // Create config with dynamic system prompt, catalog categories and the persona's tools
+      const callConfig = createKaldiConfig(
+        {
+          systemPrompt,
+          selectedTools: getClientTools(categories.map((category) => category.id)),
+        },
+        persona.id
+      );
 
       // Start the voice call (this will handle mic permissions internally)
       console.log('[VoiceButton] Starting voice call with config:', {
-        model: KALDI_CONFIG.model,
-        voice: KALDI_CONFIG.voice,
-        toolCount: KALDI_CONFIG.selectedTools?.length || 0,
+        persona: persona.id,
+        model: callConfig.model,
+        voice: callConfig.voice,
+        toolCount: callConfig.selectedTools?.length || 0,
         systemPromptLength: systemPrompt.length,
       });
       
-      // Create config with dynamic system prompt
-      const callConfig = {
-        ...KALDI_CONFIG,
-        systemPrompt,
-      };
-      
       await startCall(
         {
           onStatusChange: (newStatus) => {
@@ -226,6 +254,7 @@ export default function VoiceButton({
           },
         },
         callConfig,
+        persona,
         true // Enable debug messages
       );
 
@@ -264,6 +293,7 @@ export default function VoiceButton({
       await endCall();
       updateStatus('idle');
       setPermissionError(null);
+      setIsMuted(false);
     } catch (error) {
       console.error('Failed to end voice session:', error);
       // Still update to idle even if there's an error
@@ -289,6 +319,27 @@ export default function VoiceButton({
     // Do nothing if connecting
   };
 
+  const isSessionLive = localStatus === 'listening' || localStatus === 'speaking';
+
+  /**
+   * Mute or unmute the microphone during a session
+   * Requirement 1.3: Control microphone state during voice session
+   */
+  const handleToggleMute = () => {
+    if (!isSessionLive) {
+      return false;
+    }
+    toggleMute(Role.USER);
+    setIsMuted(isMicMuted());
+  };
+
+  useKeyboardShortcuts({
+    toggleVoice: () => {
+      void handleClick();
+    },
+    toggleMute: handleToggleMute,
+  });
+
   /**
    * Determine button appearance based on status
    */
@@ -329,7 +380,9 @@ export default function VoiceButton({
       
       case 'listening':
       case 'speaking':
-        return <Mic size={iconSize} color={iconColor} />;
+        return isMuted
+          ? <MicOff size={iconSize} color={iconColor} />
+          : <Mic size={iconSize} color={iconColor} />;
       
       case 'error':
         return <MicOff size={iconSize} color={iconColor} />;
@@ -344,6 +397,9 @@ export default function VoiceButton({
    * Get tooltip text based on status
    */
   const getTooltipText = () => {
+    if (isSessionLive && isMuted) {
+      return 'Microphone muted - Press M to unmute';
+    }
     switch (localStatus) {
       case 'idle':
         return 'Start voice session';
@@ -0,0 +1,139 @@
+/**
+ * WatchlistOverlay Component
+ * Seller watchlist: tracked products with notes, target prices, date added
+ * and the demand tag then and now. Separate from the buyer's cart.
+ */
+
+'use client';
+
+import { Product, WatchlistState, getProductTag } from '@/lib/types';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { formatINR, formatPrice } from '@/lib/currency';
+import { isAtTargetPrice } from '@/lib/watchlistUtils';
+import { useLanguage } from '@/lib/languageContext';
+import { Trash2, X } from 'lucide-react';
+
+interface WatchlistOverlayProps {
+  watchlist: WatchlistState;
+  onClose: () => void;
+  onProductClick: (product: Product) => void;
+  onRemove: (productId: number) => void;
+  onClear: () => void;
+}
+
+export default function WatchlistOverlay({
+  watchlist,
+  onClose,
+  onProductClick,
+  onRemove,
+  onClear,
+}: WatchlistOverlayProps) {
+  const { t, language } = useLanguage();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-end p-4" onClick={onClose}>
+      <Card
+        className="w-full max-w-md h-full flex flex-col bg-gradient-to-br from-gray-900 to-black border-cyan-500/30 relative overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">{t('watchlist.title')}</h2>
+            <p className="text-xs text-gray-400">
+              {watchlist.items.length} {t('watchlist.tracked')}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-gray-400 hover:text-white hover:bg-cyan-500/20"
+            onClick={onClose}
+          >
+            <X size={20} />
+          </Button>
+        </div>
+
+        <Separator className="bg-cyan-500/20" />
+
+        {/* Items */}
+        {watchlist.items.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-400">
+            <p>{t('watchlist.empty')}</p>
+          </div>
+        ) : (
+          <ul className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+            {watchlist.items.map((item) => {
+              const { product, addedAt, note, targetPrice, tagWhenAdded } = item;
+              const tag = getProductTag(product);
+              return (
+                <li
+                  key={product.id}
+                  className="flex items-start gap-3 rounded-lg border border-cyan-500/20 bg-white/5 p-3"
+                >
+                  <button
+                    type="button"
+                    className="w-14 h-14 shrink-0 bg-white/5 rounded p-1"
+                    onClick={() => onProductClick(product)}
+                  >
+                    <img src={product.image} alt={product.title} className="w-full h-full object-contain" />
+                  </button>
+
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-sm text-white line-clamp-1">{product.title}</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-semibold text-cyan-400">{formatPrice(product.price)}</span>
+                      {targetPrice !== null && (
+                        <Badge
+                          className={isAtTargetPrice(item)
+                            ? 'bg-green-500/20 text-green-400 border-green-500/50'
+                            : 'bg-gray-800 text-gray-300 border-gray-700'}
+                        >
+                          {t('watchlist.target')} {formatINR(targetPrice)}
+                        </Badge>
+                      )}
+                      {tag && (
+                        <Badge className="bg-cyan-500/20 text-cyan-400 border-cyan-500/50">{tag}</Badge>
+                      )}
+                    </div>
+                    {note && <p className="text-xs text-gray-300 line-clamp-2">{note}</p>}
+                    <p className="text-xs text-gray-500">
+                      {t('watchlist.added')} {new Date(addedAt).toLocaleDateString(language === 'hi' ? 'hi-IN' : 'en-IN')}
+                      {tagWhenAdded !== tag && ` · ${t('watchlist.wasTag')} ${tagWhenAdded ?? t('watchlist.noTag')}`}
+                    </p>
+                  </div>
+
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-gray-500 hover:text-red-400 hover:bg-red-500/10"
+                    aria-label={t('watchlist.remove')}
+                    onClick={() => onRemove(product.id)}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {/* Footer */}
+        {watchlist.items.length > 0 && (
+          <div className="p-6 border-t border-cyan-500/20">
+            <Button
+              variant="outline"
+              className="w-full bg-gray-900/50 text-gray-300 border-cyan-500/30 hover:bg-red-500/10 hover:text-red-400"
+              onClick={onClear}
+            >
+              {t('watchlist.clear')}
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import "./globals.css";
 import { LanguageProvider } from "@/lib/languageContext";
+import { PersonaProvider } from "@/lib/personaContext";
 
 export const metadata: Metadata = {
   title: "Kaldi Shopping",
@@ -15,9 +16,11 @@ export default function RootLayout({
   return (
     <html lang="en" className="dark">
       <body className="antialiased">
-        <LanguageProvider>
-          {children}
-        </LanguageProvider>
+        <PersonaProvider>
+          <LanguageProvider>
+            {children}
+          </LanguageProvider>
+        </PersonaProvider>
       </body>
     </html>
   );
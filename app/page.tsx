@@ -2,187 +2,914 @@
  * Main Page - Kaldi Shopping
  * 
  * Split-screen with voice AI and product marketplace
- * Features: Language switching, category filtering, swipeable product details
+ * Features: Language switching, category filtering, product search, sorting and facets,
+ * seller watchlist,
+ * swipeable product details, keyboard shortcuts
  */
 
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useProducts } from '@/lib/useProducts';
 import { useCart } from '@/lib/useCart';
+import { useWatchlist } from '@/lib/useWatchlist';
+import { useCheckout } from '@/lib/useCheckout';
+import { useOrderHistory } from '@/lib/useOrderHistory';
 import { useLanguage } from '@/lib/languageContext';
 import VoiceAssistant from './components/VoiceAssistant';
 import ProductGrid from './components/ProductGrid';
 import ProductDetail from './components/ProductDetail';
+import CartOverlay from './components/CartOverlay';
+import WatchlistOverlay from './components/WatchlistOverlay';
+import CheckoutOverlay from './components/CheckoutOverlay';
+import OrderHistoryOverlay from './components/OrderHistoryOverlay';
+import UndoToast from './components/UndoToast';
+import PendingActionBar from './components/PendingActionBar';
+import ShortcutHelp from './components/ShortcutHelp';
 import CategoryTabs from './components/CategoryTabs';
 import LanguageSwitcher from './components/LanguageSwitcher';
+import PersonaSwitcher from './components/PersonaSwitcher';
+import SearchBox from './components/SearchBox';
+import ProductFilters from './components/ProductFilters';
+import CachedDataBanner from './components/CachedDataBanner';
 import { CLIENT_TOOL_EVENTS } from '@/lib/clientTools';
-import { Product, ProductCategory } from '@/lib/types';
-import { ShoppingCart } from 'lucide-react';
+import { setToolCatalogState } from '@/lib/toolRegistry';
+import { cancelPendingAction, setConfirmationPolicy } from '@/lib/confirmation';
+import { useJarvisResponder } from '@/lib/useJarvisEvent';
+import { usePersona } from '@/lib/personaContext';
+import { useBrowsingHistory } from '@/lib/useBrowsingHistory';
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts';
+import { BrowsingLocation, describeLocation } from '@/lib/browsingHistory';
+import { searchProducts } from '@/lib/searchIndex';
+import { resolveProductTarget } from '@/lib/navigationUtils';
+import { getErrorMessage, getUserFriendlyMessage } from '@/lib/errorHandler';
+import { DEFAULT_PRODUCT_QUERY, mergeProductQuery } from '@/lib/productQuery';
+import {
+  applyCoupon as applyCouponState,
+  clearCart as clearCartState,
+  isProductInCart,
+  removeCoupon as removeCouponState,
+} from '@/lib/cartUtils';
+import {
+  addToWatchlist as addToWatchlistState,
+  clearWatchlist as clearWatchlistState,
+  isProductWatched,
+  removeFromWatchlist as removeFromWatchlistState,
+  updateWatchlistItem,
+  WatchlistItemDetails,
+} from '@/lib/watchlistUtils';
+import { checkoutReducer, getFirstIncompleteStep } from '@/lib/checkoutState';
+import { DELIVERY_OPTIONS, calculateCheckoutTotals, isShippingAddressComplete } from '@/lib/checkoutUtils';
+import { formatINR } from '@/lib/currency';
+import { priceCart } from '@/lib/pricing';
+import { describeVariantMismatch, getVariantTitle, matchVariant } from '@/lib/productVariants';
+import {
+  summarizeCart,
+  summarizeCheckout,
+  summarizeOrders,
+  summarizeProduct,
+  summarizeTopProducts,
+  summarizeWatchlist,
+  toolFailure,
+  toolSuccess,
+} from '@/lib/toolOutcome';
+import { Order, Product } from '@/lib/types';
+import { Eye, Keyboard, Package, ShoppingCart } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 
 export default function Home() {
   const { t } = useLanguage();
+  const { persona } = usePersona();
+  const { cart: hasCart, watchlist: hasWatchlist } = persona.features;
   
   // Product state
   const {
+    products,
     filteredProducts,
+    currentProduct,
+    currentProductIndex,
     activeCategory,
+    categories,
+    searchQuery,
+    productQuery,
+    facetCounts,
+    previewProducts,
     isLoading,
     error,
+    errorContext,
+    cacheStatus,
+    isShowingCachedData,
+    isCatalogCurrent,
+    refreshProducts,
     setCategory,
+    setSearchQuery,
+    updateProductQuery,
+    resetProductQuery,
+    view,
+    isDetailOpen,
+    isCartOpen,
+    isWatchlistOpen,
+    isCheckoutOpen,
+    hasNext,
+    hasPrevious,
     nextProduct,
     previousProduct,
+    focusProduct,
+    openProduct,
+    openCart,
+    toggleCart,
+    openWatchlist,
+    toggleWatchlist,
+    openCheckout,
+    openOrders,
+    toggleOrders,
+    closeView,
   } = useProducts();
 
   // Cart state
   const {
     cart,
     itemCount,
+    pricing: cartPricing,
     addToCart,
     removeFromCart,
+    updateQuantity,
     clearCart,
-  } = useCart();
+    applyCoupon,
+    removeCoupon,
+    reorder: reorderCart,
+    lastAction: lastCartAction,
+    canUndo: canUndoCart,
+    canRedo: canRedoCart,
+    undo: undoCart,
+    redo: redoCart,
+    clearHistory: clearCartHistory,
+  } = useCart(products, { catalogComplete: isCatalogCurrent });
+
+  // Seller watchlist, separate from the cart
+  const {
+    watchlist,
+    watchCount,
+    addToWatchlist,
+    removeFromWatchlist,
+    updateWatchlistDetails,
+    clearWatchlist,
+  } = useWatchlist(products);
+
+  // Placed orders, newest first
+  const { orderHistory, orderCount, addOrder, findOrder } = useOrderHistory();
+
+  // Checkout; a placed order is recorded and empties the cart
+  const handleOrderPlaced = useCallback((order: Order) => {
+    addOrder(order);
+    clearCart();
+    // The ordered cart is not brought back by undo
+    clearCartHistory();
+  }, [addOrder, clearCart, clearCartHistory]);
+
+  const {
+    checkout,
+    totals: checkoutTotals,
+    addressErrors,
+    startCheckout,
+    goToStep: goToCheckoutStep,
+    updateAddress,
+    selectDelivery,
+    selectPaymentMethod,
+    placeOrder,
+  } = useCheckout(cart, handleOrderPlaced);
 
   // UI state
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [showCart, setShowCart] = useState(false);
   const [hasInteracted, setHasInteracted] = useState(false);
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // The detail card always shows the focused product
+  const selectedProduct = isDetailOpen ? currentProduct : null;
 
   /**
-   * Voice command event listeners
+   * Back/forward history of categories, searches, product views, the cart and the watchlist,
+   * mirrored into the URL (e.g. /?category=electronics&product=9&cart=open)
+   * Restoring a location replays it through the same actions the user would take;
+   * parts that no longer match the catalog are dropped.
    */
-  useEffect(() => {
-    const handleProductNavigate = (event: Event) => {
-      const customEvent = event as CustomEvent<{ direction: 'next' | 'previous' }>;
-      const { direction } = customEvent.detail;
-      
-      if (direction === 'next') {
-        if (selectedProduct) {
-          const currentIndex = filteredProducts.findIndex(p => p.id === selectedProduct.id);
-          if (currentIndex < filteredProducts.length - 1) {
-            setSelectedProduct(filteredProducts[currentIndex + 1]);
-          }
-        } else {
-          nextProduct();
-        }
+  const { goBack, goForward } = useBrowsingHistory(
+    {
+      category: activeCategory,
+      searchQuery,
+      productId: selectedProduct?.id ?? null,
+      cartOpen: isCartOpen,
+      watchlistOpen: isWatchlistOpen,
+    },
+    (location) => {
+      const category = location.category === 'all' || categories.some((info) => info.id === location.category)
+        ? location.category
+        : 'all';
+      const listed = previewProducts({ category, searchQuery: location.searchQuery });
+      const productId = location.productId !== null && listed.some(p => p.id === location.productId)
+        ? location.productId
+        : null;
+
+      if (category !== activeCategory) {
+        setCategory(category);
+      }
+      if (location.searchQuery !== searchQuery) {
+        setSearchQuery(location.searchQuery);
+      }
+      if (productId !== null) {
+        openProduct(productId);
       } else {
-        if (selectedProduct) {
-          const currentIndex = filteredProducts.findIndex(p => p.id === selectedProduct.id);
-          if (currentIndex > 0) {
-            setSelectedProduct(filteredProducts[currentIndex - 1]);
-          }
-        } else {
-          previousProduct();
-        }
+        closeView('detail');
       }
-    };
+      if (location.cartOpen) {
+        openCart();
+      } else {
+        closeView('cart');
+      }
+      if (location.watchlistOpen) {
+        openWatchlist();
+      } else {
+        closeView('watchlist');
+      }
+      // Checkout and orders are not part of the history; moving through it leaves them
+      closeView('checkout');
+      closeView('orders');
+      setHasInteracted(true);
+
+      return { ...location, category, productId };
+    },
+    { ready: !isLoading }
+  );
+
+  /**
+   * Close a list the active persona does not offer, e.g. after switching persona
+   */
+  useEffect(() => {
+    if (isCartOpen && !hasCart) {
+      closeView('cart');
+    }
+    if (isWatchlistOpen && !hasWatchlist) {
+      closeView('watchlist');
+    }
+  }, [isCartOpen, isWatchlistOpen, hasCart, hasWatchlist, closeView]);
 
-    const handleCategoryFilter = (event: Event) => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const customEvent = event as CustomEvent<{ category: any }>;
-      const { category } = customEvent.detail;
-      setCategory(category as ProductCategory | 'all');
-      setSelectedProduct(null);
-      setHasInteracted(true); // Mark as interacted when filtering
+  /**
+   * Let voice tools validate product IDs and categories against the loaded catalog
+   */
+  useEffect(() => {
+    setToolCatalogState({
+      categories: categories.map((category) => category.id),
+      productIds: new Set(products.map((product) => product.id)),
+    });
+    return () => setToolCatalogState(null);
+  }, [products, categories]);
+
+  /**
+   * Hold voice actions for confirmation as the persona's policy says
+   * An action held for another persona is dropped rather than carried out.
+   */
+  useEffect(() => {
+    setConfirmationPolicy(persona.confirmation);
+    return () => {
+      setConfirmationPolicy(null);
+      cancelPendingAction();
     };
+  }, [persona]);
+
+  /**
+   * Voice command responders
+   * Each one carries out a tool request and reports what actually happened,
+   * which becomes the tool result the assistant hears.
+   */
+  useJarvisResponder(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE, ({ direction }) => {
+    if (filteredProducts.length === 0) {
+      return toolFailure('notFound', 'There are no products to browse.');
+    }
 
-    const handleCartUpdate = (event: Event) => {
-      const customEvent = event as CustomEvent<{
-        action: 'add' | 'remove' | 'clear';
-        productId?: number;
-        quantity?: number;
-      }>;
-      const { action, productId, quantity } = customEvent.detail;
-
-      if (action === 'add' && selectedProduct) {
-        addToCart(selectedProduct, quantity || 1);
-      } else if (action === 'remove' && productId) {
-        removeFromCart(productId);
-      } else if (action === 'clear') {
-        clearCart();
+    if (!(direction === 'next' ? hasNext : hasPrevious)) {
+      return toolFailure(
+        'notFound',
+        filteredProducts.length === 1
+          ? 'This is the only product.'
+          : direction === 'next' ? 'This is already the last product.' : 'This is already the first product.'
+      );
+    }
+
+    // Next and previous follow the same boundary behavior in the grid and the detail card
+    const target = direction === 'next' ? nextProduct() : previousProduct();
+    if (!target) {
+      return toolFailure('notFound', 'There are no products to browse.');
+    }
+    const targetIndex = filteredProducts.indexOf(target);
+    const wrapped = direction === 'next' ? targetIndex < currentProductIndex : targetIndex > currentProductIndex;
+    const shown = `${isDetailOpen ? 'Showing' : 'Highlighted'} ${target.title}`;
+    return toolSuccess(
+      wrapped ? `${shown}, back at the ${direction === 'next' ? 'start' : 'end'} of the list.` : `${shown}.`,
+      { product: summarizeProduct(target) }
+    );
+  });
+
+  useJarvisResponder(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, ({ category }) => {
+    if (category !== 'all' && !categories.some((info) => info.id === category)) {
+      return toolFailure(
+        'notFound',
+        `There is no "${category}" category. Available categories: ${categories.map((info) => info.id).join(', ')}.`
+      );
+    }
+
+    const visible = previewProducts({ category });
+    setCategory(category);
+    setHasInteracted(true); // Mark as interacted when filtering
+
+    return toolSuccess(
+      category === 'all' ? `Showing all ${visible.length} products.` : `Showing ${visible.length} products in ${category}.`,
+      { resultCount: visible.length, topProducts: summarizeTopProducts(visible) }
+    );
+  });
+
+  // Handle product search - search the whole catalog, opening a single match directly
+  useJarvisResponder(CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS, ({ query }) => {
+    console.log('[Page] Voice command: Search products', query);
+
+    const visible = previewProducts({ category: 'all', searchQuery: query });
+    setCategory('all');
+    setSearchQuery(query);
+    setHasInteracted(true);
+
+    const matches = query ? searchProducts(products, query) : [];
+    const openedProduct = matches.length === 1 ? matches[0] : null;
+    if (openedProduct) {
+      openProduct(openedProduct.id);
+    }
+
+    if (!query) {
+      return toolSuccess(`Cleared the search. Showing ${visible.length} products.`, { resultCount: visible.length });
+    }
+    if (visible.length === 0) {
+      return toolSuccess(`No products match "${query}".`, { resultCount: 0 });
+    }
+    return toolSuccess(`Showing ${visible.length} products matching "${query}".`, {
+      resultCount: visible.length,
+      topProducts: summarizeTopProducts(visible),
+      ...(openedProduct ? { product: summarizeProduct(openedProduct) } : {}),
+    });
+  });
+
+  // Handle sort and filter - apply category, facets and sort order in one step
+  useJarvisResponder(CLIENT_TOOL_EVENTS.SORT_FILTER, (request) => {
+    const { category, sort, facets, reset } = request;
+
+    console.log('[Page] Voice command: Sort and filter', request);
+
+    if (category && category !== 'all' && !categories.some((info) => info.id === category)) {
+      return toolFailure('notFound', `There is no "${category}" category.`);
+    }
+
+    const nextQuery = mergeProductQuery(reset ? DEFAULT_PRODUCT_QUERY : productQuery, { sort, facets });
+    const visible = previewProducts({ category, productQuery: nextQuery });
+
+    if (reset) {
+      resetProductQuery();
+    }
+    if (category) {
+      setCategory(category);
+    }
+    updateProductQuery({ sort, facets });
+    setHasInteracted(true);
+
+    return toolSuccess(
+      visible.length === 0
+        ? 'No products match these filters.'
+        : `Showing ${visible.length} matching products.`,
+      { resultCount: visible.length, topProducts: summarizeTopProducts(visible) }
+    );
+  });
+
+  useJarvisResponder(CLIENT_TOOL_EVENTS.CART_UPDATE, ({ action, productId, quantity, variant }) => {
+    if (action === 'clear') {
+      clearCart();
+      return toolSuccess('Cleared the cart.', { cart: summarizeCart(clearCartState()) });
+    }
+
+    // Act on the named product, or the one currently open
+    const product = productId !== undefined
+      ? products.find(p => p.id === productId)
+      : selectedProduct;
+    if (!product) {
+      return productId !== undefined
+        ? toolFailure('notFound', `There is no product with ID ${productId}.`)
+        : toolFailure('invalid', 'No product is open. Open a product first or say which one.');
+    }
+
+    // Pick the variant: the one asked for, or when changing the cart without naming
+    // one, the product's only line in the cart
+    let variantId: string | undefined;
+    const lines = cart.items.filter((item) => item.product.id === product.id);
+    if (action === 'add' || variant) {
+      const match = matchVariant(product, variant);
+      if (!match.ok) {
+        return toolFailure('invalid', describeVariantMismatch(product, match));
       }
-    };
+      variantId = match.variant?.id;
+    } else if (lines.length > 1) {
+      const inCart = lines.map((item) => getVariantTitle(product, item.variantId)).join(', ');
+      return toolFailure('invalid', `The cart has ${inCart}. Say which one.`);
+    } else {
+      variantId = lines[0]?.variantId;
+    }
+    const title = getVariantTitle(product, variantId);
 
-    // Handle read product details - show the product card
-    const handleReadProduct = (event: Event) => {
-      const customEvent = event as CustomEvent<{ productId: number }>;
-      const { productId } = customEvent.detail;
-      
-      console.log('[Page] Voice command: Read product details', productId);
-      
-      // If productId is 0, use first product from filtered list
-      if (productId === 0 && filteredProducts.length > 0) {
-        const currentProduct = filteredProducts[0];
-        setSelectedProduct(currentProduct);
-        setHasInteracted(true);
-      } else {
-        // Find product by ID
-        const product = filteredProducts.find(p => p.id === productId);
-        if (product) {
-          setSelectedProduct(product);
-          setHasInteracted(true);
+    try {
+      if (action === 'add') {
+        const added = quantity || 1;
+        // Checked against the cart as it is now, including changes not rendered yet
+        const change = addToCart(product, added, variantId);
+        if (!change.ok) {
+          return toolFailure('invalid', change.error);
         }
+        return toolSuccess(`Added ${added} × ${title} to the cart.`, {
+          product: summarizeProduct(product),
+          cart: summarizeCart(change.cart),
+        });
       }
-    };
 
-    // Handle close product - close the product detail card
-    const handleCloseProduct = () => {
-      console.log('[Page] Voice command: Close product');
-      setSelectedProduct(null);
-    };
+      if (!isProductInCart(cart, product.id, variantId)) {
+        return toolFailure('notFound', `${title} is not in the cart.`);
+      }
 
-    // Handle open cart - open the cart overlay
-    const handleOpenCart = () => {
-      console.log('[Page] Voice command: Open cart');
-      setShowCart(true);
-    };
+      if (action === 'remove') {
+        const change = removeFromCart(product.id, variantId);
+        if (!change.ok) {
+          return toolFailure('invalid', change.error);
+        }
+        return toolSuccess(`Removed ${title} from the cart.`, { cart: summarizeCart(change.cart) });
+      }
+
+      if (!quantity) {
+        return toolFailure('invalid', 'Say how many you want.');
+      }
+      const change = updateQuantity(product.id, quantity, variantId);
+      if (!change.ok) {
+        return toolFailure('invalid', change.error);
+      }
+      return toolSuccess(`Set ${title} quantity to ${quantity}.`, { cart: summarizeCart(change.cart) });
+    } catch (err) {
+      return toolFailure('invalid', getErrorMessage(err));
+    }
+  });
 
-    window.addEventListener(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE, handleProductNavigate);
-    window.addEventListener(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, handleCategoryFilter);
-    window.addEventListener(CLIENT_TOOL_EVENTS.CART_UPDATE, handleCartUpdate);
-    window.addEventListener(CLIENT_TOOL_EVENTS.READ_PRODUCT, handleReadProduct);
-    window.addEventListener(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, handleCloseProduct);
-    window.addEventListener(CLIENT_TOOL_EVENTS.OPEN_CART, handleOpenCart);
+  useJarvisResponder(CLIENT_TOOL_EVENTS.WATCHLIST_UPDATE, ({ action, productId, note, targetPrice }) => {
+    if (action === 'clear') {
+      clearWatchlist();
+      return toolSuccess('Cleared the watchlist.', { watchlist: summarizeWatchlist(clearWatchlistState()) });
+    }
 
-    return () => {
-      window.removeEventListener(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE, handleProductNavigate);
-      window.removeEventListener(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, handleCategoryFilter);
-      window.removeEventListener(CLIENT_TOOL_EVENTS.CART_UPDATE, handleCartUpdate);
-      window.removeEventListener(CLIENT_TOOL_EVENTS.READ_PRODUCT, handleReadProduct);
-      window.removeEventListener(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, handleCloseProduct);
-      window.removeEventListener(CLIENT_TOOL_EVENTS.OPEN_CART, handleOpenCart);
+    // Act on the named product, or the one currently open
+    const product = productId !== undefined
+      ? products.find(p => p.id === productId)
+      : selectedProduct;
+    if (!product) {
+      return productId !== undefined
+        ? toolFailure('notFound', `There is no product with ID ${productId}.`)
+        : toolFailure('invalid', 'No product is open. Open a product first or say which one.');
+    }
+
+    const details: WatchlistItemDetails = {
+      ...(note !== undefined ? { note } : {}),
+      ...(targetPrice !== undefined ? { targetPrice } : {}),
     };
-  }, [selectedProduct, filteredProducts, nextProduct, previousProduct, setCategory, addToCart, removeFromCart, clearCart]);
+    const watched = isProductWatched(watchlist, product.id);
+
+    try {
+      if (action === 'add') {
+        const nextWatchlist = addToWatchlistState(watchlist, product, details);
+        addToWatchlist(product, details);
+        return toolSuccess(
+          watched ? `${product.title} is already on the watchlist.` : `Now tracking ${product.title}.`,
+          { product: summarizeProduct(product), watchlist: summarizeWatchlist(nextWatchlist) }
+        );
+      }
+
+      if (!watched) {
+        return toolFailure('notFound', `${product.title} is not on the watchlist.`);
+      }
+
+      if (action === 'remove') {
+        const nextWatchlist = removeFromWatchlistState(watchlist, product.id);
+        removeFromWatchlist(product.id);
+        return toolSuccess(`Stopped tracking ${product.title}.`, { watchlist: summarizeWatchlist(nextWatchlist) });
+      }
+
+      if (Object.keys(details).length === 0) {
+        return toolFailure('invalid', 'Say what to change: a note or a target price.');
+      }
+      const nextWatchlist = updateWatchlistItem(watchlist, product.id, details);
+      updateWatchlistDetails(product.id, details);
+      return toolSuccess(`Updated ${product.title} on the watchlist.`, { watchlist: summarizeWatchlist(nextWatchlist) });
+    } catch (err) {
+      return toolFailure('invalid', getErrorMessage(err));
+    }
+  });
+
+  useJarvisResponder(CLIENT_TOOL_EVENTS.READ_WATCHLIST, () => {
+    return toolSuccess(
+      watchCount === 0 ? 'The watchlist is empty.' : `Tracking ${watchCount} products.`,
+      { watchlist: summarizeWatchlist(watchlist) }
+    );
+  });
+
+  // Handle read product details - show the product card
+  useJarvisResponder(CLIENT_TOOL_EVENTS.READ_PRODUCT, ({ productId }) => {
+    console.log('[Page] Voice command: Read product details', productId);
+    
+    // If productId is 0, use the focused product: the open one, or the highlighted one in the list
+    const product = productId === 0
+      ? currentProduct
+      : filteredProducts.find(p => p.id === productId);
+    if (!product) {
+      return toolFailure('notFound', productId === 0 ? 'There is no product to read.' : `Product ${productId} is not listed.`);
+    }
+
+    openProduct(product.id);
+    setHasInteracted(true);
+    return toolSuccess(`Showing ${product.title}.`, { product: summarizeProduct(product, true) });
+  });
+
+  // Handle go to product - open a product by ID, list position or title
+  useJarvisResponder(CLIENT_TOOL_EVENTS.GO_TO_PRODUCT, (target) => {
+    console.log('[Page] Voice command: Go to product', target);
+
+    const resolution = resolveProductTarget(filteredProducts, products, target);
+    if (!resolution.ok) {
+      return toolFailure('notFound', resolution.error);
+    }
+
+    const { product, index } = resolution;
+    if (index < 0) {
+      // Show the whole catalog so the product can be browsed from
+      setCategory('all');
+      setSearchQuery('');
+      resetProductQuery();
+    }
+    openProduct(product.id);
+    setHasInteracted(true);
+    return toolSuccess(
+      index >= 0
+        ? `Showing ${product.title}, ${index + 1} of ${filteredProducts.length}.`
+        : `Showing ${product.title}. Cleared the filters to show it.`,
+      { product: summarizeProduct(product) }
+    );
+  });
+
+  useJarvisResponder(CLIENT_TOOL_EVENTS.READ_CART, () => {
+    return toolSuccess(
+      itemCount === 0 ? 'The cart is empty.' : `The cart has ${itemCount} items.`,
+      { cart: summarizeCart(cart) }
+    );
+  });
+
+  // Handle apply coupon - apply a coupon code and report the saving
+  useJarvisResponder(CLIENT_TOOL_EVENTS.APPLY_COUPON, ({ code }) => {
+    console.log('[Page] Voice command: Apply coupon', code);
+    const check = applyCoupon(code);
+    if (!check.ok) {
+      return toolFailure(check.reason === 'unknown' ? 'notFound' : 'unavailable', check.message);
+    }
+
+    const nextCart = applyCouponState(cart, check.coupon);
+    const nextPricing = priceCart(nextCart);
+    return toolSuccess(
+      `Applied ${check.coupon.code} (${check.coupon.description}). It saves ${formatINR(nextPricing.discount)}; the total is now ${formatINR(nextPricing.total)} before delivery.`,
+      { cart: summarizeCart(nextCart) }
+    );
+  });
+
+  // Handle remove coupon - take the coupon off the cart
+  useJarvisResponder(CLIENT_TOOL_EVENTS.REMOVE_COUPON, () => {
+    console.log('[Page] Voice command: Remove coupon');
+    if (!cart.couponCode) {
+      return toolSuccess('No coupon was applied.');
+    }
+    const nextCart = removeCouponState(cart);
+    removeCoupon();
+    return toolSuccess(`Removed ${cart.couponCode}. The total is now ${formatINR(priceCart(nextCart).total)} before delivery.`, {
+      cart: summarizeCart(nextCart),
+    });
+  });
+
+  // Handle undo - take back the latest cart change
+  useJarvisResponder(CLIENT_TOOL_EVENTS.UNDO_CART, () => {
+    console.log('[Page] Voice command: Undo cart change');
+    const entry = undoCart();
+    if (!entry) {
+      return toolFailure('unavailable', 'There is nothing in the cart to undo.');
+    }
+    return toolSuccess(`Undid: ${entry.description}.`, { cart: summarizeCart(entry.before) });
+  });
+
+  // Handle close product - close the product detail card
+  useJarvisResponder(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, () => {
+    console.log('[Page] Voice command: Close product');
+    if (!selectedProduct) {
+      return toolSuccess('No product was open.');
+    }
+    closeView('detail');
+    return toolSuccess(`Closed ${selectedProduct.title}.`);
+  });
+
+  // Handle open cart - open the cart overlay
+  useJarvisResponder(CLIENT_TOOL_EVENTS.OPEN_CART, () => {
+    console.log('[Page] Voice command: Open cart');
+    openCart();
+    return toolSuccess('Opened the cart.', { cart: summarizeCart(cart) });
+  });
+
+  // Handle open watchlist - open the watchlist overlay
+  useJarvisResponder(CLIENT_TOOL_EVENTS.OPEN_WATCHLIST, () => {
+    console.log('[Page] Voice command: Open watchlist');
+    openWatchlist();
+    return toolSuccess('Opened the watchlist.', { watchlist: summarizeWatchlist(watchlist) });
+  });
+
+  // Handle start checkout - open checkout at the order review
+  useJarvisResponder(CLIENT_TOOL_EVENTS.START_CHECKOUT, () => {
+    console.log('[Page] Voice command: Start checkout');
+    if (cart.items.length === 0) {
+      return toolFailure('unavailable', 'The cart is empty. Add products before checking out.');
+    }
+
+    const next = checkoutReducer(checkout, { type: 'start' });
+    startCheckout();
+    openCheckout();
+    return toolSuccess(
+      `Started checkout for ${itemCount} items, ${formatINR(checkoutTotals.subtotal)} before delivery. Next: ${getFirstIncompleteStep(next)}.`,
+      { cart: summarizeCart(cart), checkout: summarizeCheckout(next, cart) }
+    );
+  });
+
+  // Handle shipping address - fill in the fields given and move on once the address is complete
+  useJarvisResponder(CLIENT_TOOL_EVENTS.SET_SHIPPING_ADDRESS, (address) => {
+    console.log('[Page] Voice command: Set shipping address', address);
+    if (!isCheckoutOpen) {
+      return toolFailure('unavailable', 'Checkout is not open. Start checkout first.');
+    }
+    if (checkout.order || checkout.isPaying) {
+      return toolFailure('unavailable', 'The order has already been paid for; the address can no longer change.');
+    }
+
+    let next = checkoutReducer(checkout, { type: 'updateAddress', address });
+    updateAddress(address);
+    if (!isShippingAddressComplete(next.address)) {
+      return toolSuccess('Updated the address. Some details are still missing or invalid.', {
+        checkout: summarizeCheckout(next, cart),
+      });
+    }
+
+    if (next.step === 'review' || next.step === 'address') {
+      next = checkoutReducer(next, { type: 'goToStep', step: 'delivery' });
+      goToCheckoutStep('delivery');
+    }
+    return toolSuccess('Saved the shipping address. Next: choose standard or express delivery.', {
+      checkout: summarizeCheckout(next, cart),
+    });
+  });
+
+  // Handle delivery option - choose the delivery speed and move on to payment
+  useJarvisResponder(CLIENT_TOOL_EVENTS.SELECT_DELIVERY, ({ delivery }) => {
+    console.log('[Page] Voice command: Select delivery', delivery);
+    if (!isCheckoutOpen) {
+      return toolFailure('unavailable', 'Checkout is not open. Start checkout first.');
+    }
+    if (checkout.order || checkout.isPaying) {
+      return toolFailure('unavailable', 'The order has already been paid for.');
+    }
+    if (!isShippingAddressComplete(checkout.address)) {
+      return toolFailure('unavailable', 'The shipping address is not complete yet. Fill it in with setShippingAddress first.');
+    }
+
+    const next = checkoutReducer(checkout, { type: 'selectDelivery', delivery });
+    selectDelivery(delivery);
+    const option = DELIVERY_OPTIONS[delivery];
+    const { deliveryFee } = calculateCheckoutTotals(cart, delivery);
+    const summary = summarizeCheckout(next, cart);
+    return toolSuccess(
+      `Selected ${delivery} delivery (${deliveryFee > 0 ? formatINR(deliveryFee) : 'free'}, ${option.minDays}-${option.maxDays} days). The total is ${summary.total}. Next: payment.`,
+      { checkout: summary }
+    );
+  });
+
+  // Handle place order - pay through the payment provider and place the order
+  useJarvisResponder(CLIENT_TOOL_EVENTS.PLACE_ORDER, async ({ paymentMethod }) => {
+    console.log('[Page] Voice command: Place order', paymentMethod);
+    if (!isCheckoutOpen) {
+      return toolFailure('unavailable', 'Checkout is not open. Start checkout first.');
+    }
+    if (checkout.order) {
+      return toolFailure('unavailable', `Order ${checkout.order.id} has already been placed.`);
+    }
+    const nextStep = getFirstIncompleteStep(checkout);
+    if (nextStep !== 'payment') {
+      return toolFailure('unavailable', `Checkout is not ready for payment. Next: ${nextStep}.`);
+    }
+
+    try {
+      const order = await placeOrder(paymentMethod);
+      const placed = checkoutReducer(checkout, { type: 'orderPlaced', order });
+      return toolSuccess(`Placed order ${order.id} for ${formatINR(order.total)}.`, {
+        checkout: summarizeCheckout(placed, cart),
+      });
+    } catch (error) {
+      return toolFailure('failed', getErrorMessage(error));
+    }
+  });
+
+  // Handle close checkout - leave checkout, keeping what was entered
+  useJarvisResponder(CLIENT_TOOL_EVENTS.CLOSE_CHECKOUT, () => {
+    console.log('[Page] Voice command: Close checkout');
+    if (!isCheckoutOpen) {
+      return toolSuccess('Checkout was not open.');
+    }
+    handleCloseCheckout();
+    return toolSuccess(checkout.order ? 'Closed the order confirmation.' : 'Left checkout. The details entered are kept.');
+  });
+
+  // Handle list orders - open the orders view and describe recent orders
+  useJarvisResponder(CLIENT_TOOL_EVENTS.LIST_ORDERS, () => {
+    console.log('[Page] Voice command: List orders');
+    openOrders();
+    if (orderCount === 0) {
+      return toolSuccess('There are no orders yet.', { orders: summarizeOrders(orderHistory) });
+    }
+    return toolSuccess(`Opened the orders. There are ${orderCount} orders.`, {
+      orders: summarizeOrders(orderHistory),
+    });
+  });
+
+  // Handle reorder - add the items of a past order to the cart
+  useJarvisResponder(CLIENT_TOOL_EVENTS.REORDER, ({ orderId }) => {
+    console.log('[Page] Voice command: Reorder', orderId);
+    const order = orderId ? findOrder(orderId) : orderHistory.orders[0];
+    if (!order) {
+      return toolFailure(
+        'notFound',
+        orderId ? `No order matches "${orderId}". Use listOrders to see the order IDs.` : 'There are no past orders to repeat.'
+      );
+    }
+
+    const result = handleReorder(order);
+    const unavailableItems = result.unavailable.map((item) => item.title);
+    if (result.added.length === 0) {
+      return toolFailure(
+        'notFound',
+        `None of the items in order ${order.id} can be bought anymore: ${unavailableItems.join(', ')}.`
+      );
+    }
+
+    const unavailableNote = unavailableItems.length > 0
+      ? ` No longer available: ${unavailableItems.join(', ')}.`
+      : '';
+    return toolSuccess(
+      `Added ${result.added.length} items from order ${order.id} to the cart.${unavailableNote}`,
+      {
+        cart: summarizeCart(result.cart),
+        ...(unavailableItems.length > 0 ? { unavailableItems } : {}),
+      }
+    );
+  });
+
+  // Handle go back / go forward - walk the browsing history
+  const describeHistoryMove = (verb: string, location: BrowsingLocation) => {
+    const product = location.productId !== null ? products.find(p => p.id === location.productId) : undefined;
+    return toolSuccess(`${verb} ${describeLocation(location, products)}.`, {
+      ...(product ? { product: summarizeProduct(product) } : {}),
+      ...(location.cartOpen ? { cart: summarizeCart(cart) } : {}),
+      ...(location.watchlistOpen ? { watchlist: summarizeWatchlist(watchlist) } : {}),
+    });
+  };
+
+  useJarvisResponder(CLIENT_TOOL_EVENTS.GO_BACK, () => {
+    const location = goBack();
+    if (!location) {
+      return toolFailure('notFound', 'There is nothing to go back to.');
+    }
+    return describeHistoryMove('Going back to', location);
+  });
+
+  useJarvisResponder(CLIENT_TOOL_EVENTS.GO_FORWARD, () => {
+    const location = goForward();
+    if (!location) {
+      return toolFailure('notFound', 'There is nothing to go forward to.');
+    }
+    return describeHistoryMove('Going forward to', location);
+  });
+
+  /**
+   * Keyboard shortcuts (see lib/keyboardShortcuts.ts)
+   * Voice session shortcuts are handled by the voice button.
+   */
+  // Arrow keys browse the grid or the open product; over the cart, watchlist or help they scroll
+  const canBrowseByKey = (view === 'grid' || view === 'detail') && !isShortcutHelpOpen;
+
+  useKeyboardShortcuts({
+    next: () => {
+      if (!canBrowseByKey) {
+        return false;
+      }
+      nextProduct();
+      setHasInteracted(true);
+    },
+    previous: () => {
+      if (!canBrowseByKey) {
+        return false;
+      }
+      previousProduct();
+      setHasInteracted(true);
+    },
+    open: () => {
+      if (view !== 'grid' || isShortcutHelpOpen || !currentProduct) {
+        return false;
+      }
+      openProduct(currentProduct.id);
+      setHasInteracted(true);
+    },
+    close: () => {
+      if (isShortcutHelpOpen) {
+        setIsShortcutHelpOpen(false);
+        return;
+      }
+      if (view === 'grid') {
+        return false;
+      }
+      closeView();
+    },
+    toggleCart: hasCart ? toggleCart : () => false,
+    toggleWatchlist: hasWatchlist ? toggleWatchlist : () => false,
+    focusSearch: () => {
+      searchInputRef.current?.focus();
+    },
+    back: () => goBack() !== null,
+    forward: () => goForward() !== null,
+    showHelp: () => setIsShortcutHelpOpen((open) => !open),
+  }, { enabled: !isLoading && !error });
 
   const handleProductClick = (product: Product) => {
-    setSelectedProduct(product);
+    openProduct(product.id);
     setHasInteracted(true);
   };
 
-  const handleNextProduct = () => {
-    if (!selectedProduct) return;
-    const currentIndex = filteredProducts.findIndex(p => p.id === selectedProduct.id);
-    if (currentIndex < filteredProducts.length - 1) {
-      setSelectedProduct(filteredProducts[currentIndex + 1]);
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+    setHasInteracted(true);
+  };
+
+  const handleAddToCart = (variantId?: string) => {
+    if (selectedProduct) {
+      addToCart(selectedProduct, 1, variantId);
     }
   };
 
-  const handlePreviousProduct = () => {
-    if (!selectedProduct) return;
-    const currentIndex = filteredProducts.findIndex(p => p.id === selectedProduct.id);
-    if (currentIndex > 0) {
-      setSelectedProduct(filteredProducts[currentIndex - 1]);
+  const handleCheckout = () => {
+    startCheckout();
+    openCheckout();
+  };
+
+  // After an order is placed there is nothing left to see in the cart
+  const handleCloseCheckout = () => {
+    closeView('checkout');
+    if (checkout.order) {
+      closeView('cart');
     }
   };
 
-  const handleAddToCart = () => {
-    if (selectedProduct) {
-      addToCart(selectedProduct, 1);
+  const handlePlaceOrder = () => {
+    placeOrder().catch(() => {
+      // The failure is shown in the checkout overlay
+    });
+  };
+
+  // Items that can no longer be bought are skipped; the orders view marks the ones that left the catalog
+  const handleReorder = (order: Order) => {
+    const result = reorderCart(order);
+    if (result.added.length > 0) {
+      openCart();
     }
+    return result;
   };
 
+  const handleToggleWatch = () => {
+    if (!selectedProduct) {
+      return;
+    }
+    if (isProductWatched(watchlist, selectedProduct.id)) {
+      removeFromWatchlist(selectedProduct.id);
+    } else {
+      addToWatchlist(selectedProduct);
+    }
+  };
+
+  const availableProductIds = new Set(products.map((product) => product.id));
+
   if (isLoading) {
     return (
       <div className="h-screen w-screen flex items-center justify-center bg-black">
@@ -193,16 +920,22 @@ export default function Home() {
 
   if (error) {
     return (
-      <div className="h-screen w-screen flex items-center justify-center bg-black">
-        <div className="text-red-500 text-xl">Error: {error}</div>
+      <div className="h-screen w-screen flex flex-col items-center justify-center gap-4 bg-black">
+        <div className="text-red-500 text-xl">
+          {errorContext ? getUserFriendlyMessage(errorContext) : `Error: ${error}`}
+        </div>
+        <div className="text-gray-500 text-xs">{error}</div>
+        <Button
+          variant="outline"
+          className="bg-gray-900/50 text-gray-300 border-cyan-500/30 hover:bg-cyan-500/10 hover:text-cyan-400"
+          onClick={refreshProducts}
+        >
+          {t('cache.retry')}
+        </Button>
       </div>
     );
   }
 
-  const currentIndex = selectedProduct ? filteredProducts.findIndex(p => p.id === selectedProduct.id) : -1;
-  const hasNext = currentIndex < filteredProducts.length - 1;
-  const hasPrevious = currentIndex > 0;
-
   return (
     <div className="h-screen w-screen overflow-hidden flex">
       {/* Left Side - Voice AI */}
@@ -217,8 +950,9 @@ export default function Home() {
           currentProducts={filteredProducts}
           selectedProduct={selectedProduct}
           activeCategory={activeCategory}
-          cartItems={cart.items}
-          cartSubtotal={cart.subtotal}
+          categories={categories}
+          cartPricing={cartPricing}
+          watchlistItems={watchlist.items}
         />
       </div>
 
@@ -236,24 +970,80 @@ export default function Home() {
         </div>
 
         {/* Header */}
-        <div className="relative z-10 flex items-center justify-between px-6 py-4 border-b border-cyan-500/20 bg-black/50 backdrop-blur-sm">
+        <div className="relative z-10 flex items-center justify-between gap-4 px-6 py-4 border-b border-cyan-500/20 bg-black/50 backdrop-blur-sm">
           <LanguageSwitcher />
+          <PersonaSwitcher />
+          
+          <SearchBox ref={searchInputRef} value={searchQuery} onChange={handleSearchChange} />
           
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-gray-400 hover:text-cyan-400 hover:bg-cyan-500/10 transition-all"
+            aria-label={t('shortcuts.title')}
+            title={`${t('shortcuts.title')} (?)`}
+            onClick={() => setIsShortcutHelpOpen(true)}
+          >
+            <Keyboard size={22} />
+          </Button>
+
           <Button
             variant="ghost"
             size="icon"
             className="relative text-gray-400 hover:text-cyan-400 hover:bg-cyan-500/10 transition-all"
-            onClick={() => setShowCart(!showCart)}
+            aria-label={t('orders.title')}
+            title={t('orders.title')}
+            onClick={toggleOrders}
           >
-            <ShoppingCart size={24} />
-            {itemCount > 0 && (
-              <Badge className="absolute -top-1 -right-1 bg-cyan-500 text-white px-2 animate-pulse">
-                {itemCount}
+            <Package size={24} />
+            {orderCount > 0 && (
+              <Badge className="absolute -top-1 -right-1 bg-gray-700 text-white px-2">
+                {orderCount}
               </Badge>
             )}
           </Button>
+
+          {hasWatchlist && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="relative text-gray-400 hover:text-cyan-400 hover:bg-cyan-500/10 transition-all"
+              aria-label={t('watchlist.title')}
+              title={t('watchlist.title')}
+              onClick={toggleWatchlist}
+            >
+              <Eye size={24} />
+              {watchCount > 0 && (
+                <Badge className="absolute -top-1 -right-1 bg-purple-500 text-white px-2">
+                  {watchCount}
+                </Badge>
+              )}
+            </Button>
+          )}
+
+          {hasCart && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="relative text-gray-400 hover:text-cyan-400 hover:bg-cyan-500/10 transition-all"
+              aria-label={t('cart.title')}
+              title={t('cart.title')}
+              onClick={toggleCart}
+            >
+              <ShoppingCart size={24} />
+              {itemCount > 0 && (
+                <Badge className="absolute -top-1 -right-1 bg-cyan-500 text-white px-2 animate-pulse">
+                  {itemCount}
+                </Badge>
+              )}
+            </Button>
+          )}
         </div>
 
+        {isShowingCachedData && cacheStatus && (
+          <CachedDataBanner status={cacheStatus} onRetry={refreshProducts} />
+        )}
+
         {!hasInteracted ? (
           /* Empty State - Before Interaction */
           <div className="relative z-10 flex-1 flex flex-col items-center justify-center p-8">
@@ -275,7 +1065,7 @@ export default function Home() {
                   Start talking to the AI assistant
                 </p>
                 <p className="text-sm text-cyan-400/70">
-                  Say &quot;Show me electronics&quot; or click a category below
+                  Say &quot;Show me electronics&quot;, &quot;Find me a backpack&quot; or click a category below
                 </p>
               </div>
 
@@ -291,6 +1081,7 @@ export default function Home() {
             <div className="absolute bottom-8 left-0 right-0 px-6">
               <CategoryTabs
                 activeCategory={activeCategory}
+                categories={categories}
                 onCategoryChange={(cat) => {
                   setCategory(cat);
                   setHasInteracted(true);
@@ -301,37 +1092,119 @@ export default function Home() {
         ) : (
           /* Product View - After Interaction */
           <>
-            {/* Category Tabs */}
-            <div className="relative z-10 px-6 py-4 border-b border-cyan-500/20 bg-black/30 backdrop-blur-sm">
+            {/* Category Tabs, Sort and Facets */}
+            <div className="relative z-10 px-6 py-4 space-y-3 border-b border-cyan-500/20 bg-black/30 backdrop-blur-sm">
               <CategoryTabs
                 activeCategory={activeCategory}
+                categories={categories}
                 onCategoryChange={setCategory}
               />
+              <ProductFilters
+                query={productQuery}
+                facetCounts={facetCounts}
+                onChange={updateProductQuery}
+                onReset={resetProductQuery}
+              />
             </div>
 
             {/* Product Grid */}
             <div className="relative z-10 flex-1 overflow-y-auto custom-scrollbar">
               <ProductGrid
                 products={filteredProducts}
+                focusedProductId={currentProduct?.id ?? null}
+                followFocus={view === 'grid' && !isShortcutHelpOpen}
                 onProductClick={handleProductClick}
+                onProductFocus={(product) => focusProduct(product.id)}
               />
             </div>
           </>
         )}
       </div>
 
-      {/* Product Detail Modal */}
-      {selectedProduct && (
+      {/* Product Detail Modal - only the view in front is shown */}
+      {view === 'detail' && selectedProduct && (
         <ProductDetail
           product={selectedProduct}
-          onClose={() => setSelectedProduct(null)}
-          onNext={handleNextProduct}
-          onPrevious={handlePreviousProduct}
+          onClose={() => closeView('detail')}
+          onNext={nextProduct}
+          onPrevious={previousProduct}
           onAddToCart={handleAddToCart}
+          cart={cart}
+          onToggleWatch={hasWatchlist ? handleToggleWatch : undefined}
+          isWatched={isProductWatched(watchlist, selectedProduct.id)}
           hasNext={hasNext}
           hasPrevious={hasPrevious}
         />
       )}
+
+      {/* Cart Overlay */}
+      {view === 'cart' && (
+        <CartOverlay
+          cart={cart}
+          itemCount={itemCount}
+          pricing={cartPricing}
+          onClose={() => closeView('cart')}
+          onProductClick={handleProductClick}
+          onQuantityChange={updateQuantity}
+          onRemove={removeFromCart}
+          onClear={clearCart}
+          onCheckout={handleCheckout}
+          onApplyCoupon={applyCoupon}
+          onRemoveCoupon={removeCoupon}
+          canUndo={canUndoCart}
+          canRedo={canRedoCart}
+          onUndo={undoCart}
+          onRedo={redoCart}
+        />
+      )}
+
+      {/* Checkout Overlay */}
+      {view === 'checkout' && (
+        <CheckoutOverlay
+          cart={cart}
+          checkout={checkout}
+          totals={checkoutTotals}
+          addressErrors={addressErrors}
+          onClose={handleCloseCheckout}
+          onStepChange={goToCheckoutStep}
+          onAddressChange={(field, value) => updateAddress({ [field]: value })}
+          onDeliveryChange={selectDelivery}
+          onPaymentMethodChange={selectPaymentMethod}
+          onPlaceOrder={handlePlaceOrder}
+        />
+      )}
+
+      {/* Watchlist Overlay */}
+      {view === 'watchlist' && (
+        <WatchlistOverlay
+          watchlist={watchlist}
+          onClose={() => closeView('watchlist')}
+          onProductClick={handleProductClick}
+          onRemove={removeFromWatchlist}
+          onClear={clearWatchlist}
+        />
+      )}
+
+      {/* Order History Overlay */}
+      {view === 'orders' && (
+        <OrderHistoryOverlay
+          orderHistory={orderHistory}
+          availableProductIds={availableProductIds}
+          onClose={() => closeView('orders')}
+          onReorder={hasCart ? handleReorder : undefined}
+        />
+      )}
+
+      {/* Voice action waiting for the user to confirm it */}
+      <PendingActionBar />
+
+      {/* Offer to undo a removed item or cleared cart */}
+      {hasCart && <UndoToast lastAction={lastCartAction} onUndo={undoCart} />}
+
+      {/* Keyboard Shortcut Help */}
+      {isShortcutHelpOpen && (
+        <ShortcutHelp onClose={() => setIsShortcutHelpOpen(false)} />
+      )}
     </div>
   );
 }
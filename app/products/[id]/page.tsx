@@ -0,0 +1,19 @@
+/**
+ * Product permalink - /products/[id]
+ *
+ * Redirects to the marketplace with the product open, so product links can be
+ * shared without knowing the query string format (see lib/urlState.ts).
+ */
+
+import { redirect } from 'next/navigation';
+import { DEFAULT_BROWSING_LOCATION, locationToSearch } from '@/lib/urlState';
+
+interface ProductPageProps {
+  params: { id: string };
+}
+
+export default function ProductPage({ params }: ProductPageProps) {
+  const productId = /^\d+$/.test(params.id) ? Number(params.id) : null;
+
+  redirect(`/${locationToSearch({ ...DEFAULT_BROWSING_LOCATION, productId })}`);
+}
@@ -0,0 +1,179 @@
+/**
+ * Browsing history for Jarvis Shopping Assistant
+ *
+ * Records where the user has been (category, search, open product, cart,
+ * watchlist) as a
+ * back/forward stack, so "go back" by voice, keyboard or the browser's back
+ * button returns to the previous view. These are pure functions; see
+ * useBrowsingHistory.ts for the hook that keeps them in step with the
+ * browser history API.
+ */
+
+import { Product, ProductCategory } from './types';
+
+/**
+ * Maximum number of locations kept; the oldest are dropped first
+ */
+export const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * A place in the app that can be returned to
+ */
+export interface BrowsingLocation {
+  category: ProductCategory | 'all';
+  searchQuery: string;
+  /** Product whose detail card is open, or null */
+  productId: number | null;
+  cartOpen: boolean;
+  watchlistOpen: boolean;
+}
+
+export interface BrowsingHistory {
+  /** Visited locations, oldest first */
+  entries: BrowsingLocation[];
+  /** Index of the current location in entries */
+  index: number;
+  /** Number of old entries dropped to stay within MAX_HISTORY_ENTRIES */
+  dropped: number;
+}
+
+/**
+ * Create a history holding only the starting location
+ */
+export function createBrowsingHistory(initial: BrowsingLocation): BrowsingHistory {
+  return { entries: [initial], index: 0, dropped: 0 };
+}
+
+/**
+ * Get the current location
+ */
+export function getCurrentLocation(history: BrowsingHistory): BrowsingLocation {
+  return history.entries[history.index];
+}
+
+/**
+ * Check whether two locations show the same view
+ */
+export function isSameLocation(a: BrowsingLocation, b: BrowsingLocation): boolean {
+  return a.category === b.category
+    && a.searchQuery === b.searchQuery
+    && a.productId === b.productId
+    && a.cartOpen === b.cartOpen
+    && a.watchlistOpen === b.watchlistOpen;
+}
+
+/**
+ * Check whether a location only refines the current search
+ * Typing a query changes the location on every keystroke; those changes
+ * replace the current entry instead of adding one each.
+ */
+function isSearchRefinement(current: BrowsingLocation, next: BrowsingLocation): boolean {
+  return current.searchQuery !== ''
+    && next.searchQuery !== ''
+    && isSameLocation({ ...current, searchQuery: next.searchQuery }, next);
+}
+
+/**
+ * Record a newly visited location
+ * Drops any forward entries, as a browser does after navigating.
+ *
+ * @param history - Current history
+ * @param location - Location now shown
+ * @returns Updated history, and whether the current entry was replaced rather than added
+ */
+export function recordLocation(
+  history: BrowsingHistory,
+  location: BrowsingLocation
+): { history: BrowsingHistory; replaced: boolean } {
+  const current = getCurrentLocation(history);
+  if (isSameLocation(current, location)) {
+    return { history, replaced: true };
+  }
+
+  const kept = history.entries.slice(0, history.index + 1);
+  if (isSearchRefinement(current, location)) {
+    kept[kept.length - 1] = location;
+    return { history: { ...history, entries: kept }, replaced: true };
+  }
+
+  const added = [...kept, location];
+  const entries = added.slice(-MAX_HISTORY_ENTRIES);
+  return {
+    history: { entries, index: entries.length - 1, dropped: history.dropped + added.length - entries.length },
+    replaced: false,
+  };
+}
+
+/**
+ * Replace the current location without adding an entry
+ * Used when a restored location could not be shown exactly, e.g. a product
+ * that has left the catalog.
+ */
+export function replaceCurrentLocation(history: BrowsingHistory, location: BrowsingLocation): BrowsingHistory {
+  const entries = [...history.entries];
+  entries[history.index] = location;
+  return { ...history, entries };
+}
+
+export function canGoBack(history: BrowsingHistory): boolean {
+  return history.index > 0;
+}
+
+export function canGoForward(history: BrowsingHistory): boolean {
+  return history.index < history.entries.length - 1;
+}
+
+/**
+ * Move to another recorded location
+ *
+ * @param history - Current history
+ * @param index - Index of the entry to move to
+ * @returns Updated history, or the same history if the index is out of range
+ */
+export function goToHistoryIndex(history: BrowsingHistory, index: number): BrowsingHistory {
+  if (index < 0 || index >= history.entries.length || index === history.index) {
+    return history;
+  }
+  return { ...history, index };
+}
+
+/**
+ * Get the position of the current entry counted from the first location ever
+ * recorded, which stays the same when old entries are dropped
+ */
+export function getHistoryPosition(history: BrowsingHistory): number {
+  return history.dropped + history.index;
+}
+
+/**
+ * Move to the entry at a position from getHistoryPosition
+ * Returns the same history if that entry has been dropped or never existed.
+ */
+export function goToHistoryPosition(history: BrowsingHistory, position: number): BrowsingHistory {
+  return goToHistoryIndex(history, position - history.dropped);
+}
+
+/**
+ * Describe a location for the voice assistant, e.g. "Leather Jacket" or "electronics"
+ *
+ * @param location - Location to describe
+ * @param products - Catalog, to name the open product
+ */
+export function describeLocation(location: BrowsingLocation, products: Product[]): string {
+  if (location.cartOpen) {
+    return 'the cart';
+  }
+  if (location.watchlistOpen) {
+    return 'the watchlist';
+  }
+  if (location.productId !== null) {
+    const product = products.find((p) => p.id === location.productId);
+    if (product) {
+      return product.title;
+    }
+  }
+  if (location.searchQuery) {
+    return `search results for "${location.searchQuery}"`;
+  }
+  return location.category === 'all' ? 'all products' : location.category;
+}
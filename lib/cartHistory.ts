@@ -0,0 +1,116 @@
+/**
+ * Undo and redo for cart changes
+ *
+ * Each change the user makes to the cart is logged with the cart before and
+ * after it, so a misheard "clear cart" can be taken back. The log is bounded:
+ * only the latest CART_HISTORY_LIMIT changes can be undone.
+ */
+
+import { CartState } from './types';
+
+/**
+ * Kind of change made to the cart
+ */
+export type CartAction = 'add' | 'remove' | 'updateQuantity' | 'clear' | 'applyCoupon' | 'removeCoupon' | 'reorder';
+
+/**
+ * Changes that lose something the user put in the cart; the UI offers to undo them
+ */
+export const DESTRUCTIVE_CART_ACTIONS: readonly CartAction[] = ['remove', 'clear'];
+
+/**
+ * Most changes kept for undo
+ */
+export const CART_HISTORY_LIMIT = 20;
+
+/**
+ * One logged change
+ */
+export interface CartHistoryEntry {
+  /** Increases with each change, so a change redone keeps its ID */
+  id: number;
+  action: CartAction;
+  /** What was done, e.g. "removed Fjallraven Backpack" */
+  description: string;
+  before: CartState;
+  after: CartState;
+}
+
+/**
+ * Changes that can be undone, newest last, and changes undone that can be redone, most recently undone last
+ */
+export interface CartHistory {
+  undo: CartHistoryEntry[];
+  redo: CartHistoryEntry[];
+  nextId: number;
+}
+
+/**
+ * Create an empty history
+ */
+export function createCartHistory(): CartHistory {
+  return { undo: [], redo: [], nextId: 1 };
+}
+
+/**
+ * Log a change
+ * Making a change discards the changes that could have been redone.
+ *
+ * @param history - Current history
+ * @param change - What was done and the cart before and after
+ * @param limit - Most changes kept (default: CART_HISTORY_LIMIT)
+ * @returns Updated history
+ */
+export function recordCartChange(
+  history: CartHistory,
+  change: Omit<CartHistoryEntry, 'id'>,
+  limit: number = CART_HISTORY_LIMIT
+): CartHistory {
+  const entry: CartHistoryEntry = { ...change, id: history.nextId };
+  return {
+    undo: [...history.undo, entry].slice(-limit),
+    redo: [],
+    nextId: history.nextId + 1,
+  };
+}
+
+/**
+ * Take back the latest change
+ *
+ * @param history - Current history
+ * @returns The change undone, whose `before` is the cart to restore, and the updated history; null if there is nothing to undo
+ */
+export function undoCartChange(history: CartHistory): { entry: CartHistoryEntry; history: CartHistory } | null {
+  const entry = history.undo[history.undo.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return {
+    entry,
+    history: { ...history, undo: history.undo.slice(0, -1), redo: [...history.redo, entry] },
+  };
+}
+
+/**
+ * Make the most recently undone change again
+ *
+ * @param history - Current history
+ * @returns The change redone, whose `after` is the cart to restore, and the updated history; null if there is nothing to redo
+ */
+export function redoCartChange(history: CartHistory): { entry: CartHistoryEntry; history: CartHistory } | null {
+  const entry = history.redo[history.redo.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return {
+    entry,
+    history: { ...history, undo: [...history.undo, entry], redo: history.redo.slice(0, -1) },
+  };
+}
+
+/**
+ * Check whether a change loses something the user put in the cart
+ */
+export function isDestructiveCartAction(action: CartAction): boolean {
+  return DESTRUCTIVE_CART_ACTIONS.includes(action);
+}
@@ -0,0 +1,272 @@
+/**
+ * Persistent storage for the shopping cart
+ *
+ * The cart is saved as a versioned PersistedCart. Carts written by older
+ * builds are upgraded step by step through CART_MIGRATIONS, so a schema
+ * change never empties anyone's cart; carts written by a newer build are
+ * left alone.
+ *
+ * The store is pluggable: localStorage (shared by every tab, kept in sync
+ * through `storage` events), sessionStorage (one tab) or memory (server and
+ * tests).
+ *
+ * Requirements: 6.5
+ */
+
+import { PersistedCart, PersistedCartItem } from './types';
+
+export const CART_STORAGE_KEY = 'jarvis-cart';
+
+/**
+ * Version of the saved cart format
+ * 1: { items: [{ productId, quantity }], lastUpdated } with no version field
+ * 2: adds the version field and each item's title, so items missing from the
+ *    catalog can still be named
+ * 3: items can name the variant chosen (variantId)
+ * Increment whenever PersistedCart changes shape, and add a migration.
+ */
+export const CART_SCHEMA_VERSION = 3;
+
+/**
+ * Upgrade a saved cart from one version to the next
+ */
+export type CartMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations by the version they upgrade from
+ */
+export const CART_MIGRATIONS: Record<number, CartMigration> = {
+  // Titles are unknown for version 1 items; they are filled in on the next save
+  1: (data) => ({ ...data, version: 2 }),
+  // Carts saved before variants existed only hold products without them
+  2: (data) => ({ ...data, version: 3 }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPersistedCartItem(value: unknown): value is PersistedCartItem {
+  return (
+    isRecord(value) &&
+    Number.isInteger(value.productId) &&
+    Number.isInteger(value.quantity) &&
+    (value.quantity as number) > 0 &&
+    (value.variantId === undefined || typeof value.variantId === 'string') &&
+    (value.title === undefined || typeof value.title === 'string')
+  );
+}
+
+/**
+ * Bring a saved cart of any version up to CART_SCHEMA_VERSION
+ *
+ * @param data - Parsed saved cart
+ * @returns The cart in the current format, or null if it is unreadable or from a newer build
+ */
+export function migratePersistedCart(data: unknown): PersistedCart | null {
+  if (!isRecord(data)) {
+    return null;
+  }
+
+  let version = data.version === undefined ? 1 : data.version;
+  if (typeof version !== 'number' || version > CART_SCHEMA_VERSION) {
+    console.error('[cartStore] Saved cart has an unknown version:', data.version);
+    return null;
+  }
+
+  let migrated = data;
+  while (version < CART_SCHEMA_VERSION) {
+    const migrate = CART_MIGRATIONS[version];
+    if (!migrate) {
+      console.error('[cartStore] No migration from cart version', version);
+      return null;
+    }
+    migrated = migrate(migrated);
+    version += 1;
+  }
+
+  if (!Array.isArray(migrated.items)) {
+    return null;
+  }
+
+  return {
+    version: CART_SCHEMA_VERSION,
+    // Drop malformed entries rather than the whole cart
+    items: migrated.items.filter(isPersistedCartItem),
+    ...(typeof migrated.couponCode === 'string' ? { couponCode: migrated.couponCode } : {}),
+    lastUpdated: typeof migrated.lastUpdated === 'string' ? migrated.lastUpdated : '',
+  };
+}
+
+/**
+ * Parse and migrate a saved cart
+ *
+ * @param raw - Stored JSON, or null if nothing is saved
+ * @returns The cart in the current format, or null if there is none or it is unreadable
+ */
+export function parsePersistedCart(raw: string | null): PersistedCart | null {
+  if (raw === null) {
+    return null;
+  }
+  try {
+    return migratePersistedCart(JSON.parse(raw));
+  } catch (error) {
+    console.error('Failed to load cart from localStorage:', error);
+    return null;
+  }
+}
+
+/**
+ * Read the saved cart from a store
+ *
+ * @param store - Store to read from
+ * @returns The cart in the current format, or null if there is none or it is unreadable
+ */
+export function readPersistedCart(store: CartStore): PersistedCart | null {
+  try {
+    return parsePersistedCart(store.read());
+  } catch (error) {
+    console.error(`[cartStore] Failed to read cart from ${store.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Describe what a saved cart holds, ignoring when it was saved
+ * Two carts with the same signature need no sync.
+ *
+ * @param cart - Saved cart, or null for none
+ * @returns A string equal for carts with the same items and coupon
+ */
+export function getPersistedCartSignature(cart: PersistedCart | null): string {
+  return JSON.stringify({
+    items: (cart?.items ?? []).map(({ productId, variantId, quantity }) => [productId, variantId ?? null, quantity]),
+    couponCode: cart?.couponCode ?? null,
+  });
+}
+
+/**
+ * Storage backend for the cart
+ */
+export interface CartStore {
+  /** Backend name, used in logs */
+  name: string;
+  /** Saved cart JSON, or null if nothing is saved */
+  read(): string | null;
+  write(serialized: string): void;
+  clear(): void;
+  /**
+   * Listen for the saved cart changing elsewhere, e.g. in another tab
+   * The listener gets the new JSON, or null when the cart was cleared.
+   *
+   * @returns Function that stops listening
+   */
+  subscribe(listener: (serialized: string | null) => void): () => void;
+}
+
+/**
+ * Create an in-memory cart store
+ * Used on the server and in tests. Every subscriber hears every write,
+ * including its own, like several tabs sharing one localStorage.
+ *
+ * @returns CartStore that lives as long as the store object
+ */
+export function createMemoryCartStore(): CartStore {
+  let stored: string | null = null;
+  const listeners = new Set<(serialized: string | null) => void>();
+
+  const notify = () => {
+    listeners.forEach((listener) => listener(stored));
+  };
+
+  return {
+    name: 'memory',
+    read: () => stored,
+    write: (serialized) => {
+      stored = serialized;
+      notify();
+    },
+    clear: () => {
+      stored = null;
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Create a cart store on Web Storage
+ * With localStorage, other tabs' changes arrive as `storage` events; the
+ * browser does not send them to the tab that made the change.
+ *
+ * @param area - 'local' to share the cart between tabs, 'session' to keep it to one tab
+ * @returns CartStore persisted across page loads
+ */
+export function createWebStorageCartStore(area: 'local' | 'session' = 'local'): CartStore {
+  // Looked up on each use so the store can be created during SSR
+  const getStorage = (): Storage => (area === 'local' ? localStorage : sessionStorage);
+
+  return {
+    name: `${area}Storage`,
+    read: () => getStorage().getItem(CART_STORAGE_KEY),
+    write: (serialized) => {
+      getStorage().setItem(CART_STORAGE_KEY, serialized);
+    },
+    clear: () => {
+      getStorage().removeItem(CART_STORAGE_KEY);
+    },
+    subscribe: (listener) => {
+      if (typeof window === 'undefined') {
+        return () => {};
+      }
+
+      const handleStorage = (event: StorageEvent) => {
+        if (event.storageArea !== getStorage()) {
+          return;
+        }
+        // A null key means the other tab cleared all of storage
+        if (event.key === CART_STORAGE_KEY || event.key === null) {
+          listener(event.key === null ? null : event.newValue);
+        }
+      };
+
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
+
+/**
+ * Active cart store (lazily created)
+ */
+let activeStore: CartStore | null = null;
+
+/**
+ * Get the active cart store
+ * localStorage in the browser, in-memory everywhere else.
+ *
+ * @returns The shared CartStore
+ */
+export function getCartStore(): CartStore {
+  if (!activeStore) {
+    activeStore = typeof localStorage !== 'undefined'
+      ? createWebStorageCartStore('local')
+      : createMemoryCartStore();
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the active cart store
+ * Pass null to fall back to the default on next use. Mainly for tests.
+ *
+ * @param store - Store to use, or null to reset
+ */
+export function setCartStore(store: CartStore | null): void {
+  activeStore = store;
+}
@@ -2,40 +2,151 @@
  * Cart utility functions for Jarvis Shopping Assistant
  * 
  * This file contains utility functions for managing the shopping cart,
- * including add, remove, clear operations, subtotal calculation, and
- * localStorage persistence.
+ * including add, remove, clear operations, stock and order limits, subtotal
+ * calculation, coupon codes and persistence through the cart store (see
+ * cartStore.ts). What the cart costs in INR, with discounts and GST, is
+ * worked out by pricing.ts.
  * 
  * Requirements: 5.1, 5.2, 5.3, 5.5, 6.2, 6.5
  */
 
-import { CartItem, CartState, Product, PersistedCart } from './types';
+import { CartItem, CartState, Product, PersistedCart, PersistedCartItem } from './types';
+import type { Coupon } from './pricing';
+import { CART_SCHEMA_VERSION, CartStore, getCartStore, readPersistedCart } from './cartStore';
+import {
+  findVariant,
+  getStock,
+  getUnitPrice,
+  getVariantAxes,
+  getVariantTitle,
+  hasVariants,
+} from './productVariants';
+
+/**
+ * Check whether a cart line holds a product, in a given variant
+ */
+function isLine(item: CartItem, productId: number, variantId: string | undefined): boolean {
+  return item.product.id === productId && item.variantId === variantId;
+}
+
+/**
+ * Key a cart line by its product and variant, e.g. for React lists
+ *
+ * @param item - Cart line
+ * @returns "5", or "5:m-black" for a variant
+ */
+export function getCartLineKey(item: { product: Product; variantId?: string }): string {
+  return item.variantId === undefined ? `${item.product.id}` : `${item.product.id}:${item.variantId}`;
+}
+
+/**
+ * Get the price of one unit of a cart line, in USD
+ * Variants can be priced differently from their product.
+ *
+ * @param item - Cart line
+ * @returns Unit price
+ */
+export function getItemUnitPrice(item: CartItem): number {
+  return getUnitPrice(item.product, item.variantId);
+}
+
+/**
+ * Get the most units a cart line can hold
+ * Limited by the stock of the product or variant, and by the product's
+ * maxPerOrder less what its other variants in the cart already take.
+ *
+ * @param cart - Current cart state
+ * @param product - Product of the line
+ * @param variantId - Variant of the line, for products with variants
+ * @returns Most units allowed, or null when there is no limit
+ */
+export function getQuantityLimit(cart: CartState, product: Product, variantId?: string): number | null {
+  const stock = getStock(product, variantId);
+  if (product.maxPerOrder === undefined) {
+    return stock;
+  }
+
+  const otherLines = cart.items
+    .filter((item) => item.product.id === product.id && item.variantId !== variantId)
+    .reduce((count, item) => count + item.quantity, 0);
+  const orderLimit = Math.max(product.maxPerOrder - otherLines, 0);
+  return stock === null ? orderLimit : Math.min(stock, orderLimit);
+}
+
+/**
+ * Check whether a cart line can hold a quantity
+ * Use it to refuse a change up front rather than catch the error from
+ * addToCart or updateCartItemQuantity.
+ *
+ * @param cart - Current cart state
+ * @param product - Product of the line
+ * @param variantId - Variant of the line; required for products with variants
+ * @param quantity - Units the line would hold
+ * @returns Why it cannot (variant missing or unknown, out of stock, over the order limit), or null if it can
+ */
+export function checkLineQuantity(
+  cart: CartState,
+  product: Product,
+  variantId: string | undefined,
+  quantity: number
+): string | null {
+  if (hasVariants(product) && variantId === undefined) {
+    return `Choose a ${getVariantAxes(product).join(' and ')} for ${product.title}`;
+  }
+  if (variantId !== undefined && !findVariant(product, variantId)) {
+    return `${product.title} has no variant ${variantId}`;
+  }
+
+  const limit = getQuantityLimit(cart, product, variantId);
+  if (limit === null || quantity <= limit) {
+    return null;
+  }
+
+  const title = getVariantTitle(product, variantId);
+  const stock = getStock(product, variantId);
+  if (stock !== null && stock <= limit) {
+    return stock === 0 ? `${title} is out of stock` : `Only ${stock} of ${title} in stock`;
+  }
+  return `At most ${product.maxPerOrder} of ${product.title} can be ordered at once`;
+}
 
 /**
  * Add a product to the cart with specified quantity
  * 
  * Requirement 5.1: Add items to cart with quantity
  * Requirement 5.2: Support adding multiple quantities
+ * Each variant of a product is a line of its own.
  * 
  * @param cart - Current cart state
  * @param product - Product to add
  * @param quantity - Quantity to add (default: 1)
+ * @param variantId - Variant to add; required for products with variants
  * @returns Updated cart state
+ * @throws Error if the variant is missing or unknown, or the quantity goes over the stock or order limit
  */
 export function addToCart(
   cart: CartState,
   product: Product,
-  quantity: number = 1
+  quantity: number = 1,
+  variantId?: string
 ): CartState {
   // Validate quantity
   if (quantity <= 0) {
     throw new Error('Quantity must be greater than 0');
   }
 
-  // Check if product already exists in cart
+  // Check if the product, in this variant, already exists in cart
   const existingItemIndex = cart.items.findIndex(
-    (item) => item.product.id === product.id
+    (item) => isLine(item, product.id, variantId)
   );
 
+  // Validate the variant and the limits
+  const existingQuantity = existingItemIndex >= 0 ? cart.items[existingItemIndex].quantity : 0;
+  const problem = checkLineQuantity(cart, product, variantId, existingQuantity + quantity);
+  if (problem) {
+    throw new Error(problem);
+  }
+
   let updatedItems: CartItem[];
 
   if (existingItemIndex >= 0) {
@@ -47,13 +158,14 @@ export function addToCart(
     );
   } else {
     // Add new item to cart
-    updatedItems = [...cart.items, { product, quantity }];
+    updatedItems = [...cart.items, variantId === undefined ? { product, quantity } : { product, quantity, variantId }];
   }
 
   // Calculate new subtotal
   const subtotal = calculateSubtotal(updatedItems);
 
   return {
+    ...cart,
     items: updatedItems,
     subtotal,
   };
@@ -66,18 +178,20 @@ export function addToCart(
  * 
  * @param cart - Current cart state
  * @param productId - ID of product to remove
+ * @param variantId - Variant to remove, for products with variants
  * @returns Updated cart state
  */
-export function removeFromCart(cart: CartState, productId: number): CartState {
-  // Filter out the item with matching product ID
+export function removeFromCart(cart: CartState, productId: number, variantId?: string): CartState {
+  // Filter out the item with matching product ID and variant
   const updatedItems = cart.items.filter(
-    (item) => item.product.id !== productId
+    (item) => !isLine(item, productId, variantId)
   );
 
   // Calculate new subtotal
   const subtotal = calculateSubtotal(updatedItems);
 
   return {
+    ...cart,
     items: updatedItems,
     subtotal,
   };
@@ -107,7 +221,7 @@ export function clearCart(): CartState {
  */
 export function calculateSubtotal(items: CartItem[]): number {
   return items.reduce((sum, item) => {
-    return sum + item.product.price * item.quantity;
+    return sum + getItemUnitPrice(item) * item.quantity;
   }, 0);
 }
 
@@ -117,50 +231,207 @@ export function calculateSubtotal(items: CartItem[]): number {
  * @param cart - Current cart state
  * @param productId - ID of product to update
  * @param quantity - New quantity (must be > 0)
+ * @param variantId - Variant to update, for products with variants
  * @returns Updated cart state
+ * @throws Error if the quantity goes over the stock or order limit
  */
 export function updateCartItemQuantity(
   cart: CartState,
   productId: number,
-  quantity: number
+  quantity: number,
+  variantId?: string
 ): CartState {
   // Validate quantity
   if (quantity <= 0) {
     throw new Error('Quantity must be greater than 0');
   }
 
+  const existingItem = cart.items.find((item) => isLine(item, productId, variantId));
+  const problem = existingItem ? checkLineQuantity(cart, existingItem.product, variantId, quantity) : null;
+  if (problem) {
+    throw new Error(problem);
+  }
+
   // Update the item quantity
   const updatedItems = cart.items.map((item) =>
-    item.product.id === productId ? { ...item, quantity } : item
+    isLine(item, productId, variantId) ? { ...item, quantity } : item
   );
 
   // Calculate new subtotal
   const subtotal = calculateSubtotal(updatedItems);
 
   return {
+    ...cart,
     items: updatedItems,
     subtotal,
   };
 }
 
 /**
- * Save cart to localStorage
- * 
- * Requirement 6.5: Persist cart to localStorage
- * 
+ * Apply a coupon to the cart, replacing any coupon already applied
+ * Check the coupon with checkCoupon (pricing.ts) first.
+ *
+ * @param cart - Current cart state
+ * @param coupon - Coupon to apply
+ * @returns Updated cart state
+ */
+export function applyCoupon(cart: CartState, coupon: Coupon): CartState {
+  return { ...cart, couponCode: coupon.code };
+}
+
+/**
+ * Remove the coupon from the cart
+ *
+ * @param cart - Current cart state
+ * @returns Cart state without a coupon
+ */
+export function removeCoupon(cart: CartState): CartState {
+  return {
+    items: cart.items,
+    subtotal: cart.subtotal,
+    ...(cart.unresolvedItems ? { unresolvedItems: cart.unresolvedItems } : {}),
+  };
+}
+
+/**
+ * Turn the cart into the shape it is saved in
+ * Unresolved items are saved too, so a catalog that failed to load does not empty the cart.
+ *
  * @param cart - Cart state to save
+ * @returns Cart in the current saved format
  */
-export function saveCart(cart: CartState): void {
-  try {
-    const persistedCart: PersistedCart = {
-      items: cart.items.map((item) => ({
+export function toPersistedCart(cart: CartState): PersistedCart {
+  return {
+    version: CART_SCHEMA_VERSION,
+    items: [
+      ...cart.items.map((item) => ({
         productId: item.product.id,
         quantity: item.quantity,
+        ...(item.variantId !== undefined ? { variantId: item.variantId } : {}),
+        title: getVariantTitle(item.product, item.variantId),
       })),
-      lastUpdated: new Date().toISOString(),
-    };
+      ...(cart.unresolvedItems ?? []),
+    ],
+    ...(cart.couponCode ? { couponCode: cart.couponCode } : {}),
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Match saved items to products
+ *
+ * @param savedItems - Items as saved
+ * @param products - Products in the loaded catalog
+ * @param catalogComplete - Whether the catalog is current, so a missing product is really gone
+ * @returns Items found in the catalog, and those kept because the catalog may be incomplete
+ */
+function matchSavedItems(
+  savedItems: PersistedCartItem[],
+  products: Product[],
+  catalogComplete: boolean
+): { items: CartItem[]; unresolvedItems: PersistedCartItem[] } {
+  const items: CartItem[] = [];
+  const unresolvedItems: PersistedCartItem[] = [];
+
+  for (const savedItem of savedItems) {
+    const product = products.find((p) => p.id === savedItem.productId);
+    if (product) {
+      const { variantId } = savedItem;
+      // Skip variants no longer sold, and lines saved before the product had variants
+      if (variantId !== undefined ? findVariant(product, variantId) : !hasVariants(product)) {
+        items.push(variantId !== undefined
+          ? { product, quantity: savedItem.quantity, variantId }
+          : { product, quantity: savedItem.quantity });
+      }
+    } else if (!catalogComplete) {
+      unresolvedItems.push(savedItem);
+    }
+    // Otherwise the product no longer exists, skip it
+  }
+
+  return { items, unresolvedItems };
+}
+
+/**
+ * Rebuild a cart from its saved form
+ *
+ * @param persistedCart - Saved cart, already migrated (see cartStore.ts)
+ * @param products - Array of all available products
+ * @param catalogComplete - Whether products missing from the catalog are gone for good (default: true)
+ * @returns Cart state
+ */
+export function restoreCart(
+  persistedCart: PersistedCart,
+  products: Product[],
+  catalogComplete: boolean = true
+): CartState {
+  const { items, unresolvedItems } = matchSavedItems(persistedCart.items, products, catalogComplete);
+
+  return {
+    items,
+    subtotal: calculateSubtotal(items),
+    // Kept even if it no longer applies; pricing reports why
+    ...(persistedCart.couponCode ? { couponCode: persistedCart.couponCode } : {}),
+    ...(unresolvedItems.length > 0 ? { unresolvedItems } : {}),
+  };
+}
+
+/**
+ * Move unresolved items into the cart once their products load
+ * Items still missing are dropped when the catalog is complete.
+ *
+ * @param cart - Current cart state
+ * @param products - Array of all available products
+ * @param catalogComplete - Whether products missing from the catalog are gone for good
+ * @returns Updated cart state, or the same cart when nothing changed
+ */
+export function resolveCartItems(cart: CartState, products: Product[], catalogComplete: boolean): CartState {
+  if (!cart.unresolvedItems || cart.unresolvedItems.length === 0) {
+    return cart;
+  }
+
+  const found = matchSavedItems(cart.unresolvedItems, products, catalogComplete);
+  if (found.items.length === 0 && found.unresolvedItems.length === cart.unresolvedItems.length) {
+    return cart;
+  }
 
-    localStorage.setItem('jarvis-cart', JSON.stringify(persistedCart));
+  // Items saved before they went missing keep their quantity when re-added
+  const items = found.items.reduce(
+    (updatedItems, item) => updatedItems.some((existing) => isLine(existing, item.product.id, item.variantId))
+      ? updatedItems
+      : [...updatedItems, item],
+    cart.items
+  );
+
+  return {
+    items,
+    subtotal: calculateSubtotal(items),
+    ...(cart.couponCode ? { couponCode: cart.couponCode } : {}),
+    ...(found.unresolvedItems.length > 0 ? { unresolvedItems: found.unresolvedItems } : {}),
+  };
+}
+
+/**
+ * Check whether the cart has nothing worth saving
+ *
+ * @param cart - Cart state
+ * @returns True when there are no items, unresolved items or coupon
+ */
+export function isCartEmpty(cart: CartState): boolean {
+  return cart.items.length === 0 && !cart.unresolvedItems?.length && !cart.couponCode;
+}
+
+/**
+ * Save cart to storage
+ * 
+ * Requirement 6.5: Persist cart to localStorage
+ * 
+ * @param cart - Cart state to save
+ * @param store - Where to save it (default: the active cart store)
+ */
+export function saveCart(cart: CartState, store: CartStore = getCartStore()): void {
+  try {
+    store.write(JSON.stringify(toPersistedCart(cart)));
   } catch (error) {
     // Handle localStorage quota exceeded or other errors
     console.error('Failed to save cart to localStorage:', error);
@@ -168,49 +439,34 @@ export function saveCart(cart: CartState): void {
 }
 
 /**
- * Load cart from localStorage
+ * Load cart from storage
  * 
  * Requirement 6.5: Load cart from localStorage
+ * Carts saved in an older format are migrated (see cartStore.ts).
  * 
  * @param products - Array of all available products (needed to reconstruct cart items)
+ * @param options - catalogComplete: false keeps items missing from the catalog as unresolved;
+ *   store: where to load from (default: the active cart store)
  * @returns Loaded cart state or empty cart if not found/invalid
  */
-export function loadCart(products: Product[]): CartState {
-  try {
-    const savedData = localStorage.getItem('jarvis-cart');
-
-    if (!savedData) {
-      return clearCart();
-    }
+export function loadCart(
+  products: Product[],
+  { catalogComplete = true, store = getCartStore() }: { catalogComplete?: boolean; store?: CartStore } = {}
+): CartState {
+  const persistedCart = readPersistedCart(store);
+  return persistedCart ? restoreCart(persistedCart, products, catalogComplete) : clearCart();
+}
 
-    const persistedCart: PersistedCart = JSON.parse(savedData);
-
-    // Reconstruct cart items by matching product IDs
-    const items: CartItem[] = persistedCart.items
-      .map((savedItem) => {
-        const product = products.find((p) => p.id === savedItem.productId);
-        if (!product) {
-          // Product no longer exists, skip it
-          return null;
-        }
-        return {
-          product,
-          quantity: savedItem.quantity,
-        };
-      })
-      .filter((item): item is CartItem => item !== null);
-
-    // Calculate subtotal
-    const subtotal = calculateSubtotal(items);
-
-    return {
-      items,
-      subtotal,
-    };
+/**
+ * Remove the saved cart
+ *
+ * @param store - Where it is saved (default: the active cart store)
+ */
+export function clearSavedCart(store: CartStore = getCartStore()): void {
+  try {
+    store.clear();
   } catch (error) {
-    // Handle JSON parse errors or other issues
-    console.error('Failed to load cart from localStorage:', error);
-    return clearCart();
+    console.error('Failed to clear cart from localStorage:', error);
   }
 }
 
@@ -229,10 +485,11 @@ export function getCartItemCount(cart: CartState): number {
  * 
  * @param cart - Cart state
  * @param productId - Product ID to check
+ * @param variantId - Variant to check; any variant when omitted
  * @returns True if product is in cart
  */
-export function isProductInCart(cart: CartState, productId: number): boolean {
-  return cart.items.some((item) => item.product.id === productId);
+export function isProductInCart(cart: CartState, productId: number, variantId?: string): boolean {
+  return getProductQuantity(cart, productId, variantId) > 0;
 }
 
 /**
@@ -240,9 +497,11 @@ export function isProductInCart(cart: CartState, productId: number): boolean {
  * 
  * @param cart - Cart state
  * @param productId - Product ID to check
+ * @param variantId - Variant to check; all variants together when omitted
  * @returns Quantity of product in cart (0 if not found)
  */
-export function getProductQuantity(cart: CartState, productId: number): number {
-  const item = cart.items.find((item) => item.product.id === productId);
-  return item ? item.quantity : 0;
+export function getProductQuantity(cart: CartState, productId: number, variantId?: string): number {
+  return cart.items
+    .filter((item) => item.product.id === productId && (variantId === undefined || item.variantId === variantId))
+    .reduce((count, item) => count + item.quantity, 0);
 }
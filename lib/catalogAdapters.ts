@@ -0,0 +1,491 @@
+/**
+ * Catalog provider adapters
+ *
+ * Concrete CatalogProvider implementations:
+ * - Fake Store API (the default demo catalog)
+ * - Local JSON file (a static file, inline data, or a custom loader)
+ * - Generic REST API with a field-mapping config for seller catalogs
+ * - The app's own /api/products routes (the browser default)
+ *
+ * Every adapter normalizes its records into the Fake Store shape and hands
+ * them to the shared parser in productParser.ts. Network requests go through
+ * fetchWithRetry, so every adapter gets the same timeout, retry and abort
+ * behaviour (configurable per adapter via the `retry` option).
+ */
+
+import { Product } from './types';
+import { parseProduct, parseProductList, RawProduct } from './productParser';
+import { searchProducts } from './searchIndex';
+import type { CatalogProvider } from './catalogProvider';
+import {
+  createHttpError,
+  fetchWithRetry,
+  getMaxFetchDuration,
+  DEFAULT_FETCH_RETRY_OPTIONS,
+  FetchError,
+  FetchRetryOptions,
+  CatalogRequestOptions,
+  withAbortSignal,
+} from './fetchWithRetry';
+
+/**
+ * Fake Store API base URL
+ */
+export const FAKE_STORE_API_URL = 'https://fakestoreapi.com/products';
+
+/**
+ * Read a value from an object using a dotted path (e.g. "pricing.amount")
+ */
+function readPath(source: unknown, path: string): unknown {
+  if (path === '') {
+    return source;
+  }
+
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+/**
+ * Extract the product array from a response body
+ *
+ * @throws FetchError if the value at itemsPath is not an array
+ */
+function readItems(body: unknown, itemsPath: string = ''): unknown[] {
+  const items = readPath(body, itemsPath);
+  if (!Array.isArray(items)) {
+    throw new FetchError('Invalid API response: expected array of products', 'invalidResponse');
+  }
+  return items;
+}
+
+/**
+ * Replace {placeholders} in an endpoint template with URL-encoded values
+ */
+function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? encodeURIComponent(String(values[key])) : match
+  );
+}
+
+/**
+ * Options for the Fake Store adapter
+ */
+export interface FakeStoreProviderOptions {
+  /** Override the API base URL (defaults to FAKE_STORE_API_URL) */
+  baseUrl?: string;
+  /** Timeout and retry settings */
+  retry?: FetchRetryOptions;
+}
+
+/**
+ * Create a provider backed by the Fake Store API
+ * Requirement 2.1: Fetch all products from the Fake Store API
+ * Requirement 9.1: Support filtering by category
+ */
+export function createFakeStoreProvider(options: FakeStoreProviderOptions = {}): CatalogProvider {
+  const baseUrl = options.baseUrl ?? FAKE_STORE_API_URL;
+
+  const listProducts: CatalogProvider['listProducts'] = async ({ signal } = {}) => {
+    const response = await fetchWithRetry(baseUrl, { signal }, options.retry);
+
+    if (!response.ok) {
+      throw createHttpError(response, 'Failed to fetch products');
+    }
+
+    const data = await response.json();
+    return parseProductList(readItems(data));
+  };
+
+  const getProductById: CatalogProvider['getProductById'] = async (id, { signal } = {}) => {
+    const response = await fetchWithRetry(`${baseUrl}/${id}`, { signal }, options.retry);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw createHttpError(response, `Failed to fetch product ${id}`);
+    }
+
+    // Fake Store answers unknown IDs with an empty 200 body
+    const text = await response.text();
+    return text.trim() ? parseProduct(JSON.parse(text)) : null;
+  };
+
+  const getProductsByCategory: CatalogProvider['getProductsByCategory'] = async (
+    category,
+    { signal } = {}
+  ) => {
+    const url = `${baseUrl}/category/${encodeURIComponent(category)}`;
+    const response = await fetchWithRetry(url, { signal }, options.retry);
+
+    if (!response.ok) {
+      throw createHttpError(response, `Failed to fetch products for category ${category}`);
+    }
+
+    const data = await response.json();
+    return parseProductList(readItems(data));
+  };
+
+  // Fake Store has no search endpoint, so search runs over the full list
+  const searchCatalog: CatalogProvider['searchProducts'] = async (query, requestOptions) => {
+    return searchProducts(await listProducts(requestOptions), query);
+  };
+
+  return {
+    name: 'fakestore',
+    listProducts,
+    getProductById,
+    getProductsByCategory,
+    searchProducts: searchCatalog,
+  };
+}
+
+/**
+ * Options for the local JSON-file adapter
+ * Provide exactly one of url, data or load.
+ */
+export interface JsonFileProviderOptions {
+  /** URL of the JSON file, e.g. "/catalog.json" served from public/ */
+  url?: string;
+  /** Inline catalog data, e.g. an imported JSON module */
+  data?: unknown;
+  /** Custom loader, e.g. reading the file from disk on the server */
+  load?: () => Promise<unknown>;
+  /** Dotted path to the product array inside the file (defaults to the root) */
+  itemsPath?: string;
+  /** Timeout and retry settings when loading from a url */
+  retry?: FetchRetryOptions;
+}
+
+/**
+ * Create a provider backed by a local JSON file
+ *
+ * The file is loaded once and all queries run in memory. A failed load is
+ * not memoized, so the next call retries.
+ */
+export function createJsonFileProvider(options: JsonFileProviderOptions): CatalogProvider {
+  const { url, data, load, itemsPath, retry } = options;
+
+  if (url === undefined && data === undefined && load === undefined) {
+    throw new Error('JSON catalog provider requires a url, data or load option');
+  }
+
+  let catalogPromise: Promise<Product[]> | null = null;
+
+  const readCatalog = async (): Promise<unknown> => {
+    if (data !== undefined) {
+      return data;
+    }
+    if (load) {
+      return load();
+    }
+
+    const response = await fetchWithRetry(url as string, {}, retry);
+    if (!response.ok) {
+      throw createHttpError(response, `Failed to load catalog file ${url}`);
+    }
+    return response.json();
+  };
+
+  // The shared load is not tied to any one caller's signal; callers only stop waiting
+  const listProducts: CatalogProvider['listProducts'] = ({ signal } = {}) => {
+    if (!catalogPromise) {
+      catalogPromise = readCatalog()
+        .then((body) => parseProductList(readItems(body, itemsPath)))
+        .catch((error) => {
+          catalogPromise = null;
+          throw error;
+        });
+    }
+    return withAbortSignal(catalogPromise, signal);
+  };
+
+  return {
+    name: 'json',
+    listProducts,
+    getProductById: async (id, requestOptions) =>
+      (await listProducts(requestOptions)).find((product) => product.id === id) ?? null,
+    getProductsByCategory: async (category, requestOptions) =>
+      (await listProducts(requestOptions)).filter((product) => product.category === category),
+    searchProducts: async (query, requestOptions) =>
+      searchProducts(await listProducts(requestOptions), query),
+  };
+}
+
+/**
+ * Maps each normalized product field to a dotted path in the REST record
+ */
+export interface RestFieldMapping {
+  id: string;
+  title: string;
+  price: string;
+  description: string;
+  category: string;
+  image: string;
+  ratingRate: string;
+  ratingCount: string;
+  /** Optional fields; records without them have unlimited stock and no variants */
+  stock: string;
+  maxPerOrder: string;
+  /** List of variants in the ProductVariant shape */
+  variants: string;
+}
+
+/**
+ * Identity mapping for APIs that already speak the Fake Store shape
+ */
+export const DEFAULT_FIELD_MAPPING: RestFieldMapping = {
+  id: 'id',
+  title: 'title',
+  price: 'price',
+  description: 'description',
+  category: 'category',
+  image: 'image',
+  ratingRate: 'rating.rate',
+  ratingCount: 'rating.count',
+  stock: 'stock',
+  maxPerOrder: 'maxPerOrder',
+  variants: 'variants',
+};
+
+/**
+ * Endpoint templates relative to baseUrl
+ * Placeholders: {id}, {category}, {query}
+ */
+export interface RestEndpoints {
+  list: string;
+  byId: string;
+  /** Omit to filter the full list in memory */
+  byCategory?: string;
+  /** Omit to search the full list in memory */
+  search?: string;
+}
+
+/**
+ * Options for the generic REST adapter
+ */
+export interface RestProviderOptions {
+  baseUrl: string;
+  endpoints?: Partial<RestEndpoints>;
+  /** Dotted path to the product array in list responses (defaults to the root) */
+  itemsPath?: string;
+  /** Dotted path to the product record in single-item responses (defaults to the root) */
+  itemPath?: string;
+  /** Field overrides; unspecified fields use DEFAULT_FIELD_MAPPING */
+  fieldMap?: Partial<RestFieldMapping>;
+  /** Extra request headers, e.g. an API key */
+  headers?: Record<string, string>;
+  /** Timeout and retry settings */
+  retry?: FetchRetryOptions;
+}
+
+/**
+ * Coerce numeric strings (common in seller catalogs) to numbers
+ */
+function toNumber(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Map a REST record into the Fake Store shape using a field mapping
+ * Missing ratings default to zero so catalogs without reviews still parse.
+ *
+ * @param record - Raw record from the REST API
+ * @param mapping - Complete field mapping
+ * @returns Record in the shape expected by parseProduct
+ */
+export function mapRestRecord(record: unknown, mapping: RestFieldMapping): RawProduct {
+  const read = (path: string) => readPath(record, path);
+  // null is read as not given, like a missing field
+  const stock = toNumber(read(mapping.stock) ?? undefined);
+  const maxPerOrder = toNumber(read(mapping.maxPerOrder) ?? undefined);
+  const variants = read(mapping.variants) ?? undefined;
+
+  return {
+    id: toNumber(read(mapping.id)) as number,
+    title: read(mapping.title) as string,
+    price: toNumber(read(mapping.price)) as number,
+    description: (read(mapping.description) ?? '') as string,
+    category: read(mapping.category) as string,
+    image: read(mapping.image) as string,
+    rating: {
+      rate: (toNumber(read(mapping.ratingRate)) ?? 0) as number,
+      count: (toNumber(read(mapping.ratingCount)) ?? 0) as number,
+    },
+    ...(stock !== undefined ? { stock: stock as number } : {}),
+    ...(maxPerOrder !== undefined ? { maxPerOrder: maxPerOrder as number } : {}),
+    ...(variants !== undefined ? { variants: variants as unknown[] } : {}),
+  };
+}
+
+/**
+ * Create a provider backed by an arbitrary REST catalog API
+ *
+ * @example
+ * ```typescript
+ * const provider = createRestProvider({
+ *   baseUrl: 'https://seller.example.com/api',
+ *   endpoints: { list: '/items', byId: '/items/{id}', search: '/items?q={query}' },
+ *   itemsPath: 'data.items',
+ *   fieldMap: { id: 'sku', title: 'name', price: 'pricing.amount', image: 'media.0.url' },
+ * });
+ * ```
+ */
+export function createRestProvider(options: RestProviderOptions): CatalogProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const endpoints: RestEndpoints = { list: '', byId: '/{id}', ...options.endpoints };
+  const mapping: RestFieldMapping = { ...DEFAULT_FIELD_MAPPING, ...options.fieldMap };
+
+  const request = (path: string, signal?: AbortSignal) =>
+    fetchWithRetry(`${baseUrl}${path}`, { headers: options.headers, signal }, options.retry);
+
+  const parseRecords = (body: unknown): Product[] =>
+    parseProductList(readItems(body, options.itemsPath).map((record) => mapRestRecord(record, mapping)));
+
+  const fetchList = async (
+    path: string,
+    label: string,
+    { signal }: CatalogRequestOptions = {}
+  ): Promise<Product[]> => {
+    const response = await request(path, signal);
+    if (!response.ok) {
+      throw createHttpError(response, `Failed to fetch ${label}`);
+    }
+    return parseRecords(await response.json());
+  };
+
+  const listProducts: CatalogProvider['listProducts'] = (requestOptions) =>
+    fetchList(endpoints.list, 'products', requestOptions);
+
+  const getProductById: CatalogProvider['getProductById'] = async (id, { signal } = {}) => {
+    const response = await request(fillTemplate(endpoints.byId, { id }), signal);
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw createHttpError(response, `Failed to fetch product ${id}`);
+    }
+
+    const record = readPath(await response.json(), options.itemPath ?? '');
+    return record ? parseProduct(mapRestRecord(record, mapping)) : null;
+  };
+
+  const getProductsByCategory: CatalogProvider['getProductsByCategory'] = async (
+    category,
+    requestOptions
+  ) => {
+    if (!endpoints.byCategory) {
+      return (await listProducts(requestOptions)).filter((product) => product.category === category);
+    }
+    return fetchList(
+      fillTemplate(endpoints.byCategory, { category }),
+      `products for category ${category}`,
+      requestOptions
+    );
+  };
+
+  const searchCatalog: CatalogProvider['searchProducts'] = async (query, requestOptions) => {
+    if (!endpoints.search) {
+      return searchProducts(await listProducts(requestOptions), query);
+    }
+    return fetchList(
+      fillTemplate(endpoints.search, { query }),
+      `search results for "${query}"`,
+      requestOptions
+    );
+  };
+
+  return {
+    name: 'rest',
+    listProducts,
+    getProductById,
+    getProductsByCategory,
+    searchProducts: searchCatalog,
+  };
+}
+
+/**
+ * Default URL of the app's own catalog API
+ */
+export const CATALOG_API_URL = '/api/products';
+
+/**
+ * Retry settings for calls to the catalog API
+ * The route handlers already retry the upstream catalog, so retrying here too
+ * would multiply requests to a struggling upstream. A single attempt is made,
+ * with a timeout that outlasts the server's own worst case (default settings).
+ */
+export const API_PROVIDER_RETRY_OPTIONS: FetchRetryOptions = {
+  retries: 0,
+  timeoutMs: getMaxFetchDuration(DEFAULT_FETCH_RETRY_OPTIONS) + 5_000,
+};
+
+/**
+ * Options for the catalog API adapter
+ */
+export interface ApiProviderOptions {
+  /** Base URL of the /api/products route handlers (defaults to CATALOG_API_URL) */
+  baseUrl?: string;
+  /** Timeout and retry settings (defaults: API_PROVIDER_RETRY_OPTIONS) */
+  retry?: FetchRetryOptions;
+}
+
+/**
+ * Create a provider backed by the app's /api/products route handlers
+ *
+ * Used in the browser so the client reads from the same server-owned catalog
+ * as the voice tools, regardless of which provider the server is configured with.
+ */
+export function createApiProvider(options: ApiProviderOptions = {}): CatalogProvider {
+  const baseUrl = options.baseUrl ?? CATALOG_API_URL;
+  const retry = { ...API_PROVIDER_RETRY_OPTIONS, ...options.retry };
+
+  const fetchList = async (
+    params: Record<string, string>,
+    label: string,
+    { signal }: CatalogRequestOptions = {}
+  ): Promise<Product[]> => {
+    const search = new URLSearchParams(params).toString();
+    const response = await fetchWithRetry(search ? `${baseUrl}?${search}` : baseUrl, { signal }, retry);
+
+    if (!response.ok) {
+      throw createHttpError(response, `Failed to fetch ${label}`);
+    }
+
+    const body = await response.json();
+    return parseProductList(readItems(body, 'products'));
+  };
+
+  const getProductById: CatalogProvider['getProductById'] = async (id, { signal } = {}) => {
+    const response = await fetchWithRetry(`${baseUrl}/${id}`, { signal }, retry);
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw createHttpError(response, `Failed to fetch product ${id}`);
+    }
+
+    const body = await response.json();
+    return parseProduct(body.product);
+  };
+
+  return {
+    name: 'api',
+    listProducts: (requestOptions) => fetchList({}, 'products', requestOptions),
+    getProductById,
+    getProductsByCategory: (category, requestOptions) =>
+      fetchList({ category }, `products for category ${category}`, requestOptions),
+    searchProducts: (query, requestOptions) =>
+      fetchList({ q: query }, `search results for "${query}"`, requestOptions),
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Pluggable product catalog provider
+ *
+ * Defines the CatalogProvider interface that the product layer talks to and
+ * keeps track of the active provider. Swap the provider to point Kaldi at a
+ * different catalog (a seller's REST API, a local JSON file) without touching
+ * the fetching, caching or parsing code.
+ *
+ * Requirements: 2.1, 2.5, 9.1
+ */
+
+import { Product, ProductCategory } from './types';
+import {
+  createApiProvider,
+  createFakeStoreProvider,
+  createJsonFileProvider,
+  createRestProvider,
+  ApiProviderOptions,
+  FakeStoreProviderOptions,
+  JsonFileProviderOptions,
+  RestProviderOptions,
+} from './catalogAdapters';
+import type { CatalogRequestOptions } from './fetchWithRetry';
+
+/**
+ * A source of product data
+ *
+ * All methods resolve to normalized Product objects and reject with a
+ * descriptive Error (a FetchError for request failures) when the underlying
+ * source fails. Passing options.signal cancels the request.
+ */
+export interface CatalogProvider {
+  /** Short identifier used in logs */
+  readonly name: string;
+  /** Fetch every product in the catalog */
+  listProducts(options?: CatalogRequestOptions): Promise<Product[]>;
+  /** Fetch a single product, resolving to null if it does not exist */
+  getProductById(id: number, options?: CatalogRequestOptions): Promise<Product | null>;
+  /** Fetch all products in a category */
+  getProductsByCategory(category: ProductCategory, options?: CatalogRequestOptions): Promise<Product[]>;
+  /** Free-text search over the catalog */
+  searchProducts(query: string, options?: CatalogRequestOptions): Promise<Product[]>;
+}
+
+/**
+ * Declarative provider configuration
+ */
+export type CatalogProviderConfig =
+  | ({ type: 'fakestore' } & FakeStoreProviderOptions)
+  | ({ type: 'json' } & JsonFileProviderOptions)
+  | ({ type: 'rest' } & RestProviderOptions)
+  | ({ type: 'api' } & ApiProviderOptions);
+
+/**
+ * Create a provider from a declarative configuration
+ *
+ * @param config - Provider type and its options
+ * @returns The configured CatalogProvider
+ */
+export function createCatalogProvider(config: CatalogProviderConfig): CatalogProvider {
+  switch (config.type) {
+    case 'fakestore':
+      return createFakeStoreProvider(config);
+    case 'json':
+      return createJsonFileProvider(config);
+    case 'rest':
+      return createRestProvider(config);
+    case 'api':
+      return createApiProvider(config);
+  }
+}
+
+/**
+ * Read the provider configuration from environment variables
+ *
+ * In the browser the client always talks to the app's own /api/products
+ * routes (NEXT_PUBLIC_CATALOG_API_URL overrides the base URL). On the server:
+ * - CATALOG_PROVIDER: 'fakestore' (default), 'json' or 'rest'
+ * - CATALOG_JSON_URL: file URL for the json provider
+ * - CATALOG_REST_CONFIG: JSON-encoded RestProviderOptions for the rest provider
+ *
+ * Falls back to the Fake Store provider if the configuration is incomplete.
+ */
+export function getCatalogConfigFromEnv(): CatalogProviderConfig {
+  if (typeof window !== 'undefined') {
+    return { type: 'api', baseUrl: process.env.NEXT_PUBLIC_CATALOG_API_URL || undefined };
+  }
+
+  const type = process.env.CATALOG_PROVIDER;
+
+  if (type === 'json' && process.env.CATALOG_JSON_URL) {
+    return { type: 'json', url: process.env.CATALOG_JSON_URL };
+  }
+
+  if (type === 'rest' && process.env.CATALOG_REST_CONFIG) {
+    try {
+      const options: RestProviderOptions = JSON.parse(process.env.CATALOG_REST_CONFIG);
+      return { type: 'rest', ...options };
+    } catch (error) {
+      console.error('[catalogProvider] Invalid CATALOG_REST_CONFIG, using Fake Store:', error);
+    }
+  }
+
+  return { type: 'fakestore' };
+}
+
+/**
+ * Active provider instance
+ * Created lazily from the environment on first use
+ */
+let activeProvider: CatalogProvider | null = null;
+
+/**
+ * Get the active catalog provider
+ *
+ * @returns The provider set via setCatalogProvider, or one built from the environment
+ */
+export function getCatalogProvider(): CatalogProvider {
+  if (!activeProvider) {
+    activeProvider = createCatalogProvider(getCatalogConfigFromEnv());
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active catalog provider
+ * Pass null to fall back to the environment configuration on next use.
+ *
+ * @param provider - Provider instance to use for all product fetching
+ */
+export function setCatalogProvider(provider: CatalogProvider | null): void {
+  activeProvider = provider;
+}
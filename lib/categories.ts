@@ -0,0 +1,108 @@
+/**
+ * Product category metadata
+ *
+ * Categories are discovered from the catalog rather than hardcoded. Known
+ * categories get curated display names, emoji and translations; anything
+ * else falls back to a title-cased label so new seller categories show up
+ * in the tabs, the voice tool schema and the prompt context automatically.
+ *
+ * Requirements: 9.1, 9.3, 9.4
+ */
+
+import { CategoryInfo, Product, ProductCategory } from './types';
+import type { Language } from './languageContext';
+
+/**
+ * Emoji used for categories without curated metadata
+ */
+export const DEFAULT_CATEGORY_EMOJI = '🏷️';
+
+/**
+ * Curated metadata for categories we know about (the Fake Store set)
+ */
+const KNOWN_CATEGORIES: Record<string, Omit<CategoryInfo, 'id' | 'count'>> = {
+  electronics: {
+    label: 'Electronics',
+    emoji: '💻',
+    translations: { hi: 'इलेक्ट्रॉनिक्स' },
+  },
+  jewelery: {
+    label: 'Jewelry',
+    emoji: '💎',
+    translations: { hi: 'ज्वेलरी' },
+  },
+  "men's clothing": {
+    label: "Men's Clothing",
+    emoji: '👔',
+    translations: { hi: 'पुरुषों के कपड़े' },
+  },
+  "women's clothing": {
+    label: "Women's Clothing",
+    emoji: '👗',
+    translations: { hi: 'महिलाओं के कपड़े' },
+  },
+};
+
+/**
+ * Title-case a category slug, e.g. "home & kitchen" -> "Home & Kitchen"
+ */
+function toDisplayName(category: ProductCategory): string {
+  return category
+    .split(/([\s_-]+)/)
+    .map((part) => (/^[\s_-]+$/.test(part) ? ' ' : part.charAt(0).toUpperCase() + part.slice(1)))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Get display metadata for a category
+ *
+ * @param category - Category ID as it appears on products
+ * @param count - Optional number of products in the category
+ * @returns Curated metadata, or a generated label and default emoji
+ */
+export function getCategoryInfo(category: ProductCategory, count: number = 0): CategoryInfo {
+  const known = KNOWN_CATEGORIES[category];
+
+  return {
+    id: category,
+    label: known?.label ?? toDisplayName(category),
+    emoji: known?.emoji ?? DEFAULT_CATEGORY_EMOJI,
+    translations: known?.translations ?? {},
+    count,
+  };
+}
+
+/**
+ * Discover the categories present in a product list
+ *
+ * @param products - Products to scan
+ * @returns One CategoryInfo per distinct category, in first-seen order, with product counts
+ */
+export function discoverCategories(products: Product[]): CategoryInfo[] {
+  const counts = new Map<ProductCategory, number>();
+
+  for (const product of products) {
+    counts.set(product.category, (counts.get(product.category) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([category, count]) => getCategoryInfo(category, count));
+}
+
+/**
+ * Get the localized display name for a category
+ *
+ * @param category - Category metadata
+ * @param language - UI language
+ * @returns Translated label, falling back to the English label
+ */
+export function getCategoryLabel(category: CategoryInfo, language: Language): string {
+  return category.translations[language] ?? category.label;
+}
+
+/**
+ * IDs of the categories with curated metadata
+ * Used as the tool schema enum before the catalog has loaded.
+ */
+export const KNOWN_CATEGORY_IDS: ProductCategory[] = Object.keys(KNOWN_CATEGORIES);
@@ -0,0 +1,153 @@
+/**
+ * Checkout state machine for Jarvis Shopping Assistant
+ *
+ * One reducer owns where the user is in checkout: review the cart, enter the
+ * shipping address, pick a delivery option, pay, and see the confirmation.
+ * Buttons and voice tools dispatch the same actions, and a step can only be
+ * entered once everything before it is filled in, so neither can skip ahead
+ * to payment without a valid address.
+ */
+
+import { CheckoutStep, DeliveryOptionId, Order, PaymentMethod, ShippingAddress } from './types';
+import { EMPTY_SHIPPING_ADDRESS, isShippingAddressComplete, updateShippingAddress } from './checkoutUtils';
+
+/**
+ * Checkout steps, in order
+ */
+export const CHECKOUT_STEPS: CheckoutStep[] = ['review', 'address', 'delivery', 'payment', 'confirmation'];
+
+export interface CheckoutState {
+  step: CheckoutStep;
+  /** Address as entered so far; kept if checkout is left and resumed */
+  address: ShippingAddress;
+  delivery: DeliveryOptionId | null;
+  paymentMethod: PaymentMethod;
+  /** Whether a charge is in flight */
+  isPaying: boolean;
+  /** Why the last payment did not go through */
+  paymentError: string | null;
+  /** Order placed by this checkout, shown on the confirmation step */
+  order: Order | null;
+}
+
+export const INITIAL_CHECKOUT_STATE: CheckoutState = {
+  step: 'review',
+  address: EMPTY_SHIPPING_ADDRESS,
+  delivery: null,
+  paymentMethod: 'upi',
+  isPaying: false,
+  paymentError: null,
+  order: null,
+};
+
+/**
+ * Checkout actions
+ */
+export type CheckoutAction =
+  | { type: 'start' }
+  | { type: 'goToStep'; step: CheckoutStep }
+  | { type: 'updateAddress'; address: Partial<ShippingAddress> }
+  | { type: 'selectDelivery'; delivery: DeliveryOptionId }
+  | { type: 'selectPaymentMethod'; method: PaymentMethod }
+  | { type: 'paymentStarted' }
+  | { type: 'paymentFailed'; error: string }
+  | { type: 'orderPlaced'; order: Order };
+
+/**
+ * Check whether a step can be entered
+ * Each step needs the ones before it filled in; the confirmation needs a placed order.
+ *
+ * @param state - Checkout state
+ * @param step - Step to enter
+ * @returns Whether the step is reachable
+ */
+export function canEnterStep(state: CheckoutState, step: CheckoutStep): boolean {
+  if (state.order) {
+    return step === 'confirmation';
+  }
+  switch (step) {
+    case 'review':
+    case 'address':
+      return true;
+    case 'delivery':
+      return isShippingAddressComplete(state.address);
+    case 'payment':
+      return isShippingAddressComplete(state.address) && state.delivery !== null;
+    case 'confirmation':
+      return false;
+  }
+}
+
+/**
+ * Get the first step that still needs input
+ */
+export function getFirstIncompleteStep(state: CheckoutState): CheckoutStep {
+  if (state.order) {
+    return 'confirmation';
+  }
+  if (!isShippingAddressComplete(state.address)) {
+    return 'address';
+  }
+  return state.delivery === null ? 'delivery' : 'payment';
+}
+
+/**
+ * Apply a checkout action
+ *
+ * @param state - Current checkout state
+ * @param action - Action to apply
+ * @returns New checkout state (the same object if nothing changed)
+ */
+export function checkoutReducer(state: CheckoutState, action: CheckoutAction): CheckoutState {
+  switch (action.type) {
+    case 'start':
+      // A new checkout starts from review, keeping the address and delivery choice
+      return {
+        ...state,
+        step: 'review',
+        isPaying: false,
+        paymentError: null,
+        order: null,
+      };
+
+    case 'goToStep':
+      if (state.isPaying || !canEnterStep(state, action.step)) {
+        return state;
+      }
+      return { ...state, step: action.step, paymentError: null };
+
+    case 'updateAddress': {
+      if (state.isPaying || state.order) {
+        return state;
+      }
+      const address = updateShippingAddress(state.address, action.address);
+      // Going back to edit the address leaves the later steps to be confirmed again
+      return {
+        ...state,
+        address,
+        step: isShippingAddressComplete(address) ? state.step : 'address',
+      };
+    }
+
+    case 'selectDelivery':
+      if (state.isPaying || state.order || !isShippingAddressComplete(state.address)) {
+        return state;
+      }
+      return { ...state, delivery: action.delivery, step: 'payment', paymentError: null };
+
+    case 'selectPaymentMethod':
+      if (state.isPaying || state.order) {
+        return state;
+      }
+      return { ...state, paymentMethod: action.method, paymentError: null };
+
+    case 'paymentStarted':
+      return { ...state, isPaying: true, paymentError: null };
+
+    case 'paymentFailed':
+      return { ...state, isPaying: false, paymentError: action.error };
+
+    case 'orderPlaced':
+      return { ...state, step: 'confirmation', isPaying: false, paymentError: null, order: action.order };
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Checkout utility functions for Jarvis Shopping Assistant
+ *
+ * Shipping address validation (Indian PIN codes and mobile numbers), delivery
+ * options, order totals and order creation. Amounts are in INR, converted per
+ * unit from the catalog's USD prices so each order line matches the price the
+ * user saw; discounts, GST and shipping come from pricing.ts. Placed orders are
+ * kept by orderHistory.ts.
+ */
+
+import {
+  CartState,
+  DeliveryOptionId,
+  Order,
+  PaymentMethod,
+  ShippingAddress,
+  ShippingAddressField,
+} from './types';
+import { convertToINR } from './currency';
+import { ShippingRate, priceCart } from './pricing';
+import { getUnitPrice, getVariantTitle } from './productVariants';
+
+/**
+ * A delivery speed offered at checkout
+ */
+export interface DeliveryOption extends ShippingRate {
+  id: DeliveryOptionId;
+  /** Translation key of the option's name */
+  labelKey: string;
+  /** Delivery time in days */
+  minDays: number;
+  maxDays: number;
+}
+
+export const DELIVERY_OPTIONS: Record<DeliveryOptionId, DeliveryOption> = {
+  standard: { id: 'standard', labelKey: 'checkout.standard', fee: 49, freeAbove: 999, minDays: 4, maxDays: 7 },
+  express: { id: 'express', labelKey: 'checkout.express', fee: 149, freeAbove: 4999, minDays: 1, maxDays: 2 },
+};
+
+export const DELIVERY_OPTION_IDS: DeliveryOptionId[] = ['standard', 'express'];
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['upi', 'card', 'cod'];
+
+/**
+ * Address fields, in form order
+ */
+export const SHIPPING_ADDRESS_FIELDS: ShippingAddressField[] = [
+  'fullName',
+  'phone',
+  'line1',
+  'line2',
+  'city',
+  'state',
+  'pinCode',
+];
+
+export const EMPTY_SHIPPING_ADDRESS: ShippingAddress = {
+  fullName: '',
+  phone: '',
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  pinCode: '',
+};
+
+/**
+ * Why an address field was rejected
+ */
+export type AddressFieldError = 'missing' | 'invalid';
+
+export type AddressErrors = Partial<Record<ShippingAddressField, AddressFieldError>>;
+
+/**
+ * Normalize a PIN code as typed or spoken, e.g. "110 001" to "110001"
+ */
+export function normalizePinCode(pinCode: string): string {
+  return pinCode.replace(/[\s-]/g, '');
+}
+
+/**
+ * Check whether a PIN code is a valid Indian postal code
+ * Six digits, the first of which (the postal region) is never 0.
+ */
+export function isValidPinCode(pinCode: string): boolean {
+  return /^[1-9]\d{5}$/.test(normalizePinCode(pinCode));
+}
+
+/**
+ * Normalize a mobile number to its 10 digits, dropping spaces and a +91 or 0 prefix
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/[\s()-]/g, '');
+  return digits.replace(/^(\+?91|0)(?=\d{10}$)/, '');
+}
+
+/**
+ * Check whether a number is a valid Indian mobile number
+ */
+export function isValidPhone(phone: string): boolean {
+  return /^[6-9]\d{9}$/.test(normalizePhone(phone));
+}
+
+/**
+ * Validate a shipping address
+ *
+ * @param address - Address to check
+ * @returns Problems by field; empty when the address can be shipped to
+ */
+export function validateShippingAddress(address: ShippingAddress): AddressErrors {
+  const errors: AddressErrors = {};
+
+  for (const field of SHIPPING_ADDRESS_FIELDS) {
+    if (field !== 'line2' && address[field].trim() === '') {
+      errors[field] = 'missing';
+    }
+  }
+
+  if (!errors.phone && !isValidPhone(address.phone)) {
+    errors.phone = 'invalid';
+  }
+  if (!errors.pinCode && !isValidPinCode(address.pinCode)) {
+    errors.pinCode = 'invalid';
+  }
+
+  return errors;
+}
+
+/**
+ * Check whether an address passes validation
+ */
+export function isShippingAddressComplete(address: ShippingAddress): boolean {
+  return Object.keys(validateShippingAddress(address)).length === 0;
+}
+
+/**
+ * Merge address fields into an address
+ * Values are kept as typed, so a form can hold "Rahul " mid-word; see normalizeShippingAddress.
+ *
+ * @param address - Current address
+ * @param update - Fields to change; other keys are ignored
+ * @returns Updated address
+ */
+export function updateShippingAddress(address: ShippingAddress, update: Partial<ShippingAddress>): ShippingAddress {
+  const next = { ...address };
+  for (const field of SHIPPING_ADDRESS_FIELDS) {
+    const value = update[field];
+    if (value !== undefined) {
+      next[field] = value;
+    }
+  }
+  return next;
+}
+
+/**
+ * Tidy an address for an order: trim every field and normalize the phone and PIN code
+ */
+export function normalizeShippingAddress(address: ShippingAddress): ShippingAddress {
+  const trimmed = { ...address };
+  for (const field of SHIPPING_ADDRESS_FIELDS) {
+    trimmed[field] = address[field].trim();
+  }
+  return {
+    ...trimmed,
+    phone: normalizePhone(trimmed.phone),
+    pinCode: normalizePinCode(trimmed.pinCode),
+  };
+}
+
+/**
+ * Format an address on one line, for the assistant and order summaries
+ */
+export function formatShippingAddress(address: ShippingAddress): string {
+  const { fullName, line1, line2, city, state, pinCode } = normalizeShippingAddress(address);
+  return [fullName, line1, line2, city, `${state} ${pinCode}`]
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Order amounts in INR
+ */
+export interface CheckoutTotals {
+  subtotal: number;
+  discount: number;
+  gst: number;
+  deliveryFee: number;
+  total: number;
+}
+
+/**
+ * Calculate the order amounts for a cart
+ *
+ * @param cart - Cart being checked out
+ * @param delivery - Chosen delivery option, or null if not chosen yet
+ * @returns Subtotal, coupon discount, GST, delivery fee (0 until chosen or when free) and total in INR
+ */
+export function calculateCheckoutTotals(cart: CartState, delivery: DeliveryOptionId | null): CheckoutTotals {
+  const pricing = priceCart(cart, delivery ? DELIVERY_OPTIONS[delivery] : null);
+  return {
+    subtotal: pricing.subtotal,
+    discount: pricing.discount,
+    gst: pricing.gst,
+    deliveryFee: pricing.shipping,
+    total: pricing.total,
+  };
+}
+
+/**
+ * Generate an order ID from the date and a random suffix
+ *
+ * @param now - When the order is placed
+ * @param random - Random number source (injectable for tests)
+ * @returns ID such as "KLD-20260301-4F7Q2A"
+ */
+export function generateOrderId(now: Date = new Date(), random: () => number = Math.random): string {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+  const suffix = Array.from({ length: 6 }, () => Math.floor(random() * 36).toString(36)).join('');
+  return `KLD-${date}-${suffix.toUpperCase()}`;
+}
+
+/**
+ * Details of an order that are not in the cart
+ */
+export interface OrderDetails {
+  id: string;
+  address: ShippingAddress;
+  delivery: DeliveryOptionId;
+  payment: Order['payment'];
+}
+
+/**
+ * Create an order from the cart
+ *
+ * @param cart - Cart being checked out
+ * @param details - Order ID, address, delivery option and payment
+ * @param now - When the order is placed
+ * @returns The order, with a snapshot of each cart line
+ */
+export function createOrder(cart: CartState, details: OrderDetails, now: Date = new Date()): Order {
+  if (cart.items.length === 0) {
+    throw new Error('Cannot place an order for an empty cart');
+  }
+
+  const totals = calculateCheckoutTotals(cart, details.delivery);
+
+  return {
+    id: details.id,
+    placedAt: now.toISOString(),
+    items: cart.items.map(({ product, quantity, variantId }) => ({
+      productId: product.id,
+      ...(variantId !== undefined ? { variantId } : {}),
+      title: getVariantTitle(product, variantId),
+      image: product.image,
+      quantity,
+      unitPrice: convertToINR(getUnitPrice(product, variantId)),
+    })),
+    address: normalizeShippingAddress(details.address),
+    delivery: details.delivery,
+    ...totals,
+    ...(cart.couponCode && totals.discount > 0 ? { couponCode: cart.couponCode } : {}),
+    payment: details.payment,
+  };
+}
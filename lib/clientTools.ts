@@ -2,375 +2,815 @@
  * Ultravox Client Tools for Jarvis Shopping Assistant
  * 
  * This file defines client-side tools that enable voice-controlled UI interactions.
- * Each tool dispatches custom events that UI components listen for to update state.
+ * Each tool is declared once with defineClientTool (lib/toolRegistry.ts), which
+ * derives its schema, validates its parameters and registers it on the session.
+ * Handlers send a request on the event bus (lib/eventBus.ts); the UI answers it
+ * with useJarvisResponder and reports a ToolOutcome (lib/toolOutcome.ts), which
+ * becomes the tool result, so the model hears what actually happened.
+ * Tools that are hard to take back ask for confirmation first (lib/confirmation.ts).
  * 
  * Requirements: 3.1, 3.2, 3.3, 5.1, 5.2, 5.3, 5.5
  */
 
+import { SelectedTool } from './ultravox-types';
 import {
-  SelectedTool,
-  ParameterLocation,
-} from './ultravox-types';
-import { ProductCategory } from './types';
+  ApplyCouponDetail,
+  DeliveryOptionId,
+  GoToProductDetail,
+  PlaceOrderDetail,
+  ProductCategory,
+  ReorderDetail,
+  ShippingAddressDetail,
+  SortAndFilterDetail,
+  VariantOptions,
+  WatchlistUpdateDetail,
+} from './types';
+import { CLIENT_TOOL_EVENTS, emit, request } from './eventBus';
+import { toolFailure, toolSuccess } from './toolOutcome';
+import { cancelPendingAction, confirmPendingAction } from './confirmation';
+import { defineClientTool, getClientToolSchemas } from './toolRegistry';
+import { KNOWN_CATEGORY_IDS } from './categories';
+import { MAX_WATCHLIST_NOTE_LENGTH } from './watchlistUtils';
+import { DELIVERY_OPTION_IDS, PAYMENT_METHODS, isValidPhone, isValidPinCode } from './checkoutUtils';
+import {
+  PRODUCT_SORT_OPTIONS,
+  PRODUCT_TAG_FILTERS,
+  ProductFacets,
+} from './productQuery';
 
-/**
- * Custom event names for client tool communication
- */
-export const CLIENT_TOOL_EVENTS = {
-  CART_UPDATE: 'jarvis:cart:update',
-  PRODUCT_NAVIGATE: 'jarvis:product:navigate',
-  CATEGORY_FILTER: 'jarvis:category:filter',
-  READ_PRODUCT: 'jarvis:product:read',
-  READ_CART: 'jarvis:cart:read',
-  CLOSE_PRODUCT: 'jarvis:product:close',
-  OPEN_CART: 'jarvis:cart:open',
-} as const;
+export { CLIENT_TOOL_EVENTS };
+export { registerClientTools, invokeClientTool } from './toolRegistry';
 
 /**
- * Dispatch a custom event for cart updates
+ * Emit an event for cart updates
  * Requirement 5.1, 5.2, 5.3, 5.5: Voice-controlled cart management
  */
 export function dispatchCartUpdate(
   action: 'add' | 'remove' | 'clear' | 'update',
   productId?: number,
-  quantity?: number
+  quantity?: number,
+  variant?: VariantOptions
 ): void {
-  if (typeof window === 'undefined') return;
-  
-  const event = new CustomEvent(CLIENT_TOOL_EVENTS.CART_UPDATE, {
-    detail: { action, productId, quantity },
-  });
-  window.dispatchEvent(event);
+  emit(CLIENT_TOOL_EVENTS.CART_UPDATE, { action, productId, quantity, variant });
 }
 
 /**
- * Dispatch a custom event for product navigation
+ * Emit an event for product navigation
  * Requirement 3.2, 3.3: Voice-controlled product browsing
  */
 export function dispatchProductNavigate(direction: 'next' | 'previous'): void {
-  if (typeof window === 'undefined') return;
-  
-  const event = new CustomEvent(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE, {
-    detail: { direction },
-  });
-  window.dispatchEvent(event);
+  emit(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE, { direction });
 }
 
 /**
- * Dispatch a custom event for category filtering
+ * Emit an event for category filtering
  * Requirement 3.1: Voice-controlled category filtering
  */
 export function dispatchCategoryFilter(category: ProductCategory | 'all'): void {
-  if (typeof window === 'undefined') return;
-  
-  const event = new CustomEvent(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, {
-    detail: { category },
-  });
-  window.dispatchEvent(event);
+  emit(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, { category });
 }
 
 /**
- * Dispatch a custom event to read product details
+ * Emit an event to read product details
  * Requirement 3.4: Voice reading of product information
  */
 export function dispatchReadProduct(productId: number): void {
-  if (typeof window === 'undefined') return;
-  
-  const event = new CustomEvent(CLIENT_TOOL_EVENTS.READ_PRODUCT, {
-    detail: { productId },
-  });
-  window.dispatchEvent(event);
+  emit(CLIENT_TOOL_EVENTS.READ_PRODUCT, { productId });
 }
 
 /**
- * Dispatch a custom event to read cart summary
+ * Emit an event to read cart summary
  * Requirement 5.4: Voice reading of cart contents
  */
 export function dispatchReadCart(): void {
-  if (typeof window === 'undefined') return;
-  
-  const event = new CustomEvent(CLIENT_TOOL_EVENTS.READ_CART, {
-    detail: {},
-  });
-  window.dispatchEvent(event);
+  emit(CLIENT_TOOL_EVENTS.READ_CART, {});
 }
 
 /**
- * Dispatch a custom event to close product detail view
+ * Emit an event to close product detail view
  */
 export function dispatchCloseProduct(): void {
-  if (typeof window === 'undefined') return;
-  
-  const event = new CustomEvent(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, {
-    detail: {},
-  });
-  window.dispatchEvent(event);
+  emit(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, {});
 }
 
 /**
- * Dispatch a custom event to open cart
+ * Emit an event to open cart
  */
 export function dispatchOpenCart(): void {
-  if (typeof window === 'undefined') return;
-  
-  const event = new CustomEvent(CLIENT_TOOL_EVENTS.OPEN_CART, {
-    detail: {},
-  });
-  window.dispatchEvent(event);
+  emit(CLIENT_TOOL_EVENTS.OPEN_CART, {});
+}
+
+/**
+ * Emit an event to search products
+ * An empty query clears the current search.
+ */
+export function dispatchSearchProducts(query: string): void {
+  emit(CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS, { query });
+}
+
+/**
+ * Emit an event to sort and filter products
+ */
+export function dispatchSortAndFilter(request: SortAndFilterDetail): void {
+  emit(CLIENT_TOOL_EVENTS.SORT_FILTER, request);
+}
+
+/**
+ * Emit an event to open a product by ID, position or title
+ * Requirement 3.2, 3.3: Voice-controlled product browsing
+ */
+export function dispatchGoToProduct(target: GoToProductDetail): void {
+  emit(CLIENT_TOOL_EVENTS.GO_TO_PRODUCT, target);
+}
+
+/**
+ * Emit an event to return to the previous view
+ */
+export function dispatchGoBack(): void {
+  emit(CLIENT_TOOL_EVENTS.GO_BACK, {});
+}
+
+/**
+ * Emit an event to return to the view left with go back
+ */
+export function dispatchGoForward(): void {
+  emit(CLIENT_TOOL_EVENTS.GO_FORWARD, {});
+}
+
+/**
+ * Emit an event for watchlist updates
+ */
+export function dispatchWatchlistUpdate(update: WatchlistUpdateDetail): void {
+  emit(CLIENT_TOOL_EVENTS.WATCHLIST_UPDATE, update);
+}
+
+/**
+ * Emit an event to read the watchlist
+ */
+export function dispatchReadWatchlist(): void {
+  emit(CLIENT_TOOL_EVENTS.READ_WATCHLIST, {});
+}
+
+/**
+ * Emit an event to open the watchlist
+ */
+export function dispatchOpenWatchlist(): void {
+  emit(CLIENT_TOOL_EVENTS.OPEN_WATCHLIST, {});
+}
+
+/**
+ * Emit an event to start checkout
+ */
+export function dispatchStartCheckout(): void {
+  emit(CLIENT_TOOL_EVENTS.START_CHECKOUT, {});
+}
+
+/**
+ * Emit an event to fill in the shipping address
+ */
+export function dispatchShippingAddress(address: ShippingAddressDetail): void {
+  emit(CLIENT_TOOL_EVENTS.SET_SHIPPING_ADDRESS, address);
+}
+
+/**
+ * Emit an event to choose the delivery option
+ */
+export function dispatchSelectDelivery(delivery: DeliveryOptionId): void {
+  emit(CLIENT_TOOL_EVENTS.SELECT_DELIVERY, { delivery });
+}
+
+/**
+ * Emit an event to pay and place the order
+ */
+export function dispatchPlaceOrder(detail: PlaceOrderDetail = {}): void {
+  emit(CLIENT_TOOL_EVENTS.PLACE_ORDER, detail);
+}
+
+/**
+ * Emit an event to leave checkout
+ */
+export function dispatchCloseCheckout(): void {
+  emit(CLIENT_TOOL_EVENTS.CLOSE_CHECKOUT, {});
+}
+
+/**
+ * Emit an event to list past orders
+ */
+export function dispatchListOrders(): void {
+  emit(CLIENT_TOOL_EVENTS.LIST_ORDERS, {});
+}
+
+/**
+ * Emit an event to add a past order to the cart
+ */
+export function dispatchReorder(detail: ReorderDetail = {}): void {
+  emit(CLIENT_TOOL_EVENTS.REORDER, detail);
+}
+
+/**
+ * Emit an event to apply a coupon code to the cart
+ */
+export function dispatchApplyCoupon(detail: ApplyCouponDetail): void {
+  emit(CLIENT_TOOL_EVENTS.APPLY_COUPON, detail);
+}
+
+/**
+ * Emit an event to remove the coupon from the cart
+ */
+export function dispatchRemoveCoupon(): void {
+  emit(CLIENT_TOOL_EVENTS.REMOVE_COUPON, {});
+}
+
+/**
+ * Emit an event to undo the latest cart change
+ */
+export function dispatchUndoCart(): void {
+  emit(CLIENT_TOOL_EVENTS.UNDO_CART, {});
 }
 
 /**
- * Update Cart Tool Definition
+ * Largest quantity a single voice command can add or set
+ * Guards against misheard numbers ("ninety nine" for "nine").
+ */
+const MAX_TOOL_QUANTITY = 20;
+
+/**
+ * Update Cart Tool
  * Allows voice commands to add, remove, clear, or update cart items
  * Requirement 5.1, 5.2, 5.3, 5.5
  */
-export const updateCartTool: SelectedTool = {
-  temporaryTool: {
-    modelToolName: 'updateCart',
-    description: 'Add, remove, clear, or update items in the shopping cart. Use "add" to add items with optional quantity (default 1), "remove" to remove a specific product, "clear" to empty the entire cart, or "update" to change quantity of an existing item.',
-    dynamicParameters: [
-      {
-        name: 'action',
-        location: ParameterLocation.BODY,
-        schema: {
-          type: 'string',
-          enum: ['add', 'remove', 'clear', 'update'],
-          description: 'The cart action to perform: add (add item), remove (remove item), clear (empty cart), update (change quantity)',
-        },
-        required: true,
-      },
-      {
-        name: 'productId',
-        location: ParameterLocation.BODY,
-        schema: {
-          type: 'number',
-          description: 'The product ID to act on. Required for add, remove, and update actions. Not used for clear.',
-        },
-        required: false,
-      },
-      {
-        name: 'quantity',
-        location: ParameterLocation.BODY,
-        schema: {
-          type: 'number',
-          description: 'Quantity for add or update actions. Must be a positive integer. Defaults to 1 for add action.',
-          minimum: 1,
-        },
-        required: false,
-      },
-    ],
-    client: {},
+export const updateCartTool = defineClientTool({
+  name: 'updateCart',
+  description: 'Add, remove, clear, or update items in the shopping cart. Use "add" to add items with optional quantity (default 1), "remove" to remove a specific product, "clear" to empty the entire cart, or "update" to change quantity of an existing item. For products that come in sizes or colors, pass the size and color the user chose.',
+  params: {
+    action: {
+      type: 'string',
+      enum: ['add', 'remove', 'clear', 'update'],
+      description: 'The cart action to perform: add (add item), remove (remove item), clear (empty cart), update (change quantity)',
+      required: true,
+    },
+    productId: {
+      type: 'number',
+      integer: true,
+      minimum: 1,
+      description: 'The product ID to act on. Required for add, remove, and update actions. Not used for clear.',
+      validate: (productId, { productIds }) =>
+        productIds.has(productId)
+          ? null
+          : `productId ${productId} is not in the catalog; use the ID of a product shown to the user, or omit it to use the open product`,
+    },
+    quantity: {
+      type: 'number',
+      integer: true,
+      minimum: 1,
+      maximum: MAX_TOOL_QUANTITY,
+      description: `Quantity for add or update actions. Must be a whole number from 1 to ${MAX_TOOL_QUANTITY}. Defaults to 1 for add action.`,
+    },
+    size: {
+      type: 'string',
+      maxLength: 30,
+      description: 'Size the user chose, as they said it, e.g. "M" or "medium". Only for products that come in sizes.',
+    },
+    color: {
+      type: 'string',
+      maxLength: 30,
+      description: 'Color the user chose, e.g. "black". Only for products that come in colors.',
+    },
   },
-};
+  handler: ({ action, productId, quantity, size, color }) =>
+    request(CLIENT_TOOL_EVENTS.CART_UPDATE, {
+      action,
+      productId,
+      quantity,
+      ...(size || color ? { variant: { ...(size ? { size } : {}), ...(color ? { color } : {}) } } : {}),
+    }),
+  confirmation: ({ action, productId, quantity }, policy) => {
+    if (action === 'clear') {
+      return policy.clearCart ? { reason: 'clearCart', summary: 'clear the cart' } : null;
+    }
+    const units = action === 'add' ? quantity ?? 1 : action === 'update' ? quantity : undefined;
+    if (units === undefined || policy.largeQuantity === null || units < policy.largeQuantity) {
+      return null;
+    }
+    const product = productId !== undefined ? `product ${productId}` : 'the open product';
+    return {
+      reason: 'largeQuantity',
+      summary: action === 'add' ? `add ${units} of ${product} to the cart` : `set ${product} to ${units} in the cart`,
+      quantity: units,
+    };
+  },
+});
 
 /**
- * Navigate Product Tool Definition
+ * Navigate Product Tool
  * Allows voice commands to navigate between products
  * Requirement 3.2, 3.3
  */
-export const navigateProductTool: SelectedTool = {
-  temporaryTool: {
-    modelToolName: 'navigateProduct',
-    description: 'Navigate to the next or previous product in the display. Use "next" to move forward or "previous" to move backward through the product list.',
-    dynamicParameters: [
-      {
-        name: 'direction',
-        location: ParameterLocation.BODY,
-        schema: {
-          type: 'string',
-          enum: ['next', 'previous'],
-          description: 'Navigation direction: next (forward) or previous (backward)',
-        },
-        required: true,
-      },
-    ],
-    client: {},
+export const navigateProductTool = defineClientTool({
+  name: 'navigateProduct',
+  description: 'Navigate to the next or previous product in the display. Use "next" to move forward or "previous" to move backward through the product list.',
+  params: {
+    direction: {
+      type: 'string',
+      enum: ['next', 'previous'],
+      description: 'Navigation direction: next (forward) or previous (backward)',
+      required: true,
+    },
   },
-};
+  handler: ({ direction }) => request(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE, { direction }),
+});
 
 /**
- * Filter Category Tool Definition
- * Allows voice commands to filter products by category
+ * Filter Category Tool
+ * The enum and description are generated from the catalog so new categories
+ * are available to the model without code changes.
  * Requirement 3.1
  */
-export const filterCategoryTool: SelectedTool = {
-  temporaryTool: {
-    modelToolName: 'filterCategory',
-    description: 'Filter products by category or show all products. Available categories: electronics, jewelery, men\'s clothing, women\'s clothing. Use "all" to show all products without filtering.',
-    dynamicParameters: [
-      {
-        name: 'category',
-        location: ParameterLocation.BODY,
-        schema: {
-          type: 'string',
-          enum: ['electronics', 'jewelery', "men's clothing", "women's clothing", 'all'],
-          description: 'Category to filter by, or "all" to show all products',
-        },
-        required: true,
-      },
-    ],
-    client: {},
+export const filterCategoryTool = defineClientTool({
+  name: 'filterCategory',
+  description: ({ categories }) =>
+    `Filter products by category or show all products. Available categories: ${categories.join(', ')}. Use "all" to show all products without filtering.`,
+  params: {
+    category: {
+      type: 'string',
+      enum: ({ categories }) => [...categories, 'all'],
+      description: 'Category to filter by, or "all" to show all products',
+      required: true,
+    },
   },
-};
+  handler: ({ category }) => request(CLIENT_TOOL_EVENTS.CATEGORY_FILTER, { category }),
+});
 
 /**
- * Read Product Details Tool Definition
+ * Read Product Details Tool
  * Allows voice assistant to read the current product's details aloud
  * Requirement 3.4
  */
-export const readProductDetailsTool: SelectedTool = {
-  temporaryTool: {
-    modelToolName: 'readProductDetails',
-    description: 'Read the currently displayed product\'s title, price, and description aloud. Use this when the user asks "tell me about this product" or similar queries.',
-    dynamicParameters: [],
-    client: {},
-  },
-};
+export const readProductDetailsTool = defineClientTool({
+  name: 'readProductDetails',
+  description: 'Read the currently displayed product\'s title, price, and description aloud. Use this when the user asks "tell me about this product" or similar queries.',
+  params: {},
+  // 0 indicates "current product"
+  handler: () => request(CLIENT_TOOL_EVENTS.READ_PRODUCT, { productId: 0 }),
+});
 
 /**
- * Read Cart Summary Tool Definition
+ * Read Cart Summary Tool
  * Allows voice assistant to read the shopping cart contents and total aloud
  * Requirement 5.4
  */
-export const readCartSummaryTool: SelectedTool = {
-  temporaryTool: {
-    modelToolName: 'readCartSummary',
-    description: 'Read the shopping cart contents and total price aloud. Use this when the user asks "what\'s in my cart", "show my cart", or similar queries. Returns a summary of all items with quantities and the total price.',
-    dynamicParameters: [],
-    client: {},
-  },
-};
+export const readCartSummaryTool = defineClientTool({
+  name: 'readCartSummary',
+  description: 'Read the shopping cart contents and total price aloud. Use this when the user asks "what\'s in my cart", "show my cart", or similar queries. Returns a summary of all items with quantities and the total price.',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.READ_CART, {}),
+});
 
 /**
- * Close Product Detail Tool Definition
+ * Close Product Detail Tool
  * Allows voice assistant to close the product detail view
  */
-export const closeProductTool: SelectedTool = {
-  temporaryTool: {
-    modelToolName: 'closeProduct',
-    description: 'Close the currently open product detail card/modal. Use this when the user says "close this", "go back", "exit", or wants to return to the product grid.',
-    dynamicParameters: [],
-    client: {},
-  },
-};
+export const closeProductTool = defineClientTool({
+  name: 'closeProduct',
+  description: 'Close the currently open product detail card/modal. Use this when the user says "close this", "exit", or wants to return to the product grid.',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.CLOSE_PRODUCT, {}),
+});
 
 /**
- * Open Cart Tool Definition
+ * Open Cart Tool
  * Allows voice assistant to open the shopping cart view
  */
-export const openCartTool: SelectedTool = {
-  temporaryTool: {
-    modelToolName: 'openCart',
-    description: 'Open the shopping cart overlay to show cart contents. Use this when the user says "open cart", "show cart", "checkout", or wants to review their cart.',
-    dynamicParameters: [],
-    client: {},
+export const openCartTool = defineClientTool({
+  name: 'openCart',
+  description: 'Open the shopping cart overlay to show cart contents. Use this when the user says "open cart", "show cart", or wants to review their cart. To buy, use startCheckout instead.',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.OPEN_CART, {}),
+});
+
+/**
+ * Apply Coupon Tool
+ * Allows voice commands to apply a coupon code to the cart
+ */
+export const applyCouponTool = defineClientTool({
+  name: 'applyCoupon',
+  description: 'Apply a coupon code to the cart, replacing any coupon already applied. Use this when the user says "apply code DIWALI10" or "use coupon FLAT200". The result has the discount and the new total, or why the code does not apply (unknown code, no eligible items, or the minimum order not met); tell the user that reason.',
+  params: {
+    code: {
+      type: 'string',
+      required: true,
+      maxLength: 20,
+      description: 'The coupon code as the user said it, e.g. "DIWALI10". Spaces and case do not matter.',
+      validate: (code) => (code.trim() ? null : 'code must not be empty'),
+    },
+  },
+  handler: ({ code }) => request(CLIENT_TOOL_EVENTS.APPLY_COUPON, { code: code.trim() }),
+});
+
+/**
+ * Remove Coupon Tool
+ * Allows voice commands to take the coupon off the cart
+ */
+export const removeCouponTool = defineClientTool({
+  name: 'removeCoupon',
+  description: 'Remove the coupon code from the cart. Use this when the user says "remove the coupon" or "don\'t use that code".',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.REMOVE_COUPON, {}),
+});
+
+/**
+ * Undo Last Action Tool
+ * Allows voice commands to take back the latest cart change
+ */
+export const undoLastActionTool = defineClientTool({
+  name: 'undoLastAction',
+  description: 'Undo the latest change to the cart: an item added or removed, a quantity changed, the cart cleared or a coupon applied or removed. Use this when the user says "undo that", "put it back" or "I didn\'t mean that", especially right after you changed the cart. Each call undoes one more change; the result says what was undone.',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.UNDO_CART, {}),
+});
+
+/**
+ * Search Products Tool
+ * Allows voice commands to find products by name or description
+ */
+export const searchProductsTool = defineClientTool({
+  name: 'searchProducts',
+  description: 'Search the catalog by free text and show the matching products, best match first. Use this when the user asks to find a specific item, e.g. "find me a backpack" or "show me gold rings". Pass an empty query to clear the search and show all products again.',
+  params: {
+    query: {
+      type: 'string',
+      maxLength: 100,
+      description: 'What the user is looking for, e.g. "backpack" or "cotton jacket". Use an empty string to clear the search.',
+      required: true,
+    },
+  },
+  handler: ({ query }) => request(CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS, { query: query.trim() }),
+});
+
+/**
+ * Sort and Filter Products Tool
+ * Allows voice commands combining category, price, rating, tag and sort order
+ */
+export const sortAndFilterProductsTool = defineClientTool({
+  name: 'sortAndFilterProducts',
+  description: 'Sort and filter the product list in one step. Combine any of: category, price range in Indian Rupees, minimum star rating, demand tag (BESTSELLER or HOT) and sort order. Example: "show jewelery under ₹5,000 sorted by rating" is category "jewelery", maxPrice 5000, sort "rating-desc". Omitted parameters keep their current value; set reset to true to clear previous sorting and filters first.',
+  params: {
+    category: {
+      type: 'string',
+      enum: ({ categories }) => [...categories, 'all'],
+      description: 'Category to show, or "all" for every category',
+    },
+    sort: {
+      type: 'string',
+      enum: [...PRODUCT_SORT_OPTIONS, 'none'],
+      description: 'Sort order: price-asc (cheapest first), price-desc (most expensive first), rating-desc (best rated first), reviews-desc (most reviewed first), tag-desc (BESTSELLER then HOT first), or none for the default order',
+    },
+    minPrice: {
+      type: 'number',
+      minimum: 0,
+      description: 'Minimum price in Indian Rupees (₹)',
+    },
+    maxPrice: {
+      type: 'number',
+      minimum: 0,
+      description: 'Maximum price in Indian Rupees (₹), e.g. 5000 for "under ₹5,000"',
+    },
+    minRating: {
+      type: 'number',
+      minimum: 0,
+      maximum: 5,
+      description: 'Minimum star rating from 0 to 5, e.g. 4 for "4 stars and up"',
+    },
+    tag: {
+      type: 'string',
+      enum: [...PRODUCT_TAG_FILTERS, 'any'],
+      description: 'Only show BESTSELLER or HOT items, or "any" to stop filtering by tag',
+    },
+    reset: {
+      type: 'boolean',
+      description: 'Clear all current sorting and filters before applying the other parameters',
+    },
+  },
+  handler: ({ category, sort, minPrice, maxPrice, minRating, tag, reset }) => {
+    if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+      return toolFailure('invalid', 'minPrice cannot be greater than maxPrice');
+    }
+
+    const facets: Partial<ProductFacets> = {};
+    if (minPrice !== undefined) facets.minPrice = minPrice;
+    if (maxPrice !== undefined) facets.maxPrice = maxPrice;
+    if (minRating !== undefined) facets.minRating = minRating;
+    if (tag !== undefined) facets.tag = tag === 'any' ? null : tag;
+
+    const detail: SortAndFilterDetail = { facets, reset: reset === true };
+    if (category) detail.category = category;
+    if (sort !== undefined) detail.sort = sort === 'none' ? null : sort;
+
+    return request(CLIENT_TOOL_EVENTS.SORT_FILTER, detail);
+  },
+});
+
+/**
+ * Go To Product Tool
+ * Allows voice commands to open a product by ID, position in the list or title
+ * Requirement 3.2, 3.3
+ */
+export const goToProductTool = defineClientTool({
+  name: 'goToProduct',
+  description: 'Open a specific product card. Pass exactly one of: productId (an ID from an earlier tool result), position (1-based position in the current list, e.g. 3 for "the third one") or title (part of the product name, e.g. "leather jacket").',
+  params: {
+    productId: {
+      type: 'number',
+      integer: true,
+      minimum: 1,
+      description: 'ID of the product to open, taken from an earlier tool result',
+      validate: (productId, { productIds }) =>
+        productIds.has(productId)
+          ? null
+          : `productId ${productId} is not in the catalog; use position or title instead`,
+    },
+    position: {
+      type: 'number',
+      integer: true,
+      minimum: 1,
+      description: '1-based position in the products currently listed, e.g. 1 for "the first one"',
+    },
+    title: {
+      type: 'string',
+      maxLength: 100,
+      description: 'Part of the product title, e.g. "backpack"',
+    },
+  },
+  handler: ({ productId, position, title }) => {
+    const trimmedTitle = title?.trim() || undefined;
+    const given = [productId, position, trimmedTitle].filter((value) => value !== undefined);
+    if (given.length !== 1) {
+      return toolFailure('invalid', 'Pass exactly one of productId, position or title');
+    }
+
+    const target: GoToProductDetail = productId !== undefined
+      ? { productId }
+      : position !== undefined
+        ? { position }
+        : { title: trimmedTitle ?? '' };
+
+    return request(CLIENT_TOOL_EVENTS.GO_TO_PRODUCT, target);
+  },
+});
+
+/**
+ * Go Back Tool
+ * Allows voice commands to return to the previously viewed product, category or cart
+ */
+export const goBackTool = defineClientTool({
+  name: 'goBack',
+  description: 'Go back to what the user was looking at before: the previous product, category, search results or the cart, like a browser back button. Use this when the user says "go back", "back to the previous one" or "where was I". Use closeProduct instead to simply close the open product card.',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.GO_BACK, {}),
+});
+
+/**
+ * Go Forward Tool
+ * Allows voice commands to undo a goBack
+ */
+export const goForwardTool = defineClientTool({
+  name: 'goForward',
+  description: 'Go forward again to the view the user left with goBack, like a browser forward button. Use this when the user says "go forward" or "undo going back".',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.GO_FORWARD, {}),
+});
+
+/**
+ * Update Watchlist Tool
+ * Allows voice commands to track products for selling, with notes and a target price
+ */
+export const updateWatchlistTool = defineClientTool({
+  name: 'updateWatchlist',
+  description: 'Track products on the seller watchlist, separate from the shopping cart. Use "add" to track a product (optionally with a note and target price), "remove" to stop tracking it, "update" to change the note or target price of a tracked product, or "clear" to empty the watchlist. Without productId, acts on the open product.',
+  params: {
+    action: {
+      type: 'string',
+      enum: ['add', 'remove', 'clear', 'update'],
+      description: 'The watchlist action to perform: add (track), remove (stop tracking), update (change note or target price), clear (empty the watchlist)',
+      required: true,
+    },
+    productId: {
+      type: 'number',
+      integer: true,
+      minimum: 1,
+      description: 'The product ID to act on. Omit it to use the open product. Not used for clear.',
+      validate: (productId, { productIds }) =>
+        productIds.has(productId)
+          ? null
+          : `productId ${productId} is not in the catalog; use the ID of a product shown to the user, or omit it to use the open product`,
+    },
+    note: {
+      type: 'string',
+      maxLength: MAX_WATCHLIST_NOTE_LENGTH,
+      description: 'Short note to keep with the product, e.g. "check supplier price". An empty string removes the note.',
+    },
+    targetPrice: {
+      type: 'number',
+      minimum: 0,
+      description: 'Price in Rupees the seller is waiting for, e.g. 1500. Pass 0 to remove the target price.',
+    },
   },
-};
+  handler: ({ action, productId, note, targetPrice }) =>
+    request(CLIENT_TOOL_EVENTS.WATCHLIST_UPDATE, {
+      action,
+      productId,
+      note,
+      targetPrice: targetPrice === undefined ? undefined : targetPrice > 0 ? targetPrice : null,
+    }),
+});
+
+/**
+ * Read Watchlist Summary Tool
+ * Allows voice assistant to read the tracked products aloud
+ */
+export const readWatchlistSummaryTool = defineClientTool({
+  name: 'readWatchlistSummary',
+  description: 'Read the seller watchlist: tracked products with their current price, target price, notes, date added and demand tag then and now. Use this when the user asks "what am I tracking" or "what\'s on my watchlist".',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.READ_WATCHLIST, {}),
+});
 
 /**
- * All client tools array for easy registration with Ultravox
+ * Open Watchlist Tool
+ * Allows voice assistant to open the watchlist view
+ */
+export const openWatchlistTool = defineClientTool({
+  name: 'openWatchlist',
+  description: 'Open the watchlist overlay showing the tracked products. Use this when the user says "open watchlist" or "show tracked items".',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.OPEN_WATCHLIST, {}),
+});
+
+/**
+ * How long placeOrder waits for the payment provider
+ */
+const PLACE_ORDER_TIMEOUT_MS = 15_000;
+
+/**
+ * Start Checkout Tool
+ * Allows voice commands to begin checking out the cart
+ */
+export const startCheckoutTool = defineClientTool({
+  name: 'startCheckout',
+  description: 'Start checkout for the items in the cart, opening the order review. Use this when the user says "checkout", "buy these" or "place my order". Checkout then needs a shipping address (setShippingAddress), a delivery option (selectDeliveryOption) and payment (placeOrder); the result says which step is next.',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.START_CHECKOUT, {}),
+});
+
+/**
+ * Set Shipping Address Tool
+ * Allows voice commands to fill in the shipping address, a few fields at a time
+ */
+export const setShippingAddressTool = defineClientTool({
+  name: 'setShippingAddress',
+  description: 'Fill in the checkout shipping address. Pass only the fields the user gave; the others keep their current value. The result lists the fields still missing or invalid (addressProblems) — ask the user for those. Once the address is complete, checkout moves on to choosing delivery.',
+  params: {
+    fullName: { type: 'string', maxLength: 100, description: 'Name of the person receiving the order' },
+    phone: {
+      type: 'string',
+      maxLength: 20,
+      description: '10-digit Indian mobile number, e.g. "9876543210"',
+      validate: (phone) => (isValidPhone(phone) ? null : `phone "${phone}" is not a 10-digit Indian mobile number`),
+    },
+    line1: { type: 'string', maxLength: 200, description: 'House number, building and street' },
+    line2: { type: 'string', maxLength: 200, description: 'Landmark or area (optional)' },
+    city: { type: 'string', maxLength: 100, description: 'City or town' },
+    state: { type: 'string', maxLength: 100, description: 'State or union territory, e.g. "Karnataka"' },
+    pinCode: {
+      type: 'string',
+      maxLength: 10,
+      description: '6-digit Indian PIN code, e.g. "560001"',
+      validate: (pinCode) =>
+        isValidPinCode(pinCode) ? null : `pinCode "${pinCode}" is not a valid 6-digit Indian PIN code; ask the user to repeat it`,
+    },
+  },
+  handler: (address) => request(CLIENT_TOOL_EVENTS.SET_SHIPPING_ADDRESS, address),
+});
+
+/**
+ * Select Delivery Option Tool
+ * Allows voice commands to choose standard or express delivery
+ */
+export const selectDeliveryOptionTool = defineClientTool({
+  name: 'selectDeliveryOption',
+  description: 'Choose how the order is delivered: "standard" (4-7 days, ₹49) or "express" (1-2 days, ₹149). Needs a complete shipping address first. Checkout then moves on to payment.',
+  params: {
+    delivery: {
+      type: 'string',
+      enum: DELIVERY_OPTION_IDS,
+      description: 'Delivery option: standard or express',
+      required: true,
+    },
+  },
+  handler: ({ delivery }) => request(CLIENT_TOOL_EVENTS.SELECT_DELIVERY, { delivery }),
+});
+
+/**
+ * Place Order Tool
+ * Allows voice commands to pay and place the order
+ */
+export const placeOrderTool = defineClientTool({
+  name: 'placeOrder',
+  description: 'Pay for the order and place it. Only call this after the user has heard the total and clearly agreed to pay. Needs a shipping address and delivery option first. The result has the order ID to read back, or why payment failed.',
+  params: {
+    paymentMethod: {
+      type: 'string',
+      enum: PAYMENT_METHODS,
+      description: 'How to pay: upi, card or cod (cash on delivery). Omit to use the method selected on screen.',
+    },
+  },
+  handler: ({ paymentMethod }) =>
+    request(CLIENT_TOOL_EVENTS.PLACE_ORDER, { paymentMethod }, { timeoutMs: PLACE_ORDER_TIMEOUT_MS }),
+  confirmation: (_params, policy) =>
+    policy.placeOrder ? { reason: 'placeOrder', summary: 'pay for and place the order' } : null,
+});
+
+/**
+ * Close Checkout Tool
+ * Allows voice commands to leave checkout, keeping the cart and the details entered
+ */
+export const closeCheckoutTool = defineClientTool({
+  name: 'closeCheckout',
+  description: 'Leave checkout and go back to the cart. The address and delivery choice are kept for next time. Use this when the user says "cancel checkout" or "not now".',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.CLOSE_CHECKOUT, {}),
+});
+
+/**
+ * List Orders Tool
+ * Allows voice commands to review past orders
+ */
+export const listOrdersTool = defineClientTool({
+  name: 'listOrders',
+  description: 'Open the order history and read the most recent orders: order ID, date, items and total. Use this when the user asks "what did I order", "show my orders" or "my last order".',
+  params: {},
+  handler: () => request(CLIENT_TOOL_EVENTS.LIST_ORDERS, {}),
+});
+
+/**
+ * Reorder Tool
+ * Allows voice commands to add the items of a past order to the cart
+ */
+export const reorderTool = defineClientTool({
+  name: 'reorder',
+  description: 'Add every item of a past order to the cart again, at today\'s prices. Items no longer sold are left out and listed in the result; tell the user about them. This only fills the cart; use startCheckout to buy. Use this when the user says "order that again" or "reorder my last order".',
+  params: {
+    orderId: {
+      type: 'string',
+      maxLength: 40,
+      description: 'Order ID from listOrders, or just its last characters (e.g. "4F7Q2A"). Omit it for the most recent order.',
+    },
+  },
+  handler: ({ orderId }) => request(CLIENT_TOOL_EVENTS.REORDER, { orderId: orderId?.trim() || undefined }),
+});
+
+/**
+ * Confirm Pending Action Tool
+ * Allows voice commands to carry out an action that asked for confirmation
+ */
+export const confirmPendingActionTool = defineClientTool({
+  name: 'confirmPendingAction',
+  description: 'Carry out the action waiting for confirmation, after a tool returned code "needsConfirmation". Only call this when the user has clearly said yes ("yes", "go ahead", "confirm") to that action. The result is the result of the action itself.',
+  params: {},
+  handler: () => confirmPendingAction(),
+});
+
+/**
+ * Cancel Pending Action Tool
+ * Allows voice commands to drop an action that asked for confirmation
+ */
+export const cancelPendingActionTool = defineClientTool({
+  name: 'cancelPendingAction',
+  description: 'Drop the action waiting for confirmation without doing it. Use this when the user says "no", "cancel" or "never mind" after being asked to confirm, or asks for something else instead.',
+  params: {},
+  handler: () => {
+    const action = cancelPendingAction();
+    return action
+      ? toolSuccess(`Cancelled: did not ${action.summary}.`)
+      : toolSuccess('Nothing was waiting for confirmation.');
+  },
+});
+
+/**
+ * All client tools for the known default categories
  * Export this array to include all tools in the voice session configuration
  */
-export const allClientTools: SelectedTool[] = [
-  updateCartTool,
-  navigateProductTool,
-  filterCategoryTool,
-  readProductDetailsTool,
-  readCartSummaryTool,
-  closeProductTool,
-  openCartTool,
-];
-
-/**
- * Client tool implementations for Ultravox
- */
-
-/**
- * Update Cart Tool Implementation
- * Handles voice commands to add, remove, clear, or update cart items
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const updateCartToolImplementation = (parameters: any) => {
-  const { action, productId, quantity } = parameters;
-  console.log('[updateCart] Tool called with:', { action, productId, quantity });
-  
-  dispatchCartUpdate(action, productId, quantity);
-  
-  return `Cart ${action} action completed successfully`;
-};
-
-/**
- * Navigate Product Tool Implementation
- * Handles voice commands to navigate between products
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const navigateProductToolImplementation = (parameters: any) => {
-  const { direction } = parameters;
-  console.log('[navigateProduct] Tool called with:', { direction });
-  
-  dispatchProductNavigate(direction);
-  
-  return `Navigated to ${direction} product`;
-};
-
-/**
- * Filter Category Tool Implementation
- * Handles voice commands to filter products by category
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export const filterCategoryToolImplementation = (parameters: any) => {
-  const { category } = parameters;
-  console.log('[filterCategory] Tool called with:', { category });
-  
-  dispatchCategoryFilter(category);
-  
-  return `Filtered to ${category === 'all' ? 'all products' : category}`;
-};
-
-/**
- * Read Product Details Tool Implementation
- * Handles voice commands to read current product details
- */
-export const readProductDetailsToolImplementation = () => {
-  console.log('[readProductDetails] Tool called');
-  
-  dispatchReadProduct(0); // 0 indicates "current product"
-  
-  return 'Reading product details';
-};
-
-/**
- * Read Cart Summary Tool Implementation
- * Handles voice commands to read cart contents
- */
-export const readCartSummaryToolImplementation = () => {
-  console.log('[readCartSummary] Tool called');
-  
-  dispatchReadCart();
-  
-  return 'Reading cart summary';
-};
-
-/**
- * Close Product Tool Implementation
- * Handles voice commands to close product detail view
- */
-export const closeProductToolImplementation = () => {
-  console.log('[closeProduct] Tool called');
-  
-  dispatchCloseProduct();
-  
-  return 'Closed product detail view';
-};
-
-/**
- * Open Cart Tool Implementation
- * Handles voice commands to open cart
- */
-export const openCartToolImplementation = () => {
-  console.log('[openCart] Tool called');
-  
-  dispatchOpenCart();
-  
-  return 'Opened shopping cart';
-};
+export const allClientTools: SelectedTool[] = getClientToolSchemas();
+
+/**
+ * Get the client tools for a voice session
+ * Rebuilds the category-aware tool schemas from the categories in the catalog.
+ *
+ * @param categories - Category IDs present in the catalog (defaults to the known set)
+ * @returns Client tools array for the Ultravox call configuration
+ */
+export function getClientTools(categories: ProductCategory[] = KNOWN_CATEGORY_IDS): SelectedTool[] {
+  return getClientToolSchemas({
+    categories: categories.length > 0 ? categories : KNOWN_CATEGORY_IDS,
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * Confirmation for voice actions that are hard to take back
+ *
+ * A tool can be marked as needing confirmation (see `confirmation` on
+ * ClientToolDefinition). When the active persona's ConfirmationPolicy says a
+ * call needs it, the call is held as the pending action instead of running:
+ * the model is told to ask the user, and the pending action is shown on
+ * screen. It runs when confirmed, by voice (confirmPendingAction) or by
+ * button, and is dropped when cancelled, replaced or expired.
+ */
+
+import { toolFailure, ToolOutcome } from './toolOutcome';
+
+/**
+ * When to ask before acting; set per persona
+ */
+export interface ConfirmationPolicy {
+  /** Ask before emptying the cart */
+  clearCart: boolean;
+  /** Ask before adding or setting this many units of a product or more; never when null */
+  largeQuantity: number | null;
+  /** Ask before paying for an order */
+  placeOrder: boolean;
+}
+
+export const DEFAULT_CONFIRMATION_POLICY: ConfirmationPolicy = {
+  clearCart: true,
+  largeQuantity: 10,
+  placeOrder: true,
+};
+
+/**
+ * Why an action needs confirmation
+ */
+export type ConfirmationReason = 'clearCart' | 'largeQuantity' | 'placeOrder';
+
+/**
+ * What a tool asks the user to confirm
+ */
+export interface ConfirmationRequest {
+  reason: ConfirmationReason;
+  /** What will happen, phrased for the assistant, e.g. "clear the cart" */
+  summary: string;
+  /** Units involved, for largeQuantity */
+  quantity?: number;
+}
+
+/**
+ * An action waiting for the user to confirm it
+ */
+export interface PendingAction extends ConfirmationRequest {
+  /** Increases with each pending action */
+  id: number;
+  /** Tool whose call is held */
+  toolName: string;
+  /** When it was held (ms since epoch) */
+  requestedAt: number;
+}
+
+/**
+ * How long a pending action can be confirmed, in milliseconds
+ * Long enough to answer, short enough that a stray "yes" later does nothing.
+ */
+export const PENDING_ACTION_TTL_MS = 60_000;
+
+/**
+ * Check whether a pending action can no longer be confirmed
+ */
+export function isPendingActionExpired(action: PendingAction, now: number = Date.now()): boolean {
+  return now - action.requestedAt > PENDING_ACTION_TTL_MS;
+}
+
+/**
+ * Active policy (the persona's, see setConfirmationPolicy)
+ */
+let activePolicy: ConfirmationPolicy = DEFAULT_CONFIRMATION_POLICY;
+
+/**
+ * Get the active confirmation policy
+ */
+export function getConfirmationPolicy(): ConfirmationPolicy {
+  return activePolicy;
+}
+
+/**
+ * Replace the active confirmation policy, e.g. when the persona changes
+ * Pass null to go back to DEFAULT_CONFIRMATION_POLICY.
+ *
+ * @param policy - Policy to use, or null to reset
+ */
+export function setConfirmationPolicy(policy: ConfirmationPolicy | null): void {
+  activePolicy = policy ?? DEFAULT_CONFIRMATION_POLICY;
+}
+
+/**
+ * The held action with the call that carries it out
+ */
+let pending: { action: PendingAction; run: () => Promise<ToolOutcome> } | null = null;
+let nextPendingId = 1;
+const listeners = new Set<(action: PendingAction | null) => void>();
+
+function setPending(next: typeof pending): void {
+  pending = next;
+  const action = next?.action ?? null;
+  listeners.forEach((listener) => listener(action));
+}
+
+/**
+ * Get the action waiting for confirmation
+ *
+ * @returns The pending action, or null if there is none or it has expired
+ */
+export function getPendingAction(): PendingAction | null {
+  if (pending && isPendingActionExpired(pending.action)) {
+    setPending(null);
+  }
+  return pending?.action ?? null;
+}
+
+/**
+ * Listen for the pending action changing
+ *
+ * @param listener - Called with the new pending action, or null once it is resolved
+ * @returns Function that stops listening
+ */
+export function subscribePendingAction(listener: (action: PendingAction | null) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Hold an action until the user confirms it
+ * Replaces any action already waiting.
+ *
+ * @param toolName - Tool whose call is held
+ * @param request - What the user is asked to confirm
+ * @param run - Carries out the action once confirmed
+ * @returns The pending action
+ */
+export function holdPendingAction(
+  toolName: string,
+  request: ConfirmationRequest,
+  run: () => ToolOutcome | Promise<ToolOutcome>
+): PendingAction {
+  const action: PendingAction = { ...request, id: nextPendingId++, toolName, requestedAt: Date.now() };
+  setPending({ action, run: async () => run() });
+  return action;
+}
+
+/**
+ * Carry out the pending action
+ *
+ * @returns What the action did, or why there was nothing to confirm
+ */
+export async function confirmPendingAction(): Promise<ToolOutcome> {
+  const held = pending;
+  if (!held) {
+    return toolFailure('notFound', 'Nothing is waiting for confirmation.');
+  }
+
+  setPending(null);
+  if (isPendingActionExpired(held.action)) {
+    return toolFailure('unavailable', `Asking to ${held.action.summary} expired. Ask again if the user still wants it.`);
+  }
+  return held.run();
+}
+
+/**
+ * Drop the pending action without carrying it out
+ *
+ * @returns The action dropped, or null if nothing was waiting
+ */
+export function cancelPendingAction(): PendingAction | null {
+  const action = pending?.action ?? null;
+  if (action) {
+    setPending(null);
+  }
+  return action;
+}
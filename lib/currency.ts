@@ -8,8 +8,12 @@ export function convertToINR(usdPrice: number): number {
   return Math.round(usdPrice * USD_TO_INR_RATE);
 }
 
+/**
+ * Format an INR amount, showing paise only when there are any, e.g. "₹2,489" or "₹448.02"
+ */
 export function formatINR(price: number): string {
-  return `₹${price.toLocaleString('en-IN')}`;
+  const paise = Number.isInteger(price) ? 0 : 2;
+  return `₹${price.toLocaleString('en-IN', { minimumFractionDigits: paise, maximumFractionDigits: 2 })}`;
 }
 
 export function formatPrice(usdPrice: number): string {
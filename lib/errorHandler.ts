@@ -9,11 +9,18 @@
  * - 10.5: Log errors to the console for debugging purposes
  */
 
+import { isFetchError } from './fetchWithRetry';
+import { APP_EVENTS, emit } from './eventBus';
+
 /**
  * Error context types for categorizing errors
  */
 export type ErrorContext =
   | 'fetchProducts'
+  | 'fetchTimeout'
+  | 'fetchOffline'
+  | 'catalogUnavailable'
+  | 'catalogInvalidData'
   | 'voiceSession'
   | 'cartOperation'
   | 'localStorage'
@@ -37,6 +44,10 @@ export interface AppErrorDetail {
  */
 const USER_FRIENDLY_MESSAGES: Record<ErrorContext, string> = {
   fetchProducts: 'Unable to load products. Please try again.',
+  fetchTimeout: 'The store is taking too long to respond. Please try again.',
+  fetchOffline: 'You appear to be offline. Check your internet connection and try again.',
+  catalogUnavailable: 'The store is temporarily unavailable. Please try again in a few minutes.',
+  catalogInvalidData: 'The store sent data we could not read. Please try again later.',
   voiceSession: 'Connection failed. Please try again.',
   cartOperation: 'Unable to update cart. Please try again.',
   localStorage: 'Unable to save your cart. Your items will be available during this session only.',
@@ -46,6 +57,42 @@ const USER_FRIENDLY_MESSAGES: Record<ErrorContext, string> = {
   unknown: 'Something went wrong. Please try again.',
 };
 
+/**
+ * Get the user-friendly message for an error context
+ * Requirement 10.4: Clear error messages without technical jargon
+ */
+export function getUserFriendlyMessage(context: ErrorContext): string {
+  return USER_FRIENDLY_MESSAGES[context] || USER_FRIENDLY_MESSAGES.unknown;
+}
+
+/**
+ * Classify a product fetch failure into an error context
+ * 
+ * Uses the FetchError kind (and HTTP status) raised by the catalog fetch
+ * layer, so timeouts, offline errors and outages get their own messages.
+ * 
+ * @param error - Error thrown while fetching products
+ * @returns The most specific matching ErrorContext
+ */
+export function classifyFetchError(error: unknown): ErrorContext {
+  if (!isFetchError(error)) {
+    return 'fetchProducts';
+  }
+
+  switch (error.kind) {
+    case 'timeout':
+      return 'fetchTimeout';
+    case 'network':
+      return 'fetchOffline';
+    case 'invalidResponse':
+      return 'catalogInvalidData';
+    case 'http':
+      return error.status !== undefined && error.status >= 500 ? 'catalogUnavailable' : 'fetchProducts';
+    default:
+      return 'fetchProducts';
+  }
+}
+
 /**
  * Centralized error handler
  * 
@@ -69,23 +116,15 @@ export function handleError(error: Error, context: ErrorContext): void {
   console.error(`[${context}]`, error);
   
   // Get user-friendly message based on context
-  const userMessage = USER_FRIENDLY_MESSAGES[context] || USER_FRIENDLY_MESSAGES.unknown;
+  const userMessage = getUserFriendlyMessage(context);
   
-  // Dispatch error event for UI components (only in browser environment)
-  if (typeof window !== 'undefined') {
-    const errorDetail: AppErrorDetail = {
-      message: userMessage,
-      context,
-      originalError: error,
-      timestamp: new Date().toISOString(),
-    };
-    
-    window.dispatchEvent(
-      new CustomEvent('appError', {
-        detail: errorDetail,
-      })
-    );
-  }
+  // Notify UI components through the event bus
+  emit(APP_EVENTS.APP_ERROR, {
+    message: userMessage,
+    context,
+    originalError: error,
+    timestamp: new Date().toISOString(),
+  });
 }
 
 /**
@@ -109,18 +148,13 @@ export function getErrorMessage(error: unknown): string {
 }
 
 /**
- * Create a typed error event listener
+ * Listener for app error events
  * 
  * @example
  * ```typescript
- * useEffect(() => {
- *   const handleAppError = (event: CustomEvent<AppErrorDetail>) => {
- *     setErrorMessage(event.detail.message);
- *   };
- *   
- *   window.addEventListener('appError', handleAppError as EventListener);
- *   return () => window.removeEventListener('appError', handleAppError as EventListener);
- * }, []);
+ * useJarvisEvent(APP_EVENTS.APP_ERROR, (detail) => {
+ *   setErrorMessage(detail.message);
+ * });
  * ```
  */
-export type AppErrorEventListener = (event: CustomEvent<AppErrorDetail>) => void;
+export type AppErrorEventListener = (detail: AppErrorDetail) => void;
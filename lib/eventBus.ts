@@ -0,0 +1,365 @@
+/**
+ * Typed event bus for client tool and app events
+ *
+ * Voice tools, the error handler and the voice session publish events here and
+ * UI components subscribe to them. Listeners are held in memory rather than on
+ * window, so publishing is safe during SSR and in unit tests, and every event
+ * name is checked against the payload type it carries.
+ *
+ * Besides fire-and-forget listeners, each event can have one responder: the UI
+ * handler that carries it out and reports a ToolOutcome. Voice tools use
+ * request() to wait for that outcome and return it to the model.
+ *
+ * Requirements: 3.1, 3.2, 3.3, 5.1, 5.2, 5.3, 5.5
+ */
+
+import type {
+  ApplyCouponDetail,
+  CartUpdateDetail,
+  CategoryFilterDetail,
+  DeliveryOptionDetail,
+  GoToProductDetail,
+  PlaceOrderDetail,
+  ReorderDetail,
+  ProductNavigateDetail,
+  ReadProductDetail,
+  SearchProductsDetail,
+  ShippingAddressDetail,
+  SortAndFilterDetail,
+  WatchlistUpdateDetail,
+} from './types';
+import type { AppErrorDetail } from './errorHandler';
+import { toolFailure, ToolOutcome } from './toolOutcome';
+
+/**
+ * Event names for client tool communication
+ */
+export const CLIENT_TOOL_EVENTS = {
+  CART_UPDATE: 'jarvis:cart:update',
+  PRODUCT_NAVIGATE: 'jarvis:product:navigate',
+  CATEGORY_FILTER: 'jarvis:category:filter',
+  READ_PRODUCT: 'jarvis:product:read',
+  READ_CART: 'jarvis:cart:read',
+  CLOSE_PRODUCT: 'jarvis:product:close',
+  OPEN_CART: 'jarvis:cart:open',
+  SEARCH_PRODUCTS: 'jarvis:product:search',
+  SORT_FILTER: 'jarvis:product:sortFilter',
+  GO_TO_PRODUCT: 'jarvis:product:goTo',
+  GO_BACK: 'jarvis:history:back',
+  GO_FORWARD: 'jarvis:history:forward',
+  WATCHLIST_UPDATE: 'jarvis:watchlist:update',
+  READ_WATCHLIST: 'jarvis:watchlist:read',
+  OPEN_WATCHLIST: 'jarvis:watchlist:open',
+  START_CHECKOUT: 'jarvis:checkout:start',
+  SET_SHIPPING_ADDRESS: 'jarvis:checkout:address',
+  SELECT_DELIVERY: 'jarvis:checkout:delivery',
+  PLACE_ORDER: 'jarvis:checkout:placeOrder',
+  CLOSE_CHECKOUT: 'jarvis:checkout:close',
+  LIST_ORDERS: 'jarvis:orders:list',
+  REORDER: 'jarvis:orders:reorder',
+  APPLY_COUPON: 'jarvis:cart:coupon:apply',
+  REMOVE_COUPON: 'jarvis:cart:coupon:remove',
+  UNDO_CART: 'jarvis:cart:undo',
+} as const;
+
+/**
+ * Event names for application-level notifications
+ */
+export const APP_EVENTS = {
+  APP_ERROR: 'appError',
+  CALL_ENDED: 'jarvis:call:ended',
+} as const;
+
+/**
+ * Payload carried by each event
+ */
+export interface JarvisEventMap {
+  [CLIENT_TOOL_EVENTS.CART_UPDATE]: CartUpdateDetail;
+  [CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE]: ProductNavigateDetail;
+  [CLIENT_TOOL_EVENTS.CATEGORY_FILTER]: CategoryFilterDetail;
+  [CLIENT_TOOL_EVENTS.READ_PRODUCT]: ReadProductDetail;
+  [CLIENT_TOOL_EVENTS.READ_CART]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.CLOSE_PRODUCT]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.OPEN_CART]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.SEARCH_PRODUCTS]: SearchProductsDetail;
+  [CLIENT_TOOL_EVENTS.SORT_FILTER]: SortAndFilterDetail;
+  [CLIENT_TOOL_EVENTS.GO_TO_PRODUCT]: GoToProductDetail;
+  [CLIENT_TOOL_EVENTS.GO_BACK]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.GO_FORWARD]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.WATCHLIST_UPDATE]: WatchlistUpdateDetail;
+  [CLIENT_TOOL_EVENTS.READ_WATCHLIST]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.OPEN_WATCHLIST]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.START_CHECKOUT]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.SET_SHIPPING_ADDRESS]: ShippingAddressDetail;
+  [CLIENT_TOOL_EVENTS.SELECT_DELIVERY]: DeliveryOptionDetail;
+  [CLIENT_TOOL_EVENTS.PLACE_ORDER]: PlaceOrderDetail;
+  [CLIENT_TOOL_EVENTS.CLOSE_CHECKOUT]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.LIST_ORDERS]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.REORDER]: ReorderDetail;
+  [CLIENT_TOOL_EVENTS.APPLY_COUPON]: ApplyCouponDetail;
+  [CLIENT_TOOL_EVENTS.REMOVE_COUPON]: Record<string, never>;
+  [CLIENT_TOOL_EVENTS.UNDO_CART]: Record<string, never>;
+  [APP_EVENTS.APP_ERROR]: AppErrorDetail;
+  [APP_EVENTS.CALL_ENDED]: Record<string, never>;
+}
+
+export type JarvisEventType = keyof JarvisEventMap;
+
+export type JarvisEventListener<K extends JarvisEventType> = (detail: JarvisEventMap[K]) => void;
+
+/**
+ * Handler that carries out an event and reports what happened
+ */
+export type JarvisEventResponder<K extends JarvisEventType> = (
+  detail: JarvisEventMap[K]
+) => ToolOutcome | Promise<ToolOutcome>;
+
+/**
+ * Options for request()
+ */
+export interface JarvisRequestOptions {
+  /** How long to wait for the responder (defaults to DEFAULT_REQUEST_TIMEOUT_MS) */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 5_000;
+
+/**
+ * An emitted event, as seen by onAny listeners
+ */
+export type JarvisEvent = {
+  [K in JarvisEventType]: { type: K; detail: JarvisEventMap[K] };
+}[JarvisEventType];
+
+/**
+ * Publish/subscribe channel for JarvisEventMap events
+ */
+export interface EventBus {
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the listener
+   */
+  on<K extends JarvisEventType>(type: K, listener: JarvisEventListener<K>): () => void;
+  /** Remove a listener added with on */
+  off<K extends JarvisEventType>(type: K, listener: JarvisEventListener<K>): void;
+  /**
+   * Deliver an event to its listeners synchronously, in subscription order,
+   * then to its responder (whose outcome is discarded)
+   */
+  emit<K extends JarvisEventType>(type: K, detail: JarvisEventMap[K]): void;
+  /**
+   * Set the responder for an event, replacing any previous one
+   * @returns Function that removes the responder (if it is still the active one)
+   */
+  respond<K extends JarvisEventType>(type: K, responder: JarvisEventResponder<K>): () => void;
+  /**
+   * Deliver an event like emit and wait for the responder's outcome
+   * Resolves to a failed outcome when there is no responder, it throws, or it
+   * does not answer within the timeout; never rejects.
+   */
+  request<K extends JarvisEventType>(
+    type: K,
+    detail: JarvisEventMap[K],
+    options?: JarvisRequestOptions
+  ): Promise<ToolOutcome>;
+  /**
+   * Subscribe to every event
+   * @returns Function that removes the listener
+   */
+  onAny(listener: (event: JarvisEvent) => void): () => void;
+}
+
+/**
+ * Create an event bus
+ * A listener that throws is logged and does not stop delivery to the others.
+ * A responder that throws is logged and reported as a failed outcome.
+ *
+ * @returns A new, empty EventBus
+ */
+export function createEventBus(): EventBus {
+  const listeners = new Map<JarvisEventType, Set<(detail: never) => void>>();
+  const anyListeners = new Set<(event: JarvisEvent) => void>();
+  const responders = new Map<JarvisEventType, JarvisEventResponder<never>>();
+
+  const safeCall = (type: JarvisEventType, call: () => void) => {
+    try {
+      call();
+    } catch (error) {
+      console.error('[eventBus]', `Listener for "${type}" failed:`, error);
+    }
+  };
+
+  const off: EventBus['off'] = (type, listener) => {
+    listeners.get(type)?.delete(listener);
+  };
+
+  const notify = <K extends JarvisEventType>(type: K, detail: JarvisEventMap[K]) => {
+    // Copy so listeners can unsubscribe while the event is being delivered
+    const set = listeners.get(type);
+    if (set) {
+      for (const listener of Array.from(set) as JarvisEventListener<K>[]) {
+        safeCall(type, () => listener(detail));
+      }
+    }
+    for (const listener of Array.from(anyListeners)) {
+      safeCall(type, () => listener({ type, detail } as JarvisEvent));
+    }
+  };
+
+  const callResponder = async <K extends JarvisEventType>(
+    type: K,
+    detail: JarvisEventMap[K]
+  ): Promise<ToolOutcome> => {
+    const responder = responders.get(type) as JarvisEventResponder<K> | undefined;
+    if (!responder) {
+      return toolFailure('unavailable', 'The shop screen is not ready to do that right now.');
+    }
+
+    try {
+      return await responder(detail);
+    } catch (error) {
+      console.error('[eventBus]', `Responder for "${type}" failed:`, error);
+      return toolFailure('failed', 'Something went wrong while doing that.');
+    }
+  };
+
+  return {
+    on: (type, listener) => {
+      let set = listeners.get(type);
+      if (!set) {
+        set = new Set();
+        listeners.set(type, set);
+      }
+      set.add(listener);
+      return () => off(type, listener);
+    },
+    off,
+    emit: (type, detail) => {
+      notify(type, detail);
+      void callResponder(type, detail);
+    },
+    respond: (type, responder) => {
+      responders.set(type, responder);
+      return () => {
+        if (responders.get(type) === responder) {
+          responders.delete(type);
+        }
+      };
+    },
+    request: (type, detail, options = {}) => {
+      const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+      notify(type, detail);
+
+      return new Promise<ToolOutcome>((resolve) => {
+        const timer = setTimeout(() => {
+          console.error('[eventBus]', `Responder for "${type}" did not answer within ${timeoutMs}ms`);
+          resolve(toolFailure('timeout', 'The shop screen did not respond in time.'));
+        }, timeoutMs);
+
+        callResponder(type, detail).then((outcome) => {
+          clearTimeout(timer);
+          resolve(outcome);
+        });
+      });
+    },
+    onAny: (listener) => {
+      anyListeners.add(listener);
+      return () => {
+        anyListeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Shared application event bus
+ */
+export const eventBus = createEventBus();
+
+/**
+ * Subscribe to an event on the shared bus
+ * @returns Function that removes the listener
+ */
+export function on<K extends JarvisEventType>(type: K, listener: JarvisEventListener<K>): () => void {
+  return eventBus.on(type, listener);
+}
+
+/**
+ * Remove a listener from the shared bus
+ */
+export function off<K extends JarvisEventType>(type: K, listener: JarvisEventListener<K>): void {
+  eventBus.off(type, listener);
+}
+
+/**
+ * Emit an event on the shared bus
+ */
+export function emit<K extends JarvisEventType>(type: K, detail: JarvisEventMap[K]): void {
+  eventBus.emit(type, detail);
+}
+
+/**
+ * Set the responder for an event on the shared bus
+ * @returns Function that removes the responder
+ */
+export function respond<K extends JarvisEventType>(
+  type: K,
+  responder: JarvisEventResponder<K>
+): () => void {
+  return eventBus.respond(type, responder);
+}
+
+/**
+ * Send a request on the shared bus and wait for the responder's outcome
+ */
+export function request<K extends JarvisEventType>(
+  type: K,
+  detail: JarvisEventMap[K],
+  options?: JarvisRequestOptions
+): Promise<ToolOutcome> {
+  return eventBus.request(type, detail, options);
+}
+
+/**
+ * Records events emitted on a bus, for tests
+ */
+export interface EventRecorder {
+  /** Every event emitted since recording started (or the last clear) */
+  readonly events: JarvisEvent[];
+  /** Details of recorded events of one type, in emission order */
+  ofType<K extends JarvisEventType>(type: K): JarvisEventMap[K][];
+  clear(): void;
+  /** Stop recording */
+  stop(): void;
+}
+
+/**
+ * Start recording events emitted on a bus
+ *
+ * @param bus - Bus to record (defaults to the shared bus)
+ * @returns EventRecorder; call stop() when done
+ *
+ * @example
+ * ```typescript
+ * const recorder = createEventRecorder();
+ * dispatchProductNavigate('next');
+ * expect(recorder.ofType(CLIENT_TOOL_EVENTS.PRODUCT_NAVIGATE)).toEqual([{ direction: 'next' }]);
+ * recorder.stop();
+ * ```
+ */
+export function createEventRecorder(bus: EventBus = eventBus): EventRecorder {
+  const events: JarvisEvent[] = [];
+  const stop = bus.onAny((event) => events.push(event));
+
+  return {
+    events,
+    ofType: <K extends JarvisEventType>(type: K) =>
+      events
+        .filter((event) => event.type === type)
+        .map((event) => event.detail as JarvisEventMap[K]),
+    clear: () => {
+      events.length = 0;
+    },
+    stop,
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * Resilient fetch for catalog requests
+ *
+ * Wraps fetch with a per-attempt timeout, retries with exponential backoff
+ * and jitter for network errors, timeouts and 5xx responses, and support for
+ * a caller-supplied AbortSignal. Failures are reported as FetchError so the
+ * UI can tell a timeout from an outage from bad data (see classifyFetchError
+ * in errorHandler.ts).
+ *
+ * Requirements: 2.3, 10.4
+ */
+
+/**
+ * Category of a failed request
+ * - timeout: no response within the timeout
+ * - network: the request never reached the server (offline, DNS, CORS)
+ * - http: the server answered with an error status
+ * - aborted: the caller cancelled the request
+ * - invalidResponse: the response body was not in the expected shape
+ */
+export type FetchErrorKind = 'timeout' | 'network' | 'http' | 'aborted' | 'invalidResponse';
+
+/**
+ * Error raised by the catalog fetch layer
+ */
+export class FetchError extends Error {
+  readonly kind: FetchErrorKind;
+  /** HTTP status for 'http' errors */
+  readonly status?: number;
+  /** Number of attempts made before giving up */
+  readonly attempts: number;
+
+  constructor(
+    message: string,
+    kind: FetchErrorKind,
+    details: { status?: number; attempts?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'FetchError';
+    this.kind = kind;
+    this.status = details.status;
+    this.attempts = details.attempts ?? 1;
+    if (details.cause !== undefined) {
+      (this as { cause?: unknown }).cause = details.cause;
+    }
+  }
+}
+
+/**
+ * Check whether an error is a FetchError
+ */
+export function isFetchError(error: unknown): error is FetchError {
+  return error instanceof FetchError;
+}
+
+/**
+ * Check whether an error means the caller cancelled the request
+ */
+export function isAbortError(error: unknown): boolean {
+  return isFetchError(error) && error.kind === 'aborted';
+}
+
+/**
+ * Create the FetchError for an unsuccessful HTTP response
+ *
+ * @param response - Response with a non-2xx status
+ * @param action - What was being fetched, e.g. "Failed to fetch products"
+ * @returns FetchError with message "<action>: HTTP <status> <statusText>"
+ */
+export function createHttpError(response: Response, action: string): FetchError {
+  return new FetchError(
+    `${action}: HTTP ${response.status} ${response.statusText}`,
+    'http',
+    { status: response.status }
+  );
+}
+
+/**
+ * Timeout and retry settings
+ */
+export interface FetchRetryOptions {
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Retries after the first attempt (0 disables retrying) */
+  retries?: number;
+  /** Delay before the first retry; doubles on each subsequent retry */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs?: number;
+}
+
+export const DEFAULT_FETCH_RETRY_OPTIONS: Required<FetchRetryOptions> = {
+  timeoutMs: 10_000,
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 3_000,
+};
+
+/**
+ * Request options accepted by catalog calls
+ */
+export interface CatalogRequestOptions {
+  /** Cancels the request (and any pending retries) when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Backoff delay before retry number `attempt` (0-based)
+ * Uses "equal jitter": half the exponential delay plus a random half, so
+ * clients that failed together do not retry together.
+ *
+ * @param attempt - Index of the retry (0 for the first retry)
+ * @param options - Retry settings
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: FetchRetryOptions = {},
+  random: () => number = Math.random
+): number {
+  const { baseDelayMs, maxDelayMs } = { ...DEFAULT_FETCH_RETRY_OPTIONS, ...options };
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return exponential / 2 + random() * (exponential / 2);
+}
+
+/**
+ * Longest a fetchWithRetry call can take before it settles
+ * Every attempt times out and every backoff delay is at its maximum.
+ *
+ * @param options - Retry settings
+ * @returns Duration in milliseconds
+ */
+export function getMaxFetchDuration(options: FetchRetryOptions = {}): number {
+  const settings = { ...DEFAULT_FETCH_RETRY_OPTIONS, ...options };
+  let duration = (settings.retries + 1) * settings.timeoutMs;
+  for (let attempt = 0; attempt < settings.retries; attempt++) {
+    duration += Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** attempt);
+  }
+  return duration;
+}
+
+/**
+ * Whether a response status is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500;
+}
+
+/**
+ * Error used when the caller's signal is aborted
+ */
+function createAbortError(attempts: number): FetchError {
+  return new FetchError('Request aborted', 'aborted', { attempts });
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal: AbortSignal | undefined, attempts: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(attempts));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(attempts));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Reject with an abort error as soon as the signal fires
+ * The underlying work keeps running; only the caller stops waiting for it.
+ *
+ * @param promise - Work to wait for
+ * @param signal - Caller's signal
+ * @returns The promise's result, unless the signal fires first
+ */
+export function withAbortSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(createAbortError(0));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(0));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Fetch with timeout, retries and cancellation
+ *
+ * 4xx responses are returned immediately for the caller to handle. 5xx
+ * responses are retried; if every attempt fails the last response is returned.
+ * Network errors and timeouts are retried and then thrown as FetchError.
+ *
+ * @param url - Request URL
+ * @param init - fetch options; init.signal cancels the request and pending retries
+ * @param options - Timeout and retry settings (defaults: DEFAULT_FETCH_RETRY_OPTIONS)
+ * @returns The Response
+ * @throws FetchError of kind 'timeout', 'network' or 'aborted'
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: FetchRetryOptions = {}
+): Promise<Response> {
+  const settings = { ...DEFAULT_FETCH_RETRY_OPTIONS, ...options };
+  const callerSignal = init.signal ?? undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    if (callerSignal?.aborted) {
+      throw createAbortError(attempt);
+    }
+
+    // Each attempt gets its own controller so a timeout only cancels that attempt
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, settings.timeoutMs);
+    const forwardAbort = () => controller.abort();
+    callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+
+    let failure: FetchError;
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+
+      if (!isRetryableStatus(response.status) || attempt >= settings.retries) {
+        return response;
+      }
+      failure = createHttpError(response, `Request to ${url} failed`);
+    } catch (error) {
+      if (callerSignal?.aborted) {
+        throw createAbortError(attempt + 1);
+      }
+
+      if (timedOut) {
+        failure = new FetchError(
+          `Request to ${url} timed out after ${settings.timeoutMs}ms`,
+          'timeout',
+          { attempts: attempt + 1, cause: error }
+        );
+      } else if (error instanceof TypeError) {
+        // fetch rejects with TypeError when the request cannot be made at all
+        failure = new FetchError(
+          `Network error while requesting ${url}: ${error.message}`,
+          'network',
+          { attempts: attempt + 1, cause: error }
+        );
+      } else {
+        throw error;
+      }
+
+      if (attempt >= settings.retries) {
+        throw failure;
+      }
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', forwardAbort);
+    }
+
+    const delay = getBackoffDelay(attempt, settings);
+    console.warn(
+      `[fetchWithRetry] ${failure.message}; retrying in ${Math.round(delay)}ms (attempt ${attempt + 2} of ${settings.retries + 1})`
+    );
+    await sleep(delay, callerSignal, attempt + 1);
+  }
+}
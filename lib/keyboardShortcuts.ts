@@ -0,0 +1,139 @@
+/**
+ * Keyboard shortcuts for Jarvis Shopping Assistant
+ *
+ * One table of shortcuts shared by the key handler and the help overlay, so
+ * what the help lists is always what the keys do. These are pure functions;
+ * see useKeyboardShortcuts.ts for the hook that listens for key presses.
+ */
+
+/**
+ * Things a shortcut can do
+ */
+export type ShortcutAction =
+  | 'next'
+  | 'previous'
+  | 'open'
+  | 'close'
+  | 'toggleCart'
+  | 'toggleWatchlist'
+  | 'focusSearch'
+  | 'toggleVoice'
+  | 'toggleMute'
+  | 'back'
+  | 'forward'
+  | 'showHelp';
+
+/**
+ * A key, as reported by KeyboardEvent.key
+ * Letters match in either case. Shift must match when given; otherwise it is
+ * ignored, since keys such as "?" need it on most layouts.
+ */
+export interface KeyCombo {
+  key: string;
+  shift?: boolean;
+}
+
+export interface KeyboardShortcut {
+  action: ShortcutAction;
+  keys: KeyCombo[];
+  /** Translation key of the help text */
+  labelKey: string;
+}
+
+/**
+ * Every shortcut, in the order the help overlay lists them
+ */
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { action: 'next', keys: [{ key: 'ArrowRight' }, { key: 'ArrowDown' }], labelKey: 'shortcuts.next' },
+  { action: 'previous', keys: [{ key: 'ArrowLeft' }, { key: 'ArrowUp' }], labelKey: 'shortcuts.previous' },
+  { action: 'open', keys: [{ key: 'Enter' }], labelKey: 'shortcuts.open' },
+  { action: 'close', keys: [{ key: 'Escape' }], labelKey: 'shortcuts.close' },
+  { action: 'toggleCart', keys: [{ key: 'c' }], labelKey: 'shortcuts.cart' },
+  { action: 'toggleWatchlist', keys: [{ key: 'w' }], labelKey: 'shortcuts.watchlist' },
+  { action: 'focusSearch', keys: [{ key: '/' }], labelKey: 'shortcuts.search' },
+  { action: 'toggleVoice', keys: [{ key: ' ' }], labelKey: 'shortcuts.voice' },
+  { action: 'toggleMute', keys: [{ key: 'm' }], labelKey: 'shortcuts.mute' },
+  { action: 'back', keys: [{ key: 'Backspace', shift: false }], labelKey: 'shortcuts.back' },
+  { action: 'forward', keys: [{ key: 'Backspace', shift: true }], labelKey: 'shortcuts.forward' },
+  { action: 'showHelp', keys: [{ key: '?' }], labelKey: 'shortcuts.help' },
+];
+
+/**
+ * The parts of a KeyboardEvent a shortcut depends on
+ */
+export interface ShortcutKeyEvent {
+  key: string;
+  shiftKey: boolean;
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  target: EventTarget | null;
+}
+
+/**
+ * Keys a focused button or link handles itself
+ */
+const CONTROL_KEYS = new Set(['Enter', ' ']);
+
+/**
+ * Check whether a key event comes from a text field
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+/**
+ * Check whether a key event comes from a native button or link
+ */
+function isControlTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && ['BUTTON', 'A', 'SUMMARY'].includes(target.tagName);
+}
+
+function matchesKey(combo: KeyCombo, event: ShortcutKeyEvent): boolean {
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return combo.key === key && (combo.shift === undefined || combo.shift === event.shiftKey);
+}
+
+/**
+ * Find the shortcut for a key press
+ * Browser shortcuts (Ctrl, Alt, Meta) are never taken. In text fields only
+ * Escape counts, and focused buttons and links keep Enter and Space.
+ *
+ * @param event - The key press
+ * @returns The action to run, or null if the key is not a shortcut here
+ */
+export function matchShortcut(event: ShortcutKeyEvent): ShortcutAction | null {
+  if (event.altKey || event.ctrlKey || event.metaKey) {
+    return null;
+  }
+  if (isTypingTarget(event.target) && event.key !== 'Escape') {
+    return null;
+  }
+  if (isControlTarget(event.target) && CONTROL_KEYS.has(event.key)) {
+    return null;
+  }
+
+  const shortcut = KEYBOARD_SHORTCUTS.find(({ keys }) => keys.some((combo) => matchesKey(combo, event)));
+  return shortcut?.action ?? null;
+}
+
+/**
+ * Readable names for keys shown in the help overlay
+ */
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowDown: '↓',
+  ArrowUp: '↑',
+  Escape: 'Esc',
+  ' ': 'Space',
+};
+
+/**
+ * Format a key for display, e.g. "Shift + Backspace"
+ */
+export function formatKeyCombo(combo: KeyCombo): string {
+  const name = KEY_LABELS[combo.key] ?? (combo.key.length === 1 ? combo.key.toUpperCase() : combo.key);
+  return combo.shift ? `Shift + ${name}` : name;
+}
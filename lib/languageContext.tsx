@@ -1,13 +1,15 @@
 /**
  * Language Context for Kaldi Shopping
- * Supports English and Hindi
+ * Supports English and Hindi; the active persona may reword some labels
  */
 
 'use client';
 
 import { createContext, useContext, useState, ReactNode } from 'react';
+import { PersonaContext } from './personaContext';
+import { getPersonaVocabulary } from './personas';
 
-type Language = 'en' | 'hi';
+export type Language = 'en' | 'hi';
 
 interface LanguageContextType {
   language: Language;
@@ -21,13 +23,34 @@ const translations = {
     'app.title': 'Kaldi Shopping',
     'app.subtitle': 'Voice-Controlled Marketplace',
     'language': 'Language',
+    'persona.label': 'Mode',
+    'persona.buyer': 'Buyer',
+    'persona.seller': 'Seller',
+    'persona.support': 'Support',
     
-    // Categories
+    // Categories (individual category labels come from lib/categories.ts)
     'categories.all': 'All Products',
-    'categories.electronics': 'Electronics',
-    'categories.jewelery': 'Jewelery',
-    'categories.mens': "Men's Clothing",
-    'categories.womens': "Women's Clothing",
+    
+    // Search
+    'search.placeholder': 'Search products...',
+    'search.clear': 'Clear search',
+    
+    // Sort and filters
+    'sort.label': 'Sort by',
+    'sort.default': 'Featured',
+    'sort.price-asc': 'Price: Low to High',
+    'sort.price-desc': 'Price: High to Low',
+    'sort.rating-desc': 'Top Rated',
+    'sort.reviews-desc': 'Most Reviewed',
+    'sort.tag-desc': 'Trending First',
+    'filters.under': 'Under',
+    'filters.above': 'Above',
+    'filters.clear': 'Clear filters',
+    
+    // Cached data
+    'cache.showing': 'Showing cached data from',
+    'cache.offline': 'Catalog unreachable.',
+    'cache.retry': 'Retry',
     
     // Product
     'product.price': 'Price',
@@ -35,6 +58,14 @@ const translations = {
     'product.reviews': 'reviews',
     'product.addToCart': 'Add to Cart',
     'product.viewDetails': 'View Details',
+    'product.browseHint': 'Swipe or use the arrow keys to see more products',
+    'product.watch': 'Add to Watchlist',
+    'product.watching': 'On Watchlist',
+    'product.size': 'Size',
+    'product.color': 'Color',
+    'product.chooseVariant': 'Choose an option',
+    'product.outOfStock': 'Out of stock',
+    'product.left': 'left in stock',
     
     // Cart
     'cart.title': 'Shopping Cart',
@@ -43,24 +74,146 @@ const translations = {
     'cart.clear': 'Clear Cart',
     'cart.items': 'items',
     
+    // Watchlist
+    'watchlist.title': 'Watchlist',
+    'watchlist.tracked': 'tracked',
+    'watchlist.empty': 'No products tracked yet',
+    'watchlist.target': 'Target',
+    'watchlist.added': 'Added',
+    'watchlist.wasTag': 'was',
+    'watchlist.noTag': 'untagged',
+    'watchlist.remove': 'Stop tracking',
+    'watchlist.clear': 'Clear Watchlist',
+    
+    // Checkout
+    'cart.checkout': 'Checkout',
+    'cart.subtotal': 'Subtotal',
+    'cart.discount': 'Discount',
+    'cart.gst': 'GST',
+    'cart.deliveryAtCheckout': 'Delivery is added at checkout',
+    'cart.unresolved': 'saved items are waiting for the catalog to load',
+    'cart.limitReached': 'No more available',
+    'cart.coupon.placeholder': 'Coupon code',
+    'cart.coupon.apply': 'Apply',
+    'cart.coupon.remove': 'Remove',
+    'cart.coupon.unknown': 'That code is not valid',
+    'cart.coupon.notApplicable': 'Nothing in your cart qualifies for this code',
+    'cart.coupon.minOrder': 'Add more to your cart to use this code',
+    'checkout.title': 'Checkout',
+    'checkout.step.review': 'Review your order',
+    'checkout.step.address': 'Shipping address',
+    'checkout.step.delivery': 'Delivery option',
+    'checkout.step.payment': 'Payment',
+    'checkout.step.confirmation': 'Order placed',
+    'checkout.emptyCart': 'Your cart is empty',
+    'checkout.fullName': 'Full name',
+    'checkout.phone': 'Mobile number',
+    'checkout.line1': 'House no., building, street',
+    'checkout.line2': 'Landmark or area (optional)',
+    'checkout.city': 'City',
+    'checkout.state': 'State',
+    'checkout.pinCode': 'PIN code',
+    'checkout.error.missing': 'Required',
+    'checkout.error.invalid': 'Check this value',
+    'checkout.shipTo': 'Ship to:',
+    'checkout.standard': 'Standard delivery',
+    'checkout.express': 'Express delivery',
+    'checkout.days': 'days',
+    'checkout.method.upi': 'UPI',
+    'checkout.method.card': 'Card',
+    'checkout.method.cod': 'Cash on Delivery',
+    'checkout.subtotal': 'Subtotal',
+    'checkout.discount': 'Discount',
+    'checkout.gst': 'GST',
+    'checkout.free': 'Free',
+    'checkout.freeAbove': 'Free on orders from',
+    'checkout.deliveryFee': 'Delivery',
+    'checkout.total': 'Total',
+    'checkout.mockNotice': 'Test mode: no real payment is taken.',
+    'checkout.pay': 'Pay',
+    'checkout.paying': 'Processing payment...',
+    'checkout.placed': 'Thank you! Your order is placed.',
+    'checkout.orderId': 'Order ID',
+    'checkout.continue': 'Continue',
+    'checkout.back': 'Back',
+    'checkout.done': 'Done',
+    
+    // Orders
+    'orders.title': 'My Orders',
+    'orders.count': 'orders',
+    'orders.empty': 'No orders yet',
+    'orders.unavailable': 'No longer available',
+    'orders.reorder': 'Order Again',
+
+    // Undo
+    'undo.button': 'Undo',
+    'undo.redo': 'Redo',
+    'undo.dismiss': 'Dismiss',
+    'undo.removed': 'Item removed from cart',
+    'undo.cleared': 'Cart cleared',
+    'undo.changed': 'Cart changed',
+
+    // Confirmation
+    'confirm.clearCart': 'Clear the cart?',
+    'confirm.largeQuantity': 'Add this many to the cart?',
+    'confirm.placeOrder': 'Pay and place the order?',
+    'confirm.yes': 'Confirm',
+    'confirm.no': 'Cancel',
+    
     // Voice
     'voice.ready': 'Click to start',
     'voice.listening': "I'm listening...",
     'voice.speaking': 'Speaking...',
     'voice.connecting': 'Connecting...',
+    
+    // Keyboard shortcuts
+    'shortcuts.title': 'Keyboard Shortcuts',
+    'shortcuts.next': 'Next product',
+    'shortcuts.previous': 'Previous product',
+    'shortcuts.open': 'Open highlighted product',
+    'shortcuts.close': 'Close the product, cart, watchlist or this help',
+    'shortcuts.cart': 'Open or close the cart',
+    'shortcuts.watchlist': 'Open or close the watchlist',
+    'shortcuts.search': 'Search',
+    'shortcuts.voice': 'Start or stop the voice assistant',
+    'shortcuts.mute': 'Mute or unmute the microphone',
+    'shortcuts.back': 'Go back',
+    'shortcuts.forward': 'Go forward',
+    'shortcuts.help': 'Show keyboard shortcuts',
   },
   hi: {
     // Header
     'app.title': 'कल्डी शॉपिंग',
     'app.subtitle': 'वॉइस-कंट्रोल्ड मार्केटप्लेस',
     'language': 'भाषा',
+    'persona.label': 'मोड',
+    'persona.buyer': 'खरीदार',
+    'persona.seller': 'विक्रेता',
+    'persona.support': 'सहायता',
     
-    // Categories
+    // Categories (individual category labels come from lib/categories.ts)
     'categories.all': 'सभी उत्पाद',
-    'categories.electronics': 'इलेक्ट्रॉनिक्स',
-    'categories.jewelery': 'ज्वेलरी',
-    'categories.mens': 'पुरुषों के कपड़े',
-    'categories.womens': 'महिलाओं के कपड़े',
+    
+    // Search
+    'search.placeholder': 'उत्पाद खोजें...',
+    'search.clear': 'खोज साफ करें',
+    
+    // Sort and filters
+    'sort.label': 'क्रमबद्ध करें',
+    'sort.default': 'विशेष',
+    'sort.price-asc': 'कीमत: कम से ज़्यादा',
+    'sort.price-desc': 'कीमत: ज़्यादा से कम',
+    'sort.rating-desc': 'सर्वोच्च रेटिंग',
+    'sort.reviews-desc': 'सबसे ज़्यादा समीक्षाएं',
+    'sort.tag-desc': 'ट्रेंडिंग पहले',
+    'filters.under': 'से कम',
+    'filters.above': 'से ज़्यादा',
+    'filters.clear': 'फ़िल्टर हटाएं',
+    
+    // Cached data
+    'cache.showing': 'सहेजा गया डेटा दिखाया जा रहा है:',
+    'cache.offline': 'कैटलॉग उपलब्ध नहीं है।',
+    'cache.retry': 'फिर से कोशिश करें',
     
     // Product
     'product.price': 'कीमत',
@@ -68,6 +221,14 @@ const translations = {
     'product.reviews': 'समीक्षाएं',
     'product.addToCart': 'कार्ट में डालें',
     'product.viewDetails': 'विवरण देखें',
+    'product.browseHint': 'और उत्पाद देखने के लिए स्वाइप करें या तीर कुंजियों का उपयोग करें',
+    'product.watch': 'वॉचलिस्ट में जोड़ें',
+    'product.watching': 'वॉचलिस्ट में है',
+    'product.size': 'साइज़',
+    'product.color': 'रंग',
+    'product.chooseVariant': 'विकल्प चुनें',
+    'product.outOfStock': 'स्टॉक में नहीं',
+    'product.left': 'स्टॉक में बचे हैं',
     
     // Cart
     'cart.title': 'शॉपिंग कार्ट',
@@ -76,11 +237,112 @@ const translations = {
     'cart.clear': 'कार्ट साफ करें',
     'cart.items': 'आइटम',
     
+    // Watchlist
+    'watchlist.title': 'वॉचलिस्ट',
+    'watchlist.tracked': 'ट्रैक किए गए',
+    'watchlist.empty': 'अभी कोई उत्पाद ट्रैक नहीं किया गया',
+    'watchlist.target': 'लक्ष्य',
+    'watchlist.added': 'जोड़ा गया',
+    'watchlist.wasTag': 'पहले',
+    'watchlist.noTag': 'बिना टैग',
+    'watchlist.remove': 'ट्रैक करना बंद करें',
+    'watchlist.clear': 'वॉचलिस्ट साफ करें',
+    
+    // Checkout
+    'cart.checkout': 'चेकआउट',
+    'cart.subtotal': 'उप-योग',
+    'cart.discount': 'छूट',
+    'cart.gst': 'जीएसटी',
+    'cart.deliveryAtCheckout': 'डिलीवरी शुल्क चेकआउट पर जुड़ेगा',
+    'cart.unresolved': 'सेव किए गए आइटम कैटलॉग लोड होने का इंतज़ार कर रहे हैं',
+    'cart.limitReached': 'और उपलब्ध नहीं',
+    'cart.coupon.placeholder': 'कूपन कोड',
+    'cart.coupon.apply': 'लागू करें',
+    'cart.coupon.remove': 'हटाएं',
+    'cart.coupon.unknown': 'यह कोड मान्य नहीं है',
+    'cart.coupon.notApplicable': 'आपकी कार्ट में कोई भी आइटम इस कोड के योग्य नहीं है',
+    'cart.coupon.minOrder': 'इस कोड के लिए कार्ट में और आइटम जोड़ें',
+    'checkout.title': 'चेकआउट',
+    'checkout.step.review': 'अपना ऑर्डर देखें',
+    'checkout.step.address': 'डिलीवरी पता',
+    'checkout.step.delivery': 'डिलीवरी विकल्प',
+    'checkout.step.payment': 'भुगतान',
+    'checkout.step.confirmation': 'ऑर्डर हो गया',
+    'checkout.emptyCart': 'आपका कार्ट खाली है',
+    'checkout.fullName': 'पूरा नाम',
+    'checkout.phone': 'मोबाइल नंबर',
+    'checkout.line1': 'मकान नं., बिल्डिंग, गली',
+    'checkout.line2': 'लैंडमार्क या क्षेत्र (वैकल्पिक)',
+    'checkout.city': 'शहर',
+    'checkout.state': 'राज्य',
+    'checkout.pinCode': 'पिन कोड',
+    'checkout.error.missing': 'आवश्यक',
+    'checkout.error.invalid': 'यह जानकारी जांचें',
+    'checkout.shipTo': 'भेजें:',
+    'checkout.standard': 'सामान्य डिलीवरी',
+    'checkout.express': 'एक्सप्रेस डिलीवरी',
+    'checkout.days': 'दिन',
+    'checkout.method.upi': 'UPI',
+    'checkout.method.card': 'कार्ड',
+    'checkout.method.cod': 'कैश ऑन डिलीवरी',
+    'checkout.subtotal': 'उप-योग',
+    'checkout.discount': 'छूट',
+    'checkout.gst': 'जीएसटी',
+    'checkout.free': 'मुफ़्त',
+    'checkout.freeAbove': 'मुफ़्त, इतने के ऑर्डर पर:',
+    'checkout.deliveryFee': 'डिलीवरी',
+    'checkout.total': 'कुल',
+    'checkout.mockNotice': 'टेस्ट मोड: कोई असली भुगतान नहीं लिया जाता।',
+    'checkout.pay': 'भुगतान करें',
+    'checkout.paying': 'भुगतान हो रहा है...',
+    'checkout.placed': 'धन्यवाद! आपका ऑर्डर हो गया है।',
+    'checkout.orderId': 'ऑर्डर आईडी',
+    'checkout.continue': 'आगे बढ़ें',
+    'checkout.back': 'पीछे',
+    'checkout.done': 'हो गया',
+    
+    // Orders
+    'orders.title': 'मेरे ऑर्डर',
+    'orders.count': 'ऑर्डर',
+    'orders.empty': 'अभी तक कोई ऑर्डर नहीं',
+    'orders.unavailable': 'अब उपलब्ध नहीं',
+    'orders.reorder': 'फिर से ऑर्डर करें',
+
+    // Undo
+    'undo.button': 'पूर्ववत करें',
+    'undo.redo': 'फिर से करें',
+    'undo.dismiss': 'बंद करें',
+    'undo.removed': 'आइटम कार्ट से हटाया गया',
+    'undo.cleared': 'कार्ट साफ किया गया',
+    'undo.changed': 'कार्ट बदला गया',
+
+    // Confirmation
+    'confirm.clearCart': 'कार्ट साफ करें?',
+    'confirm.largeQuantity': 'कार्ट में इतने डालें?',
+    'confirm.placeOrder': 'भुगतान करके ऑर्डर करें?',
+    'confirm.yes': 'पुष्टि करें',
+    'confirm.no': 'रद्द करें',
+    
     // Voice
     'voice.ready': 'शुरू करने के लिए क्लिक करें',
     'voice.listening': 'मैं सुन रहा हूं...',
     'voice.speaking': 'बोल रहा हूं...',
     'voice.connecting': 'कनेक्ट हो रहा है...',
+    
+    // Keyboard shortcuts
+    'shortcuts.title': 'कीबोर्ड शॉर्टकट',
+    'shortcuts.next': 'अगला उत्पाद',
+    'shortcuts.previous': 'पिछला उत्पाद',
+    'shortcuts.open': 'चुना हुआ उत्पाद खोलें',
+    'shortcuts.close': 'उत्पाद, कार्ट, वॉचलिस्ट या यह सहायता बंद करें',
+    'shortcuts.cart': 'कार्ट खोलें या बंद करें',
+    'shortcuts.watchlist': 'वॉचलिस्ट खोलें या बंद करें',
+    'shortcuts.search': 'खोजें',
+    'shortcuts.voice': 'वॉइस असिस्टेंट शुरू या बंद करें',
+    'shortcuts.mute': 'माइक्रोफ़ोन म्यूट या अनम्यूट करें',
+    'shortcuts.back': 'पीछे जाएं',
+    'shortcuts.forward': 'आगे जाएं',
+    'shortcuts.help': 'कीबोर्ड शॉर्टकट दिखाएं',
   },
 };
 
@@ -88,9 +350,11 @@ const LanguageContext = createContext<LanguageContextType | undefined>(undefined
 
 export function LanguageProvider({ children }: { children: ReactNode }) {
   const [language, setLanguage] = useState<Language>('en');
+  const personaContext = useContext(PersonaContext);
 
   const t = (key: string): string => {
-    return translations[language][key as keyof typeof translations['en']] || key;
+    const personaLabel = personaContext && getPersonaVocabulary(personaContext.persona, key, language);
+    return personaLabel || translations[language][key as keyof typeof translations['en']] || key;
   };
 
   return (
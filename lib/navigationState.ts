@@ -0,0 +1,233 @@
+/**
+ * Navigation state machine for Jarvis Shopping Assistant
+ *
+ * One reducer owns what the user is looking at: the focused product, whether
+ * its detail card is open, which of the cart, watchlist, checkout and orders overlays are open, and what
+ * next/previous do at either end of the list. Clicks, swipes, keys and voice
+ * tools all dispatch the same actions, so "next" means the same thing in the
+ * grid and in the detail card.
+ *
+ * The focused product is tracked by ID, not index, so it survives the list
+ * being re-sorted or refreshed. A null focus means the first listed product.
+ *
+ * Requirements: 3.2, 3.3, 4.1, 4.2, 4.5, 4.6, 9.5
+ */
+
+import { BoundaryBehavior, navigateNext, navigatePrevious, navigateToIndex } from './navigationUtils';
+
+/**
+ * Views that can be stacked over the product grid
+ */
+export type NavigationOverlay = 'detail' | 'cart' | 'watchlist' | 'checkout' | 'orders';
+
+/**
+ * View in front: the product grid, or an overlay
+ */
+export type NavigationView = 'grid' | NavigationOverlay;
+
+export type NavigationDirection = 'next' | 'previous';
+
+export interface NavigationState {
+  /** Focused product; highlighted in the grid and shown in the detail card */
+  focusedProductId: number | null;
+  /** Open overlays in the order they were opened; the last one is in front */
+  overlays: NavigationOverlay[];
+  /** What next/previous do at either end of the list */
+  boundary: BoundaryBehavior;
+}
+
+export const INITIAL_NAVIGATION_STATE: NavigationState = {
+  focusedProductId: null,
+  overlays: [],
+  boundary: 'wrap',
+};
+
+/**
+ * Navigation actions
+ * Moves carry the IDs of the listed products, in display order.
+ */
+export type NavigationAction =
+  | { type: 'move'; direction: NavigationDirection; productIds: number[] }
+  | { type: 'focusIndex'; index: number; productIds: number[] }
+  | { type: 'focus'; productId: number }
+  | { type: 'openProduct'; productId: number }
+  | { type: 'openCart' }
+  | { type: 'toggleCart' }
+  | { type: 'openWatchlist' }
+  | { type: 'toggleWatchlist' }
+  | { type: 'openCheckout' }
+  | { type: 'openOrders' }
+  | { type: 'toggleOrders' }
+  | { type: 'close'; overlay?: NavigationOverlay }
+  | { type: 'resetList' }
+  | { type: 'setBoundary'; boundary: BoundaryBehavior };
+
+/**
+ * Get the view in front
+ */
+export function getFrontView(state: NavigationState): NavigationView {
+  return state.overlays[state.overlays.length - 1] ?? 'grid';
+}
+
+/**
+ * Check whether an overlay is open, in front or not
+ */
+export function isOverlayOpen(state: NavigationState, overlay: NavigationOverlay): boolean {
+  return state.overlays.includes(overlay);
+}
+
+/**
+ * Get the index of the focused product in the listed products
+ * Falls back to the first product when the focused one is not listed.
+ *
+ * @param state - Navigation state
+ * @param productIds - IDs of the listed products, in display order
+ * @returns Index of the focused product, or 0 for an empty list
+ */
+export function getFocusedIndex(state: NavigationState, productIds: number[]): number {
+  if (state.focusedProductId === null) {
+    return 0;
+  }
+  const index = productIds.indexOf(state.focusedProductId);
+  return index >= 0 ? index : 0;
+}
+
+/**
+ * Get the index a move would land on
+ *
+ * @param state - Navigation state
+ * @param productIds - IDs of the listed products, in display order
+ * @param direction - Direction of the move
+ * @returns Target index, following the state's boundary behavior
+ */
+export function getMoveTargetIndex(
+  state: NavigationState,
+  productIds: number[],
+  direction: NavigationDirection
+): number {
+  const currentIndex = getFocusedIndex(state, productIds);
+  return direction === 'next'
+    ? navigateNext(currentIndex, productIds.length, state.boundary)
+    : navigatePrevious(currentIndex, productIds.length, state.boundary);
+}
+
+/**
+ * Check whether a move would reach a different product
+ */
+export function canMove(
+  state: NavigationState,
+  productIds: number[],
+  direction: NavigationDirection
+): boolean {
+  return productIds.length > 1
+    && getMoveTargetIndex(state, productIds, direction) !== getFocusedIndex(state, productIds);
+}
+
+/**
+ * Check whether a move would wrap around the end of the list
+ */
+export function isWrappingMove(
+  state: NavigationState,
+  productIds: number[],
+  direction: NavigationDirection
+): boolean {
+  const currentIndex = getFocusedIndex(state, productIds);
+  const targetIndex = getMoveTargetIndex(state, productIds, direction);
+  return direction === 'next' ? targetIndex < currentIndex : targetIndex > currentIndex;
+}
+
+/**
+ * Put an overlay in front, removing any earlier copy of it
+ */
+function bringToFront(overlays: NavigationOverlay[], overlay: NavigationOverlay): NavigationOverlay[] {
+  return [...overlays.filter((open) => open !== overlay), overlay];
+}
+
+/**
+ * Close an overlay if it is in front, otherwise open it in front
+ */
+function toggleOverlay(state: NavigationState, overlay: NavigationOverlay): NavigationState {
+  return getFrontView(state) === overlay
+    ? { ...state, overlays: state.overlays.slice(0, -1) }
+    : { ...state, overlays: bringToFront(state.overlays, overlay) };
+}
+
+/**
+ * Apply a navigation action
+ *
+ * @param state - Current navigation state
+ * @param action - Action to apply
+ * @returns New navigation state (the same object if nothing changed)
+ */
+export function navigationReducer(state: NavigationState, action: NavigationAction): NavigationState {
+  switch (action.type) {
+    case 'move': {
+      if (action.productIds.length === 0) {
+        return state;
+      }
+      const targetIndex = getMoveTargetIndex(state, action.productIds, action.direction);
+      return { ...state, focusedProductId: action.productIds[targetIndex] };
+    }
+
+    case 'focusIndex': {
+      if (action.productIds.length === 0) {
+        return { ...state, focusedProductId: null };
+      }
+      const index = navigateToIndex(action.index, action.productIds.length);
+      return { ...state, focusedProductId: action.productIds[index] };
+    }
+
+    case 'focus':
+      return { ...state, focusedProductId: action.productId };
+
+    case 'openProduct':
+      return {
+        ...state,
+        focusedProductId: action.productId,
+        overlays: bringToFront(state.overlays, 'detail'),
+      };
+
+    case 'openCart':
+      return { ...state, overlays: bringToFront(state.overlays, 'cart') };
+
+    case 'toggleCart':
+      return toggleOverlay(state, 'cart');
+
+    case 'openWatchlist':
+      return { ...state, overlays: bringToFront(state.overlays, 'watchlist') };
+
+    case 'toggleWatchlist':
+      return toggleOverlay(state, 'watchlist');
+
+    case 'openCheckout':
+      // Checkout opens over the cart, so closing it goes back to the cart
+      return { ...state, overlays: bringToFront(bringToFront(state.overlays, 'cart'), 'checkout') };
+
+    case 'openOrders':
+      return { ...state, overlays: bringToFront(state.overlays, 'orders') };
+
+    case 'toggleOrders':
+      return toggleOverlay(state, 'orders');
+
+    case 'close': {
+      if (state.overlays.length === 0) {
+        return state;
+      }
+      const overlays = action.overlay
+        ? state.overlays.filter((open) => open !== action.overlay)
+        : state.overlays.slice(0, -1);
+      return overlays.length === state.overlays.length ? state : { ...state, overlays };
+    }
+
+    case 'resetList':
+      // Requirement 9.5: A new list starts from its first product
+      return {
+        ...state,
+        focusedProductId: null,
+        overlays: state.overlays.filter((open) => open !== 'detail'),
+      };
+
+    case 'setBoundary':
+      return { ...state, boundary: action.boundary };
+  }
+}
@@ -7,6 +7,9 @@
  * Requirements: 3.2, 3.3, 4.1, 4.2, 4.5, 4.6
  */
 
+import { Product } from './types';
+import { buildSearchIndex, querySearchIndex } from './searchIndex';
+
 /**
  * Navigation boundary behavior options
  */
@@ -188,3 +191,69 @@ export function getNavigationPosition(
     progress: totalProducts > 1 ? validIndex / (totalProducts - 1) : 0,
   };
 }
+
+/**
+ * A product to jump to, as described by the user
+ * Exactly one field is set.
+ */
+export type ProductTarget =
+  | { productId: number }
+  | { position: number }
+  | { title: string };
+
+/**
+ * Result of resolving a ProductTarget
+ * `index` is the product's position in the listed products, or -1 when it
+ * was found in the catalog but is not currently listed.
+ */
+export type ProductTargetResolution =
+  | { ok: true; product: Product; index: number }
+  | { ok: false; error: string };
+
+/**
+ * Find the product described by an ID, a 1-based position or a title fragment
+ * IDs and titles are looked up in the listed products first, then in the whole
+ * catalog; positions always refer to the listed products.
+ *
+ * @param listed - Products currently shown, in display order
+ * @param catalog - Every product in the catalog
+ * @param target - What the user asked for
+ * @returns The product and its listed index, or a description of the problem
+ */
+export function resolveProductTarget(
+  listed: Product[],
+  catalog: Product[],
+  target: ProductTarget
+): ProductTargetResolution {
+  const found = (product: Product | undefined): ProductTargetResolution | null => {
+    if (!product) {
+      return null;
+    }
+    return { ok: true, product, index: listed.findIndex((p) => p.id === product.id) };
+  };
+
+  if ('position' in target) {
+    if (listed.length === 0) {
+      return { ok: false, error: 'There are no products listed.' };
+    }
+    const index = navigateToIndex(target.position - 1, listed.length);
+    if (index !== target.position - 1) {
+      return {
+        ok: false,
+        error: `There ${listed.length === 1 ? 'is only 1 product' : `are only ${listed.length} products`} listed.`,
+      };
+    }
+    return { ok: true, product: listed[index], index };
+  }
+
+  if ('productId' in target) {
+    return found(listed.find((p) => p.id === target.productId))
+      ?? found(catalog.find((p) => p.id === target.productId))
+      ?? { ok: false, error: `There is no product with ID ${target.productId}.` };
+  }
+
+  const bestMatch = (products: Product[]) => querySearchIndex(buildSearchIndex(products), target.title, 1)[0]?.product;
+  return found(bestMatch(listed))
+    ?? found(bestMatch(catalog))
+    ?? { ok: false, error: `No product title matches "${target.title}".` };
+}
@@ -0,0 +1,159 @@
+/**
+ * Order history functions for Jarvis Shopping Assistant
+ *
+ * Keeps the orders placed at checkout, newest first, with localStorage
+ * persistence in the same style as saveCart/loadCart, and rebuilds a cart
+ * from a past order for reordering.
+ */
+
+import { CartItem, CartState, Order, OrderHistory, OrderItem, PersistedOrderHistory, Product } from './types';
+import { addToCart } from './cartUtils';
+
+export const ORDER_HISTORY_STORAGE_KEY = 'jarvis-orders';
+
+/**
+ * Create an empty order history
+ */
+export function createOrderHistory(): OrderHistory {
+  return { orders: [] };
+}
+
+/**
+ * Add a placed order to the history
+ *
+ * @param history - Current order history
+ * @param order - Order to add; replaces an earlier copy with the same ID
+ * @returns Updated history with the order first
+ */
+export function addOrder(history: OrderHistory, order: Order): OrderHistory {
+  return { orders: [order, ...history.orders.filter((saved) => saved.id !== order.id)] };
+}
+
+/**
+ * Simplify an order ID for matching what the user said, e.g. "kld 2026 0301-4f7q2a"
+ */
+function normalizeOrderReference(reference: string): string {
+  return reference.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Find an order by its ID or the last characters of it
+ * Order IDs are long to say aloud, so "4F7Q2A" finds "KLD-20260301-4F7Q2A".
+ *
+ * @param history - Order history
+ * @param reference - Full order ID or its ending
+ * @returns The newest matching order, or undefined if none match
+ */
+export function findOrder(history: OrderHistory, reference: string): Order | undefined {
+  const wanted = normalizeOrderReference(reference);
+  if (!wanted) {
+    return undefined;
+  }
+  return history.orders.find((order) => normalizeOrderReference(order.id) === wanted)
+    ?? history.orders.find((order) => normalizeOrderReference(order.id).endsWith(wanted));
+}
+
+/**
+ * Count the units in an order
+ */
+export function getOrderItemCount(order: Order): number {
+  return order.items.reduce((total, item) => total + item.quantity, 0);
+}
+
+/**
+ * Result of adding a past order to the cart
+ */
+export interface ReorderResult {
+  /** Cart with the available items added */
+  cart: CartState;
+  /** Items added, with the product as it is in the catalog now */
+  added: CartItem[];
+  /** Items whose products or variants are no longer in the catalog, or are out of stock */
+  unavailable: OrderItem[];
+}
+
+/**
+ * Add the items of a past order to the cart
+ * Items are added at today's catalog price; items that can no longer be
+ * bought are left out and reported.
+ *
+ * @param cart - Current cart state
+ * @param order - Order to repeat
+ * @param products - Products in the catalog
+ * @returns Updated cart, the items added and the items left out
+ */
+export function reorderToCart(cart: CartState, order: Order, products: Product[]): ReorderResult {
+  const added: CartItem[] = [];
+  const unavailable: OrderItem[] = [];
+  let updatedCart = cart;
+
+  for (const item of order.items) {
+    const product = products.find((p) => p.id === item.productId);
+    if (!product) {
+      unavailable.push(item);
+      continue;
+    }
+
+    try {
+      // Throws when the variant is gone or the stock and order limits are used up
+      updatedCart = addToCart(updatedCart, product, item.quantity, item.variantId);
+      added.push(item.variantId !== undefined
+        ? { product, quantity: item.quantity, variantId: item.variantId }
+        : { product, quantity: item.quantity });
+    } catch {
+      unavailable.push(item);
+    }
+  }
+
+  return { cart: updatedCart, added, unavailable };
+}
+
+/**
+ * Save order history to localStorage
+ *
+ * @param history - Order history to save
+ */
+export function saveOrderHistory(history: OrderHistory): void {
+  try {
+    const persistedHistory: PersistedOrderHistory = {
+      orders: history.orders,
+      lastUpdated: new Date().toISOString(),
+    };
+
+    localStorage.setItem(ORDER_HISTORY_STORAGE_KEY, JSON.stringify(persistedHistory));
+  } catch (error) {
+    // Handle localStorage quota exceeded or other errors
+    console.error('Failed to save order history to localStorage:', error);
+  }
+}
+
+/**
+ * Load order history from localStorage
+ *
+ * @returns Loaded order history, or an empty one if not found/invalid
+ */
+export function loadOrderHistory(): OrderHistory {
+  try {
+    const savedData = localStorage.getItem(ORDER_HISTORY_STORAGE_KEY);
+
+    if (!savedData) {
+      return createOrderHistory();
+    }
+
+    const persistedHistory: PersistedOrderHistory = JSON.parse(savedData);
+    if (!Array.isArray(persistedHistory.orders)) {
+      return createOrderHistory();
+    }
+
+    // Skip entries that are not orders rather than losing the whole history
+    const orders = persistedHistory.orders.filter(
+      (order) => typeof order?.id === 'string' && Array.isArray(order.items) && typeof order.total === 'number'
+    );
+
+    return { orders };
+  } catch (error) {
+    // Handle JSON parse errors or other issues
+    console.error('Failed to load order history from localStorage:', error);
+    return createOrderHistory();
+  }
+}
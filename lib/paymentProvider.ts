@@ -0,0 +1,103 @@
+/**
+ * Pluggable payment provider
+ *
+ * Defines the PaymentProvider interface that checkout pays through and keeps
+ * track of the active provider. Only a mock provider ships for now, so the
+ * whole checkout can be exercised end to end without a real gateway; swap in
+ * a real provider with setPaymentProvider.
+ */
+
+import { PaymentMethod } from './types';
+
+/**
+ * A charge to make
+ */
+export interface PaymentRequest {
+  orderId: string;
+  /** Amount in INR */
+  amount: number;
+  method: PaymentMethod;
+}
+
+/**
+ * Result of a charge
+ * Declines are ordinary results; providers reject only when they cannot be reached.
+ */
+export type PaymentResult =
+  | { status: 'approved'; transactionId: string }
+  | { status: 'declined'; reason: string };
+
+/**
+ * A payment gateway
+ */
+export interface PaymentProvider {
+  /** Short identifier used in logs and stored on orders */
+  readonly name: string;
+  /** Charge the amount, resolving once the gateway has answered */
+  charge(request: PaymentRequest): Promise<PaymentResult>;
+}
+
+export interface MockPaymentProviderOptions {
+  /** Simulated gateway delay in milliseconds (default 800) */
+  latencyMs?: number;
+  /** Decide which requests to decline; returns the reason, or null to approve */
+  decline?: (request: PaymentRequest) => string | null;
+}
+
+/**
+ * Create a payment provider that approves every charge without contacting a gateway
+ *
+ * @param options - Simulated latency and declines
+ * @returns PaymentProvider named "mock"
+ */
+export function createMockPaymentProvider({
+  latencyMs = 800,
+  decline = () => null,
+}: MockPaymentProviderOptions = {}): PaymentProvider {
+  let chargeCount = 0;
+
+  return {
+    name: 'mock',
+    async charge(request) {
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs));
+      }
+
+      const reason = decline(request);
+      if (reason) {
+        return { status: 'declined', reason };
+      }
+
+      chargeCount += 1;
+      return { status: 'approved', transactionId: `MOCK-${request.orderId}-${chargeCount}` };
+    },
+  };
+}
+
+/**
+ * Active provider instance
+ * Created lazily on first use
+ */
+let activeProvider: PaymentProvider | null = null;
+
+/**
+ * Get the active payment provider
+ *
+ * @returns The provider set via setPaymentProvider, or the mock provider
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!activeProvider) {
+    activeProvider = createMockPaymentProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active payment provider
+ * Pass null to fall back to the mock provider on next use.
+ *
+ * @param provider - Provider to charge orders through
+ */
+export function setPaymentProvider(provider: PaymentProvider | null): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,65 @@
+/**
+ * Persona Context for Kaldi Shopping
+ * Holds the active persona (buyer, seller or support) and remembers the
+ * choice between visits
+ */
+
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { Persona, PersonaId, isPersonaId } from './personas';
+import { DEFAULT_PERSONA_ID, KALDI_PERSONAS } from '@/app/jarvis-config';
+import { endCall, isSessionActive } from './voiceFunctions';
+
+export const PERSONA_STORAGE_KEY = 'kaldi-persona';
+
+interface PersonaContextType {
+  persona: Persona;
+  setPersona: (id: PersonaId) => void;
+}
+
+export const PersonaContext = createContext<PersonaContextType | undefined>(undefined);
+
+export function PersonaProvider({ children }: { children: ReactNode }) {
+  const [personaId, setPersonaId] = useState<PersonaId>(DEFAULT_PERSONA_ID);
+
+  // Restore the saved choice after hydration so server and client render the same default
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(PERSONA_STORAGE_KEY);
+      if (isPersonaId(saved)) {
+        setPersonaId(saved);
+      }
+    } catch (error) {
+      console.error('[personaContext] Failed to load persona:', error);
+    }
+  }, []);
+
+  const setPersona = useCallback((id: PersonaId) => {
+    setPersonaId(id);
+    try {
+      localStorage.setItem(PERSONA_STORAGE_KEY, id);
+    } catch (error) {
+      console.error('[personaContext] Failed to save persona:', error);
+    }
+
+    // A live call keeps the old prompt and tools, so end it; the next one uses the new persona
+    if (isSessionActive()) {
+      endCall().catch((error) => console.error('[personaContext] Failed to end call:', error));
+    }
+  }, []);
+
+  return (
+    <PersonaContext.Provider value={{ persona: KALDI_PERSONAS[personaId], setPersona }}>
+      {children}
+    </PersonaContext.Provider>
+  );
+}
+
+export function usePersona() {
+  const context = useContext(PersonaContext);
+  if (!context) {
+    throw new Error('usePersona must be used within PersonaProvider');
+  }
+  return context;
+}
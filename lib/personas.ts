@@ -0,0 +1,73 @@
+/**
+ * Persona types for Kaldi
+ *
+ * A persona is the audience a session is tuned for: shoppers buying for
+ * themselves, sellers researching products to stock, or customers looking for
+ * help. Each one brings its own system prompt, voice tools, default voice and
+ * UI wording, so the same build serves every audience. The personas themselves
+ * are defined in app/jarvis-config.ts next to their prompts.
+ */
+
+import type { Language } from './languageContext';
+import type { SelectedTool } from './ultravox-types';
+import type { ConfirmationPolicy } from './confirmation';
+
+export type PersonaId = 'buyer' | 'seller' | 'support';
+
+export const PERSONA_IDS: readonly PersonaId[] = ['buyer', 'seller', 'support'];
+
+/**
+ * Everything that changes with the persona
+ */
+export interface Persona {
+  id: PersonaId;
+  /** Translation key of the persona's name in the header switcher */
+  labelKey: string;
+  /** Base system prompt; live product and cart context is appended per call */
+  systemPrompt: string;
+  /** Names of the voice tools the assistant may use */
+  tools: readonly string[];
+  /** Which voice actions the user must confirm first */
+  confirmation: ConfirmationPolicy;
+  /** Ultravox voice */
+  voice: string;
+  /** UI labels that differ from the default translations, by translation key */
+  vocabulary: Partial<Record<string, Record<Language, string>>>;
+  /** Example commands shown before a session starts */
+  sampleCommands: readonly string[];
+  /** Which lists the header offers */
+  features: {
+    cart: boolean;
+    watchlist: boolean;
+  };
+}
+
+/**
+ * Check whether a value names a persona, e.g. one read from storage
+ */
+export function isPersonaId(value: unknown): value is PersonaId {
+  return typeof value === 'string' && (PERSONA_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Keep only the tools a persona may use
+ *
+ * @param tools - Tool schemas for the session
+ * @param persona - Persona whose tool set applies
+ * @returns Tools named in the persona's tool set, in their original order
+ */
+export function selectPersonaTools(tools: SelectedTool[], persona: Persona): SelectedTool[] {
+  return tools.filter((tool) => persona.tools.includes(tool.temporaryTool.modelToolName));
+}
+
+/**
+ * Look up a persona's wording for a UI label
+ *
+ * @param persona - Active persona
+ * @param key - Translation key
+ * @param language - UI language
+ * @returns The persona's label, or undefined to use the default translation
+ */
+export function getPersonaVocabulary(persona: Persona, key: string, language: Language): string | undefined {
+  return persona.vocabulary[key]?.[language];
+}
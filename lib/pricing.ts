@@ -0,0 +1,377 @@
+/**
+ * Cart pricing for Jarvis Shopping Assistant
+ *
+ * Turns a cart into what the user pays, in INR: line totals, coupon
+ * discounts, GST by category, shipping and the grand total. Amounts are
+ * worked out in whole paise, rounded once per line, so the parts always add
+ * up to the total; results are returned in rupees.
+ */
+
+import { CartItem, CartState, ProductCategory } from './types';
+import { convertToINR, formatINR } from './currency';
+import { getUnitPrice, getVariantTitle } from './productVariants';
+
+/**
+ * How a coupon takes money off
+ * - percentage: a percent of the eligible items
+ * - flat: a fixed amount off the eligible items
+ */
+export type CouponKind = 'percentage' | 'flat';
+
+/**
+ * A coupon code the user can apply to the cart
+ */
+export interface Coupon {
+  code: string;
+  kind: CouponKind;
+  /** Percent off for percentage coupons, INR off for flat ones */
+  value: number;
+  /** Categories the coupon applies to; every category when omitted */
+  categories?: ProductCategory[];
+  /** Least the eligible items must come to, in INR */
+  minOrder?: number;
+  /** Most the coupon takes off, in INR */
+  maxDiscount?: number;
+  /** What the coupon gives, as told to the user */
+  description: string;
+}
+
+export const COUPONS: Coupon[] = [
+  {
+    code: 'DIWALI10',
+    kind: 'percentage',
+    value: 10,
+    minOrder: 999,
+    maxDiscount: 1000,
+    description: '10% off orders of ₹999 or more, up to ₹1,000',
+  },
+  { code: 'FLAT200', kind: 'flat', value: 200, minOrder: 1999, description: '₹200 off orders of ₹1,999 or more' },
+  {
+    code: 'STYLE15',
+    kind: 'percentage',
+    value: 15,
+    categories: ["men's clothing", "women's clothing"],
+    description: '15% off clothing',
+  },
+  {
+    code: 'TECH500',
+    kind: 'flat',
+    value: 500,
+    categories: ['electronics'],
+    minOrder: 4999,
+    description: '₹500 off electronics orders of ₹4,999 or more',
+  },
+];
+
+/**
+ * GST rate in percent by category
+ */
+export const GST_RATES: Record<ProductCategory, number> = {
+  electronics: 18,
+  jewelery: 3,
+  "men's clothing": 12,
+  "women's clothing": 12,
+};
+
+/**
+ * GST rate for categories without their own rate
+ */
+export const DEFAULT_GST_RATE = 18;
+
+/**
+ * What shipping costs for a delivery option
+ */
+export interface ShippingRate {
+  /** Fee in INR */
+  fee: number;
+  /** Shipping is free once the discounted subtotal reaches this, in INR; never when null */
+  freeAbove: number | null;
+}
+
+/**
+ * A cart line with its share of the discount and its GST
+ */
+export interface PricedLine {
+  productId: number;
+  variantId?: string;
+  /** Includes the variant, e.g. "Cotton Tee (M / Black)" */
+  title: string;
+  category: ProductCategory;
+  quantity: number;
+  /** Amounts in INR */
+  unitPrice: number;
+  lineTotal: number;
+  discount: number;
+  /** GST rate in percent */
+  gstRate: number;
+  gst: number;
+}
+
+/**
+ * Money taken off by a coupon
+ */
+export interface DiscountLine {
+  code: string;
+  description: string;
+  /** INR taken off */
+  amount: number;
+}
+
+/**
+ * GST charged at one rate
+ */
+export interface GstLine {
+  /** Rate in percent */
+  rate: number;
+  /** Amount the rate was charged on, after discounts, in INR */
+  taxable: number;
+  amount: number;
+}
+
+/**
+ * Why a coupon gives no discount
+ * - unknown: there is no coupon with that code
+ * - notApplicable: nothing in the cart is in the coupon's categories
+ * - minOrder: the eligible items come to less than the coupon's minimum
+ */
+export type CouponRejection = 'unknown' | 'notApplicable' | 'minOrder';
+
+/**
+ * Whether a coupon can be used on a cart
+ */
+export type CouponCheck =
+  | { ok: true; coupon: Coupon }
+  | { ok: false; reason: CouponRejection; message: string };
+
+/**
+ * The coupon entered on the cart and whether it applies
+ */
+export interface CouponStatus {
+  code: string;
+  applied: boolean;
+  /** Why it gives no discount, phrased for the user */
+  problem?: string;
+  reason?: CouponRejection;
+}
+
+/**
+ * What the cart costs, in INR
+ */
+export interface CartPricing {
+  lines: PricedLine[];
+  subtotal: number;
+  discounts: DiscountLine[];
+  /** Total of all discounts */
+  discount: number;
+  gstLines: GstLine[];
+  /** Total GST */
+  gst: number;
+  shipping: number;
+  total: number;
+  coupon: CouponStatus | null;
+}
+
+/**
+ * Normalize a coupon code as typed or spoken, e.g. "diwali 10" to "DIWALI10"
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Find a coupon by its code
+ *
+ * @param code - Code as typed or spoken
+ * @returns The coupon, or undefined if there is none with that code
+ */
+export function findCoupon(code: string): Coupon | undefined {
+  const wanted = normalizeCouponCode(code);
+  return COUPONS.find((coupon) => coupon.code === wanted);
+}
+
+/**
+ * Get the GST rate for a category, in percent
+ */
+export function getGstRate(category: ProductCategory): number {
+  return GST_RATES[category] ?? DEFAULT_GST_RATE;
+}
+
+function toRupees(paise: number): number {
+  return paise / 100;
+}
+
+/**
+ * Line amount in paise, at the whole-rupee unit price shown on the product or variant
+ */
+function getLinePaise(item: CartItem): number {
+  return convertToINR(getUnitPrice(item.product, item.variantId)) * 100 * item.quantity;
+}
+
+function isEligible(coupon: Coupon, item: CartItem): boolean {
+  return !coupon.categories || coupon.categories.includes(item.product.category);
+}
+
+/**
+ * Split an amount in paise across lines in proportion to their weights
+ * Leftover paise go to the lines that lost the most to rounding down, so the shares add up exactly.
+ */
+function allocatePaise(amount: number, weights: number[]): number[] {
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightTotal === 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((weight) => (amount * weight) / weightTotal);
+  const shares = exact.map(Math.floor);
+  let leftover = amount - shares.reduce((sum, share) => sum + share, 0);
+
+  const byRoundingLoss = exact
+    .map((value, index) => ({ index, loss: value - shares[index] }))
+    .sort((a, b) => b.loss - a.loss);
+  for (const { index } of byRoundingLoss) {
+    if (leftover <= 0) {
+      break;
+    }
+    shares[index] += 1;
+    leftover -= 1;
+  }
+
+  return shares;
+}
+
+/**
+ * Check whether a coupon can be used on a cart
+ *
+ * @param cart - Cart the coupon would apply to
+ * @param code - Coupon code as typed or spoken
+ * @returns The coupon, or why it gives no discount
+ */
+export function checkCoupon(cart: CartState, code: string): CouponCheck {
+  const coupon = findCoupon(code);
+  if (!coupon) {
+    return { ok: false, reason: 'unknown', message: `"${code.trim()}" is not a valid coupon code.` };
+  }
+
+  const eligiblePaise = cart.items
+    .filter((item) => isEligible(coupon, item))
+    .reduce((sum, item) => sum + getLinePaise(item), 0);
+
+  if (eligiblePaise === 0) {
+    return {
+      ok: false,
+      reason: 'notApplicable',
+      message: coupon.categories
+        ? `${coupon.code} only applies to ${coupon.categories.join(' and ')}, and there is none in the cart.`
+        : `${coupon.code} needs items in the cart.`,
+    };
+  }
+
+  if (coupon.minOrder !== undefined && eligiblePaise < coupon.minOrder * 100) {
+    const shortfall = toRupees(coupon.minOrder * 100 - eligiblePaise);
+    return {
+      ok: false,
+      reason: 'minOrder',
+      message: `${coupon.code} needs ${formatINR(coupon.minOrder)}${coupon.categories ? ` of ${coupon.categories.join(' and ')}` : ''}; add ${formatINR(shortfall)} more.`,
+    };
+  }
+
+  return { ok: true, coupon };
+}
+
+/**
+ * Work out the discount a coupon gives on eligible items
+ */
+function getCouponDiscountPaise(coupon: Coupon, eligiblePaise: number): number {
+  const discount = coupon.kind === 'percentage'
+    ? Math.round((eligiblePaise * coupon.value) / 100)
+    : coupon.value * 100;
+  const capped = coupon.maxDiscount !== undefined ? Math.min(discount, coupon.maxDiscount * 100) : discount;
+  return Math.min(capped, eligiblePaise);
+}
+
+/**
+ * Price a cart
+ *
+ * Pipeline: line totals, then the coupon's discount spread across the lines
+ * it covers, then GST on each discounted line at its category's rate, then
+ * shipping on the discounted subtotal.
+ *
+ * @param cart - Cart to price
+ * @param shipping - Shipping rate of the chosen delivery option, or null before one is chosen
+ * @returns Line, discount, GST and shipping amounts with the grand total
+ */
+export function priceCart(cart: CartState, shipping: ShippingRate | null = null): CartPricing {
+  const linePaise = cart.items.map(getLinePaise);
+  const subtotalPaise = linePaise.reduce((sum, amount) => sum + amount, 0);
+
+  // Coupon
+  let coupon: CouponStatus | null = null;
+  let lineDiscounts = cart.items.map(() => 0);
+  const discounts: DiscountLine[] = [];
+
+  if (cart.couponCode) {
+    const check = checkCoupon(cart, cart.couponCode);
+    if (check.ok) {
+      const eligibleWeights = cart.items.map((item, index) => (isEligible(check.coupon, item) ? linePaise[index] : 0));
+      const eligiblePaise = eligibleWeights.reduce((sum, amount) => sum + amount, 0);
+      const discountPaise = getCouponDiscountPaise(check.coupon, eligiblePaise);
+
+      lineDiscounts = allocatePaise(discountPaise, eligibleWeights);
+      discounts.push({ code: check.coupon.code, description: check.coupon.description, amount: toRupees(discountPaise) });
+      coupon = { code: check.coupon.code, applied: true };
+    } else {
+      coupon = { code: cart.couponCode, applied: false, problem: check.message, reason: check.reason };
+    }
+  }
+
+  const discountPaise = lineDiscounts.reduce((sum, amount) => sum + amount, 0);
+
+  // GST on each discounted line
+  const lineGst = cart.items.map((item, index) =>
+    Math.round(((linePaise[index] - lineDiscounts[index]) * getGstRate(item.product.category)) / 100)
+  );
+  const gstPaise = lineGst.reduce((sum, amount) => sum + amount, 0);
+
+  const gstByRate = new Map<number, { taxable: number; amount: number }>();
+  cart.items.forEach((item, index) => {
+    const rate = getGstRate(item.product.category);
+    const entry = gstByRate.get(rate) ?? { taxable: 0, amount: 0 };
+    entry.taxable += linePaise[index] - lineDiscounts[index];
+    entry.amount += lineGst[index];
+    gstByRate.set(rate, entry);
+  });
+
+  // Shipping on what is left after discounts
+  const discountedPaise = subtotalPaise - discountPaise;
+  const qualifiesForFreeShipping = shipping !== null
+    && shipping.freeAbove !== null
+    && discountedPaise >= shipping.freeAbove * 100;
+  const shippingPaise = shipping && cart.items.length > 0 && !qualifiesForFreeShipping ? shipping.fee * 100 : 0;
+
+  return {
+    lines: cart.items.map((item, index) => ({
+      productId: item.product.id,
+      ...(item.variantId !== undefined ? { variantId: item.variantId } : {}),
+      title: getVariantTitle(item.product, item.variantId),
+      category: item.product.category,
+      quantity: item.quantity,
+      unitPrice: convertToINR(getUnitPrice(item.product, item.variantId)),
+      lineTotal: toRupees(linePaise[index]),
+      discount: toRupees(lineDiscounts[index]),
+      gstRate: getGstRate(item.product.category),
+      gst: toRupees(lineGst[index]),
+    })),
+    subtotal: toRupees(subtotalPaise),
+    discounts,
+    discount: toRupees(discountPaise),
+    gstLines: Array.from(gstByRate, ([rate, { taxable, amount }]) => ({
+      rate,
+      taxable: toRupees(taxable),
+      amount: toRupees(amount),
+    })).sort((a, b) => a.rate - b.rate),
+    gst: toRupees(gstPaise),
+    shipping: toRupees(shippingPaise),
+    total: toRupees(discountedPaise + gstPaise + shippingPaise),
+    coupon,
+  };
+}
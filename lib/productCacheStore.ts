@@ -0,0 +1,201 @@
+/**
+ * Persistent storage for the product cache
+ *
+ * The product list is kept in IndexedDB in the browser so it survives page
+ * reloads and can be shown while the catalog is unreachable. Entries are
+ * versioned: bumping PRODUCT_CACHE_VERSION (or switching catalog provider)
+ * invalidates everything stored by an older build.
+ *
+ * Outside the browser, or where IndexedDB is unavailable, an in-memory store
+ * is used instead so callers never need to special-case the environment.
+ *
+ * Requirements: 2.4
+ */
+
+import { Product } from './types';
+
+/**
+ * Version of the stored entry format
+ * Increment whenever Product or ProductCacheEntry changes shape.
+ */
+export const PRODUCT_CACHE_VERSION = 2;
+
+/**
+ * A stored product list
+ */
+export interface ProductCacheEntry {
+  version: number;
+  /** Name of the catalog provider the products came from */
+  provider: string;
+  products: Product[];
+  /** Time of the successful network fetch that produced this entry (ms since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Storage backend for the product cache
+ */
+export interface ProductCacheStore {
+  /** Backend name, used in logs */
+  name: string;
+  read(): Promise<ProductCacheEntry | null>;
+  write(entry: ProductCacheEntry): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Check that a stored value is a usable entry for the current build and provider
+ *
+ * @param value - Value read from storage
+ * @param provider - Name of the active catalog provider
+ * @returns true if the entry can be served
+ */
+export function isValidCacheEntry(value: unknown, provider: string): value is ProductCacheEntry {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const entry = value as Partial<ProductCacheEntry>;
+  return (
+    entry.version === PRODUCT_CACHE_VERSION &&
+    entry.provider === provider &&
+    Array.isArray(entry.products) &&
+    typeof entry.savedAt === 'number'
+  );
+}
+
+/**
+ * Create an in-memory cache store
+ * Used on the server and in tests.
+ *
+ * @returns ProductCacheStore that lives as long as the module
+ */
+export function createMemoryCacheStore(): ProductCacheStore {
+  let stored: ProductCacheEntry | null = null;
+
+  return {
+    name: 'memory',
+    read: async () => stored,
+    write: async (entry) => {
+      stored = entry;
+    },
+    clear: async () => {
+      stored = null;
+    },
+  };
+}
+
+/**
+ * Options for the IndexedDB cache store
+ */
+export interface IndexedDBCacheStoreOptions {
+  /** Database name (defaults to 'kaldi-catalog') */
+  dbName?: string;
+  /** Object store name (defaults to 'products') */
+  storeName?: string;
+  /** IndexedDB factory (defaults to the global indexedDB) */
+  factory?: IDBFactory;
+}
+
+/**
+ * Key under which the product list is stored
+ */
+const CACHE_KEY = 'catalog';
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create an IndexedDB-backed cache store
+ *
+ * @param options - Database and object store names
+ * @returns ProductCacheStore persisted across page loads
+ */
+export function createIndexedDBCacheStore(options: IndexedDBCacheStoreOptions = {}): ProductCacheStore {
+  const dbName = options.dbName ?? 'kaldi-catalog';
+  const storeName = options.storeName ?? 'products';
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      const factory = options.factory ?? indexedDB;
+      const request = factory.open(dbName, PRODUCT_CACHE_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Entries from older versions are not worth migrating; the catalog is refetched
+        if (db.objectStoreNames.contains(storeName)) {
+          db.deleteObjectStore(storeName);
+        }
+        db.createObjectStore(storeName);
+      };
+
+      dbPromise = requestToPromise(request).catch((error) => {
+        // Allow a later call to retry opening the database
+        dbPromise = null;
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  const runTransaction = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    return requestToPromise(operation(transaction.objectStore(storeName)));
+  };
+
+  return {
+    name: 'indexeddb',
+    read: async () => {
+      const value = await runTransaction('readonly', (store) => store.get(CACHE_KEY));
+      return (value as ProductCacheEntry | undefined) ?? null;
+    },
+    write: async (entry) => {
+      await runTransaction('readwrite', (store) => store.put(entry, CACHE_KEY));
+    },
+    clear: async () => {
+      await runTransaction('readwrite', (store) => store.delete(CACHE_KEY));
+    },
+  };
+}
+
+/**
+ * Active cache store (lazily created)
+ */
+let activeStore: ProductCacheStore | null = null;
+
+/**
+ * Get the active cache store
+ * IndexedDB in the browser, in-memory everywhere else.
+ *
+ * @returns The shared ProductCacheStore
+ */
+export function getProductCacheStore(): ProductCacheStore {
+  if (!activeStore) {
+    activeStore = typeof indexedDB !== 'undefined'
+      ? createIndexedDBCacheStore()
+      : createMemoryCacheStore();
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the active cache store
+ * Pass null to fall back to the default on next use. Mainly for tests.
+ *
+ * @param store - Store to use, or null to reset
+ */
+export function setProductCacheStore(store: ProductCacheStore | null): void {
+  activeStore = store;
+}
@@ -5,7 +5,11 @@
  * so it can speak accurately about what's being displayed
  */
 
-import { Product, ProductCategory, getProductTag } from './types';
+import { CategoryInfo, Product, ProductCategory, WatchlistItem, getProductTag } from './types';
+import { getCategoryInfo } from './categories';
+import { getVariantAxes, getVariantValues, hasVariants, isInStock } from './productVariants';
+import { CartPricing } from './pricing';
+import { formatINR } from './currency';
 
 /**
  * Format product information for AI context
@@ -14,6 +18,15 @@ export function formatProductForAI(product: Product): string {
   const priceInRupees = (product.price * 83).toFixed(2);
   const tag = getProductTag(product);
   const tagText = tag ? `\n🏷️ TAG: ${tag}` : '';
+  const optionsText = hasVariants(product)
+    ? `\nComes in: ${getVariantAxes(product)
+      .map((axis) => `${axis} ${getVariantValues(product, axis).join(', ')}`)
+      .join('; ')} (ask which before adding to the cart)`
+    : '';
+  const stockText = !isInStock(product)
+    ? '\nStock: OUT OF STOCK'
+    : !hasVariants(product) && product.stock !== undefined ? `\nStock: ${product.stock} left` : '';
+  const limitText = product.maxPerOrder !== undefined ? `\nLimit: ${product.maxPerOrder} per order` : '';
   
   return `
 Product ID: ${product.id}
@@ -21,7 +34,7 @@ Title: "${product.title}"
 Price: ₹${priceInRupees} (Indian Rupees)
 Category: ${product.category}
 Description: ${product.description}
-Rating: ${product.rating.rate}/5 stars (based on ${product.rating.count} customer reviews)${tagText}
+Rating: ${product.rating.rate}/5 stars (based on ${product.rating.count} customer reviews)${tagText}${optionsText}${stockText}${limitText}
 Image: Available
 `.trim();
 }
@@ -46,13 +59,21 @@ export function generateSystemPromptWithProducts(
   basePrompt: string,
   currentProducts: Product[],
   selectedProduct: Product | null,
-  activeCategory: ProductCategory | 'all'
+  activeCategory: ProductCategory | 'all',
+  categories: CategoryInfo[] = []
 ): string {
+  const activeCategoryLabel = activeCategory === 'all'
+    ? 'All Products'
+    : `${getCategoryInfo(activeCategory).label} (${activeCategory})`;
+  const availableCategories = categories.length > 0
+    ? categories.map((category) => `${category.id} (${category.count} products)`).join(', ')
+    : 'none loaded yet';
+
   const productContext = `
 
 ## CURRENT CONTEXT - LIVE PRODUCT DATA
 
-**Active Category**: ${activeCategory === 'all' ? 'All Products' : activeCategory}
+**Active Category**: ${activeCategoryLabel}
 **Total Products Displayed**: ${currentProducts.length}
 
 ${selectedProduct ? `
@@ -92,7 +113,8 @@ ${currentProducts.length > 10 ? `\n... and ${currentProducts.length - 10} more p
 
 5. **CATEGORY CONTEXT**: 
    - Currently showing: ${activeCategory === 'all' ? 'all products across all categories' : `only products in the "${activeCategory}" category`}
-   - Available categories: electronics, jewelery, men's clothing, women's clothing
+   - Available categories: ${availableCategories}
+   - Use the category IDs exactly as listed when calling filterCategory
 
 6. **PRODUCT DESCRIPTIONS**:
    - When asked about a product, provide its exact description from the data above
@@ -106,23 +128,59 @@ ${currentProducts.length > 10 ? `\n... and ${currentProducts.length - 10} more p
 
 /**
  * Generate cart context for AI
+ * Amounts come from the pricing engine so the assistant quotes what the cart
+ * shows: coupon discount and GST included, shipping added at checkout.
  */
-export function generateCartContext(
-  items: Array<{ product: Product; quantity: number }>,
-  subtotal: number
-): string {
-  if (items.length === 0) {
+export function generateCartContext(pricing: CartPricing): string {
+  const { lines } = pricing;
+  if (lines.length === 0) {
     return '\n**Shopping Cart**: Empty\n';
   }
 
-  const itemsList = items.map(item => 
-    `- ${item.product.title} (₹${(item.product.price * 83).toFixed(2)}) x ${item.quantity} = ₹${(item.product.price * 83 * item.quantity).toFixed(2)}`
+  const itemsList = lines.map(line =>
+    `- ${line.title} (${formatINR(line.unitPrice)}) x ${line.quantity} = ${formatINR(line.lineTotal)}`
   ).join('\n');
 
+  const discountText = pricing.discounts
+    .map(discount => `\n**Discount** (${discount.code}): -${formatINR(discount.amount)}`)
+    .join('');
+  const couponProblem = pricing.coupon?.problem ? `\nCoupon ${pricing.coupon.code} not applied: ${pricing.coupon.problem}` : '';
+  const shippingText = pricing.shipping > 0 ? `\n**Shipping**: ${formatINR(pricing.shipping)}` : '';
+
   return `
-**Shopping Cart** (${items.length} ${items.length === 1 ? 'item' : 'items'}):
+**Shopping Cart** (${lines.length} ${lines.length === 1 ? 'item' : 'items'}):
 ${itemsList}
 
-**Subtotal**: ₹${(subtotal * 83).toFixed(2)}
+**Subtotal**: ${formatINR(pricing.subtotal)}${discountText}${couponProblem}
+**GST**: ${formatINR(pricing.gst)}${shippingText}
+**Total**: ${formatINR(pricing.total)}${pricing.shipping > 0 ? '' : ' (shipping is added at checkout)'}
+`;
+}
+
+/**
+ * Generate watchlist context for AI
+ * Tracked products with target prices and notes; separate from the cart.
+ */
+export function generateWatchlistContext(items: WatchlistItem[]): string {
+  if (items.length === 0) {
+    return '\n**Seller Watchlist**: Empty\n';
+  }
+
+  const itemsList = items.map(({ product, addedAt, note, targetPrice, tagWhenAdded }) => {
+    const tag = getProductTag(product);
+    const details = [
+      `ID ${product.id}`,
+      `₹${(product.price * 83).toFixed(2)}`,
+      targetPrice !== null ? `target ₹${targetPrice}` : null,
+      `added ${addedAt.slice(0, 10)}`,
+      tag !== tagWhenAdded ? `tag ${tagWhenAdded ?? 'none'} → ${tag ?? 'none'}` : tag,
+      note ? `note: "${note}"` : null,
+    ].filter(Boolean);
+    return `- ${product.title} (${details.join(', ')})`;
+  }).join('\n');
+
+  return `
+**Seller Watchlist** (${items.length} tracked):
+${itemsList}
 `;
 }
@@ -0,0 +1,211 @@
+/**
+ * Product parsing and validation shared by every catalog provider
+ *
+ * All catalog adapters (Fake Store, local JSON file, generic REST) normalize
+ * their raw records into the Fake Store shape and then run them through the
+ * same parser, so validation rules live in exactly one place.
+ *
+ * Requirements: 2.5
+ */
+
+import { Product, ProductCategory, ProductVariant, VariantOptions } from './types';
+import { VARIANT_AXES } from './productVariants';
+
+/**
+ * Raw product data structure (Fake Store API shape)
+ * This may have slightly different types than our normalized Product interface
+ */
+export interface RawProduct {
+  id: number;
+  title: string;
+  price: number;
+  description: string;
+  category: string;
+  image: string;
+  rating: {
+    rate: number;
+    count: number;
+  };
+  stock?: number;
+  maxPerOrder?: number;
+  variants?: unknown[];
+}
+
+/**
+ * Validates if a string is a usable ProductCategory
+ * Categories are open-ended; only blank values are rejected.
+ * Requirement 2.5: Product data validation
+ */
+function isValidCategory(category: string): category is ProductCategory {
+  return category.trim().length > 0;
+}
+
+/**
+ * Validates a product object has all required fields
+ * Requirement 2.5: Product data validation
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function validateProduct(product: any): product is RawProduct {
+  return (
+    typeof product === 'object' &&
+    product !== null &&
+    typeof product.id === 'number' &&
+    typeof product.title === 'string' &&
+    typeof product.price === 'number' &&
+    typeof product.description === 'string' &&
+    typeof product.category === 'string' &&
+    typeof product.image === 'string' &&
+    typeof product.rating === 'object' &&
+    product.rating !== null &&
+    typeof product.rating.rate === 'number' &&
+    typeof product.rating.count === 'number'
+  );
+}
+
+/**
+ * Validates a count such as stock: a whole number from the minimum up
+ */
+function isCount(value: unknown, minimum: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= minimum;
+}
+
+/**
+ * Parses a variant, keeping the options on known axes
+ * Requirement 2.5: Product data validation
+ *
+ * @throws Error if the variant has no ID or options, or an invalid price or stock
+ */
+function parseVariant(rawVariant: unknown): ProductVariant {
+  const { id, options: rawOptions, price, stock } =
+    typeof rawVariant === 'object' && rawVariant !== null ? (rawVariant as Record<string, unknown>) : {};
+  if (typeof id !== 'string' || !id) {
+    throw new Error('Invalid product variant: missing id');
+  }
+
+  const options: VariantOptions = {};
+  for (const axis of VARIANT_AXES) {
+    const value = typeof rawOptions === 'object' && rawOptions !== null
+      ? (rawOptions as Record<string, unknown>)[axis]
+      : undefined;
+    if (typeof value === 'string' && value.trim()) {
+      options[axis] = value.trim();
+    }
+  }
+  if (Object.keys(options).length === 0) {
+    throw new Error(`Invalid product variant ${id}: no size or color`);
+  }
+  if (price !== undefined && !(typeof price === 'number' && price > 0)) {
+    throw new Error(`Invalid product variant ${id}: invalid price`);
+  }
+  if (stock !== undefined && !isCount(stock, 0)) {
+    throw new Error(`Invalid product variant ${id}: invalid stock`);
+  }
+
+  return {
+    id,
+    options,
+    ...(typeof price === 'number' ? { price } : {}),
+    ...(isCount(stock, 0) ? { stock } : {}),
+  };
+}
+
+/**
+ * Parses the optional stock, order limit and variants of a product
+ * Requirement 2.5: Product data validation
+ *
+ * @throws Error if any of them is present but invalid
+ */
+function parseInventory(rawProduct: RawProduct): Pick<Product, 'stock' | 'maxPerOrder' | 'variants'> {
+  if (rawProduct.stock !== undefined && !isCount(rawProduct.stock, 0)) {
+    throw new Error(`Invalid product stock: ${rawProduct.stock}`);
+  }
+  if (rawProduct.maxPerOrder !== undefined && !isCount(rawProduct.maxPerOrder, 1)) {
+    throw new Error(`Invalid product order limit: ${rawProduct.maxPerOrder}`);
+  }
+  if (rawProduct.variants !== undefined && !Array.isArray(rawProduct.variants)) {
+    throw new Error('Invalid product variants: not a list');
+  }
+
+  const variants = rawProduct.variants?.map(parseVariant) ?? [];
+  const ids = new Set(variants.map((variant) => variant.id));
+  if (ids.size < variants.length) {
+    throw new Error('Invalid product variants: duplicate ids');
+  }
+
+  return {
+    ...(rawProduct.stock !== undefined ? { stock: rawProduct.stock } : {}),
+    ...(rawProduct.maxPerOrder !== undefined ? { maxPerOrder: rawProduct.maxPerOrder } : {}),
+    ...(variants.length > 0 ? { variants } : {}),
+  };
+}
+
+/**
+ * Parses and normalizes a product from a raw catalog record
+ * Requirement 2.5: Product data parsing with all required fields
+ *
+ * @param rawProduct - Raw product data in the Fake Store shape
+ * @returns Normalized Product object, with stock, order limit and variants when the record has them
+ * @throws Error if product data is invalid or category is blank
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseProduct(rawProduct: any): Product {
+  // Validate the product structure
+  if (!validateProduct(rawProduct)) {
+    throw new Error(`Invalid product data: missing or invalid required fields`);
+  }
+
+  // Validate and normalize the category
+  if (!isValidCategory(rawProduct.category)) {
+    throw new Error(`Invalid product category: ${rawProduct.category}`);
+  }
+
+  // Return normalized product
+  return {
+    id: rawProduct.id,
+    title: rawProduct.title,
+    price: rawProduct.price,
+    description: rawProduct.description,
+    category: rawProduct.category.trim(),
+    image: rawProduct.image,
+    rating: {
+      rate: rawProduct.rating.rate,
+      count: rawProduct.rating.count,
+    },
+    ...parseInventory(rawProduct),
+  };
+}
+
+/**
+ * Parses a list of raw records, keeping every product that parses
+ *
+ * Records that fail validation are collected and logged rather than failing
+ * the whole list. Only when nothing parses is an error thrown.
+ *
+ * @param data - Array of raw product records
+ * @returns Array of valid Product objects (empty if data is empty)
+ * @throws Error if the list is non-empty and no record could be parsed
+ */
+export function parseProductList(data: unknown[]): Product[] {
+  const products: Product[] = [];
+  const errors: string[] = [];
+
+  for (let i = 0; i < data.length; i++) {
+    try {
+      products.push(parseProduct(data[i]));
+    } catch (error) {
+      // Collect errors but continue processing other products
+      errors.push(`Product at index ${i}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // If we have some valid products, return them even if some failed
+  if (products.length > 0 || data.length === 0) {
+    if (errors.length > 0) {
+      console.warn('Some products failed to parse:', errors);
+    }
+    return products;
+  }
+
+  // If no products were valid, throw an error
+  throw new Error(`Failed to parse any products. Errors: ${errors.join('; ')}`);
+}
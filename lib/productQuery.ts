@@ -0,0 +1,362 @@
+/**
+ * Product query helpers
+ *
+ * Parses and validates list query parameters, then applies filtering,
+ * sorting and pagination to a product list. Used by the /api/products
+ * route handlers and by useProducts so every consumer sees the same
+ * sort and facet semantics.
+ */
+
+import { getProductTag, Product, ProductCategory, ProductListResponse, ProductTag } from './types';
+import { searchProducts } from './searchIndex';
+import { convertToINR } from './currency';
+
+/**
+ * Supported sort orders
+ */
+export const PRODUCT_SORT_OPTIONS = ['price-asc', 'price-desc', 'rating-desc', 'reviews-desc', 'tag-desc'] as const;
+
+export type ProductSort = (typeof PRODUCT_SORT_OPTIONS)[number];
+
+/**
+ * Default and maximum page sizes for paginated requests
+ */
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Maximum accepted length for free-text and category parameters
+ */
+const MAX_PARAM_LENGTH = 100;
+
+/**
+ * Validated product list query
+ */
+export interface ProductListQuery {
+  category: ProductCategory | 'all';
+  q: string;
+  sort: ProductSort | null;
+  /** 1-based page number, or null to return every match */
+  page: number | null;
+  pageSize: number;
+}
+
+/**
+ * Result of parsing list query parameters
+ */
+export type ParseQueryResult =
+  | { ok: true; query: ProductListQuery }
+  | { ok: false; error: string };
+
+/**
+ * Parse a positive integer parameter
+ */
+function parsePositiveInt(value: string): number | null {
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+  const parsed = Number(value);
+  return parsed >= 1 ? parsed : null;
+}
+
+/**
+ * Parse and validate list query parameters
+ *
+ * @param params - URL search parameters (category, q, sort, page, pageSize)
+ * @returns The validated query, or a description of the first invalid parameter
+ */
+export function parseProductListQuery(params: URLSearchParams): ParseQueryResult {
+  const category = params.get('category')?.trim() || 'all';
+  const q = params.get('q')?.trim() ?? '';
+  const sort = params.get('sort');
+  const page = params.get('page');
+  const pageSize = params.get('pageSize');
+
+  if (category.length > MAX_PARAM_LENGTH) {
+    return { ok: false, error: `category must be at most ${MAX_PARAM_LENGTH} characters` };
+  }
+
+  if (q.length > MAX_PARAM_LENGTH) {
+    return { ok: false, error: `q must be at most ${MAX_PARAM_LENGTH} characters` };
+  }
+
+  if (sort !== null && !PRODUCT_SORT_OPTIONS.includes(sort as ProductSort)) {
+    return { ok: false, error: `sort must be one of: ${PRODUCT_SORT_OPTIONS.join(', ')}` };
+  }
+
+  const parsedPage = page === null ? null : parsePositiveInt(page);
+  if (page !== null && parsedPage === null) {
+    return { ok: false, error: 'page must be a positive integer' };
+  }
+
+  const parsedPageSize = pageSize === null ? DEFAULT_PAGE_SIZE : parsePositiveInt(pageSize);
+  if (parsedPageSize === null || parsedPageSize > MAX_PAGE_SIZE) {
+    return { ok: false, error: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  return {
+    ok: true,
+    query: {
+      category: category as ProductCategory | 'all',
+      q,
+      sort: sort as ProductSort | null,
+      page: parsedPage,
+      pageSize: parsedPageSize,
+    },
+  };
+}
+
+/**
+ * Rank of a product's demand tag for sorting (BESTSELLER first, untagged last)
+ */
+function getTagRank(product: Product): number {
+  const tag = getProductTag(product);
+  return tag === 'BESTSELLER' ? 2 : tag === 'HOT' ? 1 : 0;
+}
+
+/**
+ * Sort products without mutating the input
+ * Ties keep their catalog order.
+ *
+ * @param products - Products to sort
+ * @param sort - Sort order
+ * @returns New sorted array
+ */
+export function sortProducts(products: Product[], sort: ProductSort): Product[] {
+  const sorted = [...products];
+
+  switch (sort) {
+    case 'price-asc':
+      return sorted.sort((a, b) => a.price - b.price);
+    case 'price-desc':
+      return sorted.sort((a, b) => b.price - a.price);
+    case 'rating-desc':
+      return sorted.sort((a, b) => b.rating.rate - a.rating.rate);
+    case 'reviews-desc':
+      return sorted.sort((a, b) => b.rating.count - a.rating.count);
+    case 'tag-desc':
+      return sorted.sort((a, b) => getTagRank(b) - getTagRank(a));
+  }
+}
+
+/**
+ * Demand tags that can be filtered on
+ */
+export type ProductTagFilter = Exclude<ProductTag, null>;
+
+export const PRODUCT_TAG_FILTERS: readonly ProductTagFilter[] = ['BESTSELLER', 'HOT'];
+
+/**
+ * Facet filters applied on top of the category and search filters
+ * Prices are in INR, matching what the UI and the assistant show.
+ */
+export interface ProductFacets {
+  minPrice: number | null;
+  maxPrice: number | null;
+  minRating: number | null;
+  tag: ProductTagFilter | null;
+}
+
+/**
+ * Sort order and facet filters for the product list
+ */
+export interface ProductQuery {
+  /** Sort order, or null to keep catalog (or search relevance) order */
+  sort: ProductSort | null;
+  facets: ProductFacets;
+}
+
+/**
+ * Partial update to a ProductQuery; facets are merged individually
+ */
+export interface ProductQueryUpdate {
+  sort?: ProductSort | null;
+  facets?: Partial<ProductFacets>;
+}
+
+export const DEFAULT_PRODUCT_QUERY: ProductQuery = {
+  sort: null,
+  facets: {
+    minPrice: null,
+    maxPrice: null,
+    minRating: null,
+    tag: null,
+  },
+};
+
+/**
+ * Merge a partial update into a product query
+ *
+ * @param query - Current query
+ * @param update - Fields to change; omitted fields keep their current value
+ * @returns New ProductQuery
+ */
+export function mergeProductQuery(query: ProductQuery, update: ProductQueryUpdate): ProductQuery {
+  return {
+    sort: update.sort !== undefined ? update.sort : query.sort,
+    facets: { ...query.facets, ...update.facets },
+  };
+}
+
+/**
+ * Check whether any sort or facet filter is active
+ */
+export function isProductQueryActive(query: ProductQuery): boolean {
+  return query.sort !== null || Object.values(query.facets).some((value) => value !== null);
+}
+
+/**
+ * Check whether a product passes every active facet filter
+ *
+ * @param product - Product to check
+ * @param facets - Facet filters (null values are ignored)
+ * @returns true if the product matches
+ */
+export function matchesFacets(product: Product, facets: ProductFacets): boolean {
+  const priceINR = convertToINR(product.price);
+
+  if (facets.minPrice !== null && priceINR < facets.minPrice) {
+    return false;
+  }
+  if (facets.maxPrice !== null && priceINR > facets.maxPrice) {
+    return false;
+  }
+  if (facets.minRating !== null && product.rating.rate < facets.minRating) {
+    return false;
+  }
+  if (facets.tag !== null && getProductTag(product) !== facets.tag) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Apply facet filters and sort order to a product list
+ *
+ * @param products - Products after category and search filtering
+ * @param query - Sort and facets
+ * @returns New filtered and sorted array
+ */
+export function applyProductQuery(products: Product[], query: ProductQuery): Product[] {
+  const matches = products.filter((product) => matchesFacets(product, query.facets));
+  return query.sort ? sortProducts(matches, query.sort) : matches;
+}
+
+/**
+ * A price bucket in INR; max is exclusive so neighbouring buckets do not overlap
+ */
+export interface PriceRange {
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * Price buckets (INR) offered as quick filters, with facet counts
+ * A product priced at a boundary, e.g. ₹1,000, falls in the higher bucket.
+ */
+export const PRICE_RANGES_INR: ReadonlyArray<PriceRange> = [
+  { min: null, max: 1000 },
+  { min: 1000, max: 5000 },
+  { min: 5000, max: 20000 },
+  { min: 20000, max: null },
+];
+
+/**
+ * Facet filters that select a price bucket
+ * The maxPrice facet is inclusive, and prices are whole rupees (convertToINR
+ * rounds), so the bucket's exclusive bound becomes the rupee below it.
+ *
+ * @param range - Entry of PRICE_RANGES_INR
+ * @returns minPrice and maxPrice facets
+ */
+export function getPriceRangeFacets({ min, max }: PriceRange): Pick<ProductFacets, 'minPrice' | 'maxPrice'> {
+  return { minPrice: min, maxPrice: max === null ? null : max - 1 };
+}
+
+/**
+ * Minimum-rating thresholds offered as quick filters
+ */
+export const RATING_THRESHOLDS = [4.5, 4, 3] as const;
+
+/**
+ * Number of products matching each facet value
+ */
+export interface FacetCounts {
+  total: number;
+  tags: Record<ProductTagFilter, number>;
+  /** One count per entry in PRICE_RANGES_INR */
+  priceRanges: number[];
+  /** Products rated at or above each entry in RATING_THRESHOLDS */
+  ratings: number[];
+  /** Lowest and highest price in INR, or null when there are no products */
+  priceBounds: { min: number; max: number } | null;
+}
+
+/**
+ * Count products per facet value
+ * Counts are taken before facet filters are applied, so every option shows
+ * how many products selecting it would leave.
+ *
+ * @param products - Products after category and search filtering
+ * @returns FacetCounts for the UI
+ */
+export function getFacetCounts(products: Product[]): FacetCounts {
+  const prices = products.map((product) => convertToINR(product.price));
+
+  return {
+    total: products.length,
+    tags: {
+      BESTSELLER: products.filter((product) => getProductTag(product) === 'BESTSELLER').length,
+      HOT: products.filter((product) => getProductTag(product) === 'HOT').length,
+    },
+    priceRanges: PRICE_RANGES_INR.map(({ min, max }) =>
+      prices.filter((price) => (min === null || price >= min) && (max === null || price < max)).length
+    ),
+    ratings: RATING_THRESHOLDS.map((threshold) =>
+      products.filter((product) => product.rating.rate >= threshold).length
+    ),
+    priceBounds: prices.length > 0
+      ? { min: Math.min(...prices), max: Math.max(...prices) }
+      : null,
+  };
+}
+
+/**
+ * Apply a validated query to a product list
+ *
+ * @param products - Full catalog
+ * @param query - Validated list query
+ * @returns Matching products for the requested page with pagination metadata
+ */
+export function applyProductListQuery(
+  products: Product[],
+  query: ProductListQuery
+): ProductListResponse {
+  let matches = query.category === 'all'
+    ? products
+    : products.filter((product) => product.category === query.category);
+
+  // Search results come back ranked by relevance unless a sort is requested
+  if (query.q) {
+    matches = searchProducts(matches, query.q);
+  }
+
+  if (query.sort) {
+    matches = sortProducts(matches, query.sort);
+  }
+
+  const total = matches.length;
+
+  if (query.page === null) {
+    return { products: matches, total, page: 1, pageSize: total, totalPages: 1 };
+  }
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    products: matches.slice(start, start + query.pageSize),
+    total,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.max(1, Math.ceil(total / query.pageSize)),
+  };
+}
@@ -1,155 +1,34 @@
 /**
  * Product utility functions for fetching and caching product data
  * 
- * This module handles fetching products from the Fake Store API,
- * parsing and validating the response data, and providing error handling.
+ * This module fetches products through the active catalog provider
+ * (Fake Store API by default), caches the results in memory and in a
+ * persistent store (see productCacheStore.ts), and provides error handling.
+ * Parsing and validation live in productParser.ts and are shared by all providers.
  * 
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5
  */
 
 import { Product, ProductCategory } from './types';
+import { getCatalogProvider } from './catalogProvider';
+import { getProductCacheStore, isValidCacheEntry, PRODUCT_CACHE_VERSION } from './productCacheStore';
+import { CatalogRequestOptions, isAbortError, withAbortSignal } from './fetchWithRetry';
 
-/**
- * Fake Store API base URL
- */
-const FAKE_STORE_API_URL = 'https://fakestoreapi.com/products';
-
-/**
- * Raw product data structure from Fake Store API
- * This may have slightly different types than our normalized Product interface
- */
-interface FakeStoreProduct {
-  id: number;
-  title: string;
-  price: number;
-  description: string;
-  category: string;
-  image: string;
-  rating: {
-    rate: number;
-    count: number;
-  };
-}
-
-/**
- * Validates if a string is a valid ProductCategory
- * Requirement 2.5: Product data validation
- */
-function isValidCategory(category: string): category is ProductCategory {
-  return ['electronics', 'jewelery', "men's clothing", "women's clothing"].includes(category);
-}
-
-/**
- * Validates a product object has all required fields
- * Requirement 2.5: Product data validation
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function validateProduct(product: any): product is FakeStoreProduct {
-  return (
-    typeof product === 'object' &&
-    product !== null &&
-    typeof product.id === 'number' &&
-    typeof product.title === 'string' &&
-    typeof product.price === 'number' &&
-    typeof product.description === 'string' &&
-    typeof product.category === 'string' &&
-    typeof product.image === 'string' &&
-    typeof product.rating === 'object' &&
-    product.rating !== null &&
-    typeof product.rating.rate === 'number' &&
-    typeof product.rating.count === 'number'
-  );
-}
+export { parseProduct } from './productParser';
 
 /**
- * Parses and normalizes a product from the Fake Store API response
- * Requirement 2.5: Product data parsing with all required fields
- * 
- * @param rawProduct - Raw product data from API
- * @returns Normalized Product object
- * @throws Error if product data is invalid or category is not recognized
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function parseProduct(rawProduct: any): Product {
-  // Validate the product structure
-  if (!validateProduct(rawProduct)) {
-    throw new Error(`Invalid product data: missing or invalid required fields`);
-  }
-
-  // Validate and normalize the category
-  if (!isValidCategory(rawProduct.category)) {
-    throw new Error(`Invalid product category: ${rawProduct.category}`);
-  }
-
-  // Return normalized product
-  return {
-    id: rawProduct.id,
-    title: rawProduct.title,
-    price: rawProduct.price,
-    description: rawProduct.description,
-    category: rawProduct.category,
-    image: rawProduct.image,
-    rating: {
-      rate: rawProduct.rating.rate,
-      count: rawProduct.rating.count,
-    },
-  };
-}
-
-/**
- * Fetches all products from the Fake Store API
+ * Fetches all products from the active catalog provider
  * Requirement 2.1: Fetch all products from the Fake Store API
  * Requirement 2.3: Error handling for API failures
  * Requirement 2.4: Cache products for session duration
  * 
+ * @param options - Optional AbortSignal to cancel the request
  * @returns Promise resolving to array of Product objects
- * @throws Error if fetch fails or response is invalid
+ * @throws Error if fetch fails or response is invalid (FetchError for request failures)
  */
-export async function fetchProducts(): Promise<Product[]> {
+export async function fetchProducts(options: CatalogRequestOptions = {}): Promise<Product[]> {
   try {
-    // Fetch products from API
-    const response = await fetch(FAKE_STORE_API_URL);
-
-    // Check for HTTP errors
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch products: HTTP ${response.status} ${response.statusText}`
-      );
-    }
-
-    // Parse JSON response
-    const data = await response.json();
-
-    // Validate response is an array
-    if (!Array.isArray(data)) {
-      throw new Error('Invalid API response: expected array of products');
-    }
-
-    // Parse and validate each product
-    const products: Product[] = [];
-    const errors: string[] = [];
-
-    for (let i = 0; i < data.length; i++) {
-      try {
-        const product = parseProduct(data[i]);
-        products.push(product);
-      } catch (error) {
-        // Collect errors but continue processing other products
-        errors.push(`Product at index ${i}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
-
-    // If we have some valid products, return them even if some failed
-    if (products.length > 0) {
-      if (errors.length > 0) {
-        console.warn('Some products failed to parse:', errors);
-      }
-      return products;
-    }
-
-    // If no products were valid, throw an error
-    throw new Error(`Failed to parse any products. Errors: ${errors.join('; ')}`);
-
+    return await getCatalogProvider().listProducts(options);
   } catch (error) {
     // Log error for debugging (Requirement 10.5)
     console.error('[fetchProducts]', error);
@@ -167,28 +46,16 @@ export async function fetchProducts(): Promise<Product[]> {
  * Requirement 9.1: Support filtering by category
  * 
  * @param category - Category to filter by
+ * @param options - Optional AbortSignal to cancel the request
  * @returns Promise resolving to array of Product objects in that category
- * @throws Error if fetch fails or response is invalid
+ * @throws Error if fetch fails or response is invalid (FetchError for request failures)
  */
-export async function fetchProductsByCategory(category: ProductCategory): Promise<Product[]> {
+export async function fetchProductsByCategory(
+  category: ProductCategory,
+  options: CatalogRequestOptions = {}
+): Promise<Product[]> {
   try {
-    const url = `${FAKE_STORE_API_URL}/category/${encodeURIComponent(category)}`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch products for category ${category}: HTTP ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = await response.json();
-
-    if (!Array.isArray(data)) {
-      throw new Error('Invalid API response: expected array of products');
-    }
-
-    return data.map(parseProduct);
-
+    return await getCatalogProvider().getProductsByCategory(category, options);
   } catch (error) {
     console.error(`[fetchProductsByCategory:${category}]`, error);
     
@@ -200,55 +67,221 @@ export async function fetchProductsByCategory(category: ProductCategory): Promis
 }
 
 /**
- * Simple in-memory cache for products
+ * Where the most recently served product list came from
+ * - memory: module-level cache, no I/O
+ * - disk: persisted cache (IndexedDB in the browser)
+ * - network: fresh fetch from the catalog provider
+ */
+export type CacheSource = 'memory' | 'disk' | 'network';
+
+/**
+ * Product cache status for debugging and UI indicators
+ */
+export interface ProductCacheStatus {
+  isCached: boolean;
+  /** Age of the cached data in milliseconds */
+  cacheAge: number | null;
+  isExpired: boolean;
+  source: CacheSource | null;
+  /** Time of the last successful network fetch (ms since epoch) */
+  lastSyncAt: number | null;
+  /** Whether a background refresh is in flight */
+  isRevalidating: boolean;
+  /** Message of the last failed network fetch, cleared on success */
+  lastError: string | null;
+}
+
+/**
+ * Listener notified whenever the cache is refreshed or a refresh fails
+ */
+export type ProductCacheListener = (status: ProductCacheStatus, products: Product[] | null) => void;
+
+/**
+ * In-memory layer of the product cache
  * Requirement 2.4: Cache products for session duration
  */
 let productCache: Product[] | null = null;
 let cacheTimestamp: number | null = null;
+let cacheSource: CacheSource | null = null;
+let lastError: string | null = null;
+let networkRequest: Promise<Product[]> | null = null;
+let isRevalidating = false;
+let pendingClear: Promise<void> | null = null;
+const cacheListeners = new Set<ProductCacheListener>();
 
 /**
  * Cache duration in milliseconds (5 minutes)
+ * Older data is still served, but triggers a background refresh.
  */
 const CACHE_DURATION = 5 * 60 * 1000;
 
 /**
- * Fetches products with caching
- * Returns cached products if available and not expired
+ * Notify subscribers of a cache change
+ */
+function notifyCacheListeners(): void {
+  const status = getCacheStatus();
+  cacheListeners.forEach((listener) => listener(status, productCache));
+}
+
+/**
+ * Populate the in-memory cache from the persistent store, if it has a usable entry
+ */
+async function loadFromDisk(): Promise<void> {
+  if (pendingClear) {
+    await pendingClear;
+  }
+
+  try {
+    const entry = await getProductCacheStore().read();
+    if (productCache === null && isValidCacheEntry(entry, getCatalogProvider().name)) {
+      productCache = entry.products;
+      cacheTimestamp = entry.savedAt;
+      cacheSource = 'disk';
+    }
+  } catch (error) {
+    console.error('[productCache] Failed to read persisted products:', error);
+  }
+}
+
+/**
+ * Fetch from the catalog and update both cache layers
+ * Concurrent callers share a single request.
+ */
+function syncFromNetwork(): Promise<Product[]> {
+  if (!networkRequest) {
+    networkRequest = (async () => {
+      try {
+        const products = await fetchProducts();
+        const now = Date.now();
+
+        productCache = products;
+        cacheTimestamp = now;
+        cacheSource = 'network';
+        lastError = null;
+
+        try {
+          await getProductCacheStore().write({
+            version: PRODUCT_CACHE_VERSION,
+            provider: getCatalogProvider().name,
+            products,
+            savedAt: now,
+          });
+        } catch (error) {
+          // Persisting is best-effort; the in-memory cache is still valid
+          console.error('[productCache] Failed to persist products:', error);
+        }
+
+        return products;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Failed to fetch products';
+        throw error;
+      } finally {
+        networkRequest = null;
+        isRevalidating = false;
+        notifyCacheListeners();
+      }
+    })();
+  }
+  return networkRequest;
+}
+
+/**
+ * Refresh stale data without blocking the caller
+ */
+function revalidateInBackground(): void {
+  if (networkRequest) return;
+
+  isRevalidating = true;
+  syncFromNetwork().catch((error) => {
+    console.error('[productCache] Background refresh failed, serving cached products:', error);
+  });
+}
+
+/**
+ * Fetches products with stale-while-revalidate caching
+ * Fresh cached products are returned directly. Expired ones are returned
+ * immediately while a background refresh runs. If the network fails, the
+ * last cached products (in memory or on disk) are served instead of an error.
  * Requirement 2.4: Cache products for session duration
  * 
+ * Aborting options.signal stops the caller waiting; a network request shared
+ * with other callers still completes and updates the cache.
+ * 
  * @param forceRefresh - If true, bypass cache and fetch fresh data
+ * @param options - Optional AbortSignal
  * @returns Promise resolving to array of Product objects
+ * @throws Error if the fetch fails and nothing is cached, or FetchError 'aborted' if cancelled
  */
-export async function fetchProductsWithCache(forceRefresh: boolean = false): Promise<Product[]> {
-  const now = Date.now();
+export async function fetchProductsWithCache(
+  forceRefresh: boolean = false,
+  options: CatalogRequestOptions = {}
+): Promise<Product[]> {
+  if (!forceRefresh) {
+    if (productCache === null) {
+      await loadFromDisk();
+    } else {
+      cacheSource = 'memory';
+    }
 
-  // Return cached products if available and not expired
-  if (
-    !forceRefresh &&
-    productCache !== null &&
-    cacheTimestamp !== null &&
-    now - cacheTimestamp < CACHE_DURATION
-  ) {
-    return productCache;
+    if (productCache !== null && cacheTimestamp !== null) {
+      if (Date.now() - cacheTimestamp >= CACHE_DURATION) {
+        revalidateInBackground();
+      }
+      return productCache;
+    }
   }
 
-  // Fetch fresh products
-  const products = await fetchProducts();
-
-  // Update cache
-  productCache = products;
-  cacheTimestamp = now;
+  try {
+    return await withAbortSignal(syncFromNetwork(), options.signal);
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
 
-  return products;
+    // Offline fallback: serve whatever was cached last
+    if (productCache === null) {
+      await loadFromDisk();
+    }
+    if (productCache !== null) {
+      console.warn('[productCache] Catalog unreachable, serving cached products');
+      return productCache;
+    }
+    throw error;
+  }
 }
 
 /**
- * Clears the product cache
+ * Clears the product cache, including the persisted copy
  * Useful for testing or forcing a refresh
  */
 export function clearProductCache(): void {
   productCache = null;
   cacheTimestamp = null;
+  cacheSource = null;
+  lastError = null;
+
+  const clearing = getProductCacheStore()
+    .clear()
+    .catch((error) => console.error('[productCache] Failed to clear persisted products:', error))
+    .finally(() => {
+      if (pendingClear === clearing) {
+        pendingClear = null;
+      }
+    });
+  pendingClear = clearing;
+}
+
+/**
+ * Subscribe to cache refreshes (including background revalidation)
+ * 
+ * @param listener - Called with the new status and products after every network sync
+ * @returns Function that removes the listener
+ */
+export function subscribeToProductCache(listener: ProductCacheListener): () => void {
+  cacheListeners.add(listener);
+  return () => {
+    cacheListeners.delete(listener);
+  };
 }
 
 /**
@@ -257,16 +290,20 @@ export function clearProductCache(): void {
  * 
  * @returns Object with cache status information
  */
-export function getCacheStatus(): {
-  isCached: boolean;
-  cacheAge: number | null;
-  isExpired: boolean;
-} {
+export function getCacheStatus(): ProductCacheStatus {
+  const common = {
+    source: cacheSource,
+    lastSyncAt: cacheTimestamp,
+    isRevalidating,
+    lastError,
+  };
+
   if (productCache === null || cacheTimestamp === null) {
     return {
       isCached: false,
       cacheAge: null,
       isExpired: false,
+      ...common,
     };
   }
 
@@ -275,5 +312,6 @@ export function getCacheStatus(): {
     isCached: true,
     cacheAge: age,
     isExpired: age >= CACHE_DURATION,
+    ...common,
   };
 }
@@ -0,0 +1,200 @@
+/**
+ * Product variants and stock
+ *
+ * Some products come in versions the shopper picks between, e.g. a T-shirt in
+ * sizes S to XL and two colors (see ProductVariant). This file looks variants
+ * up, matches a spoken choice like "medium in black" to one, and works out the
+ * price and stock of what was picked. Cart limits are applied in cartUtils.ts.
+ */
+
+import { Product, ProductVariant, VariantAxis, VariantOptions } from './types';
+
+/**
+ * Axes in the order they are asked about and shown
+ */
+export const VARIANT_AXES: VariantAxis[] = ['size', 'color'];
+
+/**
+ * Spoken sizes and the letter sizes catalogs list them as
+ */
+const SIZE_ALIASES: Record<string, string> = {
+  'extra small': 'xs',
+  small: 's',
+  medium: 'm',
+  large: 'l',
+  'extra large': 'xl',
+  'double extra large': 'xxl',
+  'extra extra large': 'xxl',
+  '2xl': 'xxl',
+};
+
+/**
+ * Normalize an option value for comparison: "Extra-Large" and "XL" both give "xl"
+ */
+function normalizeOptionValue(axis: VariantAxis, value: string): string {
+  const normalized = value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  return axis === 'size' ? SIZE_ALIASES[normalized] ?? normalized : normalized;
+}
+
+/**
+ * Check whether a product has variants to choose between
+ */
+export function hasVariants(product: Product): boolean {
+  return (product.variants?.length ?? 0) > 0;
+}
+
+/**
+ * Get the axes a product varies along, e.g. ['size', 'color']
+ */
+export function getVariantAxes(product: Product): VariantAxis[] {
+  return VARIANT_AXES.filter((axis) => product.variants?.some((variant) => variant.options[axis] !== undefined));
+}
+
+/**
+ * Get the values a product comes in on one axis, in catalog order
+ */
+export function getVariantValues(product: Product, axis: VariantAxis): string[] {
+  const values: string[] = [];
+  for (const variant of product.variants ?? []) {
+    const value = variant.options[axis];
+    if (value !== undefined && !values.includes(value)) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Find a product's variant by ID
+ *
+ * @returns The variant, or undefined when the ID is omitted or unknown
+ */
+export function findVariant(product: Product, variantId: string | undefined): ProductVariant | undefined {
+  return variantId === undefined ? undefined : product.variants?.find((variant) => variant.id === variantId);
+}
+
+/**
+ * Name a variant by its options, e.g. "M / Black"
+ */
+export function getVariantLabel(variant: ProductVariant): string {
+  return VARIANT_AXES.flatMap((axis) => variant.options[axis] ?? []).join(' / ');
+}
+
+/**
+ * Name a product with its variant, e.g. "Cotton Tee (M / Black)"
+ */
+export function getVariantTitle(product: Product, variantId: string | undefined): string {
+  const variant = findVariant(product, variantId);
+  return variant ? `${product.title} (${getVariantLabel(variant)})` : product.title;
+}
+
+/**
+ * Get the price of one unit, in USD
+ */
+export function getUnitPrice(product: Product, variantId?: string): number {
+  return findVariant(product, variantId)?.price ?? product.price;
+}
+
+/**
+ * Get the units in stock
+ * Stock is the variant's for products with variants, the product's otherwise.
+ *
+ * @returns Units in stock, or null when stock is not tracked
+ */
+export function getStock(product: Product, variantId?: string): number | null {
+  if (hasVariants(product)) {
+    return findVariant(product, variantId)?.stock ?? null;
+  }
+  return product.stock ?? null;
+}
+
+/**
+ * Check whether any of a product can be bought
+ */
+export function isInStock(product: Product): boolean {
+  if (hasVariants(product)) {
+    return product.variants!.some((variant) => variant.stock === undefined || variant.stock > 0);
+  }
+  return product.stock === undefined || product.stock > 0;
+}
+
+/**
+ * Result of matching a choice to a variant
+ * - missing: more than one variant fits; the axes still to choose are listed
+ * - unknownValue: the product does not come in that value, e.g. size XXL
+ * - noMatch: each value exists, but not together, e.g. size S only comes in white
+ */
+export type VariantMatch =
+  | { ok: true; variant: ProductVariant | undefined }
+  | { ok: false; reason: 'missing'; axes: VariantAxis[] }
+  | { ok: false; reason: 'unknownValue'; axis: VariantAxis; value: string }
+  | { ok: false; reason: 'noMatch' };
+
+/**
+ * Match a choice, as spoken or picked, to one of a product's variants
+ * Values are compared ignoring case, and spoken sizes like "medium" match "M".
+ * Axes the product does not vary along are ignored.
+ *
+ * @param product - Product to choose from
+ * @param selection - Chosen value on each axis
+ * @returns The variant (undefined for products without variants), or why none was picked
+ */
+export function matchVariant(product: Product, selection: VariantOptions = {}): VariantMatch {
+  if (!hasVariants(product)) {
+    return { ok: true, variant: undefined };
+  }
+
+  let candidates = product.variants!;
+  for (const axis of getVariantAxes(product)) {
+    const value = selection[axis];
+    if (value === undefined || value.trim() === '') {
+      continue;
+    }
+    const wanted = normalizeOptionValue(axis, value);
+    const known = getVariantValues(product, axis).some((option) => normalizeOptionValue(axis, option) === wanted);
+    if (!known) {
+      return { ok: false, reason: 'unknownValue', axis, value };
+    }
+    candidates = candidates.filter((variant) => {
+      const option = variant.options[axis];
+      return option !== undefined && normalizeOptionValue(axis, option) === wanted;
+    });
+  }
+
+  if (candidates.length === 0) {
+    return { ok: false, reason: 'noMatch' };
+  }
+  if (candidates.length === 1) {
+    return { ok: true, variant: candidates[0] };
+  }
+  // Only axes that still tell the candidates apart need asking about
+  const axes = getVariantAxes(product).filter(
+    (axis) => new Set(candidates.map((variant) => variant.options[axis])).size > 1
+  );
+  return { ok: false, reason: 'missing', axes };
+}
+
+/**
+ * Explain a failed match, phrased for the assistant
+ *
+ * @param product - Product being chosen from
+ * @param match - Failed match
+ * @returns e.g. "Which size? Cotton Tee comes in size S, M, L."
+ */
+export function describeVariantMismatch(
+  product: Product,
+  match: Exclude<VariantMatch, { ok: true }>
+): string {
+  const listValues = (axis: VariantAxis) => `${axis} ${getVariantValues(product, axis).join(', ')}`;
+
+  switch (match.reason) {
+    case 'missing':
+      return `Which ${match.axes.join(' and ')}? ${product.title} comes in ${match.axes.map(listValues).join('; ')}.`;
+    case 'unknownValue':
+      return `${product.title} does not come in ${match.axis} ${match.value}. It comes in ${listValues(match.axis)}.`;
+    case 'noMatch':
+      return `${product.title} is not made in that combination. It comes in ${product.variants!
+        .map(getVariantLabel)
+        .join(', ')}.`;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Runtime validation against tool parameter JSON schemas
+ *
+ * Checks values sent by the voice model against the same JsonSchema that was
+ * sent to Ultravox, so the schema the model sees and the checks applied to its
+ * calls cannot drift apart. Error messages name the parameter, the rule and the
+ * value received, so the model can correct the call.
+ *
+ * Supports the subset of JSON Schema used by JsonSchema in ultravox-types.ts.
+ */
+
+import { JsonSchema } from './ultravox-types';
+
+/**
+ * Describe a received value for an error message
+ */
+export function describeValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'object') {
+    return 'an object';
+  }
+  return String(value);
+}
+
+/**
+ * Check the value's JSON type
+ */
+function checkType(schema: JsonSchema, value: unknown, path: string): string | null {
+  const received = `(received ${describeValue(value)})`;
+
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string' ? null : `${path} must be a string ${received}`;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? null
+        : `${path} must be a number ${received}`;
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value)
+        ? null
+        : `${path} must be a whole number ${received}`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} must be true or false ${received}`;
+    case 'array':
+      return Array.isArray(value) ? null : `${path} must be an array ${received}`;
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? null
+        : `${path} must be an object ${received}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a value against a JSON schema
+ *
+ * @param schema - Schema to check against
+ * @param value - Value to check
+ * @param path - Name of the value, used in error messages
+ * @returns A description of the first problem, or null if the value is valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path: string): string | null {
+  const typeError = checkType(schema, value, path);
+  if (typeError) {
+    return typeError;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return `${path} must be one of: ${schema.enum.join(', ')} (received ${describeValue(value)})`;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return `${path} must be at least ${schema.minimum} (received ${value})`;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `${path} must be at most ${schema.maximum} (received ${value})`;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return `${path} must be at least ${schema.minLength} characters`;
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `${path} must be at most ${schema.maxLength} characters`;
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const problem = validateJsonSchema(schema.items, value[i], `${path}[${i}]`);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (record[name] === undefined) {
+        return `${path}.${name} is required`;
+      }
+    }
+    for (const [name, propertySchema] of Object.entries(schema.properties)) {
+      if (record[name] !== undefined) {
+        const problem = validateJsonSchema(propertySchema, record[name], `${path}.${name}`);
+        if (problem) {
+          return problem;
+        }
+      }
+    }
+  }
+
+  return null;
+}
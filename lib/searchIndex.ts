@@ -0,0 +1,235 @@
+/**
+ * In-memory product search index
+ *
+ * Tokenizes product titles, categories and descriptions and ranks products
+ * against a free-text query with fuzzy token matching, so spoken queries like
+ * "find me a backpack" or slightly misheard words still find the right items.
+ *
+ * Scoring per query term takes the best match across fields:
+ * - exact token match: 1.0, prefix match: 0.8, small typo (edit distance): 0.6
+ * - weighted by field: title x3, category x2, description x1
+ * Every meaningful query term must match for a product to be included.
+ */
+
+import { Product } from './types';
+
+/**
+ * Field weights used for ranking
+ */
+const FIELD_WEIGHTS = {
+  title: 3,
+  category: 2,
+  description: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+/**
+ * Bonus added when the whole query appears verbatim in the title
+ */
+const PHRASE_BONUS = 2;
+
+/**
+ * Filler words common in spoken queries that carry no search meaning
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'for', 'find', 'i', 'in', 'is', 'looking', 'me',
+  'my', 'of', 'on', 'please', 'search', 'show', 'some', 'something', 'the',
+  'to', 'want', 'with',
+]);
+
+/**
+ * Indexed product with pre-tokenized fields
+ */
+export interface SearchIndexEntry {
+  product: Product;
+  title: string;
+  tokens: Record<SearchField, string[]>;
+}
+
+/**
+ * Search index over a product list
+ */
+export interface SearchIndex {
+  entries: SearchIndexEntry[];
+}
+
+/**
+ * A ranked search match
+ */
+export interface SearchResult {
+  product: Product;
+  score: number;
+}
+
+/**
+ * Split text into lowercase alphanumeric tokens (Latin and Devanagari)
+ *
+ * @param text - Text to tokenize
+ * @returns Array of tokens (apostrophes are dropped, so "men's" becomes "mens")
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9\u0900-\u097f]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Meaningful query terms: tokens minus stop words
+ */
+function getQueryTerms(query: string): string[] {
+  return tokenize(query).filter((token) => !STOP_WORDS.has(token));
+}
+
+/**
+ * Levenshtein distance with an early exit once the bound is exceeded
+ *
+ * @returns The edit distance, or maxDistance + 1 if it exceeds maxDistance
+ */
+function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Score how well a query term matches a single token (0 = no match)
+ */
+function matchToken(term: string, token: string): number {
+  if (token === term) {
+    return 1;
+  }
+  if (term.length >= 2 && token.startsWith(term)) {
+    return 0.8;
+  }
+  if (term.length >= 4) {
+    const allowedEdits = term.length >= 7 ? 2 : 1;
+    if (boundedEditDistance(term, token, allowedEdits) <= allowedEdits) {
+      return 0.6;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Best weighted score for a query term across all fields of an entry
+ */
+function scoreTerm(term: string, entry: SearchIndexEntry): number {
+  let best = 0;
+
+  for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+    for (const token of entry.tokens[field]) {
+      const score = matchToken(term, token) * FIELD_WEIGHTS[field];
+      if (score > best) {
+        best = score;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Build a search index for a product list
+ *
+ * @param products - Products to index
+ * @returns SearchIndex ready for querying
+ */
+export function buildSearchIndex(products: Product[]): SearchIndex {
+  return {
+    entries: products.map((product) => ({
+      product,
+      title: product.title.toLowerCase(),
+      tokens: {
+        title: tokenize(product.title),
+        category: tokenize(product.category),
+        description: tokenize(product.description),
+      },
+    })),
+  };
+}
+
+/**
+ * Query a search index
+ *
+ * @param index - Index built with buildSearchIndex
+ * @param query - Free-text query
+ * @param limit - Optional maximum number of results
+ * @returns Matches ranked by score, then by review count
+ */
+export function querySearchIndex(index: SearchIndex, query: string, limit?: number): SearchResult[] {
+  const terms = getQueryTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const phrase = terms.join(' ');
+  const results: SearchResult[] = [];
+
+  for (const entry of index.entries) {
+    let score = 0;
+
+    for (const term of terms) {
+      const termScore = scoreTerm(term, entry);
+      if (termScore === 0) {
+        score = 0;
+        break;
+      }
+      score += termScore;
+    }
+
+    if (score > 0) {
+      if (terms.length > 1 && entry.title.includes(phrase)) {
+        score += PHRASE_BONUS;
+      }
+      results.push({ product: entry.product, score });
+    }
+  }
+
+  results.sort((a, b) => b.score - a.score || b.product.rating.count - a.product.rating.count);
+
+  return limit === undefined ? results : results.slice(0, limit);
+}
+
+/**
+ * Check whether a query contains any searchable terms
+ */
+export function isSearchableQuery(query: string): boolean {
+  return getQueryTerms(query).length > 0;
+}
+
+/**
+ * Search a product list, ranking the best matches first
+ *
+ * @param products - Products to search
+ * @param query - Free-text query
+ * @returns Ranked matching products, or the input unchanged if the query has no searchable terms
+ */
+export function searchProducts(products: Product[], query: string): Product[] {
+  if (!isSearchableQuery(query)) {
+    return products;
+  }
+  return querySearchIndex(buildSearchIndex(products), query).map((result) => result.product);
+}
@@ -0,0 +1,370 @@
+/**
+ * Structured results for voice tool calls
+ *
+ * UI handlers answer tool requests with a ToolOutcome describing what actually
+ * happened (what is now on screen, cart totals, or why nothing changed). The
+ * outcome is serialized and returned to the model as the tool result, so the
+ * assistant only confirms actions that took effect.
+ *
+ * Requirements: 3.4, 5.4, 10.4
+ */
+
+import {
+  CartState,
+  CheckoutStep,
+  DeliveryOptionId,
+  OrderHistory,
+  PaymentMethod,
+  Product,
+  ProductTag,
+  VariantAxis,
+  WatchlistState,
+  getProductTag,
+} from './types';
+import { formatINR, formatPrice } from './currency';
+import { getCartItemCount } from './cartUtils';
+import { isAtTargetPrice } from './watchlistUtils';
+import { getOrderItemCount } from './orderHistory';
+import { priceCart } from './pricing';
+import {
+  findVariant,
+  getVariantAxes,
+  getVariantLabel,
+  getVariantValues,
+  hasVariants,
+  isInStock,
+} from './productVariants';
+import type { CheckoutState } from './checkoutState';
+import {
+  AddressErrors,
+  DELIVERY_OPTIONS,
+  calculateCheckoutTotals,
+  formatShippingAddress,
+  isShippingAddressComplete,
+  validateShippingAddress,
+} from './checkoutUtils';
+
+/**
+ * Why a tool request did not take effect
+ * - invalid: the parameters were missing or out of range
+ * - notFound: the product, category or position does not exist
+ * - unavailable: nothing on screen can handle the request right now
+ * - timeout: the UI did not answer in time
+ * - failed: the handler threw
+ * - needsConfirmation: the action is held until the user confirms it (see confirmation.ts)
+ */
+export type ToolErrorCode = 'invalid' | 'notFound' | 'unavailable' | 'timeout' | 'failed' | 'needsConfirmation';
+
+/**
+ * Product as described to the model
+ */
+export interface ToolProductSummary {
+  id: number;
+  title: string;
+  /** Price formatted in INR, e.g. "₹2,490" */
+  price: string;
+  category: string;
+  rating: number;
+  reviews: number;
+  description?: string;
+  /** Sizes and colors the product comes in, for products with variants */
+  options?: Partial<Record<VariantAxis, string[]>>;
+  /** Units in stock, when the catalog tracks it and the product has no variants */
+  stock?: number;
+  /** Set when nothing of the product can be bought */
+  outOfStock?: boolean;
+  maxPerOrder?: number;
+}
+
+/**
+ * Cart as described to the model
+ */
+export interface ToolCartSummary {
+  itemCount: number;
+  /** Amounts formatted in INR; shipping is added at checkout */
+  subtotal: string;
+  discount?: string;
+  gst: string;
+  total: string;
+  /** Coupon entered, and why it gives no discount if it does not */
+  coupon?: { code: string; applied: boolean; problem?: string };
+  /** variant names the size and color, e.g. "M / Black" */
+  items: Array<{ id: number; title: string; variant?: string; quantity: number }>;
+}
+
+/**
+ * Watchlist as described to the model
+ */
+export interface ToolWatchlistSummary {
+  itemCount: number;
+  items: Array<{
+    id: number;
+    title: string;
+    /** Current price formatted in INR */
+    price: string;
+    /** Target price formatted in INR, if set */
+    targetPrice?: string;
+    /** Whether the current price is at or below the target */
+    atTarget?: boolean;
+    note?: string;
+    /** Date added, YYYY-MM-DD */
+    addedOn: string;
+    tag: ProductTag;
+    tagWhenAdded: ProductTag;
+  }>;
+}
+
+/**
+ * Checkout as described to the model
+ */
+export interface ToolCheckoutSummary {
+  step: CheckoutStep;
+  itemCount: number;
+  /** Amounts formatted in INR */
+  subtotal: string;
+  discount?: string;
+  gst: string;
+  deliveryFee: string;
+  total: string;
+  /** Address on one line, once complete */
+  address?: string;
+  /** Address fields still missing or invalid */
+  addressProblems?: AddressErrors;
+  delivery?: { option: DeliveryOptionId; days: string };
+  paymentMethod: PaymentMethod;
+  /** Why the last payment failed */
+  paymentError?: string;
+  /** ID of the placed order */
+  orderId?: string;
+}
+
+/**
+ * Order history as described to the model
+ */
+export interface ToolOrdersSummary {
+  orderCount: number;
+  /** Most recent orders, newest first */
+  orders: Array<{
+    id: string;
+    /** Date placed, YYYY-MM-DD */
+    placedOn: string;
+    itemCount: number;
+    /** Total formatted in INR */
+    total: string;
+    items: Array<{ id: number; title: string; quantity: number }>;
+  }>;
+}
+
+/**
+ * Number of orders listed in an orders summary
+ */
+export const TOOL_RECENT_ORDERS_LIMIT = 5;
+
+/**
+ * Details attached to a successful outcome
+ */
+export interface ToolSuccessDetails {
+  /** Product now shown in the detail view */
+  product?: ToolProductSummary;
+  /** Cart after the action */
+  cart?: ToolCartSummary;
+  /** Watchlist after the action */
+  watchlist?: ToolWatchlistSummary;
+  /** Checkout after the action */
+  checkout?: ToolCheckoutSummary;
+  /** Past orders */
+  orders?: ToolOrdersSummary;
+  /** Items that could not be used because they are no longer in the catalog */
+  unavailableItems?: string[];
+  /** Number of products now listed */
+  resultCount?: number;
+  /** First few products now listed */
+  topProducts?: ToolProductSummary[];
+}
+
+/**
+ * Result of a tool request
+ */
+export type ToolOutcome =
+  | ({ ok: true; message: string } & ToolSuccessDetails)
+  | { ok: false; code: ToolErrorCode; error: string };
+
+/**
+ * Number of products listed in topProducts
+ */
+export const TOOL_TOP_PRODUCTS_LIMIT = 3;
+
+/**
+ * Create a successful outcome
+ *
+ * @param message - What happened, phrased for the assistant to relay
+ * @param details - Product, cart or result details
+ * @returns ToolOutcome with ok: true
+ */
+export function toolSuccess(message: string, details: ToolSuccessDetails = {}): ToolOutcome {
+  return { ok: true, message, ...details };
+}
+
+/**
+ * Create a failed outcome
+ *
+ * @param code - Failure category
+ * @param error - Why nothing changed, phrased for the assistant to relay
+ * @returns ToolOutcome with ok: false
+ */
+export function toolFailure(code: ToolErrorCode, error: string): ToolOutcome {
+  return { ok: false, code, error };
+}
+
+/**
+ * Summarize a product for a tool result
+ *
+ * @param product - Product to describe
+ * @param includeDescription - Whether to include the full description
+ * @returns ToolProductSummary
+ */
+export function summarizeProduct(product: Product, includeDescription: boolean = false): ToolProductSummary {
+  return {
+    id: product.id,
+    title: product.title,
+    price: formatPrice(product.price),
+    category: product.category,
+    rating: product.rating.rate,
+    reviews: product.rating.count,
+    ...(includeDescription ? { description: product.description } : {}),
+    ...(hasVariants(product)
+      ? { options: Object.fromEntries(getVariantAxes(product).map((axis) => [axis, getVariantValues(product, axis)])) }
+      : {}),
+    ...(!hasVariants(product) && product.stock !== undefined ? { stock: product.stock } : {}),
+    ...(!isInStock(product) ? { outOfStock: true } : {}),
+    ...(product.maxPerOrder !== undefined ? { maxPerOrder: product.maxPerOrder } : {}),
+  };
+}
+
+/**
+ * Summarize the first few products of a list
+ *
+ * @param products - Products in display order
+ * @returns Summaries of up to TOOL_TOP_PRODUCTS_LIMIT products
+ */
+export function summarizeTopProducts(products: Product[]): ToolProductSummary[] {
+  return products.slice(0, TOOL_TOP_PRODUCTS_LIMIT).map((product) => summarizeProduct(product));
+}
+
+/**
+ * Summarize the cart for a tool result
+ *
+ * @param cart - Cart state
+ * @returns ToolCartSummary
+ */
+export function summarizeCart(cart: CartState): ToolCartSummary {
+  const pricing = priceCart(cart);
+  return {
+    itemCount: getCartItemCount(cart),
+    subtotal: formatINR(pricing.subtotal),
+    ...(pricing.discount > 0 ? { discount: formatINR(pricing.discount) } : {}),
+    gst: formatINR(pricing.gst),
+    total: formatINR(pricing.total),
+    ...(pricing.coupon
+      ? {
+          coupon: {
+            code: pricing.coupon.code,
+            applied: pricing.coupon.applied,
+            ...(pricing.coupon.problem ? { problem: pricing.coupon.problem } : {}),
+          },
+        }
+      : {}),
+    items: cart.items.map((item) => {
+      const variant = findVariant(item.product, item.variantId);
+      return {
+        id: item.product.id,
+        title: item.product.title,
+        ...(variant ? { variant: getVariantLabel(variant) } : {}),
+        quantity: item.quantity,
+      };
+    }),
+  };
+}
+
+/**
+ * Summarize the watchlist for a tool result
+ *
+ * @param watchlist - Watchlist state
+ * @returns ToolWatchlistSummary
+ */
+export function summarizeWatchlist(watchlist: WatchlistState): ToolWatchlistSummary {
+  return {
+    itemCount: watchlist.items.length,
+    items: watchlist.items.map((item) => ({
+      id: item.product.id,
+      title: item.product.title,
+      price: formatPrice(item.product.price),
+      ...(item.targetPrice !== null
+        ? { targetPrice: formatINR(item.targetPrice), atTarget: isAtTargetPrice(item) }
+        : {}),
+      ...(item.note ? { note: item.note } : {}),
+      addedOn: item.addedAt.slice(0, 10),
+      tag: getProductTag(item.product),
+      tagWhenAdded: item.tagWhenAdded,
+    })),
+  };
+}
+
+/**
+ * Summarize checkout for a tool result
+ * Once the order is placed, the amounts are the order's rather than the (now empty) cart's.
+ *
+ * @param checkout - Checkout state
+ * @param cart - Cart being checked out
+ * @returns ToolCheckoutSummary
+ */
+export function summarizeCheckout(checkout: CheckoutState, cart: CartState): ToolCheckoutSummary {
+  const { order } = checkout;
+  const totals = order ?? calculateCheckoutTotals(cart, checkout.delivery);
+  const addressProblems = validateShippingAddress(checkout.address);
+  const delivery = checkout.delivery ? DELIVERY_OPTIONS[checkout.delivery] : null;
+
+  return {
+    step: checkout.step,
+    itemCount: order ? order.items.reduce((sum, item) => sum + item.quantity, 0) : getCartItemCount(cart),
+    subtotal: formatINR(totals.subtotal),
+    // Orders saved before GST and coupons have neither
+    ...(totals.discount > 0 ? { discount: formatINR(totals.discount) } : {}),
+    gst: formatINR(totals.gst ?? 0),
+    deliveryFee: formatINR(totals.deliveryFee),
+    total: formatINR(totals.total),
+    ...(isShippingAddressComplete(checkout.address)
+      ? { address: formatShippingAddress(checkout.address) }
+      : { addressProblems }),
+    ...(delivery ? { delivery: { option: delivery.id, days: `${delivery.minDays}-${delivery.maxDays}` } } : {}),
+    paymentMethod: checkout.paymentMethod,
+    ...(checkout.paymentError ? { paymentError: checkout.paymentError } : {}),
+    ...(order ? { orderId: order.id } : {}),
+  };
+}
+
+/**
+ * Summarize the order history for a tool result
+ *
+ * @param history - Order history
+ * @returns ToolOrdersSummary with up to TOOL_RECENT_ORDERS_LIMIT orders
+ */
+export function summarizeOrders(history: OrderHistory): ToolOrdersSummary {
+  return {
+    orderCount: history.orders.length,
+    orders: history.orders.slice(0, TOOL_RECENT_ORDERS_LIMIT).map((order) => ({
+      id: order.id,
+      placedOn: order.placedAt.slice(0, 10),
+      itemCount: getOrderItemCount(order),
+      total: formatINR(order.total),
+      items: order.items.map((item) => ({ id: item.productId, title: item.title, quantity: item.quantity })),
+    })),
+  };
+}
+
+/**
+ * Serialize an outcome as the tool result string returned to the model
+ */
+export function formatToolOutcome(outcome: ToolOutcome): string {
+  return JSON.stringify(outcome);
+}
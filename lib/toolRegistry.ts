@@ -0,0 +1,410 @@
+/**
+ * Declarative registry for Ultravox client tools
+ *
+ * A tool is defined once with defineClientTool: its name, description, a typed
+ * parameter spec and a handler. From that single definition the registry
+ * derives the DynamicParameter schemas sent when creating a call, validates the
+ * parameters the model sends at runtime, and registers the implementation on
+ * the UltravoxSession.
+ *
+ * Parameters are validated against the derived JSON schema (see
+ * schemaValidation.ts) and then against the live catalog, e.g. that a product
+ * ID exists. Rejected calls are logged and answered with an 'invalid' outcome
+ * that tells the model what to fix; they never reach the handler.
+ *
+ * A tool can also ask for confirmation: calls its `confirmation` check flags
+ * under the persona's policy are held until the user confirms them (see
+ * confirmation.ts).
+ *
+ * Requirements: 3.1, 3.2, 3.3, 5.1, 5.2, 5.3, 5.5
+ */
+
+import type { UltravoxSession } from 'ultravox-client';
+import type { Persona } from './personas';
+import { DynamicParameter, JsonSchema, ParameterLocation, SelectedTool } from './ultravox-types';
+import { ProductCategory } from './types';
+import { KNOWN_CATEGORY_IDS } from './categories';
+import { formatToolOutcome, toolFailure, ToolOutcome } from './toolOutcome';
+import { validateJsonSchema } from './schemaValidation';
+import {
+  ConfirmationPolicy,
+  ConfirmationRequest,
+  getConfirmationPolicy,
+  holdPendingAction,
+} from './confirmation';
+
+/**
+ * Catalog details that tool schemas can depend on
+ */
+export interface ToolSchemaContext {
+  /** Category IDs present in the catalog */
+  categories: ProductCategory[];
+}
+
+export const DEFAULT_TOOL_SCHEMA_CONTEXT: ToolSchemaContext = {
+  categories: KNOWN_CATEGORY_IDS,
+};
+
+/**
+ * Live catalog state used to validate tool parameters
+ */
+export interface ToolCatalogState extends ToolSchemaContext {
+  /** IDs of the products in the catalog */
+  productIds: ReadonlySet<number>;
+}
+
+interface BaseParamSpec<T> {
+  description: string;
+  /** Whether the model must always pass this parameter (default false) */
+  required?: boolean;
+  /**
+   * Check the value against the catalog
+   * Only runs once the catalog is known (see setToolCatalogState).
+   * @returns A description of the problem, or null if the value is valid
+   */
+  validate?: (value: T, catalog: ToolCatalogState) => string | null;
+}
+
+/**
+ * String parameter
+ * `enum` may be a function of the catalog, e.g. the current categories.
+ */
+export interface StringParamSpec extends BaseParamSpec<string> {
+  type: 'string';
+  enum?: readonly string[] | ((context: ToolSchemaContext) => readonly string[]);
+  maxLength?: number;
+}
+
+export interface NumberParamSpec extends BaseParamSpec<number> {
+  type: 'number';
+  minimum?: number;
+  maximum?: number;
+  /** Reject fractional values */
+  integer?: boolean;
+}
+
+export interface BooleanParamSpec extends BaseParamSpec<boolean> {
+  type: 'boolean';
+}
+
+export type ToolParamSpec = StringParamSpec | NumberParamSpec | BooleanParamSpec;
+
+export type ToolParamSpecs = Record<string, ToolParamSpec>;
+
+/**
+ * Value type of a single parameter
+ */
+type ToolParamValue<S extends ToolParamSpec> =
+  S extends NumberParamSpec ? number
+    : S extends BooleanParamSpec ? boolean
+      : S extends { enum: readonly (infer E extends string)[] } ? E
+        : string;
+
+type RequiredParamKeys<P extends ToolParamSpecs> = {
+  [K in keyof P]: P[K] extends { required: true } ? K : never;
+}[keyof P];
+
+/**
+ * Validated parameters passed to a tool handler
+ */
+export type ToolParams<P extends ToolParamSpecs> = {
+  [K in RequiredParamKeys<P>]: ToolParamValue<P[K]>;
+} & {
+  [K in Exclude<keyof P, RequiredParamKeys<P>>]?: ToolParamValue<P[K]>;
+};
+
+/**
+ * A client tool definition
+ */
+export interface ClientToolDefinition<P extends ToolParamSpecs = ToolParamSpecs> {
+  /** Tool name the model calls (modelToolName) */
+  name: string;
+  /** Description shown to the model; may depend on the catalog */
+  description: string | ((context: ToolSchemaContext) => string);
+  params: P;
+  /** Carries out the tool call with validated parameters */
+  handler: (params: ToolParams<P>) => ToolOutcome | Promise<ToolOutcome>;
+  /**
+   * Check whether a call needs the user's confirmation before it runs
+   * @returns What to ask the user, or null to run the call right away
+   */
+  confirmation?: (params: ToolParams<P>, policy: ConfirmationPolicy) => ConfirmationRequest | null;
+}
+
+/**
+ * Registered tools in definition order
+ */
+const registry = new Map<string, ClientToolDefinition>();
+
+/**
+ * Define a client tool and add it to the registry
+ * Defining a tool with an existing name replaces the earlier definition.
+ *
+ * @param definition - Name, description, parameter spec and handler
+ * @returns The definition, for building schemas or invoking it directly
+ *
+ * @example
+ * ```typescript
+ * export const openCartTool = defineClientTool({
+ *   name: 'openCart',
+ *   description: 'Open the shopping cart overlay.',
+ *   params: {},
+ *   handler: () => request(CLIENT_TOOL_EVENTS.OPEN_CART, {}),
+ * });
+ * ```
+ */
+export function defineClientTool<const P extends ToolParamSpecs>(
+  definition: ClientToolDefinition<P>
+): ClientToolDefinition<P> {
+  registry.set(definition.name, definition as unknown as ClientToolDefinition);
+  return definition;
+}
+
+/**
+ * Get every registered tool definition in definition order
+ */
+export function getClientToolDefinitions(): ClientToolDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Resolve a string parameter's allowed values
+ * Catalog-dependent values are unknown (undefined) without a context.
+ */
+function resolveEnum(spec: StringParamSpec, context: ToolSchemaContext | null): readonly string[] | undefined {
+  if (typeof spec.enum === 'function') {
+    return context ? spec.enum(context) : undefined;
+  }
+  return spec.enum;
+}
+
+/**
+ * Derive the JSON schema for one parameter
+ */
+function toJsonSchema(spec: ToolParamSpec, context: ToolSchemaContext | null): JsonSchema {
+  switch (spec.type) {
+    case 'string': {
+      const allowed = resolveEnum(spec, context);
+      return {
+        type: 'string',
+        description: spec.description,
+        ...(allowed ? { enum: [...allowed] } : {}),
+        ...(spec.maxLength !== undefined ? { maxLength: spec.maxLength } : {}),
+      };
+    }
+    case 'number':
+      return {
+        type: spec.integer ? 'integer' : 'number',
+        description: spec.description,
+        ...(spec.minimum !== undefined ? { minimum: spec.minimum } : {}),
+        ...(spec.maximum !== undefined ? { maximum: spec.maximum } : {}),
+      };
+    case 'boolean':
+      return { type: 'boolean', description: spec.description };
+  }
+}
+
+/**
+ * Build the Ultravox tool schema for a definition
+ *
+ * @param definition - Tool definition
+ * @param context - Catalog details for catalog-dependent schemas
+ * @returns SelectedTool for the call configuration
+ */
+export function buildToolSchema<P extends ToolParamSpecs>(
+  definition: ClientToolDefinition<P>,
+  context: ToolSchemaContext = DEFAULT_TOOL_SCHEMA_CONTEXT
+): SelectedTool {
+  const dynamicParameters: DynamicParameter[] = Object.entries<ToolParamSpec>(definition.params).map(
+    ([name, spec]) => ({
+      name,
+      location: ParameterLocation.BODY,
+      schema: toJsonSchema(spec, context),
+      required: spec.required === true,
+    })
+  );
+
+  return {
+    temporaryTool: {
+      modelToolName: definition.name,
+      description: typeof definition.description === 'function'
+        ? definition.description(context)
+        : definition.description,
+      dynamicParameters,
+      client: {},
+    },
+  };
+}
+
+/**
+ * Build the schemas of every registered tool
+ *
+ * @param context - Catalog details for catalog-dependent schemas
+ * @returns Client tools array for the Ultravox call configuration
+ */
+export function getClientToolSchemas(
+  context: ToolSchemaContext = DEFAULT_TOOL_SCHEMA_CONTEXT
+): SelectedTool[] {
+  return getClientToolDefinitions().map((definition) => buildToolSchema(definition, context));
+}
+
+/**
+ * Result of validating tool parameters
+ */
+export type ToolParamValidation =
+  | { ok: true; value: Record<string, unknown> }
+  | { ok: false; error: string };
+
+/**
+ * Current catalog state (null until the catalog has loaded)
+ */
+let catalogState: ToolCatalogState | null = null;
+
+/**
+ * Get the catalog state used to validate tool parameters
+ */
+export function getToolCatalogState(): ToolCatalogState | null {
+  return catalogState;
+}
+
+/**
+ * Update the catalog state used to validate tool parameters
+ * Pass null to skip catalog checks, e.g. while loading. Also used by tests.
+ *
+ * @param state - Categories and product IDs in the catalog, or null
+ */
+export function setToolCatalogState(state: ToolCatalogState | null): void {
+  catalogState = state;
+}
+
+/**
+ * Run a parameter's catalog check
+ */
+function runCatalogCheck(spec: ToolParamSpec, value: unknown, catalog: ToolCatalogState): string | null {
+  // The schema check has already confirmed the value matches the spec's type
+  const validate = spec.validate as ((value: unknown, catalog: ToolCatalogState) => string | null) | undefined;
+  return validate ? validate(value, catalog) : null;
+}
+
+/**
+ * Validate raw tool parameters against a parameter spec
+ * Unknown parameters are dropped; null counts as omitted.
+ *
+ * @param params - Parameter spec
+ * @param raw - Parameters sent by the model
+ * @param catalog - Catalog state; catalog-dependent checks are skipped without it
+ * @returns The validated parameters, or a description of the first problem
+ */
+export function validateToolParameters(
+  params: ToolParamSpecs,
+  raw: unknown,
+  catalog: ToolCatalogState | null = null
+): ToolParamValidation {
+  const input = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>) : {};
+  const value: Record<string, unknown> = {};
+
+  for (const [name, spec] of Object.entries(params)) {
+    const received = input[name];
+
+    if (received === undefined || received === null) {
+      if (spec.required) {
+        return { ok: false, error: `${name} is required` };
+      }
+      continue;
+    }
+
+    const problem = validateJsonSchema(toJsonSchema(spec, catalog), received, name)
+      ?? (catalog ? runCatalogCheck(spec, received, catalog) : null);
+    if (problem) {
+      return { ok: false, error: problem };
+    }
+    value[name] = received;
+  }
+
+  return { ok: true, value };
+}
+
+/**
+ * Run a tool definition with raw parameters
+ * Invalid parameters never reach the handler.
+ */
+async function runClientTool(
+  definition: ClientToolDefinition,
+  parameters: unknown
+): Promise<ToolOutcome> {
+  console.log(`[${definition.name}] Tool called with:`, parameters);
+
+  const validation = validateToolParameters(definition.params, parameters, catalogState);
+  if (!validation.ok) {
+    console.warn('[toolRegistry]', `Rejected ${definition.name} call: ${validation.error}`, parameters);
+    return toolFailure(
+      'invalid',
+      `Invalid ${definition.name} call: ${validation.error}. Correct the parameters and try again, or ask the user.`
+    );
+  }
+
+  const params = validation.value as ToolParams<ToolParamSpecs>;
+  const confirmation = definition.confirmation?.(params, getConfirmationPolicy()) ?? null;
+  if (confirmation) {
+    holdPendingAction(definition.name, confirmation, () => runHandler(definition, params));
+    return toolFailure(
+      'needsConfirmation',
+      `Not done yet. Ask the user to confirm that they want to ${confirmation.summary}, then call confirmPendingAction if they agree or cancelPendingAction if not.`
+    );
+  }
+
+  return runHandler(definition, params);
+}
+
+/**
+ * Run a tool's handler with validated parameters
+ * A handler that throws is logged and reported as a failed outcome.
+ */
+async function runHandler(
+  definition: ClientToolDefinition,
+  params: ToolParams<ToolParamSpecs>
+): Promise<ToolOutcome> {
+  try {
+    return await definition.handler(params);
+  } catch (error) {
+    console.error(`[${definition.name}]`, error);
+    return toolFailure('failed', 'Something went wrong while doing that.');
+  }
+}
+
+/**
+ * Run a registered tool by name and format the result for the model
+ *
+ * @param name - Tool name
+ * @param parameters - Parameters sent by the model
+ * @returns Serialized ToolOutcome
+ */
+export async function invokeClientTool(name: string, parameters: unknown): Promise<string> {
+  const definition = registry.get(name);
+  if (!definition) {
+    return formatToolOutcome(toolFailure('unavailable', `Unknown tool "${name}".`));
+  }
+  return formatToolOutcome(await runClientTool(definition, parameters));
+}
+
+/**
+ * Register the implementations of a persona's tools on a voice session
+ * Tools outside the persona's set are left unregistered, so the session cannot
+ * run them even if the model calls one it was not given.
+ *
+ * @param session - Session to register on
+ * @param persona - Persona the session is for
+ */
+export function registerClientTools(
+  session: Pick<UltravoxSession, 'registerToolImplementation'>,
+  persona: Pick<Persona, 'tools'>
+): void {
+  for (const definition of getClientToolDefinitions()) {
+    if (!persona.tools.includes(definition.name)) {
+      continue;
+    }
+    session.registerToolImplementation(definition.name, (parameters) =>
+      invokeClientTool(definition.name, parameters)
+    );
+  }
+}
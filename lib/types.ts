@@ -5,19 +5,62 @@
  * Requirements: 2.5, 5.1, 5.2
  */
 
+import type { ProductFacets, ProductSort } from './productQuery';
+import type { ProductTarget } from './navigationUtils';
+
+/**
+ * Product category identifier as it appears in the catalog
+ * Categories are data-driven; see lib/categories.ts for display metadata.
+ */
+export type ProductCategory = string;
+
 /**
- * Product category types from Fake Store API
+ * Display metadata for a product category
+ * Requirement 9.3, 9.4: Category buttons with labels and active state
  */
-export type ProductCategory = 'electronics' | 'jewelery' | "men's clothing" | "women's clothing";
+export interface CategoryInfo {
+  id: ProductCategory;
+  label: string;
+  emoji: string;
+  /** Localized labels keyed by language code; falls back to label */
+  translations: Partial<Record<'en' | 'hi', string>>;
+  /** Number of products in the category */
+  count: number;
+}
 
 /**
  * Product tag types for trending/bestseller indicators
  */
 export type ProductTag = 'HOT' | 'BESTSELLER' | null;
 
+/**
+ * Axis a product can vary along
+ */
+export type VariantAxis = 'size' | 'color';
+
+/**
+ * Value on each axis, e.g. { size: 'M', color: 'Black' }
+ */
+export type VariantOptions = Partial<Record<VariantAxis, string>>;
+
+/**
+ * Version of a product the shopper picks, e.g. a T-shirt in size M
+ * See lib/productVariants.ts for matching a spoken choice to a variant.
+ */
+export interface ProductVariant {
+  /** Unique within the product, e.g. "m-black" */
+  id: string;
+  options: VariantOptions;
+  /** Price in USD; the product's price when omitted */
+  price?: number;
+  /** Units in stock; unlimited when omitted */
+  stock?: number;
+}
+
 /**
  * Product data structure from Fake Store API
  * Requirement 2.5: Product data parsing with all required fields
+ * Stock, order limit and variants are optional extensions other catalogs can supply.
  */
 export interface Product {
   id: number;
@@ -30,6 +73,12 @@ export interface Product {
     rate: number;
     count: number;
   };
+  /** Units in stock; unlimited when omitted. Products with variants keep stock per variant. */
+  stock?: number;
+  /** Most units one order can hold, across all variants */
+  maxPerOrder?: number;
+  /** Versions to choose between; every cart line of the product names one */
+  variants?: ProductVariant[];
 }
 
 /**
@@ -57,6 +106,8 @@ export function getProductTag(product: Product): ProductTag {
 export interface CartItem {
   product: Product;
   quantity: number;
+  /** Variant chosen, for products with variants */
+  variantId?: string;
 }
 
 /**
@@ -66,6 +117,111 @@ export interface CartItem {
 export interface CartState {
   items: CartItem[];
   subtotal: number;
+  /** Coupon code entered by the user; see lib/pricing.ts for whether it applies */
+  couponCode?: string;
+  /**
+   * Saved items whose products are not in the loaded catalog
+   * Kept, and saved again, until a current catalog confirms they are gone.
+   */
+  unresolvedItems?: PersistedCartItem[];
+}
+
+/**
+ * Product tracked on the seller watchlist
+ * Unlike a cart item it has no quantity: sellers track products to research,
+ * with their own notes and the price they want to see.
+ */
+export interface WatchlistItem {
+  product: Product;
+  /** When the product was added (ISO timestamp) */
+  addedAt: string;
+  /** Seller's note, e.g. "compare with supplier quote" ('' for none) */
+  note: string;
+  /** Price in INR the seller is waiting for, or null */
+  targetPrice: number | null;
+  /** Demand tag when the product was added, to spot changes since */
+  tagWhenAdded: ProductTag;
+}
+
+/**
+ * Seller watchlist state
+ */
+export interface WatchlistState {
+  items: WatchlistItem[];
+}
+
+/**
+ * Shipping address collected at checkout
+ * Indian format: a 6-digit PIN code and a 10-digit mobile number.
+ */
+export interface ShippingAddress {
+  fullName: string;
+  phone: string;
+  line1: string;
+  /** Landmark or second address line ('' for none) */
+  line2: string;
+  city: string;
+  state: string;
+  pinCode: string;
+}
+
+export type ShippingAddressField = keyof ShippingAddress;
+
+export type DeliveryOptionId = 'standard' | 'express';
+
+export type PaymentMethod = 'upi' | 'card' | 'cod';
+
+/**
+ * Checkout steps, in order
+ */
+export type CheckoutStep = 'review' | 'address' | 'delivery' | 'payment' | 'confirmation';
+
+/**
+ * Order line; a snapshot so the order reads the same if the catalog changes
+ */
+export interface OrderItem {
+  productId: number;
+  variantId?: string;
+  /** Includes the variant, e.g. "Cotton Tee (M / Black)" */
+  title: string;
+  image: string;
+  quantity: number;
+  /** Price per unit in INR when ordered */
+  unitPrice: number;
+}
+
+/**
+ * Placed order
+ * Amounts are in INR.
+ */
+export interface Order {
+  /** Order ID shown to the user, e.g. "KLD-20260301-4F7Q2A" */
+  id: string;
+  /** When the order was placed (ISO timestamp) */
+  placedAt: string;
+  items: OrderItem[];
+  address: ShippingAddress;
+  delivery: DeliveryOptionId;
+  /** Amounts in INR, to the paisa */
+  subtotal: number;
+  discount: number;
+  gst: number;
+  deliveryFee: number;
+  total: number;
+  /** Coupon that gave the discount */
+  couponCode?: string;
+  payment: {
+    method: PaymentMethod;
+    provider: string;
+    transactionId: string;
+  };
+}
+
+/**
+ * Placed orders, newest first
+ */
+export interface OrderHistory {
+  orders: Order[];
 }
 
 /**
@@ -110,18 +266,77 @@ export interface AppState {
   voiceSession: VoiceSessionState;
 }
 
+/**
+ * Cart item as saved
+ * The title names the item while its product is missing from the catalog.
+ */
+export interface PersistedCartItem {
+  productId: number;
+  quantity: number;
+  variantId?: string;
+  title?: string;
+}
+
 /**
  * Persisted cart structure for localStorage
  * Requirement 6.5: Cart persistence
+ * See lib/cartStore.ts for the schema versions and their migrations.
  */
 export interface PersistedCart {
+  version: number;
+  items: PersistedCartItem[];
+  couponCode?: string;
+  lastUpdated: string; // ISO timestamp
+}
+
+/**
+ * Persisted watchlist structure for localStorage
+ */
+export interface PersistedWatchlist {
   items: Array<{
     productId: number;
-    quantity: number;
+    addedAt: string;
+    note: string;
+    targetPrice: number | null;
+    tagWhenAdded: ProductTag;
   }>;
   lastUpdated: string; // ISO timestamp
 }
 
+/**
+ * Persisted order history structure for localStorage
+ * Orders are stored whole: they are snapshots and do not depend on the catalog.
+ */
+export interface PersistedOrderHistory {
+  orders: Order[];
+  lastUpdated: string; // ISO timestamp
+}
+
+/**
+ * Catalog API response types
+ * Returned by the /api/products route handlers
+ */
+
+export interface ProductListResponse {
+  products: Product[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface ProductResponse {
+  product: Product;
+}
+
+/**
+ * Error body returned by API routes
+ */
+export interface ApiErrorResponse {
+  error: string;
+  details?: string;
+}
+
 /**
  * Client tool parameter types for voice commands
  */
@@ -130,6 +345,8 @@ export interface UpdateCartParams {
   action: 'add' | 'remove' | 'clear' | 'update';
   productId?: number;
   quantity?: number;
+  size?: string;
+  color?: string;
 }
 
 export interface NavigateProductParams {
@@ -145,31 +362,82 @@ export interface SpeakProductParams {
 }
 
 /**
- * Custom event types for client tool communication
+ * Event detail types for client tool communication
+ * Keyed by event name in JarvisEventMap (lib/eventBus.ts)
  */
 
-export interface CartUpdateEvent extends CustomEvent {
-  detail: {
-    action: 'add' | 'remove' | 'clear' | 'update';
-    productId?: number;
-    quantity?: number;
-  };
+export interface CartUpdateDetail {
+  action: 'add' | 'remove' | 'clear' | 'update';
+  productId?: number;
+  quantity?: number;
+  /** Variant as spoken, e.g. { size: 'medium' }; matched with matchVariant (productVariants.ts) */
+  variant?: VariantOptions;
 }
 
-export interface ProductNavigateEvent extends CustomEvent {
-  detail: {
-    direction: 'next' | 'previous';
-  };
+export interface WatchlistUpdateDetail {
+  action: 'add' | 'remove' | 'clear' | 'update';
+  productId?: number;
+  /** Note to save; '' clears it */
+  note?: string;
+  /** Target price in INR; null clears it */
+  targetPrice?: number | null;
 }
 
-export interface CategoryFilterEvent extends CustomEvent {
-  detail: {
-    category: ProductCategory | 'all';
-  };
+/**
+ * Address fields to fill in; omitted fields keep their current value
+ */
+export type ShippingAddressDetail = Partial<ShippingAddress>;
+
+export interface DeliveryOptionDetail {
+  delivery: DeliveryOptionId;
 }
 
-export interface ReadProductEvent extends CustomEvent {
-  detail: {
-    productId: number;
-  };
+export interface ApplyCouponDetail {
+  /** Coupon code as spoken or typed, e.g. "diwali 10" */
+  code: string;
+}
+
+export interface ReorderDetail {
+  /** Order ID, or its last characters; omitted for the most recent order */
+  orderId?: string;
+}
+
+export interface PlaceOrderDetail {
+  /** Defaults to the method chosen on screen */
+  paymentMethod?: PaymentMethod;
+}
+
+export interface ProductNavigateDetail {
+  direction: 'next' | 'previous';
+}
+
+export interface CategoryFilterDetail {
+  category: ProductCategory | 'all';
+}
+
+export interface ReadProductDetail {
+  /** Product to read, or 0 for the current product */
+  productId: number;
+}
+
+/**
+ * Product to open, by ID, 1-based position in the list or title fragment
+ */
+export type GoToProductDetail = ProductTarget;
+
+export interface SearchProductsDetail {
+  /** Search text; empty clears the search */
+  query: string;
+}
+
+/**
+ * Detail of a sort and filter event
+ * Omitted fields leave the current setting unchanged.
+ */
+export interface SortAndFilterDetail {
+  category?: ProductCategory | 'all';
+  sort?: ProductSort | null;
+  facets?: Partial<ProductFacets>;
+  /** Clear the current sort and facets before applying this request */
+  reset?: boolean;
 }
@@ -0,0 +1,89 @@
+/**
+ * URL state for Jarvis Shopping Assistant
+ *
+ * Encodes a BrowsingLocation in the query string, e.g.
+ * `/?category=electronics&product=9&cart=open`, so views can be bookmarked,
+ * shared and survive a refresh. `/products/[id]` redirects to the same form.
+ * Values are only checked for shape here; the page checks categories and
+ * product IDs against the loaded catalog.
+ */
+
+import { BrowsingLocation } from './browsingHistory';
+
+/**
+ * Query string parameter names
+ */
+export const URL_PARAMS = {
+  CATEGORY: 'category',
+  SEARCH: 'q',
+  PRODUCT: 'product',
+  CART: 'cart',
+  WATCHLIST: 'watchlist',
+} as const;
+
+/**
+ * Location shown when the URL has no state
+ */
+export const DEFAULT_BROWSING_LOCATION: BrowsingLocation = {
+  category: 'all',
+  searchQuery: '',
+  productId: null,
+  cartOpen: false,
+  watchlistOpen: false,
+};
+
+/**
+ * Build the query string for a location
+ * Default values are left out, so the home view has a clean URL.
+ *
+ * @param location - Location to encode
+ * @returns Query string including the leading "?", or "" for the default location
+ */
+export function locationToSearch(location: BrowsingLocation): string {
+  const params = new URLSearchParams();
+  if (location.category !== 'all') {
+    params.set(URL_PARAMS.CATEGORY, location.category);
+  }
+  if (location.searchQuery) {
+    params.set(URL_PARAMS.SEARCH, location.searchQuery);
+  }
+  if (location.productId !== null) {
+    params.set(URL_PARAMS.PRODUCT, String(location.productId));
+  }
+  if (location.cartOpen) {
+    params.set(URL_PARAMS.CART, 'open');
+  }
+  if (location.watchlistOpen) {
+    params.set(URL_PARAMS.WATCHLIST, 'open');
+  }
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+/**
+ * Read a location from a query string
+ * Malformed values fall back to their defaults.
+ *
+ * @param search - Query string, with or without the leading "?"
+ * @returns The location, or null if the query string holds no location state
+ */
+export function parseLocationFromSearch(search: string): BrowsingLocation | null {
+  const params = new URLSearchParams(search);
+  const hasState = Object.values(URL_PARAMS).some((name) => params.has(name));
+  if (!hasState) {
+    return null;
+  }
+
+  const category = params.get(URL_PARAMS.CATEGORY)?.trim();
+  const productParam = params.get(URL_PARAMS.PRODUCT);
+  const productId = productParam && /^\d+$/.test(productParam) ? Number(productParam) : null;
+
+  return {
+    category: category || 'all',
+    searchQuery: params.get(URL_PARAMS.SEARCH)?.trim() ?? '',
+    productId: productId !== null && productId > 0 ? productId : null,
+    cartOpen: params.get(URL_PARAMS.CART) === 'open',
+    watchlistOpen: params.get(URL_PARAMS.WATCHLIST) === 'open',
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * useBrowsingHistory custom hook
+ *
+ * Records the page's location (see browsingHistory.ts) and mirrors it into the
+ * browser history, so the browser's back and forward buttons, the goBack and
+ * goForward voice tools and the Backspace shortcut (see keyboardShortcuts.ts)
+ * all walk the same stack.
+ *
+ * Each browser history entry stores its position in the stack and the
+ * location's URL (see urlState.ts); when the user moves through browser
+ * history, the hook asks the page to restore the location at that position.
+ * A location in the URL the app was opened with is restored once the page is
+ * ready, so links and refreshes return to the same view.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  BrowsingHistory,
+  BrowsingLocation,
+  canGoBack,
+  canGoForward,
+  createBrowsingHistory,
+  getCurrentLocation,
+  getHistoryPosition,
+  goToHistoryPosition,
+  isSameLocation,
+  recordLocation,
+  replaceCurrentLocation,
+} from './browsingHistory';
+import { locationToSearch, parseLocationFromSearch } from './urlState';
+
+/**
+ * Key of the stack position in window.history.state
+ */
+const HISTORY_STATE_KEY = 'kaldiHistoryPosition';
+
+/**
+ * Options for useBrowsingHistory hook
+ */
+export interface UseBrowsingHistoryOptions {
+  /** Whether the page can show the location from the URL yet, e.g. once the catalog has loaded */
+  ready?: boolean;
+}
+
+/**
+ * Return type for useBrowsingHistory hook
+ */
+export interface UseBrowsingHistoryReturn {
+  canGoBack: boolean;
+  canGoForward: boolean;
+  /** Go back one location; returns the location being returned to, or null if there is none */
+  goBack: () => BrowsingLocation | null;
+  /** Go forward one location; returns the location being shown, or null if there is none */
+  goForward: () => BrowsingLocation | null;
+}
+
+/**
+ * Write the stack position and the location's URL into the browser history
+ * Without a location the current URL is kept.
+ */
+function writeBrowserEntry(position: number, mode: 'push' | 'replace', location: BrowsingLocation | null): void {
+  const state = { ...window.history.state, [HISTORY_STATE_KEY]: position };
+  const url = location
+    ? `${window.location.pathname}${locationToSearch(location)}${window.location.hash}`
+    : undefined;
+  if (mode === 'push') {
+    window.history.pushState(state, '', url);
+  } else {
+    window.history.replaceState(state, '', url);
+  }
+}
+
+/**
+ * Custom hook for back/forward navigation
+ *
+ * @param location - Location currently shown
+ * @param onRestore - Shows a location the user went back or forward to, or opened from a URL;
+ *   returns the location actually shown if it had to differ, e.g. for a product no longer in the catalog
+ * @param options - See UseBrowsingHistoryOptions
+ * @returns Back/forward availability and actions
+ */
+export function useBrowsingHistory(
+  location: BrowsingLocation,
+  onRestore: (location: BrowsingLocation) => BrowsingLocation | void,
+  { ready = true }: UseBrowsingHistoryOptions = {}
+): UseBrowsingHistoryReturn {
+  const [history, setHistory] = useState<BrowsingHistory>(() => createBrowsingHistory(location));
+
+  // Latest values for the browser event handlers
+  const historyRef = useRef(history);
+  const locationRef = useRef(location);
+  const restoreRef = useRef(onRestore);
+  // Location from the URL the app was opened with, until it has been shown
+  const urlLocationRef = useRef<BrowsingLocation | null>(null);
+
+  useEffect(() => {
+    locationRef.current = location;
+    restoreRef.current = onRestore;
+  });
+
+  const updateHistory = useCallback((next: BrowsingHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  /**
+   * Show the current entry's location, recording what was actually shown
+   * Updating the entry first means showing it is not recorded as a new visit.
+   */
+  const restoreCurrentEntry = useCallback((next: BrowsingHistory) => {
+    const target = getCurrentLocation(next);
+    const shown = restoreRef.current(target) ?? target;
+    if (isSameLocation(shown, target)) {
+      updateHistory(next);
+      return;
+    }
+    const corrected = replaceCurrentLocation(next, shown);
+    updateHistory(corrected);
+    writeBrowserEntry(getHistoryPosition(corrected), 'replace', shown);
+  }, [updateHistory]);
+
+  /**
+   * Mark the entry the app was loaded in, keeping its URL until it has been read
+   */
+  useEffect(() => {
+    urlLocationRef.current = parseLocationFromSearch(window.location.search);
+    writeBrowserEntry(getHistoryPosition(historyRef.current), 'replace', null);
+  }, []);
+
+  /**
+   * Show the location from the URL once the page is ready
+   */
+  useEffect(() => {
+    const urlLocation = urlLocationRef.current;
+    if (!ready || !urlLocation) {
+      return;
+    }
+    urlLocationRef.current = null;
+    if (!isSameLocation(urlLocation, locationRef.current)) {
+      restoreCurrentEntry(replaceCurrentLocation(historyRef.current, urlLocation));
+    }
+  }, [ready, restoreCurrentEntry]);
+
+  /**
+   * Record each new location
+   */
+  const { category, searchQuery, productId, cartOpen, watchlistOpen } = location;
+  useEffect(() => {
+    const shown: BrowsingLocation = { category, searchQuery, productId, cartOpen, watchlistOpen };
+    const current = historyRef.current;
+    const { history: next, replaced } = recordLocation(current, shown);
+    if (next === current) {
+      return;
+    }
+    updateHistory(next);
+    writeBrowserEntry(getHistoryPosition(next), replaced ? 'replace' : 'push', shown);
+  }, [category, searchQuery, productId, cartOpen, watchlistOpen, updateHistory]);
+
+  /**
+   * Restore the location of the browser entry the user moved to
+   */
+  useEffect(() => {
+    const onPopState = (event: PopStateEvent) => {
+      const position = (event.state as Record<string, unknown> | null)?.[HISTORY_STATE_KEY];
+      if (typeof position !== 'number') {
+        return;
+      }
+
+      const current = historyRef.current;
+      const next = goToHistoryPosition(current, position);
+      if (next === current) {
+        return;
+      }
+
+      if (isSameLocation(getCurrentLocation(next), locationRef.current)) {
+        updateHistory(next);
+      } else {
+        restoreCurrentEntry(next);
+      }
+    };
+
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [updateHistory, restoreCurrentEntry]);
+
+  const goBack = useCallback((): BrowsingLocation | null => {
+    const current = historyRef.current;
+    if (!canGoBack(current)) {
+      return null;
+    }
+    window.history.back();
+    return current.entries[current.index - 1];
+  }, []);
+
+  const goForward = useCallback((): BrowsingLocation | null => {
+    const current = historyRef.current;
+    if (!canGoForward(current)) {
+      return null;
+    }
+    window.history.forward();
+    return current.entries[current.index + 1];
+  }, []);
+
+  return {
+    canGoBack: canGoBack(history),
+    canGoForward: canGoForward(history),
+    goBack,
+    goForward,
+  };
+}
@@ -2,9 +2,12 @@
  * useCart custom hook for cart state management
  * 
  * This hook manages the shopping cart state including:
- * - Cart operations (add, remove, clear, update quantity)
- * - localStorage persistence
+ * - Cart operations (add, remove, clear, update quantity), per product variant
+ * - Undo and redo of the latest changes (see cartHistory.ts)
+ * - Persistence through the cart store (see cartStore.ts), kept in sync across tabs
+ * - Keeping saved items whose products have not loaded yet
  * - Cart calculations (subtotal, item count)
+ * - Coupon codes and pricing in INR (see pricing.ts)
  * - Integration with product data for cart restoration
  * 
  * Requirements: 5.1, 5.2, 5.3, 5.5, 5.6, 6.2, 6.5
@@ -12,19 +15,80 @@
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { CartState, Product } from './types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { CartState, Order, Product } from './types';
 import {
   addToCart as addToCartUtil,
   removeFromCart as removeFromCartUtil,
   clearCart as clearCartUtil,
   updateCartItemQuantity,
   saveCart,
-  loadCart,
+  clearSavedCart,
+  restoreCart,
+  resolveCartItems,
+  toPersistedCart,
+  isCartEmpty,
   getCartItemCount,
   isProductInCart as isProductInCartUtil,
   getProductQuantity as getProductQuantityUtil,
+  applyCoupon as applyCouponUtil,
+  checkLineQuantity,
+  removeCoupon as removeCouponUtil,
 } from './cartUtils';
+import { CartPricing, CouponCheck, checkCoupon, priceCart } from './pricing';
+import { getCartStore, getPersistedCartSignature, parsePersistedCart, readPersistedCart } from './cartStore';
+import {
+  CartAction,
+  CartHistory,
+  CartHistoryEntry,
+  createCartHistory,
+  recordCartChange,
+  redoCartChange,
+  undoCartChange,
+} from './cartHistory';
+import { getVariantTitle } from './productVariants';
+import { ReorderResult, reorderToCart } from './orderHistory';
+
+/**
+ * Options for useCart
+ */
+export interface UseCartOptions {
+  /**
+   * Whether the products are a current catalog, so saved items missing from
+   * it are gone for good (default: true). While false they are kept as
+   * unresolved items.
+   */
+  catalogComplete?: boolean;
+}
+
+/**
+ * Cart with the log of changes made to it, updated together
+ */
+interface CartWithHistory {
+  cart: CartState;
+  history: CartHistory;
+}
+
+/**
+ * Check whether two carts hold the same items and coupon
+ */
+function isSameCart(a: CartState, b: CartState): boolean {
+  return getPersistedCartSignature(toPersistedCart(a)) === getPersistedCartSignature(toPersistedCart(b));
+}
+
+/**
+ * Title of a product in the cart, with its variant, for describing a change
+ */
+function getItemTitle(cart: CartState, productId: number, variantId: string | undefined): string {
+  const item = cart.items.find((item) => item.product.id === productId && item.variantId === variantId);
+  return item ? getVariantTitle(item.product, variantId) : `product ${productId}`;
+}
+
+/**
+ * Result of adding to, removing from or changing a quantity in the cart
+ * The cart is returned as changed, ahead of the next render.
+ */
+export type CartChange = { ok: true; cart: CartState } | { ok: false; error: string };
 
 /**
  * Return type for useCart hook
@@ -33,16 +97,48 @@ export interface UseCartReturn {
   // Cart state
   cart: CartState;
   itemCount: number;
+  /** What the cart costs with its coupon and GST, before shipping */
+  pricing: CartPricing;
   
   // Cart operations
-  addToCart: (product: Product, quantity?: number) => void;
-  removeFromCart: (productId: number) => void;
-  updateQuantity: (productId: number, quantity: number) => void;
+  /**
+   * Add units of a product; products with variants need the variant
+   * Refused, leaving the cart as it is, when the variant is missing or the stock or order limit would be passed.
+   */
+  addToCart: (product: Product, quantity?: number, variantId?: string) => CartChange;
+  removeFromCart: (productId: number, variantId?: string) => CartChange;
+  /** Refused, leaving the cart as it is, when the stock or order limit would be passed */
+  updateQuantity: (productId: number, quantity: number, variantId?: string) => CartChange;
   clearCart: () => void;
+  /**
+   * Apply a coupon code
+   * Returns why it was not applied when the code is unknown or the cart does not qualify.
+   */
+  applyCoupon: (code: string) => CouponCheck;
+  removeCoupon: () => void;
+  /**
+   * Add the items of a past order that can still be bought
+   * The whole order is one change, so a single undo takes it back.
+   */
+  reorder: (order: Order) => ReorderResult;
+
+  // Undo and redo
+  /** Latest change that can be undone, or null */
+  lastAction: CartHistoryEntry | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Take back the latest change; returns it, or null if there was nothing to undo */
+  undo: () => CartHistoryEntry | null;
+  /** Make the latest undone change again; returns it, or null if there was nothing to redo */
+  redo: () => CartHistoryEntry | null;
+  /** Forget every change, e.g. once the cart has been ordered */
+  clearHistory: () => void;
   
   // Cart queries
-  isProductInCart: (productId: number) => boolean;
-  getProductQuantity: (productId: number) => number;
+  /** Any variant counts when variantId is omitted */
+  isProductInCart: (productId: number, variantId?: string) => boolean;
+  /** All variants together when variantId is omitted */
+  getProductQuantity: (productId: number, variantId?: string) => number;
 }
 
 /**
@@ -57,91 +153,232 @@ export interface UseCartReturn {
  * Requirement 6.5: Persist cart to localStorage
  * 
  * @param products - Array of all available products (needed for cart restoration from localStorage)
+ * @param options - Whether the products are a current catalog; see UseCartOptions
  * @returns UseCartReturn object with cart state and operations
  */
-export function useCart(products: Product[] = []): UseCartReturn {
+export function useCart(products: Product[] = [], { catalogComplete = true }: UseCartOptions = {}): UseCartReturn {
   // Cart state
-  const [cart, setCart] = useState<CartState>({
-    items: [],
-    subtotal: 0,
-  });
+  const [{ cart, history }, setCartWithHistory] = useState<CartWithHistory>(() => ({
+    cart: { items: [], subtotal: 0 },
+    history: createCartHistory(),
+  }));
+
+  // Latest cart and history, ahead of the render that shows them, so changes
+  // made in quick succession see each other and are worked out (and fail) when
+  // they are made rather than later in a state updater
+  const stateRef = useRef<CartWithHistory>({ cart, history });
 
   /**
-   * Load cart from localStorage on mount
-   * Requirement 6.5: Load persisted cart on application start
+   * Replace the cart and history
    */
-  useEffect(() => {
-    // Only load from localStorage if we have products available
-    if (products.length > 0) {
-      const loadedCart = loadCart(products);
-      setCart(loadedCart);
+  const updateState = useCallback((update: (prev: CartWithHistory) => CartWithHistory) => {
+    const next = update(stateRef.current);
+    if (next !== stateRef.current) {
+      stateRef.current = next;
+      setCartWithHistory(next);
     }
-  }, [products]);
+  }, []);
+
+  /**
+   * Replace the cart without logging the change, e.g. when loading it
+   */
+  const setCart = useCallback((update: CartState | ((prevCart: CartState) => CartState)) => {
+    updateState((prev) => {
+      const nextCart = typeof update === 'function' ? update(prev.cart) : update;
+      return nextCart === prev.cart ? prev : { ...prev, cart: nextCart };
+    });
+  }, [updateState]);
+
+  /**
+   * Change the cart and log the change so it can be undone
+   * Changes that leave the cart as it was are not logged.
+   *
+   * @returns The cart after the change
+   */
+  const commitCart = useCallback((
+    action: CartAction,
+    describe: (prevCart: CartState) => string,
+    update: (prevCart: CartState) => CartState
+  ): CartState => {
+    updateState((prev) => {
+      const nextCart = update(prev.cart);
+      if (isSameCart(prev.cart, nextCart)) {
+        return prev;
+      }
+      return {
+        cart: nextCart,
+        history: recordCartChange(prev.history, {
+          action,
+          description: describe(prev.cart),
+          before: prev.cart,
+          after: nextCart,
+        }),
+      };
+    });
+    return stateRef.current.cart;
+  }, [updateState]);
+
+  // Set once the saved cart is loaded; saving earlier would overwrite it
+  const hasLoadedRef = useRef(false);
+  // Signature of the cart as last saved or received, so unchanged carts and our own writes are not synced again
+  const savedSignatureRef = useRef('');
+  // Latest values for the storage listener, which is subscribed once
+  const productsRef = useRef(products);
+  const catalogCompleteRef = useRef(catalogComplete);
+
+  useEffect(() => {
+    productsRef.current = products;
+    catalogCompleteRef.current = catalogComplete;
+  });
 
   /**
-   * Save cart to localStorage whenever it changes
+   * Save cart whenever it changes
    * Requirement 6.5: Persist cart across page refreshes
+   * Declared before the load effect so the cart is not saved before it is loaded.
    */
   useEffect(() => {
-    // Only save if cart has been initialized (not empty initial state)
-    if (cart.items.length > 0 || cart.subtotal > 0) {
+    if (!hasLoadedRef.current) {
+      return;
+    }
+
+    const isEmpty = isCartEmpty(cart);
+    const signature = getPersistedCartSignature(isEmpty ? null : toPersistedCart(cart));
+    if (signature === savedSignatureRef.current) {
+      return;
+    }
+
+    // Recorded before writing: the store may notify our own listener
+    savedSignatureRef.current = signature;
+    if (isEmpty) {
+      clearSavedCart();
+    } else {
       saveCart(cart);
     }
   }, [cart]);
 
+  /**
+   * Load the saved cart once products are available
+   * Requirement 6.5: Load persisted cart on application start
+   * Later catalog updates bring in items whose products were missing.
+   */
+  useEffect(() => {
+    if (products.length === 0) {
+      return;
+    }
+
+    if (!hasLoadedRef.current) {
+      const persistedCart = readPersistedCart(getCartStore());
+      savedSignatureRef.current = getPersistedCartSignature(persistedCart);
+      hasLoadedRef.current = true;
+      setCart(persistedCart ? restoreCart(persistedCart, products, catalogComplete) : clearCartUtil());
+      return;
+    }
+
+    setCart((prevCart) => resolveCartItems(prevCart, products, catalogComplete));
+  }, [products, catalogComplete, setCart]);
+
+  /**
+   * Follow changes saved elsewhere, e.g. the cart edited in another tab
+   */
+  useEffect(() => {
+    return getCartStore().subscribe((serialized) => {
+      if (!hasLoadedRef.current) {
+        // The load reads the latest saved cart anyway
+        return;
+      }
+
+      const persistedCart = parsePersistedCart(serialized);
+      const signature = getPersistedCartSignature(persistedCart);
+      if (signature === savedSignatureRef.current) {
+        return;
+      }
+
+      savedSignatureRef.current = signature;
+      // Undoing would overwrite the other tab's change, so the log starts over
+      updateState(() => ({
+        cart: persistedCart
+          ? restoreCart(persistedCart, productsRef.current, catalogCompleteRef.current)
+          : clearCartUtil(),
+        history: createCartHistory(),
+      }));
+    });
+  }, [updateState]);
+
   /**
    * Add a product to the cart
    * Requirement 5.1: Add items to cart with quantity 1
    * Requirement 5.2: Add items with specified quantity
    * Requirement 5.6: Update cart total when items are added
    */
-  const addToCart = useCallback((product: Product, quantity: number = 1) => {
+  const addToCart = useCallback((product: Product, quantity: number = 1, variantId?: string): CartChange => {
     try {
-      setCart((prevCart) => {
-        const updatedCart = addToCartUtil(prevCart, product, quantity);
-        return updatedCart;
-      });
+      const currentCart = stateRef.current.cart;
+      const problem = checkLineQuantity(
+        currentCart,
+        product,
+        variantId,
+        getProductQuantityUtil(currentCart, product.id, variantId) + quantity
+      );
+      if (problem) {
+        return { ok: false, error: problem };
+      }
+      const nextCart = commitCart(
+        'add',
+        () => `added ${quantity} × ${getVariantTitle(product, variantId)}`,
+        (prevCart) => addToCartUtil(prevCart, product, quantity, variantId)
+      );
+      return { ok: true, cart: nextCart };
     } catch (error) {
       // Log error for debugging (Requirement 10.5)
       console.error('[useCart] Error adding to cart:', error);
       throw error;
     }
-  }, []);
+  }, [commitCart]);
 
   /**
    * Remove a product from the cart
    * Requirement 5.3: Remove items from cart
    * Requirement 5.6: Update cart total when items are removed
    */
-  const removeFromCart = useCallback((productId: number) => {
+  const removeFromCart = useCallback((productId: number, variantId?: string): CartChange => {
     try {
-      setCart((prevCart) => {
-        const updatedCart = removeFromCartUtil(prevCart, productId);
-        return updatedCart;
-      });
+      const nextCart = commitCart(
+        'remove',
+        (prevCart) => `removed ${getItemTitle(prevCart, productId, variantId)}`,
+        (prevCart) => removeFromCartUtil(prevCart, productId, variantId)
+      );
+      return { ok: true, cart: nextCart };
     } catch (error) {
       // Log error for debugging (Requirement 10.5)
       console.error('[useCart] Error removing from cart:', error);
       throw error;
     }
-  }, []);
+  }, [commitCart]);
 
   /**
    * Update the quantity of a cart item
    * Requirement 5.6: Update cart total when quantity changes
    */
-  const updateQuantity = useCallback((productId: number, quantity: number) => {
+  const updateQuantity = useCallback((productId: number, quantity: number, variantId?: string): CartChange => {
     try {
-      setCart((prevCart) => {
-        const updatedCart = updateCartItemQuantity(prevCart, productId, quantity);
-        return updatedCart;
-      });
+      const currentCart = stateRef.current.cart;
+      const item = currentCart.items.find((line) => line.product.id === productId && line.variantId === variantId);
+      const problem = item ? checkLineQuantity(currentCart, item.product, variantId, quantity) : null;
+      if (problem) {
+        return { ok: false, error: problem };
+      }
+      const nextCart = commitCart(
+        'updateQuantity',
+        (prevCart) => `set ${getItemTitle(prevCart, productId, variantId)} to ${quantity}`,
+        (prevCart) => updateCartItemQuantity(prevCart, productId, quantity, variantId)
+      );
+      return { ok: true, cart: nextCart };
     } catch (error) {
       // Log error for debugging (Requirement 10.5)
       console.error('[useCart] Error updating quantity:', error);
       throw error;
     }
-  }, []);
+  }, [commitCart]);
 
   /**
    * Clear all items from the cart
@@ -149,34 +386,101 @@ export function useCart(products: Product[] = []): UseCartReturn {
    */
   const clearCart = useCallback(() => {
     try {
-      const emptyCart = clearCartUtil();
-      setCart(emptyCart);
-      
-      // Clear from localStorage as well
-      try {
-        localStorage.removeItem('jarvis-cart');
-      } catch (error) {
-        console.error('[useCart] Error clearing cart from localStorage:', error);
-      }
+      // The saved cart is removed by the save effect
+      commitCart('clear', () => 'cleared the cart', () => clearCartUtil());
     } catch (error) {
       // Log error for debugging (Requirement 10.5)
       console.error('[useCart] Error clearing cart:', error);
       throw error;
     }
-  }, []);
+  }, [commitCart]);
+
+  /**
+   * Apply a coupon code to the cart
+   * Only a coupon that gives a discount on the cart as it is now is applied.
+   */
+  const applyCoupon = useCallback((code: string): CouponCheck => {
+    const check = checkCoupon(stateRef.current.cart, code);
+    if (check.ok) {
+      commitCart(
+        'applyCoupon',
+        () => `applied coupon ${check.coupon.code}`,
+        (prevCart) => applyCouponUtil(prevCart, check.coupon)
+      );
+    }
+    return check;
+  }, [commitCart]);
+
+  /**
+   * Remove the coupon from the cart
+   */
+  const removeCoupon = useCallback(() => {
+    commitCart(
+      'removeCoupon',
+      (prevCart) => `removed coupon ${prevCart.couponCode}`,
+      (prevCart) => removeCouponUtil(prevCart)
+    );
+  }, [commitCart]);
+
+  /**
+   * Add a past order to the cart as one change
+   */
+  const reorder = useCallback((order: Order): ReorderResult => {
+    const result = reorderToCart(stateRef.current.cart, order, productsRef.current);
+    commitCart('reorder', () => `reordered ${order.id}`, () => result.cart);
+    return result;
+  }, [commitCart]);
+
+  /**
+   * Take back the latest change
+   * Items whose products have loaded since are brought in again.
+   */
+  const undo = useCallback((): CartHistoryEntry | null => {
+    const result = undoCartChange(stateRef.current.history);
+    if (!result) {
+      return null;
+    }
+    updateState(() => ({
+      cart: resolveCartItems(result.entry.before, productsRef.current, catalogCompleteRef.current),
+      history: result.history,
+    }));
+    return result.entry;
+  }, [updateState]);
+
+  /**
+   * Make the latest undone change again
+   */
+  const redo = useCallback((): CartHistoryEntry | null => {
+    const result = redoCartChange(stateRef.current.history);
+    if (!result) {
+      return null;
+    }
+    updateState(() => ({
+      cart: resolveCartItems(result.entry.after, productsRef.current, catalogCompleteRef.current),
+      history: result.history,
+    }));
+    return result.entry;
+  }, [updateState]);
+
+  /**
+   * Forget every change
+   */
+  const clearHistory = useCallback(() => {
+    updateState((prev) => ({ ...prev, history: createCartHistory() }));
+  }, [updateState]);
 
   /**
    * Check if a product is in the cart
    */
-  const isProductInCart = useCallback((productId: number): boolean => {
-    return isProductInCartUtil(cart, productId);
+  const isProductInCart = useCallback((productId: number, variantId?: string): boolean => {
+    return isProductInCartUtil(cart, productId, variantId);
   }, [cart]);
 
   /**
    * Get the quantity of a specific product in the cart
    */
-  const getProductQuantity = useCallback((productId: number): number => {
-    return getProductQuantityUtil(cart, productId);
+  const getProductQuantity = useCallback((productId: number, variantId?: string): number => {
+    return getProductQuantityUtil(cart, productId, variantId);
   }, [cart]);
 
   /**
@@ -185,16 +489,30 @@ export function useCart(products: Product[] = []): UseCartReturn {
    */
   const itemCount = getCartItemCount(cart);
 
+  const pricing = useMemo(() => priceCart(cart), [cart]);
+
   return {
     // Cart state
     cart,
     itemCount,
+    pricing,
     
     // Cart operations
     addToCart,
     removeFromCart,
     updateQuantity,
     clearCart,
+    applyCoupon,
+    removeCoupon,
+    reorder,
+
+    // Undo and redo
+    lastAction: history.undo[history.undo.length - 1] ?? null,
+    canUndo: history.undo.length > 0,
+    canRedo: history.redo.length > 0,
+    undo,
+    redo,
+    clearHistory,
     
     // Cart queries
     isProductInCart,
@@ -0,0 +1,157 @@
+/**
+ * useCheckout custom hook for the checkout flow
+ *
+ * This hook manages checkout (see checkoutState.ts and checkoutUtils.ts) including:
+ * - Step navigation, address entry and delivery choice
+ * - Paying through the active payment provider (see paymentProvider.ts)
+ * - Creating the order; the caller records it (see useOrderHistory.ts)
+ */
+
+'use client';
+
+import { useCallback, useMemo, useReducer, useRef } from 'react';
+import { CartState, CheckoutStep, DeliveryOptionId, Order, PaymentMethod, ShippingAddress } from './types';
+import {
+  CheckoutState,
+  INITIAL_CHECKOUT_STATE,
+  canEnterStep,
+  checkoutReducer,
+} from './checkoutState';
+import {
+  AddressErrors,
+  CheckoutTotals,
+  calculateCheckoutTotals,
+  createOrder,
+  generateOrderId,
+  validateShippingAddress,
+} from './checkoutUtils';
+import { getPaymentProvider } from './paymentProvider';
+
+/**
+ * Return type for useCheckout hook
+ */
+export interface UseCheckoutReturn {
+  // Checkout state
+  checkout: CheckoutState;
+  totals: CheckoutTotals;
+  addressErrors: AddressErrors;
+
+  // Checkout operations
+  startCheckout: () => void;
+  goToStep: (step: CheckoutStep) => void;
+  updateAddress: (address: Partial<ShippingAddress>) => void;
+  selectDelivery: (delivery: DeliveryOptionId) => void;
+  selectPaymentMethod: (method: PaymentMethod) => void;
+  /**
+   * Pay for the cart and place the order
+   * Rejects with the reason when checkout is not ready or the payment fails.
+   */
+  placeOrder: (method?: PaymentMethod) => Promise<Order>;
+}
+
+/**
+ * Custom hook for checking out the cart
+ *
+ * @param cart - Cart being checked out
+ * @param onOrderPlaced - Called with each placed order, e.g. to record it and empty the cart
+ * @returns UseCheckoutReturn object with checkout state and operations
+ */
+export function useCheckout(cart: CartState, onOrderPlaced: (order: Order) => void): UseCheckoutReturn {
+  const [checkout, dispatchCheckout] = useReducer(checkoutReducer, INITIAL_CHECKOUT_STATE);
+
+  // Set while a charge is in flight; state updates too late to stop a double submit
+  const isPayingRef = useRef(false);
+
+  const startCheckout = useCallback(() => {
+    dispatchCheckout({ type: 'start' });
+  }, []);
+
+  const goToStep = useCallback((step: CheckoutStep) => {
+    dispatchCheckout({ type: 'goToStep', step });
+  }, []);
+
+  const updateAddress = useCallback((address: Partial<ShippingAddress>) => {
+    dispatchCheckout({ type: 'updateAddress', address });
+  }, []);
+
+  const selectDelivery = useCallback((delivery: DeliveryOptionId) => {
+    dispatchCheckout({ type: 'selectDelivery', delivery });
+  }, []);
+
+  const selectPaymentMethod = useCallback((method: PaymentMethod) => {
+    dispatchCheckout({ type: 'selectPaymentMethod', method });
+  }, []);
+
+  const placeOrder = useCallback(async (method?: PaymentMethod): Promise<Order> => {
+    if (isPayingRef.current) {
+      throw new Error('A payment is already in progress');
+    }
+    if (cart.items.length === 0) {
+      throw new Error('The cart is empty');
+    }
+    if (!canEnterStep(checkout, 'payment')) {
+      throw new Error('Add a shipping address and choose a delivery option before paying');
+    }
+
+    const paymentMethod = method ?? checkout.paymentMethod;
+    if (method) {
+      dispatchCheckout({ type: 'selectPaymentMethod', method });
+    }
+
+    const delivery = checkout.delivery ?? 'standard';
+    const orderId = generateOrderId();
+    const provider = getPaymentProvider();
+
+    isPayingRef.current = true;
+    dispatchCheckout({ type: 'paymentStarted' });
+    try {
+      const result = await provider.charge({
+        orderId,
+        amount: calculateCheckoutTotals(cart, delivery).total,
+        method: paymentMethod,
+      });
+      if (result.status === 'declined') {
+        throw new Error(`Payment declined: ${result.reason}`);
+      }
+
+      const order = createOrder(cart, {
+        id: orderId,
+        address: checkout.address,
+        delivery,
+        payment: { method: paymentMethod, provider: provider.name, transactionId: result.transactionId },
+      });
+      dispatchCheckout({ type: 'orderPlaced', order });
+      onOrderPlaced(order);
+      return order;
+    } catch (error) {
+      console.error('[useCheckout] Payment failed:', error);
+      const message = error instanceof Error ? error.message : 'Payment failed';
+      dispatchCheckout({ type: 'paymentFailed', error: message });
+      throw new Error(message);
+    } finally {
+      isPayingRef.current = false;
+    }
+  }, [cart, checkout, onOrderPlaced]);
+
+  const totals = useMemo(
+    () => calculateCheckoutTotals(cart, checkout.delivery),
+    [cart, checkout.delivery]
+  );
+
+  const addressErrors = useMemo(() => validateShippingAddress(checkout.address), [checkout.address]);
+
+  return {
+    // Checkout state
+    checkout,
+    totals,
+    addressErrors,
+
+    // Checkout operations
+    startCheckout,
+    goToStep,
+    updateAddress,
+    selectDelivery,
+    selectPaymentMethod,
+    placeOrder,
+  };
+}
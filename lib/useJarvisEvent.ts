@@ -0,0 +1,65 @@
+/**
+ * Hooks for subscribing to and answering event bus events
+ *
+ * The latest handler is always called, so components can pass inline
+ * callbacks without resubscribing on every render.
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import {
+  eventBus,
+  EventBus,
+  JarvisEventListener,
+  JarvisEventResponder,
+  JarvisEventType,
+} from './eventBus';
+
+/**
+ * Subscribe to an event for the lifetime of the component
+ *
+ * @param type - Event name (see CLIENT_TOOL_EVENTS and APP_EVENTS)
+ * @param handler - Called with the event detail
+ * @param bus - Bus to subscribe to (defaults to the shared bus)
+ */
+export function useJarvisEvent<K extends JarvisEventType>(
+  type: K,
+  handler: JarvisEventListener<K>,
+  bus: EventBus = eventBus
+): void {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    return bus.on(type, (detail) => handlerRef.current(detail));
+  }, [type, bus]);
+}
+
+/**
+ * Answer requests for an event for the lifetime of the component
+ * The component becomes the event's responder; its outcome is returned to
+ * the voice tool that sent the request.
+ *
+ * @param type - Event name (see CLIENT_TOOL_EVENTS)
+ * @param responder - Carries out the event and reports a ToolOutcome
+ * @param bus - Bus to respond on (defaults to the shared bus)
+ */
+export function useJarvisResponder<K extends JarvisEventType>(
+  type: K,
+  responder: JarvisEventResponder<K>,
+  bus: EventBus = eventBus
+): void {
+  const responderRef = useRef(responder);
+
+  useEffect(() => {
+    responderRef.current = responder;
+  }, [responder]);
+
+  useEffect(() => {
+    return bus.respond(type, (detail) => responderRef.current(detail));
+  }, [type, bus]);
+}
@@ -0,0 +1,76 @@
+/**
+ * useKeyboardShortcuts custom hook
+ *
+ * Runs the shortcuts from keyboardShortcuts.ts. Each component handles the
+ * actions it owns (the page navigates, the voice button starts calls), so
+ * several components can use the hook at once.
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { ShortcutAction, isTypingTarget, matchShortcut } from './keyboardShortcuts';
+
+/**
+ * Handlers for shortcut actions
+ * A handler returns false if the shortcut had nothing to do, leaving the key
+ * to the browser.
+ */
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => boolean | void>>;
+
+/**
+ * Options for useKeyboardShortcuts hook
+ */
+export interface UseKeyboardShortcutsOptions {
+  /** Whether shortcuts are active, e.g. false while the page is loading */
+  enabled?: boolean;
+}
+
+/**
+ * Custom hook for keyboard shortcuts
+ * The latest handlers are always called, so they can be inline callbacks.
+ *
+ * @param handlers - Handlers for the actions this component owns
+ * @param options - See UseKeyboardShortcutsOptions
+ */
+export function useKeyboardShortcuts(
+  handlers: ShortcutHandlers,
+  { enabled = true }: UseKeyboardShortcutsOptions = {}
+): void {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) {
+        return;
+      }
+      const action = matchShortcut(event);
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!handler) {
+        return;
+      }
+
+      // Escape in a text field leaves the field rather than closing a view
+      if (action === 'close' && isTypingTarget(event.target)) {
+        (event.target as HTMLElement).blur();
+        event.preventDefault();
+        return;
+      }
+
+      if (handler() !== false) {
+        event.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,88 @@
+/**
+ * useOrderHistory custom hook for placed orders
+ *
+ * This hook manages the order history (see orderHistory.ts) including:
+ * - Recording orders placed at checkout
+ * - Looking orders up by ID
+ * - localStorage persistence
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Order, OrderHistory } from './types';
+import {
+  addOrder as addOrderUtil,
+  createOrderHistory,
+  findOrder as findOrderUtil,
+  loadOrderHistory,
+  saveOrderHistory,
+} from './orderHistory';
+
+/**
+ * Return type for useOrderHistory hook
+ */
+export interface UseOrderHistoryReturn {
+  // Order history state
+  orderHistory: OrderHistory;
+  orderCount: number;
+
+  // Order history operations
+  addOrder: (order: Order) => void;
+
+  // Order history queries
+  findOrder: (reference: string) => Order | undefined;
+}
+
+/**
+ * Custom hook for managing placed orders
+ *
+ * @returns UseOrderHistoryReturn object with the order history and operations
+ */
+export function useOrderHistory(): UseOrderHistoryReturn {
+  const [orderHistory, setOrderHistory] = useState<OrderHistory>(createOrderHistory);
+
+  // Whether the saved history has been read, so the empty initial state never overwrites it
+  const hasLoadedRef = useRef(false);
+
+  /**
+   * Save order history to localStorage whenever it changes
+   * Declared before the load so the empty initial state is never saved
+   */
+  useEffect(() => {
+    if (hasLoadedRef.current) {
+      saveOrderHistory(orderHistory);
+    }
+  }, [orderHistory]);
+
+  /**
+   * Load order history from localStorage on mount
+   */
+  useEffect(() => {
+    setOrderHistory(loadOrderHistory());
+    hasLoadedRef.current = true;
+  }, []);
+
+  /**
+   * Record a placed order
+   */
+  const addOrder = useCallback((order: Order) => {
+    setOrderHistory((prev) => addOrderUtil(prev, order));
+  }, []);
+
+  const findOrder = useCallback((reference: string): Order | undefined => {
+    return findOrderUtil(orderHistory, reference);
+  }, [orderHistory]);
+
+  return {
+    // Order history state
+    orderHistory,
+    orderCount: orderHistory.orders.length,
+
+    // Order history operations
+    addOrder,
+
+    // Order history queries
+    findOrder,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * usePendingAction custom hook for voice actions awaiting confirmation
+ *
+ * This hook follows the pending action (see confirmation.ts) including:
+ * - Showing it while it can still be confirmed
+ * - Confirming or cancelling it from the UI
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  PENDING_ACTION_TTL_MS,
+  PendingAction,
+  cancelPendingAction,
+  confirmPendingAction,
+  getPendingAction,
+  subscribePendingAction,
+} from './confirmation';
+import { ToolOutcome } from './toolOutcome';
+
+/**
+ * Return type for usePendingAction hook
+ */
+export interface UsePendingActionReturn {
+  /** Action waiting for confirmation, or null */
+  pendingAction: PendingAction | null;
+  /** Carry out the pending action; resolves to what it did */
+  confirm: () => Promise<ToolOutcome>;
+  /** Drop the pending action */
+  cancel: () => void;
+}
+
+/**
+ * Custom hook for the action awaiting confirmation
+ *
+ * @returns UsePendingActionReturn object with the pending action and operations
+ */
+export function usePendingAction(): UsePendingActionReturn {
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(getPendingAction);
+
+  useEffect(() => subscribePendingAction(setPendingAction), []);
+
+  /**
+   * Hide the action once it can no longer be confirmed
+   */
+  useEffect(() => {
+    if (!pendingAction) {
+      return;
+    }
+    const remaining = pendingAction.requestedAt + PENDING_ACTION_TTL_MS - Date.now();
+    // getPendingAction drops the expired action and notifies subscribers
+    const timer = setTimeout(() => setPendingAction(getPendingAction()), Math.max(remaining, 0) + 1);
+    return () => clearTimeout(timer);
+  }, [pendingAction]);
+
+  const confirm = useCallback(() => confirmPendingAction(), []);
+
+  const cancel = useCallback(() => {
+    cancelPendingAction();
+  }, []);
+
+  return {
+    pendingAction,
+    confirm,
+    cancel,
+  };
+}
@@ -7,19 +7,26 @@
 'use client';
 
 import { useMemo } from 'react';
-import { Product, ProductCategory, CartItem } from './types';
+import { Product, ProductCategory, CategoryInfo, WatchlistItem } from './types';
 import { 
   generateSystemPromptWithProducts, 
-  generateCartContext 
+  generateCartContext,
+  generateWatchlistContext,
 } from './productContext';
 import { KALDI_SYSTEM_PROMPT } from '@/app/jarvis-config';
+import { Persona } from './personas';
+import { CartPricing } from './pricing';
 
 interface UseProductContextParams {
   currentProducts: Product[];
   selectedProduct: Product | null;
   activeCategory: ProductCategory | 'all';
-  cartItems: CartItem[];
-  cartSubtotal: number;
+  categories: CategoryInfo[];
+  /** Priced cart; the prompt leaves the cart out when omitted */
+  cartPricing?: CartPricing;
+  watchlistItems?: WatchlistItem[];
+  /** Persona whose prompt to build on; the default prompt otherwise */
+  persona?: Persona;
 }
 
 /**
@@ -29,23 +36,32 @@ export function useProductContext({
   currentProducts,
   selectedProduct,
   activeCategory,
-  cartItems,
-  cartSubtotal,
+  categories,
+  cartPricing,
+  watchlistItems,
+  persona,
 }: UseProductContextParams) {
   const systemPrompt = useMemo(() => {
     let prompt = generateSystemPromptWithProducts(
-      KALDI_SYSTEM_PROMPT,
+      persona?.systemPrompt ?? KALDI_SYSTEM_PROMPT,
       currentProducts,
       selectedProduct,
-      activeCategory
+      activeCategory,
+      categories
     );
 
     // Add cart context
-    const cartContext = generateCartContext(cartItems, cartSubtotal);
-    prompt += cartContext;
+    if (cartPricing && (persona?.features.cart ?? true)) {
+      prompt += generateCartContext(cartPricing);
+    }
+
+    // Add watchlist context
+    if (persona?.features.watchlist ?? true) {
+      prompt += generateWatchlistContext(watchlistItems ?? []);
+    }
 
     return prompt;
-  }, [currentProducts, selectedProduct, activeCategory, cartItems, cartSubtotal]);
+  }, [currentProducts, selectedProduct, activeCategory, categories, cartPricing, watchlistItems, persona]);
 
   return { systemPrompt };
 }
@@ -3,18 +3,62 @@
  * 
  * This hook manages the product data layer including:
  * - Fetching products from the Fake Store API
- * - Loading, error, and success states
- * - Category filtering
- * - Current product index management
+ * - Loading, error, and success states (errors classified for friendly messages)
+ * - Cancelling superseded or unmounted loads
+ * - Cached/offline data state (stale-while-revalidate)
+ * - Category discovery and filtering
+ * - Free-text search across the catalog
+ * - Sorting and facet filters (price, rating, demand tag)
+ * - Navigation: focused product, detail card and cart overlay (see navigationState.ts)
  * 
  * Requirements: 2.2, 3.1, 9.1, 9.2
  */
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { Product, ProductCategory } from './types';
-import { fetchProductsWithCache } from './productUtils';
+import { useState, useEffect, useCallback, useMemo, useReducer, useRef } from 'react';
+import { CategoryInfo, Product, ProductCategory } from './types';
+import {
+  fetchProductsWithCache,
+  getCacheStatus,
+  ProductCacheStatus,
+  subscribeToProductCache,
+} from './productUtils';
+import { discoverCategories } from './categories';
+import { buildSearchIndex, isSearchableQuery, querySearchIndex, SearchIndex } from './searchIndex';
+import {
+  applyProductQuery,
+  DEFAULT_PRODUCT_QUERY,
+  FacetCounts,
+  getFacetCounts,
+  mergeProductQuery,
+  ProductQuery,
+  ProductQueryUpdate,
+} from './productQuery';
+import { classifyFetchError, ErrorContext, handleError } from './errorHandler';
+import { isAbortError } from './fetchWithRetry';
+import { BoundaryBehavior } from './navigationUtils';
+import {
+  canMove,
+  getFocusedIndex,
+  getFrontView,
+  getMoveTargetIndex,
+  INITIAL_NAVIGATION_STATE,
+  isOverlayOpen,
+  NavigationDirection,
+  NavigationOverlay,
+  navigationReducer,
+  NavigationView,
+} from './navigationState';
+
+/**
+ * List settings to preview with previewProducts; omitted fields use the current value
+ */
+export interface ProductListPreview {
+  category?: ProductCategory | 'all';
+  searchQuery?: string;
+  productQuery?: ProductQuery;
+}
 
 /**
  * Return type for useProducts hook
@@ -23,24 +67,98 @@ export interface UseProductsReturn {
   // Product data
   products: Product[];
   filteredProducts: Product[];
+  /** Focused product: highlighted in the grid and shown in the detail card */
   currentProduct: Product | null;
   currentProductIndex: number;
   
+  // Navigation
+  /** View in front: the grid, the detail card, or the cart, watchlist, checkout or orders overlay */
+  view: NavigationView;
+  isDetailOpen: boolean;
+  isCartOpen: boolean;
+  isWatchlistOpen: boolean;
+  isCheckoutOpen: boolean;
+  isOrdersOpen: boolean;
+  boundaryBehavior: BoundaryBehavior;
+  /** Whether next/previous would reach a different product */
+  hasNext: boolean;
+  hasPrevious: boolean;
+  
   // State flags
   isLoading: boolean;
   error: string | null;
+  /** Classification of the last load error, for user-friendly messages */
+  errorContext: ErrorContext | null;
+  
+  // Cache state
+  cacheStatus: ProductCacheStatus | null;
+  /** True while showing expired or offline data; see cacheStatus.lastSyncAt for its age */
+  isShowingCachedData: boolean;
+  /** True when the products are a fresh, complete catalog, so a product missing from it is gone */
+  isCatalogCurrent: boolean;
   
   // Category filter
   activeCategory: ProductCategory | 'all';
+  categories: CategoryInfo[];
+  
+  // Search
+  searchQuery: string;
+  
+  // Sort and facets
+  productQuery: ProductQuery;
+  facetCounts: FacetCounts;
+  
+  /** Products that would be listed with different settings, without changing state */
+  previewProducts: (preview: ProductListPreview) => Product[];
   
   // Actions
   setCategory: (category: ProductCategory | 'all') => void;
+  setSearchQuery: (query: string) => void;
+  updateProductQuery: (update: ProductQueryUpdate) => void;
+  resetProductQuery: () => void;
   setCurrentIndex: (index: number) => void;
-  nextProduct: () => void;
-  previousProduct: () => void;
+  /** Move the focus; returns the product now in focus */
+  nextProduct: () => Product | null;
+  previousProduct: () => Product | null;
+  /** Focus a product without opening it, e.g. when it gets keyboard focus */
+  focusProduct: (productId: number) => void;
+  /** Focus a product and open its detail card */
+  openProduct: (productId: number) => void;
+  openCart: () => void;
+  toggleCart: () => void;
+  openWatchlist: () => void;
+  toggleWatchlist: () => void;
+  /** Open checkout in front of the cart */
+  openCheckout: () => void;
+  openOrders: () => void;
+  toggleOrders: () => void;
+  /** Close an overlay, or the one in front */
+  closeView: (overlay?: NavigationOverlay) => void;
+  setBoundaryBehavior: (behavior: BoundaryBehavior) => void;
   refreshProducts: () => Promise<void>;
 }
 
+/**
+ * Filter products by search query and category
+ * Search results are ranked by relevance; otherwise catalog order is kept.
+ */
+function selectBaseProducts(
+  products: Product[],
+  searchIndex: SearchIndex,
+  searchQuery: string,
+  category: ProductCategory | 'all'
+): Product[] {
+  const matches = isSearchableQuery(searchQuery)
+    ? querySearchIndex(searchIndex, searchQuery).map((result) => result.product)
+    : products;
+
+  // Requirement 3.5: Show all products when 'all' is selected
+  if (category === 'all') {
+    return matches;
+  }
+  return matches.filter((product) => product.category === category);
+}
+
 /**
  * Custom hook for managing product state
  * 
@@ -54,49 +172,66 @@ export interface UseProductsReturn {
 export function useProducts(): UseProductsReturn {
   // Product state
   const [products, setProducts] = useState<Product[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [currentProductIndex, setCurrentProductIndex] = useState<number>(0);
+  const [navigation, dispatchNavigation] = useReducer(navigationReducer, INITIAL_NAVIGATION_STATE);
   
   // Loading and error state
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [errorContext, setErrorContext] = useState<ErrorContext | null>(null);
+  const [cacheStatus, setCacheStatus] = useState<ProductCacheStatus | null>(null);
   
   // Category filter state
   const [activeCategory, setActiveCategory] = useState<ProductCategory | 'all'>('all');
+  
+  // Search state
+  const [searchQuery, setSearchQueryState] = useState<string>('');
+  
+  // Sort and facet state
+  const [productQuery, setProductQuery] = useState<ProductQuery>(DEFAULT_PRODUCT_QUERY);
+  
+  // Controller for the load in flight, aborted when superseded or on unmount
+  const loadControllerRef = useRef<AbortController | null>(null);
 
   /**
    * Fetches products from the API
    * Requirement 2.2: Show loading indicator during fetch
+   * Starting a new load cancels the previous one so results cannot arrive out of order.
    */
   const loadProducts = useCallback(async (forceRefresh: boolean = false) => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
     try {
       setIsLoading(true);
       setError(null);
+      setErrorContext(null);
       
-      const fetchedProducts = await fetchProductsWithCache(forceRefresh);
+      const fetchedProducts = await fetchProductsWithCache(forceRefresh, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+
       setProducts(fetchedProducts);
-      
-      // If no category filter is active, show all products
-      if (activeCategory === 'all') {
-        setFilteredProducts(fetchedProducts);
-      } else {
-        // Apply current category filter
-        const filtered = fetchedProducts.filter(
-          (product) => product.category === activeCategory
-        );
-        setFilteredProducts(filtered);
-      }
+      setCacheStatus(getCacheStatus());
       
       setIsLoading(false);
     } catch (err) {
+      // A newer load (or unmount) took over; it owns the loading state
+      if (controller.signal.aborted || isAbortError(err)) return;
+
       const errorMessage = err instanceof Error ? err.message : 'Failed to load products';
+      const context = classifyFetchError(err);
       setError(errorMessage);
+      setErrorContext(context);
       setIsLoading(false);
       
-      // Log error for debugging (Requirement 10.5)
-      console.error('[useProducts] Error loading products:', err);
+      // Log and broadcast the error (Requirements 10.4, 10.5)
+      handleError(err instanceof Error ? err : new Error(errorMessage), context);
+    } finally {
+      if (loadControllerRef.current === controller) {
+        loadControllerRef.current = null;
+      }
     }
-  }, [activeCategory]);
+  }, []);
 
   /**
    * Initial product fetch on mount
@@ -104,69 +239,176 @@ export function useProducts(): UseProductsReturn {
    */
   useEffect(() => {
     loadProducts();
+
+    return () => {
+      loadControllerRef.current?.abort();
+    };
   }, [loadProducts]);
 
   /**
-   * Apply category filter to products
+   * Pick up background refreshes of cached products
+   */
+  useEffect(() => {
+    return subscribeToProductCache((status, cachedProducts) => {
+      setCacheStatus(status);
+      if (cachedProducts) {
+        setProducts(cachedProducts);
+      }
+    });
+  }, []);
+
+  /**
+   * Search index over the full catalog, rebuilt only when products change
+   */
+  const searchIndex = useMemo(() => buildSearchIndex(products), [products]);
+
+  /**
+   * Products matching the category filter and search query
    * Requirement 3.1: Filter products by category
-   * Requirement 9.1: Support filtering by electronics, jewelery, men's clothing, women's clothing
    * Requirement 9.2: Show only products in selected category
    */
+  const baseProducts = useMemo(
+    () => selectBaseProducts(products, searchIndex, searchQuery, activeCategory),
+    [products, searchIndex, searchQuery, activeCategory]
+  );
+
+  /**
+   * Facet counts for the category and search results, before facets are applied
+   */
+  const facetCounts = useMemo(() => getFacetCounts(baseProducts), [baseProducts]);
+
+  /**
+   * Products visible after facet filters and sorting
+   */
+  const filteredProducts = useMemo(
+    () => applyProductQuery(baseProducts, productQuery),
+    [baseProducts, productQuery]
+  );
+
+  /**
+   * IDs of the visible products, in display order, for navigation moves
+   */
+  const productIds = useMemo(() => filteredProducts.map((product) => product.id), [filteredProducts]);
+
+  /**
+   * Compute the product list for other settings, e.g. to report a result count
+   * before the state update has rendered
+   */
+  const previewProducts = useCallback((preview: ProductListPreview) => {
+    const base = selectBaseProducts(
+      products,
+      searchIndex,
+      preview.searchQuery ?? searchQuery,
+      preview.category ?? activeCategory
+    );
+    return applyProductQuery(base, preview.productQuery ?? productQuery);
+  }, [products, searchIndex, searchQuery, activeCategory, productQuery]);
+
+  /**
+   * Apply category filter to products
+   * Requirement 3.1: Filter products by category
+   * Requirement 9.1: Support filtering by any catalog category
+   */
   const setCategory = useCallback((category: ProductCategory | 'all') => {
     setActiveCategory(category);
     
-    if (category === 'all') {
-      // Requirement 3.5: Show all products when 'all' is selected
-      setFilteredProducts(products);
-    } else {
-      // Filter products by selected category
-      const filtered = products.filter((product) => product.category === category);
-      setFilteredProducts(filtered);
-    }
-    
     // Requirement 9.5: Reset to first product when switching categories
-    setCurrentProductIndex(0);
-  }, [products]);
+    dispatchNavigation({ type: 'resetList' });
+  }, []);
 
   /**
-   * Set current product index with bounds checking
+   * Set the free-text search query (empty string clears the search)
    */
-  const setCurrentIndex = useCallback((index: number) => {
-    if (filteredProducts.length === 0) {
-      setCurrentProductIndex(0);
-      return;
-    }
+  const setSearchQuery = useCallback((query: string) => {
+    setSearchQueryState(query);
     
-    // Clamp index to valid range
-    const clampedIndex = Math.max(0, Math.min(index, filteredProducts.length - 1));
-    setCurrentProductIndex(clampedIndex);
-  }, [filteredProducts.length]);
+    // Start from the best match
+    dispatchNavigation({ type: 'resetList' });
+  }, []);
 
   /**
-   * Navigate to next product
-   * Requirement 3.2: Navigate to next product
+   * Change the sort order and/or facet filters
+   * Omitted fields keep their current value; pass null to clear one.
    */
-  const nextProduct = useCallback(() => {
-    if (filteredProducts.length === 0) return;
-    
-    // Wrap to first product if at end
-    const nextIndex = (currentProductIndex + 1) % filteredProducts.length;
-    setCurrentProductIndex(nextIndex);
-  }, [currentProductIndex, filteredProducts.length]);
+  const updateProductQuery = useCallback((update: ProductQueryUpdate) => {
+    setProductQuery((current) => mergeProductQuery(current, update));
+    dispatchNavigation({ type: 'resetList' });
+  }, []);
 
   /**
-   * Navigate to previous product
-   * Requirement 3.3: Navigate to previous product
+   * Clear the sort order and every facet filter
    */
-  const previousProduct = useCallback(() => {
-    if (filteredProducts.length === 0) return;
-    
-    // Wrap to last product if at beginning
-    const prevIndex = currentProductIndex === 0 
-      ? filteredProducts.length - 1 
-      : currentProductIndex - 1;
-    setCurrentProductIndex(prevIndex);
-  }, [currentProductIndex, filteredProducts.length]);
+  const resetProductQuery = useCallback(() => {
+    setProductQuery(DEFAULT_PRODUCT_QUERY);
+    dispatchNavigation({ type: 'resetList' });
+  }, []);
+
+  /**
+   * Focus the product at an index, clamped to the list
+   */
+  const setCurrentIndex = useCallback((index: number) => {
+    dispatchNavigation({ type: 'focusIndex', index, productIds });
+  }, [productIds]);
+
+  /**
+   * Move the focus to the next or previous product
+   * Requirement 3.2, 3.3: Navigate between products
+   * Requirement 4.5, 4.6: Ends of the list follow the boundary behavior
+   */
+  const moveFocus = useCallback((direction: NavigationDirection): Product | null => {
+    if (filteredProducts.length === 0) return null;
+
+    dispatchNavigation({ type: 'move', direction, productIds });
+    return filteredProducts[getMoveTargetIndex(navigation, productIds, direction)];
+  }, [filteredProducts, productIds, navigation]);
+
+  const nextProduct = useCallback(() => moveFocus('next'), [moveFocus]);
+
+  const previousProduct = useCallback(() => moveFocus('previous'), [moveFocus]);
+
+  const focusProduct = useCallback((productId: number) => {
+    dispatchNavigation({ type: 'focus', productId });
+  }, []);
+
+  const openProduct = useCallback((productId: number) => {
+    dispatchNavigation({ type: 'openProduct', productId });
+  }, []);
+
+  const openCart = useCallback(() => {
+    dispatchNavigation({ type: 'openCart' });
+  }, []);
+
+  const toggleCart = useCallback(() => {
+    dispatchNavigation({ type: 'toggleCart' });
+  }, []);
+
+  const openWatchlist = useCallback(() => {
+    dispatchNavigation({ type: 'openWatchlist' });
+  }, []);
+
+  const toggleWatchlist = useCallback(() => {
+    dispatchNavigation({ type: 'toggleWatchlist' });
+  }, []);
+
+  const openCheckout = useCallback(() => {
+    dispatchNavigation({ type: 'openCheckout' });
+  }, []);
+
+  const openOrders = useCallback(() => {
+    dispatchNavigation({ type: 'openOrders' });
+  }, []);
+
+  const toggleOrders = useCallback(() => {
+    dispatchNavigation({ type: 'toggleOrders' });
+  }, []);
+
+  const closeView = useCallback((overlay?: NavigationOverlay) => {
+    dispatchNavigation({ type: 'close', overlay });
+  }, []);
+
+  const setBoundaryBehavior = useCallback((boundary: BoundaryBehavior) => {
+    dispatchNavigation({ type: 'setBoundary', boundary });
+  }, []);
 
   /**
    * Force refresh products from API
@@ -177,11 +419,28 @@ export function useProducts(): UseProductsReturn {
   }, [loadProducts]);
 
   /**
-   * Get current product or null if no products
+   * Categories present in the loaded catalog
+   * Requirement 9.1: Support filtering by every catalog category
+   */
+  const categories = useMemo(() => discoverCategories(products), [products]);
+
+  /**
+   * Whether the visible products are expired or served because the catalog is unreachable
+   */
+  const isShowingCachedData = cacheStatus !== null && cacheStatus.isCached && (
+    cacheStatus.lastError !== null || (cacheStatus.isExpired && !cacheStatus.isRevalidating)
+  );
+
+  /**
+   * Whether the loaded products can be trusted to list every product that exists
    */
-  const currentProduct = filteredProducts.length > 0 
-    ? filteredProducts[currentProductIndex] 
-    : null;
+  const isCatalogCurrent = cacheStatus !== null && !cacheStatus.isExpired && cacheStatus.lastError === null;
+
+  /**
+   * Focused product, or null if no products
+   */
+  const currentProductIndex = getFocusedIndex(navigation, productIds);
+  const currentProduct = filteredProducts[currentProductIndex] ?? null;
 
   return {
     // Product data
@@ -190,18 +449,58 @@ export function useProducts(): UseProductsReturn {
     currentProduct,
     currentProductIndex,
     
+    // Navigation
+    view: getFrontView(navigation),
+    isDetailOpen: isOverlayOpen(navigation, 'detail'),
+    isCartOpen: isOverlayOpen(navigation, 'cart'),
+    isWatchlistOpen: isOverlayOpen(navigation, 'watchlist'),
+    isCheckoutOpen: isOverlayOpen(navigation, 'checkout'),
+    isOrdersOpen: isOverlayOpen(navigation, 'orders'),
+    boundaryBehavior: navigation.boundary,
+    hasNext: canMove(navigation, productIds, 'next'),
+    hasPrevious: canMove(navigation, productIds, 'previous'),
+    
     // State flags
     isLoading,
     error,
+    errorContext,
+    
+    // Cache state
+    cacheStatus,
+    isShowingCachedData,
+    isCatalogCurrent,
     
     // Category filter
     activeCategory,
+    categories,
+    
+    // Search
+    searchQuery,
+    
+    // Sort and facets
+    productQuery,
+    facetCounts,
+    previewProducts,
     
     // Actions
     setCategory,
+    setSearchQuery,
+    updateProductQuery,
+    resetProductQuery,
     setCurrentIndex,
     nextProduct,
     previousProduct,
+    focusProduct,
+    openProduct,
+    openCart,
+    toggleCart,
+    openWatchlist,
+    toggleWatchlist,
+    openCheckout,
+    openOrders,
+    toggleOrders,
+    closeView,
+    setBoundaryBehavior,
     refreshProducts,
   };
 }
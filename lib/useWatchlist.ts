@@ -0,0 +1,137 @@
+/**
+ * useWatchlist custom hook for seller watchlist state
+ *
+ * This hook manages the watchlist (see watchlistUtils.ts) including:
+ * - Watchlist operations (add, remove, update note and target price, clear)
+ * - localStorage persistence
+ * - Integration with product data for restoring the watchlist
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Product, WatchlistItem, WatchlistState } from './types';
+import {
+  addToWatchlist as addToWatchlistUtil,
+  removeFromWatchlist as removeFromWatchlistUtil,
+  updateWatchlistItem,
+  clearWatchlist as clearWatchlistUtil,
+  isProductWatched as isProductWatchedUtil,
+  getWatchlistItem as getWatchlistItemUtil,
+  saveWatchlist,
+  loadWatchlist,
+  WatchlistItemDetails,
+} from './watchlistUtils';
+
+/**
+ * Return type for useWatchlist hook
+ */
+export interface UseWatchlistReturn {
+  // Watchlist state
+  watchlist: WatchlistState;
+  watchCount: number;
+
+  // Watchlist operations
+  addToWatchlist: (product: Product, details?: WatchlistItemDetails) => void;
+  removeFromWatchlist: (productId: number) => void;
+  updateWatchlistDetails: (productId: number, details: WatchlistItemDetails) => void;
+  clearWatchlist: () => void;
+
+  // Watchlist queries
+  isProductWatched: (productId: number) => boolean;
+  getWatchlistItem: (productId: number) => WatchlistItem | undefined;
+}
+
+/**
+ * Custom hook for managing the seller watchlist
+ *
+ * @param products - Array of all available products (needed to restore the watchlist from localStorage)
+ * @returns UseWatchlistReturn object with watchlist state and operations
+ */
+export function useWatchlist(products: Product[] = []): UseWatchlistReturn {
+  const [watchlist, setWatchlist] = useState<WatchlistState>(clearWatchlistUtil);
+
+  // Whether the saved watchlist has been read, so the empty initial state never overwrites it
+  const hasLoadedRef = useRef(false);
+
+  /**
+   * Load watchlist from localStorage once products are available
+   */
+  useEffect(() => {
+    if (products.length > 0) {
+      setWatchlist(loadWatchlist(products));
+      hasLoadedRef.current = true;
+    }
+  }, [products]);
+
+  /**
+   * Save watchlist to localStorage whenever it changes
+   */
+  useEffect(() => {
+    if (hasLoadedRef.current) {
+      saveWatchlist(watchlist);
+    }
+  }, [watchlist]);
+
+  /**
+   * Track a product, or update the details of one already tracked
+   */
+  const addToWatchlist = useCallback((product: Product, details: WatchlistItemDetails = {}) => {
+    try {
+      setWatchlist((prev) => addToWatchlistUtil(prev, product, details));
+    } catch (error) {
+      console.error('[useWatchlist] Error adding to watchlist:', error);
+      throw error;
+    }
+  }, []);
+
+  /**
+   * Stop tracking a product
+   */
+  const removeFromWatchlist = useCallback((productId: number) => {
+    setWatchlist((prev) => removeFromWatchlistUtil(prev, productId));
+  }, []);
+
+  /**
+   * Change the note or target price of a tracked product
+   */
+  const updateWatchlistDetails = useCallback((productId: number, details: WatchlistItemDetails) => {
+    try {
+      setWatchlist((prev) => updateWatchlistItem(prev, productId, details));
+    } catch (error) {
+      console.error('[useWatchlist] Error updating watchlist item:', error);
+      throw error;
+    }
+  }, []);
+
+  /**
+   * Stop tracking every product
+   */
+  const clearWatchlist = useCallback(() => {
+    setWatchlist(clearWatchlistUtil());
+  }, []);
+
+  const isProductWatched = useCallback((productId: number): boolean => {
+    return isProductWatchedUtil(watchlist, productId);
+  }, [watchlist]);
+
+  const getWatchlistItem = useCallback((productId: number): WatchlistItem | undefined => {
+    return getWatchlistItemUtil(watchlist, productId);
+  }, [watchlist]);
+
+  return {
+    // Watchlist state
+    watchlist,
+    watchCount: watchlist.items.length,
+
+    // Watchlist operations
+    addToWatchlist,
+    removeFromWatchlist,
+    updateWatchlistDetails,
+    clearWatchlist,
+
+    // Watchlist queries
+    isProductWatched,
+    getWatchlistItem,
+  };
+}
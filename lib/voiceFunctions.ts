@@ -17,15 +17,9 @@ import {
   Role 
 } from 'ultravox-client';
 import { UltravoxCallConfig, UltravoxCallResponse } from './ultravox-types';
-import { 
-  updateCartToolImplementation,
-  navigateProductToolImplementation,
-  filterCategoryToolImplementation,
-  readProductDetailsToolImplementation,
-  readCartSummaryToolImplementation,
-  closeProductToolImplementation,
-  openCartToolImplementation
-} from './clientTools';
+import { registerClientTools } from './clientTools';
+import { APP_EVENTS, emit } from './eventBus';
+import { Persona } from './personas';
 
 /**
  * Global Ultravox session instance
@@ -51,6 +45,7 @@ export interface VoiceCallbacks {
  * Create a new Ultravox call via the API route
  * 
  * @param callConfig - Configuration for the Ultravox call
+ * @param persona - Persona the call is for; only its tools are registered
  * @param showDebugMessages - Whether to log debug messages to console
  * @returns Promise resolving to call response with joinUrl
  * @throws Error if API call fails
@@ -109,6 +104,7 @@ async function createCall(
  * 
  * @param callbacks - Callback functions for session events
  * @param callConfig - Configuration for the Ultravox call
+ * @param persona - Persona the call is for; only its tools are registered
  * @param showDebugMessages - Whether to log debug messages to console
  * @returns Promise that resolves when call is started
  * @throws Error if call creation or joining fails
@@ -119,6 +115,7 @@ async function createCall(
 export async function startCall(
   callbacks: VoiceCallbacks,
   callConfig: UltravoxCallConfig,
+  persona: Persona,
   showDebugMessages?: boolean
 ): Promise<void> {
   // Prevent multiple simultaneous call creation attempts
@@ -188,13 +185,7 @@ export async function startCall(
 
     // Register client tool implementations
     console.log('[startCall] Registering client tool implementations...');
-    uvSession.registerToolImplementation('updateCart', updateCartToolImplementation);
-    uvSession.registerToolImplementation('navigateProduct', navigateProductToolImplementation);
-    uvSession.registerToolImplementation('filterCategory', filterCategoryToolImplementation);
-    uvSession.registerToolImplementation('readProductDetails', readProductDetailsToolImplementation);
-    uvSession.registerToolImplementation('readCartSummary', readCartSummaryToolImplementation);
-    uvSession.registerToolImplementation('closeProduct', closeProductToolImplementation);
-    uvSession.registerToolImplementation('openCart', openCartToolImplementation);
+    registerClientTools(uvSession, persona);
 
     if (showDebugMessages) {
       console.log('[startCall] Ultravox session created and tools registered');
@@ -255,11 +246,8 @@ export async function endCall(): Promise<void> {
     }
   }
 
-  // Dispatch custom event to notify UI components that call has ended
-  if (typeof window !== 'undefined') {
-    const event = new CustomEvent('jarvis:call:ended');
-    window.dispatchEvent(event);
-  }
+  // Notify UI components that the call has ended
+  emit(APP_EVENTS.CALL_ENDED, {});
 }
 
 /**
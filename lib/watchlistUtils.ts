@@ -0,0 +1,218 @@
+/**
+ * Watchlist utility functions for Jarvis Shopping Assistant
+ *
+ * The watchlist is the seller's list of tracked products, kept apart from the
+ * buyer's shopping cart: items have notes, a target price and the demand tag
+ * they had when added, but no quantities or subtotal. This file contains the
+ * add, remove, update and clear operations and localStorage persistence.
+ */
+
+import { Product, PersistedWatchlist, WatchlistItem, WatchlistState, getProductTag } from './types';
+import { convertToINR } from './currency';
+
+/**
+ * localStorage key for the watchlist
+ */
+export const WATCHLIST_STORAGE_KEY = 'jarvis-watchlist';
+
+/**
+ * Longest note kept for a watchlist item
+ */
+export const MAX_WATCHLIST_NOTE_LENGTH = 200;
+
+/**
+ * Note and target price for a watchlist item
+ * Omitted fields keep their current value.
+ */
+export interface WatchlistItemDetails {
+  note?: string;
+  /** Target price in INR, or null to clear it */
+  targetPrice?: number | null;
+}
+
+/**
+ * Check and normalize item details
+ * Throws if the target price is not a positive amount.
+ */
+function normalizeDetails(details: WatchlistItemDetails): WatchlistItemDetails {
+  const { note, targetPrice } = details;
+  if (targetPrice !== undefined && targetPrice !== null && (!Number.isFinite(targetPrice) || targetPrice <= 0)) {
+    throw new Error('Target price must be greater than 0');
+  }
+  return {
+    ...(note !== undefined ? { note: note.trim().slice(0, MAX_WATCHLIST_NOTE_LENGTH) } : {}),
+    ...(targetPrice !== undefined ? { targetPrice } : {}),
+  };
+}
+
+/**
+ * Start tracking a product
+ * A product already on the watchlist keeps its added date and tag; only the
+ * given details are updated.
+ *
+ * @param watchlist - Current watchlist
+ * @param product - Product to track
+ * @param details - Optional note and target price
+ * @param now - Time the product is added
+ * @returns Updated watchlist
+ */
+export function addToWatchlist(
+  watchlist: WatchlistState,
+  product: Product,
+  details: WatchlistItemDetails = {},
+  now: Date = new Date()
+): WatchlistState {
+  const normalized = normalizeDetails(details);
+
+  if (isProductWatched(watchlist, product.id)) {
+    return updateWatchlistItem(watchlist, product.id, normalized);
+  }
+
+  const item: WatchlistItem = {
+    product,
+    addedAt: now.toISOString(),
+    note: normalized.note ?? '',
+    targetPrice: normalized.targetPrice ?? null,
+    tagWhenAdded: getProductTag(product),
+  };
+  return { items: [...watchlist.items, item] };
+}
+
+/**
+ * Stop tracking a product
+ *
+ * @param watchlist - Current watchlist
+ * @param productId - ID of product to remove
+ * @returns Updated watchlist
+ */
+export function removeFromWatchlist(watchlist: WatchlistState, productId: number): WatchlistState {
+  return { items: watchlist.items.filter((item) => item.product.id !== productId) };
+}
+
+/**
+ * Change the note or target price of a tracked product
+ *
+ * @param watchlist - Current watchlist
+ * @param productId - ID of the tracked product
+ * @param details - Fields to change
+ * @returns Updated watchlist
+ */
+export function updateWatchlistItem(
+  watchlist: WatchlistState,
+  productId: number,
+  details: WatchlistItemDetails
+): WatchlistState {
+  const normalized = normalizeDetails(details);
+  return {
+    items: watchlist.items.map((item) =>
+      item.product.id === productId ? { ...item, ...normalized } : item
+    ),
+  };
+}
+
+/**
+ * Create an empty watchlist
+ *
+ * @returns Empty watchlist state
+ */
+export function clearWatchlist(): WatchlistState {
+  return { items: [] };
+}
+
+/**
+ * Check if a product is on the watchlist
+ *
+ * @param watchlist - Watchlist state
+ * @param productId - Product ID to check
+ * @returns True if the product is tracked
+ */
+export function isProductWatched(watchlist: WatchlistState, productId: number): boolean {
+  return watchlist.items.some((item) => item.product.id === productId);
+}
+
+/**
+ * Get the watchlist entry for a product
+ *
+ * @param watchlist - Watchlist state
+ * @param productId - Product ID to look up
+ * @returns The entry, or undefined if the product is not tracked
+ */
+export function getWatchlistItem(watchlist: WatchlistState, productId: number): WatchlistItem | undefined {
+  return watchlist.items.find((item) => item.product.id === productId);
+}
+
+/**
+ * Check whether a tracked product is at or below its target price
+ *
+ * @param item - Watchlist entry
+ * @returns True if a target price is set and reached
+ */
+export function isAtTargetPrice(item: WatchlistItem): boolean {
+  return item.targetPrice !== null && convertToINR(item.product.price) <= item.targetPrice;
+}
+
+/**
+ * Save watchlist to localStorage
+ *
+ * @param watchlist - Watchlist state to save
+ */
+export function saveWatchlist(watchlist: WatchlistState): void {
+  try {
+    const persisted: PersistedWatchlist = {
+      items: watchlist.items.map(({ product, addedAt, note, targetPrice, tagWhenAdded }) => ({
+        productId: product.id,
+        addedAt,
+        note,
+        targetPrice,
+        tagWhenAdded,
+      })),
+      lastUpdated: new Date().toISOString(),
+    };
+
+    localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(persisted));
+  } catch (error) {
+    // Handle localStorage quota exceeded or other errors
+    console.error('Failed to save watchlist to localStorage:', error);
+  }
+}
+
+/**
+ * Load watchlist from localStorage
+ *
+ * @param products - Array of all available products (needed to reconstruct items)
+ * @returns Loaded watchlist, or an empty one if not found/invalid
+ */
+export function loadWatchlist(products: Product[]): WatchlistState {
+  try {
+    const savedData = localStorage.getItem(WATCHLIST_STORAGE_KEY);
+
+    if (!savedData) {
+      return clearWatchlist();
+    }
+
+    const persisted: PersistedWatchlist = JSON.parse(savedData);
+
+    // Reconstruct items by matching product IDs; products no longer in the catalog are dropped
+    const items = persisted.items
+      .map((saved): WatchlistItem | null => {
+        const product = products.find((p) => p.id === saved.productId);
+        if (!product) {
+          return null;
+        }
+        return {
+          product,
+          addedAt: saved.addedAt,
+          note: saved.note ?? '',
+          targetPrice: saved.targetPrice ?? null,
+          tagWhenAdded: saved.tagWhenAdded ?? null,
+        };
+      })
+      .filter((item): item is WatchlistItem => item !== null);
+
+    return { items };
+  } catch (error) {
+    // Handle JSON parse errors or other issues
+    console.error('Failed to load watchlist from localStorage:', error);
+    return clearWatchlist();
+  }
+}